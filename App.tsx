@@ -1,34 +1,86 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Transaction, TransactionType } from './types';
+import { Transaction, TransactionType, PeriodClose, PeriodLogEntry, UserRole, RepairStatus, PaymentStatus, Vendor, Material, Machine, Budget, Requisition, Receipt, ReportDefinition } from './types';
 import TransactionForm from './components/TransactionForm';
 import RepairForm from './components/RepairForm';
 import BatchAddForm from './components/BatchAddForm';
 import Dashboard from './components/Dashboard';
 import LoginScreen from './components/LoginScreen';
+import InventoryView from './components/InventoryView';
+import PeriodClosePanel from './components/PeriodClosePanel';
+import RecordHistory from './components/RecordHistory';
+import RecycleBinView from './components/RecycleBinView';
+import OutboxPanel from './components/OutboxPanel';
+import UserAdminView from './components/UserAdminView';
+import ChangePasswordModal from './components/ChangePasswordModal';
+import RepairTurnaroundReport from './components/RepairTurnaroundReport';
+import VendorView from './components/VendorView';
+import MaterialCatalogView from './components/MaterialCatalogView';
+import MachineRegistryView from './components/MachineRegistryView';
+import MachineDetailView from './components/MachineDetailView';
+import SerialGenealogyView from './components/SerialGenealogyView';
+import RequisitionView from './components/RequisitionView';
+import ReceiptModal from './components/ReceiptModal';
+import QueryChips from './components/QueryChips';
+import ReportBuilderView from './components/ReportBuilderView';
 import { dbService } from './services/dbService';
-import { exportToExcel } from './services/reportService';
+import { outboxService, OutboxStatus } from './services/outboxService';
+import { exportToExcel, exportSettlementPdf } from './services/reportService';
+import { getLockedPeriods, isDateLocked } from './services/settlementService';
+import { WriteResult, VendorState, RequisitionDraft, ReceiptDraft } from './services/storage';
+import { can, canViewTab, ROLE_LABELS } from './services/permissions';
+import { getRepairStatus, isRepairOpen } from './services/repairService';
+import { buildReceiptIndex, RECEIPT_STATUS_BADGES } from './services/receiptService';
+import { validateAgainstCatalog, MATERIAL_ISSUE_LABELS, MACHINE_CATEGORIES } from './services/materialService';
+import { findSerialConflicts } from './services/serialService';
+import { parseRecordQuery } from './services/geminiService';
+import { RecordQuery, QueryVocabulary, isEmptyQuery, matchesRecordQuery } from './services/searchQueryService';
+import { clearAnalysisHistory } from './services/analysisHistoryService';
 
 const getTaipeiDate = (dateInput?: string | Date): string => {
   const d = dateInput ? new Date(dateInput) : new Date();
   return d.toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
 };
 
+const REPAIR_BADGES: Record<RepairStatus, string> = {
+  [RepairStatus.PENDING]: 'bg-slate-100 text-slate-500',
+  [RepairStatus.SENT]: 'bg-amber-100 text-amber-600',
+  [RepairStatus.REPAIRED]: 'bg-emerald-100 text-emerald-600',
+  [RepairStatus.INSTALLED]: 'bg-indigo-100 text-indigo-600',
+  [RepairStatus.SCRAPPED]: 'bg-rose-100 text-rose-600'
+};
+
 const ITEMS_PER_PAGE = 15;
 const INACTIVITY_LIMIT = 5 * 60 * 1000; // 5 分鐘 (毫秒)
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<string | null>(() => sessionStorage.getItem('wms_current_user'));
+  // 角色僅用於畫面顯示控制，實際權限由後端 doPost 再次檢查
+  const [currentRole, setCurrentRole] = useState<UserRole | null>(() => sessionStorage.getItem('wms_current_role') as UserRole | null);
   const [transactions, setTransactions] = useState<Transaction[]>(() => {
     const saved = localStorage.getItem('wms_cache_data');
     return saved ? JSON.parse(saved) : [];
   });
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'records' | 'repairs' | 'batch'>(
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'records' | 'repairs' | 'inventory' | 'batch' | 'recycle' | 'users' | 'vendors' | 'materials' | 'machines' | 'requisitions' | 'reports'>(
     (localStorage.getItem('ui_active_tab') as any) || 'dashboard'
   );
 
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
+  const [periodState, setPeriodState] = useState<{ periods: PeriodClose[]; log: PeriodLogEntry[] }>({ periods: [], log: [] });
+  const [outboxStatus, setOutboxStatus] = useState<OutboxStatus | null>(null);
+  const [vendorState, setVendorState] = useState<VendorState>({ vendors: [], payments: [] });
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [reports, setReports] = useState<ReportDefinition[]>([]);
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [focusRequisition, setFocusRequisition] = useState<string | null>(null);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [receivingRecord, setReceivingRecord] = useState<Transaction | null>(null);
+  const [batchPrefill, setBatchPrefill] = useState<Record<string, any>[] | null>(null);
+  const [viewingMachine, setViewingMachine] = useState<string | null>(null);
+  const [viewingSerial, setViewingSerial] = useState<string | null>(null);
 
   const [statusFilter, setStatusFilter] = useState<'all' | 'pending_inbound' | 'scrapped' | 'repairing'>('all');
   const [recordCategoryFilter, setRecordCategoryFilter] = useState<'all' | TransactionType.INBOUND | TransactionType.USAGE | TransactionType.CONSTRUCTION>('all');
@@ -36,6 +88,9 @@ const App: React.FC = () => {
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [keywordSearch, setKeywordSearch] = useState<string>('');
+  // 智慧搜尋：自然語言解析後的篩選條件，與上方篩選器同時套用
+  const [smartQuery, setSmartQuery] = useState<{ query: RecordQuery; parsedBy: string } | null>(null);
+  const [isParsingQuery, setIsParsingQuery] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
 
   const [selectedRepairMaterial, setSelectedRepairMaterial] = useState<string | null>(null);
@@ -44,9 +99,11 @@ const App: React.FC = () => {
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [pendingDelete, setPendingDelete] = useState<Transaction | null>(null);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const [showChangePassword, setShowChangePassword] = useState(false);
   
   // 匯出報表相關狀態
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const [exportConfig, setExportConfig] = useState({
     year: String(new Date().getFullYear()),
     month: String(new Date().getMonth() + 1).padStart(2, '0')
@@ -55,10 +112,15 @@ const App: React.FC = () => {
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const handleLogout = useCallback(() => {
+    // 登出 (含閒置自動登出) 時一併撤銷後端權杖
+    dbService.logout();
     sessionStorage.clear();
     localStorage.removeItem('wms_cache_data');
     localStorage.removeItem('ui_active_tab');
+    // 共用電腦上下一位登入者不應看到前一位的 AI 分析結果
+    clearAnalysisHistory();
     setCurrentUser(null);
+    setCurrentRole(null);
     setTransactions([]);
     setShowLogoutConfirm(false);
     setActiveTab('dashboard');
@@ -91,9 +153,18 @@ const App: React.FC = () => {
     if (!currentUser) return;
     setIsSyncing(true);
     try {
-      const data = await dbService.fetchAll();
+      const [data, periods, vendors, catalog, registry, budgetList, requisitionList, receiptList, reportList] = await Promise.all([dbService.fetchAll(), dbService.fetchPeriods(), dbService.fetchVendors(), dbService.fetchMaterials(), dbService.fetchMachines(), dbService.fetchBudgets(), dbService.fetchRequisitions(), dbService.fetchReceipts(), dbService.fetchReports()]);
+      setPeriodState(periods);
+      setVendorState(vendors);
+      setMaterials(catalog);
+      setMachines(registry);
+      setBudgets(budgetList);
+      setRequisitions(requisitionList);
+      setReceipts(receiptList);
+      setReports(reportList);
       if (data && data.length > 0) {
-        const formatted = data.map(t => ({ ...t, date: getTaipeiDate(t.date) }));
+        const merged = await outboxService.applyPending(data);
+        const formatted = merged.map(t => ({ ...t, date: getTaipeiDate(t.date) }));
         setTransactions(formatted);
         localStorage.setItem('wms_cache_data', JSON.stringify(formatted));
         setLastSyncTime(new Date().toLocaleTimeString('zh-TW'));
@@ -106,11 +177,38 @@ const App: React.FC = () => {
   }, [currentUser]);
 
   useEffect(() => {
-    if (currentUser) {
-      loadData();
-    }
+    // 離線佇列只套用並重送目前帳號的異動；登出後佇列保留，待同一帳號再登入
+    outboxService.setUser(currentUser).then(() => {
+      if (currentUser) {
+        loadData();
+        outboxService.flush();
+      }
+    });
   }, [currentUser, loadData]);
 
+  useEffect(() => outboxService.subscribe(setOutboxStatus), []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    dbService.onUnauthorized(message => {
+      handleLogout();
+      alert(`🔒 ${message}`);
+    });
+    return () => dbService.onUnauthorized(null);
+  }, [currentUser, handleLogout]);
+
+  useEffect(() => {
+    // 缺少角色或權杖的舊登入狀態需重新登入
+    if (currentUser && (!currentRole || !dbService.hasSession())) handleLogout();
+    else if (currentRole && !canViewTab(currentRole, activeTab)) setActiveTab('dashboard');
+  }, [currentUser, currentRole, activeTab, handleLogout]);
+
+  // 離線佇列於背景送出成功後重新載入，以取得伺服器上的最新版本號
+  const lastCommitAt = outboxStatus?.lastCommitAt;
+  useEffect(() => {
+    if (lastCommitAt) loadData();
+  }, [lastCommitAt, loadData]);
+
   const availableYears = useMemo(() => {
     const years = new Set<string>();
     const currentYear = new Date().getFullYear();
@@ -122,16 +220,29 @@ const App: React.FC = () => {
     return Array.from(years).sort((a, b) => b.localeCompare(a));
   }, [transactions]);
 
+  const lockedPeriods = useMemo(() => getLockedPeriods(periodState.periods), [periodState.periods]);
+  const isLocked = (t: Transaction) => isDateLocked(lockedPeriods, t.date);
+  // 讀回的紀錄逐筆比對料件主檔，標示未建檔或名稱不一致者
+  const catalogIssues = useMemo(() => validateAgainstCatalog(transactions, materials), [transactions, materials]);
+  const serialConflicts = useMemo(() => findSerialConflicts(transactions), [transactions]);
+  const receiptIndex = useMemo(() => buildReceiptIndex(transactions, receipts), [transactions, receipts]);
+
   const isRepairs = activeTab === 'repairs';
   const isRecords = activeTab === 'records';
 
+  const queryVocabulary = useMemo<QueryVocabulary>(() => ({
+    machineCategories: Array.from(new Set([...MACHINE_CATEGORIES, ...transactions.map(t => t.machineCategory).filter(Boolean)])),
+    machineNumbers: Array.from(new Set(transactions.map(t => t.machineNumber).filter(Boolean))).sort(),
+    vendors: vendorState.vendors.map(v => v.name)
+  }), [transactions, vendorState.vendors]);
+
   const filteredList = useMemo(() => {
+    const outstanding = (t: Transaction) => receiptIndex.get(t.id)?.outstanding ?? 0;
     return transactions.filter(t => {
-      if (statusFilter !== 'all') {
-        if (statusFilter === 'pending_inbound') return t.type === TransactionType.INBOUND && t.isReceived === false;
-        if (statusFilter === 'scrapped') return t.isScrapped === true;
-        if (statusFilter === 'repairing') return t.type === TransactionType.REPAIR && !t.repairDate && !t.isScrapped;
-      }
+      // 狀態篩選只排除不符合的紀錄，分頁、智慧查詢、日期與關鍵字等條件仍須套用
+      if (statusFilter === 'pending_inbound' && !(t.type === TransactionType.INBOUND && outstanding(t) > 0)) return false;
+      if (statusFilter === 'scrapped' && t.isScrapped !== true) return false;
+      if (statusFilter === 'repairing' && !isRepairOpen(t)) return false;
       if (activeTab === 'records') {
         if (t.type === TransactionType.REPAIR || t.isScrapped === true) return false;
         if (recordCategoryFilter !== 'all' && t.type !== recordCategoryFilter) return false;
@@ -140,6 +251,7 @@ const App: React.FC = () => {
         if (t.type !== TransactionType.REPAIR) return false;
         if (selectedRepairMaterial && t.materialName !== selectedRepairMaterial) return false;
       }
+      if (smartQuery && !matchesRecordQuery(t, smartQuery.query, outstanding)) return false;
       if (startDate && t.date < startDate) return false;
       if (endDate && t.date > endDate) return false;
       const k = keywordSearch.toLowerCase().trim();
@@ -151,7 +263,30 @@ const App: React.FC = () => {
       }
       return true;
     }).sort((a, b) => b.date.slice(0, 10).localeCompare(a.date.slice(0, 10)));
-  }, [transactions, activeTab, statusFilter, recordCategoryFilter, startDate, endDate, keywordSearch, selectedRepairMaterial]);
+  }, [transactions, receiptIndex, activeTab, statusFilter, recordCategoryFilter, startDate, endDate, keywordSearch, smartQuery, selectedRepairMaterial]);
+
+  const handleSmartSearch = async () => {
+    const text = keywordSearch.trim();
+    if (!text || isParsingQuery) return;
+    setIsParsingQuery(true);
+    const parsed = await parseRecordQuery(text, queryVocabulary);
+    setIsParsingQuery(false);
+    if (isEmptyQuery(parsed.query)) return;
+    setKeywordSearch('');
+    setCurrentPage(1);
+    setViewScope('all');
+    setSmartQuery(parsed);
+    // 只查維修 (或只查非維修) 時切換到對應的分頁
+    const { types } = parsed.query;
+    const switchTo = (tab: 'records' | 'repairs') => { setActiveTab(tab); setStatusFilter('all'); };
+    if (activeTab === 'records' && types.length > 0 && types.every(t => t === TransactionType.REPAIR)) switchTo('repairs');
+    if (activeTab === 'repairs' && types.length > 0 && !types.includes(TransactionType.REPAIR)) switchTo('records');
+  };
+
+  const updateSmartQuery = (query: RecordQuery) => {
+    setSmartQuery(isEmptyQuery(query) ? null : { ...smartQuery!, query });
+    setCurrentPage(1);
+  };
 
   const displayedList = useMemo(() => {
     return viewScope === 'monthly' ? filteredList.slice(0, 10) : filteredList.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
@@ -159,28 +294,159 @@ const App: React.FC = () => {
 
   const totalPages = Math.ceil(filteredList.length / ITEMS_PER_PAGE);
 
-  const handleAction = async (tx: Transaction) => {
-    const isUpdate = transactions.some(t => t.id === tx.id);
-    const result = await (isUpdate ? dbService.update(tx) : dbService.save(tx));
-    if (result) {
-      setTransactions(prev => isUpdate ? prev.map(t => t.id === tx.id ? tx : t) : [tx, ...prev]);
-      setLastSyncTime(new Date().toLocaleTimeString('zh-TW'));
+  const alertWriteFailure = (res: WriteResult) => {
+    // 欄位檢查錯誤由表單就地顯示
+    if (res.fieldErrors || res.rowErrors) return;
+    // 權杖失效時已由工作階段通知登出並提示重新登入
+    if (res.unauthorized) return;
+    if (res.conflict) alert(`⚠️ 此紀錄已被其他人修改，請重新整理後再編輯。\n${res.message || ''}`);
+    else alert(`❌ 寫入失敗：${res.message || '伺服器拒絕此操作'}`);
+  };
+
+  const handleAction = async (tx: Transaction): Promise<WriteResult> => {
+    const original = transactions.find(t => t.id === tx.id);
+    const isUpdate = !!original;
+    if (isLocked(tx) || (original && isLocked(original))) {
+      const message = '此紀錄所屬月份已月結關帳，無法新增或修改。如需調整請先重新開帳。';
+      alert(`🔒 ${message}`);
+      return { ok: false, message };
     }
-    return result;
+    const res = await (isUpdate ? dbService.update(tx, original!.version) : dbService.save(tx));
+    if (res.ok) {
+      const saved = res.version !== undefined ? { ...tx, version: res.version } : tx;
+      setTransactions(prev => isUpdate ? prev.map(t => t.id === tx.id ? saved : t) : [saved, ...prev]);
+      if (!res.queued) setLastSyncTime(new Date().toLocaleTimeString('zh-TW'));
+    } else {
+      alertWriteFailure(res);
+    }
+    return res;
   };
 
   const confirmDelete = async () => {
     if (!pendingDelete) return;
-    const success = await dbService.delete(pendingDelete.id, pendingDelete.type);
-    if (success) {
+    if (isLocked(pendingDelete)) {
+      alert('🔒 此紀錄所屬月份已月結關帳，無法刪除。如需調整請先重新開帳。');
+      setPendingDelete(null);
+      return;
+    }
+    const res = await dbService.delete(pendingDelete.id, pendingDelete.type, currentUser!, pendingDelete.version);
+    if (res.ok) {
       setTransactions(prev => prev.filter(t => t.id !== pendingDelete.id));
       setPendingDelete(null);
-      setLastSyncTime(new Date().toLocaleTimeString('zh-TW'));
+      if (!res.queued) setLastSyncTime(new Date().toLocaleTimeString('zh-TW'));
+    } else {
+      alertWriteFailure(res);
     }
   };
 
+  const handleBatchSave = async (txList: Transaction[]): Promise<WriteResult> => {
+    const lockedRows = txList.filter(isLocked);
+    if (lockedRows.length > 0) {
+      const message = `有 ${lockedRows.length} 筆紀錄的日期位於已關帳月份，請修正後再同步。`;
+      alert(`🔒 ${message}`);
+      return { ok: false, message };
+    }
+    const res = await dbService.batchSave(txList);
+    if (res.ok && !res.queued) await loadData();
+    else if (res.ok) setTransactions(prev => [...txList, ...prev]);
+    else alertWriteFailure(res);
+    return res;
+  };
+
+  const handleClosePeriod = async (period: string) => {
+    const res = await dbService.closePeriod(period, currentUser!);
+    if (res.ok) setPeriodState(await dbService.fetchPeriods());
+    return res;
+  };
+
+  const handleReopenPeriod = async (period: string, reason: string) => {
+    const res = await dbService.reopenPeriod(period, currentUser!, reason);
+    if (res.ok) setPeriodState(await dbService.fetchPeriods());
+    return res;
+  };
+
+  const handleSaveVendor = async (vendor: Vendor) => {
+    const res = await dbService.saveVendor(vendor);
+    if (res.ok) setVendorState(await dbService.fetchVendors());
+    return res;
+  };
+
+  const handleSetVendorPayment = async (vendor: string, period: string, status: PaymentStatus) => {
+    const res = await dbService.setVendorPayment(vendor, period, status);
+    if (res.ok) setVendorState(await dbService.fetchVendors());
+    return res;
+  };
+
+  const handleSaveMaterials = async (list: Material[]) => {
+    const res = await dbService.saveMaterials(list);
+    if (res.ok) setMaterials(await dbService.fetchMaterials());
+    return res;
+  };
+
+  const handleSaveMachine = async (machine: Machine) => {
+    const res = await dbService.saveMachine(machine);
+    if (res.ok) setMachines(await dbService.fetchMachines());
+    return res;
+  };
+
+  const handleSaveBudget = async (budget: Budget) => {
+    const res = await dbService.saveBudget(budget);
+    if (res.ok) setBudgets(await dbService.fetchBudgets());
+    return res;
+  };
+
+  const handleSaveReport = async (report: ReportDefinition) => {
+    const res = await dbService.saveReport(report);
+    if (res.ok) setReports(await dbService.fetchReports());
+    return res;
+  };
+
+  const handleDeleteReport = async (name: string) => {
+    const res = await dbService.deleteReport(name);
+    if (res.ok) setReports(await dbService.fetchReports());
+    return res;
+  };
+
+  const handleSaveRequisition = async (draft: RequisitionDraft) => {
+    const res = await dbService.saveRequisition(draft);
+    if (res.ok) setRequisitions(await dbService.fetchRequisitions());
+    return res;
+  };
+
+  const handleDecideRequisition = async (id: string, decision: 'approved' | 'rejected', note: string) => {
+    const res = await dbService.decideRequisition(id, decision, note);
+    if (res.ok) setRequisitions(await dbService.fetchRequisitions());
+    return res;
+  };
+
+  // 轉為進貨後重新載入，取得後端產生的進貨紀錄
+  const handleOrderRequisition = async (id: string, date: string) => {
+    const res = await dbService.orderRequisition(id, date);
+    if (res.ok) await loadData();
+    return res;
+  };
+
+  // 收貨會同步更新進貨紀錄的到貨旗標與版本，因此重新載入全部資料
+  const handleRecordReceipt = async (draft: ReceiptDraft) => {
+    const res = await dbService.recordReceipt(draft);
+    if (res.ok) await loadData();
+    return res;
+  };
+
+  // 低庫存警示一鍵補貨：帶入批次新增的進貨列，確認後再同步
+  const openReorder = (rows: Record<string, any>[]) => {
+    setBatchPrefill(rows);
+    setActiveTab('batch');
+  };
+
+  const openRequisition = (id: string) => {
+    setFocusRequisition(id);
+    setActiveTab('requisitions');
+  };
+
   // 報表導出處理
-  const performExport = (mode: 'current' | 'custom') => {
+  // PDF 月結報表涵蓋該月所有類別 (含維修)，Excel 只匯出目前分頁的類別
+  const performExport = async (mode: 'current' | 'custom', format: 'xlsx' | 'pdf' = 'xlsx') => {
     let exportData = [];
     let fileName = '';
 
@@ -191,10 +457,12 @@ const App: React.FC = () => {
       const yearMonth = `${exportConfig.year}-${exportConfig.month}`;
       exportData = transactions.filter(t => {
         const matchesDate = t.date.startsWith(yearMonth);
-        const matchesTab = isRepairs ? t.type === TransactionType.REPAIR : t.type !== TransactionType.REPAIR;
+        const matchesTab = format === 'pdf' || (isRepairs ? t.type === TransactionType.REPAIR : t.type !== TransactionType.REPAIR);
         return matchesDate && matchesTab;
       });
-      fileName = isRepairs ? `倉儲維修報表_${exportConfig.year}_${exportConfig.month}` : `倉儲核銷報表_${exportConfig.year}_${exportConfig.month}`;
+      fileName = format === 'pdf'
+        ? `倉儲月結報表_${exportConfig.year}_${exportConfig.month}`
+        : isRepairs ? `倉儲維修報表_${exportConfig.year}_${exportConfig.month}` : `倉儲核銷報表_${exportConfig.year}_${exportConfig.month}`;
     }
 
     if (exportData.length === 0) {
@@ -202,7 +470,21 @@ const App: React.FC = () => {
       return;
     }
 
-    exportToExcel(exportData, fileName);
+    if (format === 'pdf') {
+      // 第一次產生 PDF 需下載中文字型，完成前停用按鈕
+      setIsExportingPdf(true);
+      try {
+        await exportSettlementPdf(exportData, {
+          title: mode === 'custom' ? `${exportConfig.year} 年 ${exportConfig.month} 月` : `${isRepairs ? '維修' : '核銷'}篩選結果 (${exportData.length} 筆)`,
+          preparedBy: currentUser || '',
+          filename: fileName
+        });
+      } finally {
+        setIsExportingPdf(false);
+      }
+    } else {
+      exportToExcel(exportData, fileName, receipts);
+    }
     setIsExportModalOpen(false);
   };
 
@@ -226,7 +508,7 @@ const App: React.FC = () => {
           <div className="flex items-center gap-3 shrink-0">
             <select value={statusFilter} onChange={e => {setStatusFilter(e.target.value as any); setCurrentPage(1);}} className="bg-white border border-slate-200 rounded-xl px-4 py-2 text-xs font-black outline-none text-slate-600 focus:border-indigo-500 shadow-sm h-[42px] min-w-[120px]">
               <option value="all">全部狀態</option>
-              {isRecords && <option value="pending_inbound">⏳ 尚未收貨</option>}
+              {isRecords && <option value="pending_inbound">⏳ 未到貨 / 部分到貨</option>}
               {isRepairs && (
                 <>
                   <option value="scrapped">💀 僅報廢</option>
@@ -253,9 +535,15 @@ const App: React.FC = () => {
         </button>
       </div>
       <div className="relative">
-        <input type="text" placeholder="搜尋料件、PN、SN 或機台編號..." value={keywordSearch} onChange={e => {setKeywordSearch(e.target.value); setCurrentPage(1);}} className="w-full pl-12 pr-4 py-3.5 bg-white border border-slate-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/5 outline-none focus:border-indigo-500 shadow-sm transition-all" />
+        <input type="text" placeholder="搜尋料件、PN、SN 或機台編號，或輸入「上個月 BA 機台維修超過 5000 的紀錄」後按 Enter 智慧搜尋..." value={keywordSearch} onChange={e => {setKeywordSearch(e.target.value); setCurrentPage(1);}} onKeyDown={e => { if (e.key === 'Enter') handleSmartSearch(); }} className="w-full pl-12 pr-36 py-3.5 bg-white border border-slate-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/5 outline-none focus:border-indigo-500 shadow-sm transition-all" />
         <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300 text-xl">🔍</span>
+        <button onClick={handleSmartSearch} disabled={!keywordSearch.trim() || isParsingQuery} className="absolute right-2 top-1/2 -translate-y-1/2 px-4 py-2 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 rounded-xl text-xs font-black transition-all disabled:opacity-40">
+          {isParsingQuery ? '解析中...' : '✨ 智慧搜尋'}
+        </button>
       </div>
+      {smartQuery && (
+        <QueryChips query={smartQuery.query} parsedBy={smartQuery.parsedBy} vocabulary={queryVocabulary} onChange={updateSmartQuery} onClear={() => {setSmartQuery(null); setCurrentPage(1);}} />
+      )}
     </div>
   );
 
@@ -273,7 +561,15 @@ const App: React.FC = () => {
     );
   };
 
-  if (!currentUser) return <LoginScreen onLogin={u => { setCurrentUser(u); sessionStorage.setItem('wms_current_user', u); loadData(); }} />;
+  if (!currentUser) return <LoginScreen onLogin={(u, role) => {
+    setCurrentUser(u);
+    setCurrentRole(role);
+    sessionStorage.setItem('wms_current_user', u);
+    sessionStorage.setItem('wms_current_role', role);
+    loadData();
+  }} />;
+
+  const canEdit = can(currentRole, 'edit');
 
   return (
     <div className="min-h-screen w-full flex flex-col lg:flex-row bg-[#f8fafc] font-['Noto_Sans_TC']">
@@ -283,7 +579,7 @@ const App: React.FC = () => {
           <h1 className="text-lg font-black tracking-wider">智慧倉儲月結</h1>
         </div>
         <nav className="space-y-1 flex-1">
-          {[{ id: 'dashboard', label: '📊 結算總覽' }, { id: 'records', label: '📄 核銷紀錄' }, { id: 'repairs', label: '🛠️ 維修中心' }, { id: 'batch', label: '📥 快速批次' }].map(item => (
+          {[{ id: 'dashboard', label: '📊 結算總覽' }, { id: 'records', label: '📄 核銷紀錄' }, { id: 'repairs', label: '🛠️ 維修中心' }, { id: 'inventory', label: '📦 庫存' }, { id: 'machines', label: '🎰 機台登錄' }, { id: 'vendors', label: '🏢 廠商對帳' }, { id: 'requisitions', label: '📝 請購單' }, { id: 'reports', label: '📑 自訂報表' }, { id: 'batch', label: '📥 快速批次' }, { id: 'recycle', label: '♻️ 回收桶' }, { id: 'materials', label: '🗂️ 料件主檔' }, { id: 'users', label: '👥 帳號管理' }].filter(item => canViewTab(currentRole, item.id)).map(item => (
             <button key={item.id} onClick={() => { setActiveTab(item.id as any); setStatusFilter('all'); setViewScope('monthly'); setCurrentPage(1); setSelectedRepairMaterial(null); }} className={`w-full text-left px-5 py-4 rounded-xl font-black transition-all ${activeTab === item.id ? 'bg-indigo-600 shadow-xl translate-x-1' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}>{item.label}</button>
           ))}
         </nav>
@@ -294,11 +590,17 @@ const App: React.FC = () => {
               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">系統同步狀態</span>
               <div className={`w-2 h-2 rounded-full ${isSyncing ? 'bg-amber-400 animate-pulse' : 'bg-emerald-500'}`}></div>
             </div>
+            <p className="text-[11px] font-bold text-slate-300 mb-1">資料來源：{dbService.backend.label}</p>
             <p className="text-[11px] font-bold text-slate-300 mb-3">最後更新：{lastSyncTime || '尚未同步'}</p>
+            {outboxStatus && <OutboxPanel status={outboxStatus} />}
             <button onClick={loadData} disabled={isSyncing} className={`w-full py-2.5 rounded-xl text-xs font-black transition-all flex items-center justify-center gap-2 ${isSyncing ? 'bg-slate-700 text-slate-500' : 'bg-indigo-600/20 text-indigo-400 hover:bg-indigo-600 hover:text-white'}`}>
               {isSyncing ? '同步中...' : '🔄 雲端重新整理'}
             </button>
           </div>
+          <div className="flex items-center justify-between px-1">
+            <span className="text-[11px] font-black text-slate-300">{currentUser}<span className="ml-2 px-1.5 py-0.5 rounded bg-slate-800 text-slate-400 text-[9px]">{currentRole ? ROLE_LABELS[currentRole] : '未知角色'}</span></span>
+            <button onClick={() => setShowChangePassword(true)} className="text-[11px] font-black text-slate-400 hover:text-indigo-400 transition-colors">🔑 變更密碼</button>
+          </div>
           <button onClick={() => setShowLogoutConfirm(true)} className="w-full py-4 bg-rose-600/90 text-white rounded-xl font-black hover:bg-rose-600 transition-all shadow-lg active:scale-95">安全登出</button>
         </div>
       </aside>
@@ -344,9 +646,10 @@ const App: React.FC = () => {
 
         {activeTab === 'dashboard' ? (
           <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
-            <div className="xl:col-span-8"><Dashboard transactions={transactions} /></div>
+            <div className="xl:col-span-8"><Dashboard transactions={transactions} budgets={budgets} canEditBudgets={can(currentRole, 'manageBudgets')} onSaveBudget={handleSaveBudget} materials={materials} receipts={receipts} canReorder={can(currentRole, 'batch')} onReorder={openReorder} /></div>
             <div className="xl:col-span-4 flex flex-col gap-8">
-              <TransactionForm onSave={handleAction} existingTransactions={transactions} currentUser={currentUser!} />
+              {canEdit && <TransactionForm onSave={handleAction} existingTransactions={transactions} receipts={receipts} budgets={budgets} vendors={vendorState.vendors} materials={materials} currentUser={currentUser!} />}
+              <PeriodClosePanel transactions={transactions} periods={periodState.periods} log={periodState.log} canManage={can(currentRole, 'closePeriod')} onClosePeriod={handleClosePeriod} onReopenPeriod={handleReopenPeriod} />
               <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm">
                 <h4 className="text-lg font-black text-slate-900 mb-4 flex items-center gap-3">
                   <span className="w-1.5 h-6 bg-emerald-500 rounded-full"></span>
@@ -365,7 +668,7 @@ const App: React.FC = () => {
         ) : activeTab === 'repairs' ? (
           <div className="space-y-10">
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
-               <RepairForm onSave={handleAction} existingTransactions={transactions} currentUser={currentUser!} />
+               {canEdit && <RepairForm onSave={handleAction} existingTransactions={transactions} vendors={vendorState.vendors} materials={materials} currentUser={currentUser!} />}
                <div className="bg-[#0f172a] rounded-[2.5rem] p-10 flex flex-col h-[520px] shadow-2xl relative overflow-hidden border border-white/5">
                 <div className="absolute top-0 right-0 w-64 h-64 bg-emerald-500/10 rounded-full blur-[100px] -mr-32 -mt-32"></div>
                 <div className="relative z-10">
@@ -373,7 +676,7 @@ const App: React.FC = () => {
                   <div className="grid grid-cols-2 gap-6 mb-10">
                     <div className="bg-white/5 p-6 rounded-[2rem] border border-white/5">
                       <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">待完修項目</p>
-                      <p className="text-3xl font-black text-amber-400">{transactions.filter(t => t.type === TransactionType.REPAIR && !t.repairDate && !t.isScrapped).length}</p>
+                      <p className="text-3xl font-black text-amber-400">{transactions.filter(isRepairOpen).length}</p>
                     </div>
                     <div className="bg-white/5 p-6 rounded-[2rem] border border-white/5">
                       <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">本月報廢數</p>
@@ -388,6 +691,15 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
+            {serialConflicts.length > 0 && (
+              <div className="bg-rose-50 border border-rose-200 rounded-[2rem] p-6 flex flex-wrap items-center gap-3">
+                <p className="text-sm font-black text-rose-600 mr-2">⚠️ {serialConflicts.length} 個序號同時標記安裝於多台機台</p>
+                {serialConflicts.map(g => (
+                  <button key={g.sn} onClick={() => setViewingSerial(g.sn)} className="px-3 py-1.5 bg-white rounded-lg text-[11px] font-black text-rose-600 border border-rose-100 hover:bg-rose-100 transition-all">{g.sn} · {g.installedIn.join(' / ')}</button>
+                ))}
+              </div>
+            )}
+            <RepairTurnaroundReport transactions={transactions} />
             <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
               {renderFilterHeader()}
               <div className="overflow-x-auto">
@@ -398,21 +710,26 @@ const App: React.FC = () => {
                   <tbody className="divide-y divide-slate-100 font-bold">
                     {displayedList.map(t => (
                       <tr key={t.id} className="hover:bg-slate-50 transition-all group/row cursor-default" onMouseEnter={(e) => setHoveredRecord({ data: t, x: e.clientX, y: e.clientY })} onMouseLeave={() => setHoveredRecord(null)}>
-                        <td className="px-8 py-5 text-sm font-black text-slate-800">{t.sn || '--'}<div className="text-[10px] text-slate-400 mt-1">{t.machineNumber || '未指定機台'}</div></td>
+                        <td className="px-8 py-5 text-sm font-black text-slate-800">{t.sn ? <button onClick={(e) => {e.stopPropagation(); setViewingSerial(t.sn!);}} className="hover:text-indigo-600 hover:underline">{t.sn}</button> : '--'}<div className="text-[10px] text-slate-400 mt-1">{t.machineNumber ? <button onClick={(e) => {e.stopPropagation(); setViewingMachine(t.machineNumber);}} className="hover:text-indigo-600 hover:underline">{t.machineNumber}</button> : '未指定機台'}</div></td>
                         <td className="px-8 py-5">
                           <div className="text-slate-900 truncate max-w-xs">{t.materialName}</div>
                           <div className="flex gap-2 mt-1 items-center">
                             <span className="text-[10px] text-rose-500 font-black truncate max-w-[150px]">{t.faultReason}</span>
-                            {t.isScrapped && <span className="bg-rose-100 text-rose-600 px-1.5 py-0.5 rounded text-[9px] font-black uppercase">💀 報廢</span>}
-                            {!t.repairDate && !t.isScrapped && <span className="bg-amber-100 text-amber-600 px-1.5 py-0.5 rounded text-[9px] font-black uppercase">🛠️ 維修中</span>}
+                            {catalogIssues.has(t.id) && <span className="bg-orange-100 text-orange-600 px-1.5 py-0.5 rounded text-[9px] font-black" title={MATERIAL_ISSUE_LABELS[catalogIssues.get(t.id)!]}>⚠️ 主檔</span>}
+                            <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${REPAIR_BADGES[getRepairStatus(t)]}`}>{getRepairStatus(t)}</span>
+                            {t.vendor && <span className="text-[10px] text-slate-400 font-bold truncate max-w-[100px]">{t.vendor}</span>}
                           </div>
                         </td>
                         <td className="px-8 py-5 text-right font-black text-slate-900 tabular-nums">NT$ {t.total.toLocaleString()}</td>
                         <td className="px-8 py-5 text-center">
-                          <div className="flex justify-center gap-4 opacity-0 group-hover/row:opacity-100 transition-all">
-                            <button onClick={(e) => {e.stopPropagation(); setEditingTransaction(t);}} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-indigo-600 transition-colors">✏️</button>
-                            <button onClick={(e) => {e.stopPropagation(); setPendingDelete(t);}} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-rose-600 transition-colors">🗑️</button>
-                          </div>
+                          {isLocked(t) ? (
+                            <span className="text-slate-300 text-sm" title="所屬月份已關帳">🔒</span>
+                          ) : canEdit && (
+                            <div className="flex justify-center gap-4 opacity-0 group-hover/row:opacity-100 transition-all">
+                              <button onClick={(e) => {e.stopPropagation(); setEditingTransaction(t);}} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-indigo-600 transition-colors">✏️</button>
+                              <button onClick={(e) => {e.stopPropagation(); setPendingDelete(t);}} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-rose-600 transition-colors">🗑️</button>
+                            </div>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -438,18 +755,37 @@ const App: React.FC = () => {
                         <div className="text-slate-900 truncate max-w-xs">{t.materialName}</div>
                         <div className="flex flex-wrap gap-2 mt-1 items-center font-black">
                           <span className="text-[10px] text-slate-400">PN: {t.materialNumber || '--'}</span>
-                          {t.type === TransactionType.INBOUND && !t.isReceived && (
-                            <span className="bg-amber-100 text-amber-600 px-1.5 py-0.5 rounded text-[9px] uppercase tracking-tighter shadow-sm animate-pulse">⏳ 尚未收貨</span>
+                          {t.machineNumber && (
+                            <button onClick={() => setViewingMachine(t.machineNumber)} className="text-[10px] text-slate-400 hover:text-indigo-600 hover:underline">🎰 {t.machineNumber}</button>
+                          )}
+                          {catalogIssues.has(t.id) && (
+                            <span className="bg-orange-100 text-orange-600 px-1.5 py-0.5 rounded text-[9px] tracking-tighter">⚠️ {MATERIAL_ISSUE_LABELS[catalogIssues.get(t.id)!]}</span>
+                          )}
+                          {t.requisitionId && (
+                            <button onClick={() => openRequisition(t.requisitionId!)} className="text-[10px] text-slate-400 hover:text-indigo-600 hover:underline">📝 {t.requisitionId}</button>
                           )}
+                          {receiptIndex.has(t.id) && (() => {
+                            const progress = receiptIndex.get(t.id)!;
+                            if (progress.status === '已到貨' && progress.receipts.length === 0) return null;
+                            return (
+                              <button onClick={() => setReceivingRecord(t)} className={`px-1.5 py-0.5 rounded text-[9px] tracking-tighter shadow-sm hover:ring-2 hover:ring-indigo-200 ${RECEIPT_STATUS_BADGES[progress.status]} ${progress.status === '未到貨' ? 'animate-pulse' : ''}`}>
+                                {progress.status === '已到貨' ? '✅ 已到貨' : `⏳ ${progress.status} · 待到 ${progress.outstanding}`}
+                              </button>
+                            );
+                          })()}
                         </div>
                       </td>
                       <td className="px-8 py-5 text-right font-black text-slate-700 tabular-nums">{t.quantity}</td>
                       <td className="px-8 py-6 text-right font-black text-indigo-600 tabular-nums">NT$ {t.total.toLocaleString()}</td>
                       <td className="px-8 py-5 text-center">
-                        <div className="flex justify-center gap-4 opacity-0 group-hover/row:opacity-100 transition-all">
-                          <button onClick={() => setEditingTransaction(t)} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-indigo-600">✏️</button>
-                          <button onClick={() => setPendingDelete(t)} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-rose-600">🗑️</button>
-                        </div>
+                        {isLocked(t) ? (
+                          <span className="text-slate-300 text-sm" title="所屬月份已關帳">🔒</span>
+                        ) : canEdit && (
+                          <div className="flex justify-center gap-4 opacity-0 group-hover/row:opacity-100 transition-all">
+                            <button onClick={() => setEditingTransaction(t)} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-indigo-600">✏️</button>
+                            <button onClick={() => setPendingDelete(t)} className="p-2 hover:bg-white rounded-lg shadow-sm text-slate-400 hover:text-rose-600">🗑️</button>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -461,8 +797,24 @@ const App: React.FC = () => {
             </div>
             {renderPagination()}
           </div>
+        ) : activeTab === 'inventory' ? (
+          <InventoryView transactions={transactions} receipts={receipts} />
+        ) : activeTab === 'recycle' ? (
+          <RecycleBinView currentUser={currentUser!} isLocked={isLocked} canRestore={can(currentRole, 'restore')} canPurge={can(currentRole, 'purge')} onRestored={loadData} />
+        ) : activeTab === 'users' ? (
+          <UserAdminView currentUser={currentUser!} />
+        ) : activeTab === 'materials' ? (
+          <MaterialCatalogView transactions={transactions} materials={materials} issues={catalogIssues} onSave={handleSaveMaterials} />
+        ) : activeTab === 'machines' ? (
+          <MachineRegistryView transactions={transactions} machines={machines} canEdit={can(currentRole, 'manageMachines')} onSave={handleSaveMachine} onOpen={setViewingMachine} />
+        ) : activeTab === 'requisitions' ? (
+          <RequisitionView requisitions={requisitions} transactions={transactions} receipts={receipts} vendors={vendorState.vendors} materials={materials} currentUser={currentUser!} role={currentRole} focusId={focusRequisition} onSave={handleSaveRequisition} onDecide={handleDecideRequisition} onOrder={handleOrderRequisition} />
+        ) : activeTab === 'reports' ? (
+          <ReportBuilderView transactions={transactions} reports={reports} currentUser={currentUser!} isAdmin={currentRole === 'admin'} canManage={can(currentRole, 'manageReports')} onSave={handleSaveReport} onDelete={handleDeleteReport} />
+        ) : activeTab === 'vendors' ? (
+          <VendorView transactions={transactions} vendors={vendorState.vendors} payments={vendorState.payments} canManage={can(currentRole, 'manageVendors')} canMarkPayment={can(currentRole, 'markPayment')} onSaveVendor={handleSaveVendor} onSetPayment={handleSetVendorPayment} />
         ) : (
-          <BatchAddForm onBatchSave={async txList => { const s = await dbService.batchSave(txList); if(s) await loadData(); return s; }} existingTransactions={transactions} onComplete={() => setActiveTab('records')} currentUser={currentUser!} />
+          <BatchAddForm onBatchSave={handleBatchSave} existingTransactions={transactions} vendors={vendorState.vendors} materials={materials} onComplete={() => setActiveTab('records')} currentUser={currentUser!} prefill={batchPrefill} onPrefillApplied={() => setBatchPrefill(null)} />
         )}
       </main>
 
@@ -515,6 +867,13 @@ const App: React.FC = () => {
                 >
                   📥 匯出 {exportConfig.year} 年 {exportConfig.month} 月報表
                 </button>
+                <button 
+                  onClick={() => performExport('custom', 'pdf')}
+                  disabled={isExportingPdf}
+                  className="w-full py-3.5 bg-white border-2 border-indigo-100 hover:border-indigo-300 text-indigo-600 rounded-2xl font-black text-sm active:scale-95 transition-all flex items-center justify-center gap-3 disabled:opacity-50"
+                >
+                  {isExportingPdf ? '⏳ PDF 產生中…' : '📄 月結 PDF (含簽核頁，全類別)'}
+                </button>
               </div>
 
               <div className="relative">
@@ -529,17 +888,26 @@ const App: React.FC = () => {
                   <label className="text-sm font-black text-slate-900 uppercase tracking-widest">當前搜尋範圍</label>
                 </div>
                 <p className="text-xs font-bold text-slate-400 leading-relaxed px-1">將匯出您目前在畫面上看到的搜尋結果（共 {filteredList.length} 筆資料）。</p>
-                <button 
-                  onClick={() => performExport('current')}
-                  className="w-full py-4.5 bg-slate-900 hover:bg-slate-800 text-white rounded-2xl font-black text-sm shadow-xl active:scale-95 transition-all"
-                >
-                  🔍 匯出當前篩選結果
-                </button>
+                <div className="grid grid-cols-3 gap-3">
+                  <button 
+                    onClick={() => performExport('current')}
+                    className="col-span-2 py-4.5 bg-slate-900 hover:bg-slate-800 text-white rounded-2xl font-black text-sm shadow-xl active:scale-95 transition-all"
+                  >
+                    🔍 匯出當前篩選結果
+                  </button>
+                  <button 
+                    onClick={() => performExport('current', 'pdf')}
+                    disabled={isExportingPdf}
+                    className="py-4.5 bg-white border-2 border-slate-200 hover:border-slate-400 text-slate-700 rounded-2xl font-black text-sm active:scale-95 transition-all disabled:opacity-50"
+                  >
+                    {isExportingPdf ? '⏳' : '📄 PDF'}
+                  </button>
+                </div>
               </div>
             </div>
             
             <div className="bg-slate-50 p-6 text-center border-t border-slate-100">
-              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Secure Export Protocol • XLSX Format</p>
+              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Secure Export Protocol • XLSX / PDF Format</p>
             </div>
           </div>
         </div>
@@ -550,7 +918,8 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-[600] bg-slate-950/85 backdrop-blur-md flex items-center justify-center p-6">
           <div className="bg-white p-12 rounded-[3.5rem] max-w-sm w-full shadow-2xl text-center border border-slate-100">
             <div className="w-20 h-20 bg-rose-50 text-rose-500 rounded-full flex items-center justify-center text-3xl mx-auto mb-6">🗑️</div>
-            <h3 className="text-2xl font-black text-slate-900 mb-8">確定要刪除此筆<br/>紀錄嗎？</h3>
+            <h3 className="text-2xl font-black text-slate-900 mb-3">確定要刪除此筆<br/>紀錄嗎？</h3>
+            <p className="text-xs font-bold text-slate-400 mb-8">刪除後將移至回收桶，可於保留期限內還原。</p>
             <div className="flex flex-col gap-3">
               <button onClick={confirmDelete} className="w-full py-4.5 bg-rose-600 text-white rounded-2xl font-black shadow-lg active:scale-95 transition-all">確定刪除</button>
               <button onClick={() => setPendingDelete(null)} className="w-full py-3.5 text-slate-400 font-black hover:text-slate-600 transition-colors">取消</button>
@@ -572,13 +941,28 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {showChangePassword && <ChangePasswordModal currentUser={currentUser!} onClose={() => setShowChangePassword(false)} />}
+
+      {viewingSerial && (
+        <SerialGenealogyView sn={viewingSerial} transactions={transactions} onClose={() => setViewingSerial(null)} onOpenMachine={(id) => { setViewingSerial(null); setViewingMachine(id); }} />
+      )}
+
+      {receivingRecord && receiptIndex.has(receivingRecord.id) && (
+        <ReceiptModal transaction={receivingRecord} progress={receiptIndex.get(receivingRecord.id)!} canReceive={canEdit} onSave={handleRecordReceipt} onClose={() => setReceivingRecord(null)} />
+      )}
+
+      {viewingMachine && (
+        <MachineDetailView machineId={viewingMachine} transactions={transactions} machines={machines} onClose={() => setViewingMachine(null)} />
+      )}
+
       {editingTransaction && (
         <div className="fixed inset-0 z-[500] bg-slate-950/75 flex items-center justify-center p-6 backdrop-blur-sm overflow-y-auto">
           <div className="w-full max-w-md my-auto animate-in slide-in-from-bottom duration-300">
             {editingTransaction.type === TransactionType.REPAIR ? 
-              <RepairForm onSave={handleAction} initialData={editingTransaction} onCancel={() => setEditingTransaction(null)} currentUser={currentUser!} /> :
-              <TransactionForm onSave={handleAction} initialData={editingTransaction} onCancel={() => setEditingTransaction(null)} currentUser={currentUser!} />
+              <RepairForm onSave={handleAction} initialData={editingTransaction} onCancel={() => setEditingTransaction(null)} vendors={vendorState.vendors} materials={materials} currentUser={currentUser!} /> :
+              <TransactionForm onSave={handleAction} initialData={editingTransaction} onCancel={() => setEditingTransaction(null)} existingTransactions={transactions} receipts={receipts} budgets={budgets} vendors={vendorState.vendors} materials={materials} currentUser={currentUser!} />
             }
+            <RecordHistory recordId={editingTransaction.id} />
           </div>
         </div>
       )}
@@ -7,7 +7,7 @@
 var CATEGORIES = ["進貨", "用料", "建置", "維修"];
 var PROPERTIES = PropertiesService.getScriptProperties();
 
-// 初始化密碼（若尚未設定）
+// 初始化密碼（若尚未設定）；僅用於首次建立帳號表時的各人員初始密碼
 if (!PROPERTIES.getProperty('MASTER_PASSWORD')) {
   PROPERTIES.setProperty('MASTER_PASSWORD', 'Jumbo.net');
 }
@@ -28,15 +28,1253 @@ var COMMON_FIELDS = [
 ];
 
 var ACCOUNT_FIELDS = [{ header: "帳目類別", keys: ["帳目類別", "accountCategory"] }];
-var INBOUND_FIELDS = [{ header: "是否收貨", keys: ["是否收貨", "isReceived"] }];
+var INBOUND_FIELDS = [
+  { header: "是否收貨", keys: ["是否收貨", "isReceived"] },
+  { header: "請購單號", keys: ["請購單號", "requisitionId"] }
+];
 var REPAIR_FIELDS = [
   { header: "sn", keys: ["sn", "序號", "設備序號(SN)"] },
   { header: "故障原因", keys: ["故障原因", "faultReason"] },
   { header: "是否報廢", keys: ["是否報廢", "isScrapped"] },
   { header: "送修日期", keys: ["送修日期", "sentDate"] },
   { header: "完修日期", keys: ["完修日期", "repairDate"] },
-  { header: "上機日期", keys: ["上機日期", "installDate"] }
+  { header: "上機日期", keys: ["上機日期", "installDate"] },
+  { header: "維修狀態", keys: ["維修狀態", "repairStatus"] }
+];
+// 廠商欄位：儲存廠商主檔名稱，僅進貨與維修使用
+var VENDOR_FIELDS = [{ header: "廠商", keys: ["廠商", "vendor", "維修廠商"] }];
+var VENDOR_CATEGORIES = ["進貨", "維修"];
+
+// 維修狀態機：待送修 → 送修中 → 已完修 → 已上機，未結束狀態皆可轉為報廢
+var REPAIR_TRANSITIONS = {
+  "待送修": ["送修中", "報廢"],
+  "送修中": ["已完修", "報廢"],
+  "已完修": ["已上機", "報廢"],
+  "已上機": [],
+  "報廢": []
+};
+
+// 軟刪除欄位：刪除時僅標記，保留於回收桶直到超過保留期限才可永久清除
+var DELETE_FIELDS = [
+  { header: "isDeleted", keys: ["isDeleted", "已刪除"] },
+  { header: "deletedBy", keys: ["deletedBy", "刪除人員"] },
+  { header: "deletedAt", keys: ["deletedAt", "刪除時間"] }
 ];
+var RETENTION_DAYS = 30;
+
+// 版本號：每次寫入遞增，用於偵測離線佇列重送時的編輯衝突
+var VERSION_FIELDS = [{ header: "version", keys: ["version", "版本"] }];
+
+var PERIOD_SHEET = "月結鎖定";
+var PERIOD_LOG_SHEET = "月結紀錄";
+var PERIOD_HEADERS = ["period", "status", "inboundTotal", "usageTotal", "constructionTotal", "repairTotal", "grandTotal", "closedBy", "closedAt", "reopenedBy", "reopenedAt", "reopenReason"];
+var PERIOD_LOG_HEADERS = ["timestamp", "period", "action", "operator", "reason"];
+
+var AUDIT_SHEET = "稽核紀錄";
+var AUDIT_HEADERS = ["timestamp", "action", "id", "type", "operator", "changes"];
+
+// 帳號：密碼以 salt + 反覆 SHA-256 儲存，不保存明碼
+var USER_SHEET = "使用者";
+var USER_HEADERS = ["username", "emoji", "role", "salt", "passwordHash", "active", "updatedAt", "mustChangePassword"];
+var HASH_ROUNDS = 1000;
+
+// 角色由低至高，高階角色涵蓋低階角色的所有權限
+var ROLES = ["viewer", "clerk", "approver", "admin"];
+
+// 各寫入動作所需的最低角色 (未列出者不需特定角色)
+var ACTION_ROLES = {
+  insert: "clerk",
+  update: "clerk",
+  delete: "clerk",
+  restore: "clerk",
+  batch_insert: "clerk",
+  close_period: "approver",
+  reopen_period: "approver",
+  purge: "admin",
+  save_user: "admin",
+  save_vendor: "clerk",
+  set_vendor_payment: "approver",
+  save_materials: "admin",
+  save_machine: "clerk",
+  save_budget: "approver",
+  save_requisition: "clerk",
+  decide_requisition: "approver",
+  order_requisition: "clerk",
+  record_receipt: "clerk",
+  save_report: "clerk",
+  delete_report: "clerk"
+};
+
+// 工作階段權杖：有效期限為一個工作班次；登出 (含閒置自動登出) 時列入撤銷清單
+var TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+var REVOKED_SHEET = "已撤銷登入";
+var REVOKED_HEADERS = ["jti", "exp"];
+
+// 廠商主檔與各月對帳單付款狀態 (以廠商名稱 + 月份為鍵)
+var VENDOR_SHEET = "廠商主檔";
+var VENDOR_HEADERS = ["name", "taxId", "contact", "paymentTerms", "active", "updatedBy", "updatedAt"];
+var VENDOR_PAYMENT_SHEET = "廠商付款";
+var VENDOR_PAYMENT_HEADERS = ["period", "vendor", "status", "paidAt", "updatedBy", "updatedAt"];
+var PAYMENT_STATUSES = ["unpaid", "paid"];
+
+// 料件主檔：以料號為鍵，提供標準品名、單位、預設單價、適用機台種類與安全庫存 (最低 / 最高)
+var MATERIAL_SHEET = "料件主檔";
+var MATERIAL_HEADERS = ["pn", "name", "unit", "defaultPrice", "machineCategory", "active", "updatedBy", "updatedAt", "minStock", "maxStock"];
+
+// 機台登錄：以機台編號為鍵，記錄機台種類、樓層位置、啟用日期與目前狀態
+var MACHINE_SHEET = "機台登錄";
+var MACHINE_HEADERS = ["id", "category", "location", "commissionedAt", "status", "updatedBy", "updatedAt"];
+var MACHINE_STATUSES = ["active", "maintenance", "idle", "retired"];
+
+// 預算：以 維度 (account 帳目類別 / machine 機台種類) + 類別 + 期間 (YYYY-MM 或 YYYY) 為鍵
+var BUDGET_SHEET = "預算";
+var BUDGET_HEADERS = ["dimension", "category", "period", "amount", "updatedBy", "updatedAt"];
+var BUDGET_DIMENSIONS = ["account", "machine"];
+
+// 報表定義：以名稱為鍵，篩選條件、欄位、分組與彙總以 JSON 存於 definition 欄；只有建立者或管理員可以覆寫或刪除
+var REPORT_SHEET = "報表定義";
+var REPORT_HEADERS = ["name", "description", "definition", "createdBy", "updatedBy", "updatedAt"];
+var REPORT_DIMENSIONS = ["type", "accountCategory", "machineCategory", "machineNumber", "operator", "month"];
+var REPORT_AGGREGATE_FNS = ["count", "sum", "avg", "min", "max"];
+var REPORT_MEASURES = ["quantity", "unitPrice", "total"];
+var REPORT_NAME_MAX = 40;
+
+// 請購單：草稿 → 送審 → 核准 / 退回 → 已下單；品項以 JSON 存於 lines 欄，轉出的進貨單號以逗號分隔
+var REQUISITION_SHEET = "請購單";
+var REQUISITION_HEADERS = ["id", "requester", "justification", "lines", "status", "approver", "decidedAt", "decisionNote", "orderedBy", "orderedAt", "transactionIds", "createdAt", "updatedAt"];
+var EDITABLE_REQUISITION_STATUSES = ["draft", "rejected"];
+var REQUISITION_DECISIONS = ["approved", "rejected"];
+
+// 收貨紀錄：進貨可分批到貨，每次收貨一列 (recordId 對應進貨紀錄 id)；全數到貨時同步「是否收貨」欄位
+var RECEIPT_SHEET = "收貨紀錄";
+var RECEIPT_HEADERS = ["id", "recordId", "date", "quantity", "receiver", "note", "createdAt"];
+
+// 已完成寫入的 requestId；離線佇列在保留期間內重送同一請求時直接回傳先前結果
+var REQUEST_SHEET = "請求紀錄";
+var REQUEST_HEADERS = ["requestId", "actor", "reply", "at"];
+var REQUEST_LOG_DAYS = 7;
+
+// 等待其他執行釋放指令碼鎖的上限；逾時回傳 busy，由前端離線佇列稍後重送
+var LOCK_TIMEOUT_MS = 30000;
+
+// 首次啟用帳號制時，以原 MASTER_PASSWORD 建立既有人員帳號；第一位為管理員，所有人首次登入時須改設自己的密碼
+var LEGACY_USERS = [
+  { username: "Mountain", emoji: "⛰️", role: "admin" },
+  { username: "Uri", emoji: "🌟", role: "clerk" },
+  { username: "Simon", emoji: "🦁", role: "clerk" },
+  { username: "George", emoji: "⚓", role: "clerk" },
+  { username: "Barry", emoji: "🛡️", role: "clerk" },
+  { username: "Jason", emoji: "🏹", role: "clerk" },
+  { username: "Nick", emoji: "🐺", role: "clerk" }
+];
+
+// ==== 紀錄欄位驗證規則：與 server/schema.js 內容相同，修改時需同步 ====
+
+var TRANSACTION_SCHEMA = {
+  // 各欄位的型別與基本限制
+  fields: {
+    date: { label: "單據日期", kind: "date", required: true },
+    type: { label: "類別", kind: "enum", values: ["進貨", "用料", "建置", "維修"], required: true },
+    materialName: { label: "料件名稱", kind: "text", required: true },
+    accountCategory: { label: "帳目類別", kind: "text" },
+    faultReason: { label: "故障原因", kind: "text" },
+    quantity: { label: "數量", kind: "number", required: true, positive: true },
+    unitPrice: { label: "單價", kind: "number", required: true, min: 0 },
+    sentDate: { label: "送修日", kind: "date" },
+    repairDate: { label: "完修日", kind: "date" },
+    installDate: { label: "上機日", kind: "date" },
+    repairStatus: { label: "維修狀態", kind: "enum", values: ["待送修", "送修中", "已完修", "已上機", "報廢"] }
+  },
+  // 各類別額外必填的欄位
+  required: {
+    "進貨": ["accountCategory"],
+    "用料": ["accountCategory"],
+    "建置": ["accountCategory"],
+    "維修": ["faultReason"]
+  },
+  // 跨欄位規則：order 為日期先後；requiredWhen 為特定狀態下必填 (錯誤標示於 field)
+  rules: [
+    { kind: "order", type: "維修", earlier: "sentDate", later: "repairDate", field: "repairDate", message: "完修日不可早於送修日" },
+    { kind: "order", type: "維修", earlier: "repairDate", later: "installDate", field: "installDate", message: "上機日不可早於完修日" },
+    { kind: "order", type: "維修", earlier: "sentDate", later: "installDate", field: "installDate", message: "上機日不可早於送修日" },
+    { kind: "requiredWhen", type: "維修", field: "sentDate", when: "repairStatus", values: ["送修中", "已完修", "已上機"], message: "此維修狀態需填寫送修日" },
+    { kind: "requiredWhen", type: "維修", field: "repairDate", when: "repairStatus", values: ["已完修", "已上機"], message: "此維修狀態需填寫完修日" },
+    { kind: "requiredWhen", type: "維修", field: "installDate", when: "repairStatus", values: ["已上機"], message: "狀態「已上機」需填寫上機日" }
+  ]
+};
+
+function isBlank(value) {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+function isValidDate(value) {
+  var m = String(value).trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return false;
+  var d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.getUTCMonth() === Number(m[2]) - 1 && d.getUTCDate() === Number(m[3]);
+}
+
+function checkField(spec, value) {
+  if (isBlank(value)) return spec.required ? spec.label + "為必填" : "";
+  if (spec.kind === "date" && !isValidDate(value)) return spec.label + "格式錯誤，應為 YYYY-MM-DD";
+  if (spec.kind === "enum" && spec.values.indexOf(String(value)) === -1) return "未知的" + spec.label + ": " + value;
+  if (spec.kind === "number") {
+    var num = Number(value);
+    if (isNaN(num)) return spec.label + "需為數字";
+    if (spec.positive && !(num > 0)) return spec.label + "需大於 0";
+    if (spec.min !== undefined && num < spec.min) return spec.label + "不可小於 " + spec.min;
+  }
+  return "";
+}
+
+/**
+ * 依 TRANSACTION_SCHEMA 檢查單筆紀錄，回傳 欄位 → 錯誤訊息 (無誤時為空物件)；每個欄位只保留第一個錯誤
+ */
+function validateTransaction(record) {
+  record = record || {};
+  var schema = TRANSACTION_SCHEMA;
+  var errors = {};
+  var add = function(field, message) { if (message && !errors[field]) errors[field] = message; };
+
+  Object.keys(schema.fields).forEach(function(field) {
+    add(field, checkField(schema.fields[field], record[field]));
+  });
+
+  (schema.required[record.type] || []).forEach(function(field) {
+    if (isBlank(record[field])) add(field, (schema.fields[field] ? schema.fields[field].label : field) + "為必填");
+  });
+
+  schema.rules.forEach(function(rule) {
+    if (rule.type && rule.type !== record.type) return;
+    if (rule.kind === "order") {
+      var earlier = record[rule.earlier];
+      var later = record[rule.later];
+      if (isValidDate(earlier) && isValidDate(later) && String(later) < String(earlier)) add(rule.field, rule.message);
+    } else if (rule.kind === "requiredWhen") {
+      if (rule.values.indexOf(String(record[rule.when])) !== -1 && isBlank(record[rule.field])) add(rule.field, rule.message);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * 驗證失敗時拋出的錯誤；fieldErrors 供呼叫端回傳結構化訊息
+ */
+function validationError(fieldErrors, rowErrors) {
+  var fields = Object.keys(fieldErrors || {});
+  var err = new Error(rowErrors
+    ? "有 " + rowErrors.length + " 筆紀錄未通過欄位檢查"
+    : fields.map(function(f) { return fieldErrors[f]; }).join("；"));
+  err.fieldErrors = fieldErrors || {};
+  if (rowErrors) err.rowErrors = rowErrors;
+  return err;
+}
+
+// ==== 紀錄欄位驗證規則結束 ====
+
+function jsonOutput(obj) {
+  return ContentService.createTextOutput(JSON.stringify(obj)).setMimeType(ContentService.MimeType.JSON);
+}
+
+function getOrCreateSheet(ss, name, headers) {
+  var sheet = ss.getSheetByName(name);
+  if (!sheet) {
+    sheet = ss.insertSheet(name);
+    sheet.appendRow(headers);
+  }
+  return sheet;
+}
+
+/**
+ * 既有工作表的表頭少於目前定義時 (新版增加欄位)，補上缺少的表頭
+ */
+function ensureSheetHeaders(sheet, headers) {
+  if (sheet.getLastColumn() >= headers.length) return;
+  sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+}
+
+function readObjects(sheet) {
+  var data = sheet.getDataRange().getValues();
+  if (data.length < 2) return [];
+  var headers = data[0].map(function(h) { return String(h).trim(); });
+  return data.slice(1).map(function(row) {
+    var obj = {};
+    headers.forEach(function(h, idx) { obj[h] = row[idx]; });
+    return obj;
+  });
+}
+
+function toPeriod(dateVal) {
+  if (!dateVal) return "";
+  var d = dateVal instanceof Date ? dateVal : new Date(dateVal);
+  if (isNaN(d.getTime())) return "";
+  return Utilities.formatDate(d, "Asia/Taipei", "yyyy-MM");
+}
+
+function cellToString(v) {
+  if (v instanceof Date) return Utilities.formatDate(v, "Asia/Taipei", "yyyy-MM-dd");
+  if (v === null || v === undefined) return "";
+  return String(v);
+}
+
+function rowToObject(headers, row) {
+  var obj = {};
+  headers.forEach(function(h, idx) { obj[String(h).trim()] = row[idx]; });
+  return obj;
+}
+
+/**
+ * 欄位層級差異：僅記錄前後值不同的欄位
+ */
+function diffRecords(before, after) {
+  var fields = {};
+  Object.keys(before || {}).forEach(function(k) { fields[k] = true; });
+  Object.keys(after || {}).forEach(function(k) { fields[k] = true; });
+  var changes = [];
+  Object.keys(fields).forEach(function(f) {
+    var b = cellToString(before ? before[f] : "");
+    var a = cellToString(after ? after[f] : "");
+    if (b !== a) changes.push({ field: f, before: b, after: a });
+  });
+  return changes;
+}
+
+/**
+ * 稽核軌跡：僅附加寫入，不修改既有列
+ */
+function appendAudit(ss, action, id, type, operator, changes) {
+  if (action === "update" && changes.length === 0) return;
+  getOrCreateSheet(ss, AUDIT_SHEET, AUDIT_HEADERS)
+    .appendRow([new Date().toISOString(), action, "'" + id, type, operator || "", JSON.stringify(changes)]);
+}
+
+/**
+ * 衝突檢查：前端送出的 baseVersion 與目前版本不符時拒絕寫入
+ */
+function assertVersion(current, baseVersion) {
+  if (baseVersion === undefined || baseVersion === null || baseVersion === "") return;
+  var currentVersion = Number((current && current["version"]) || 0);
+  if (Number(baseVersion) !== currentVersion) {
+    var err = new Error("此紀錄已被其他人修改 (目前版本 " + currentVersion + "，送出版本 " + baseVersion + ")");
+    err.conflict = true;
+    throw err;
+  }
+}
+
+/**
+ * 修改的紀錄已不存在 (被永久清除或移至其他類別) 時視為衝突，不可當成新增寫回
+ */
+function missingRecordConflict(id) {
+  var err = new Error("找不到紀錄 " + id + "，可能已被其他人清除或改為其他類別");
+  err.conflict = true;
+  return err;
+}
+
+function isRowDeleted(obj) {
+  var v = obj["isDeleted"];
+  return v === true || String(v).toUpperCase() === "TRUE";
+}
+
+/**
+ * 在所有類別工作表中依 id 設定軟刪除標記，回傳受影響的列 (供稽核使用)
+ */
+function setRecordDeletion(ss, id, deleted, operator, baseVersion) {
+  var affected = [];
+  CATEGORIES.forEach(function(cat) {
+    var s = ss.getSheetByName(cat);
+    if (!s) return;
+    ensureHeaders(s, cat);
+    var v = s.getDataRange().getValues();
+    var headers = v[0].map(function(h) { return String(h).trim(); });
+    var fields = DELETE_FIELDS.concat(VERSION_FIELDS);
+    var cols = fields.map(function(f) { return headers.indexOf(f.header) + 1; });
+    for (var i = 1; i < v.length; i++) {
+      if (String(v[i][0]).trim() !== id) continue;
+      var before = rowToObject(headers, v[i]);
+      if (isRowDeleted(before) === deleted) continue;
+      assertVersion(before, baseVersion);
+      var nextVersion = Number(before["version"] || 0) + 1;
+      var flags = deleted ? [true, operator, new Date().toISOString(), nextVersion] : ["", "", "", nextVersion];
+      cols.forEach(function(col, k) { s.getRange(i + 1, col).setValue(flags[k]); });
+      var after = Object.assign({}, before);
+      fields.forEach(function(f, k) { after[f.header] = flags[k]; });
+      affected.push({ cat: cat, before: before, after: after });
+    }
+  });
+  return affected;
+}
+
+/**
+ * 永久清除：僅限已軟刪除且超過保留期限的紀錄
+ */
+function purgeRecord(ss, id, operator) {
+  var purged = 0;
+  CATEGORIES.forEach(function(cat) {
+    var s = ss.getSheetByName(cat);
+    if (!s) return;
+    var v = s.getDataRange().getValues();
+    var headers = v[0].map(function(h) { return String(h).trim(); });
+    for (var i = v.length - 1; i >= 1; i--) {
+      if (String(v[i][0]).trim() !== id) continue;
+      var before = rowToObject(headers, v[i]);
+      if (!isRowDeleted(before)) throw new Error("紀錄尚未刪除，無法永久清除");
+      var ageDays = (Date.now() - new Date(before["deletedAt"]).getTime()) / 86400000;
+      if (!(ageDays >= RETENTION_DAYS)) throw new Error("回收桶紀錄需保留 " + RETENTION_DAYS + " 天後才可永久清除");
+      appendAudit(ss, "purge", id, cat, operator, diffRecords(before, {}));
+      s.deleteRow(i + 1);
+      purged++;
+    }
+  });
+  if (purged === 0) throw new Error("找不到紀錄: " + id);
+}
+
+function pickField(obj, keys) {
+  for (var i = 0; i < keys.length; i++) {
+    var v = obj[keys[i]];
+    if (v !== undefined && v !== null && v !== "") return v;
+  }
+  return "";
+}
+
+/**
+ * 取得維修狀態；舊資料沒有狀態欄位時依報廢標記與日期欄位推導
+ */
+function deriveRepairStatus(obj) {
+  var status = String(pickField(obj, ["維修狀態", "repairStatus"]));
+  if (REPAIR_TRANSITIONS[status]) return status;
+  var scrapped = pickField(obj, ["是否報廢", "isScrapped"]);
+  if (scrapped === true || String(scrapped).toUpperCase() === "TRUE") return "報廢";
+  if (pickField(obj, ["上機日期", "installDate"])) return "已上機";
+  if (pickField(obj, ["完修日期", "repairDate"])) return "已完修";
+  if (pickField(obj, ["送修日期", "sentDate"])) return "送修中";
+  return "待送修";
+}
+
+/**
+ * 寫入前依共用欄位規則檢查；不通過時拋出帶有 fieldErrors 的錯誤
+ */
+function assertValidRecord(type, data) {
+  var errors = validateTransaction(Object.assign({}, data, { type: type }));
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+}
+
+/**
+ * 維修狀態轉換檢查：修改時僅允許維持原狀態或依狀態機前進；寫入前同步報廢標記
+ */
+function applyRepairStatus(before, payload, isExisting) {
+  var to = deriveRepairStatus(payload);
+  if (isExisting) {
+    var from = deriveRepairStatus(before);
+    if (from !== to && REPAIR_TRANSITIONS[from].indexOf(to) === -1) {
+      throw new Error("維修狀態無法由「" + from + "」變更為「" + to + "」");
+    }
+  }
+  payload.repairStatus = to;
+  payload.isScrapped = to === "報廢";
+}
+
+function bytesToHex(bytes) {
+  return bytes.map(function(b) { return ((b & 0xff) + 0x100).toString(16).slice(1); }).join("");
+}
+
+function hashPassword(salt, password) {
+  var digest = Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, salt + ":" + password, Utilities.Charset.UTF_8);
+  for (var i = 1; i < HASH_ROUNDS; i++) digest = Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, digest);
+  return bytesToHex(digest);
+}
+
+function randomSalt() {
+  return Utilities.getUuid().replace(/-/g, "");
+}
+
+/**
+ * 讀取帳號表；若尚未建立則以既有人員名單與 MASTER_PASSWORD 初始化
+ */
+function readUsers(ss) {
+  var sheet = getOrCreateSheet(ss, USER_SHEET, USER_HEADERS);
+  ensureSheetHeaders(sheet, USER_HEADERS);
+  var users = readObjects(sheet);
+  if (users.length > 0) return users;
+  var master = PROPERTIES.getProperty('MASTER_PASSWORD');
+  var now = new Date().toISOString();
+  LEGACY_USERS.forEach(function(u) {
+    var salt = randomSalt();
+    sheet.appendRow([u.username, u.emoji, u.role, salt, hashPassword(salt, master), true, now, true]);
+  });
+  return readObjects(sheet);
+}
+
+function findUser(users, username) {
+  var name = String(username || "").trim();
+  for (var i = 0; i < users.length; i++) { if (String(users[i].username).trim() === name) return users[i]; }
+  return null;
+}
+
+function isActiveUser(u) {
+  return !!u && u.active !== false && String(u.active).toUpperCase() !== "FALSE";
+}
+
+function publicUser(u) {
+  return { username: String(u.username), emoji: String(u.emoji || ""), role: u.role, active: isActiveUser(u) };
+}
+
+function checkPassword(u, password) {
+  return isActiveUser(u) && hashPassword(String(u.salt), String(password || "")) === String(u.passwordHash);
+}
+
+/**
+ * 角色檢查：依動作所需最低角色拒絕權限不足的請求
+ */
+function assertRole(ss, actor, action) {
+  var required = ACTION_ROLES[action];
+  if (!required) return;
+  var user = findUser(readUsers(ss), actor);
+  if (!isActiveUser(user)) throw new Error("無法辨識操作人員，請重新登入");
+  if (ROLES.indexOf(user.role) < ROLES.indexOf(required)) {
+    throw new Error("權限不足：此操作需要 " + required + " 以上角色");
+  }
+}
+
+function writeUser(ss, user) {
+  var sheet = getOrCreateSheet(ss, USER_SHEET, USER_HEADERS);
+  var row = USER_HEADERS.map(function(h) { return user[h] === undefined ? "" : user[h]; });
+  var values = sheet.getDataRange().getValues();
+  for (var i = 1; i < values.length; i++) {
+    if (String(values[i][0]).trim() === user.username) {
+      sheet.getRange(i + 1, 1, 1, row.length).setValues([row]);
+      return;
+    }
+  }
+  sheet.appendRow(row);
+}
+
+function getTokenSecret() {
+  var secret = PROPERTIES.getProperty('TOKEN_SECRET');
+  if (!secret) {
+    secret = randomSalt() + randomSalt();
+    PROPERTIES.setProperty('TOKEN_SECRET', secret);
+  }
+  return secret;
+}
+
+function signPayload(body) {
+  return bytesToHex(Utilities.computeHmacSha256Signature(body, getTokenSecret(), Utilities.Charset.UTF_8));
+}
+
+/**
+ * 簽發權杖：base64url(內容).HMAC-SHA256 簽章
+ */
+function issueToken(user) {
+  var payload = { sub: String(user.username), exp: Date.now() + TOKEN_TTL_MS, jti: randomSalt() };
+  var body = Utilities.base64EncodeWebSafe(JSON.stringify(payload), Utilities.Charset.UTF_8).replace(/=+$/, "");
+  return { token: body + "." + signPayload(body), expiresAt: new Date(payload.exp).toISOString() };
+}
+
+function unauthorized(message) {
+  var err = new Error(message);
+  err.unauthorized = true;
+  return err;
+}
+
+function readToken(token) {
+  var parts = String(token || "").split(".");
+  if (parts.length !== 2 || !parts[0]) throw unauthorized("尚未登入，請重新登入");
+  if (signPayload(parts[0]) !== parts[1]) throw unauthorized("登入憑證無效，請重新登入");
+  try {
+    var padded = parts[0] + "===".slice((parts[0].length + 3) % 4);
+    return JSON.parse(Utilities.newBlob(Utilities.base64DecodeWebSafe(padded)).getDataAsString("UTF-8"));
+  } catch (e) {
+    throw unauthorized("登入憑證無效，請重新登入");
+  }
+}
+
+/**
+ * 驗證權杖：簽章、期限、撤銷清單與帳號狀態皆須通過，回傳對應的帳號
+ */
+function verifyToken(ss, token) {
+  var payload = readToken(token);
+  if (!(Number(payload.exp) > Date.now())) throw unauthorized("登入已逾時，請重新登入");
+  var revokedSheet = ss.getSheetByName(REVOKED_SHEET);
+  var revoked = revokedSheet ? readObjects(revokedSheet) : [];
+  if (revoked.some(function(r) { return String(r.jti) === payload.jti; })) throw unauthorized("此登入已登出，請重新登入");
+  var user = findUser(readUsers(ss), payload.sub);
+  if (!isActiveUser(user)) throw unauthorized("帳號已停用");
+  return user;
+}
+
+function revokeToken(ss, token) {
+  var payload = readToken(token);
+  var now = Date.now();
+  var sheet = getOrCreateSheet(ss, REVOKED_SHEET, REVOKED_HEADERS);
+  // 已過期的撤銷紀錄不再需要保留
+  var values = sheet.getDataRange().getValues();
+  for (var i = values.length - 1; i >= 1; i--) {
+    if (!(Number(values[i][1]) > now)) sheet.deleteRow(i + 1);
+  }
+  if (Number(payload.exp) > now) sheet.appendRow(["'" + payload.jti, payload.exp]);
+}
+
+function setPassword(user, password) {
+  if (String(password).length < 6) throw new Error("密碼長度至少需 6 個字元");
+  if (String(password) === PROPERTIES.getProperty('MASTER_PASSWORD')) throw new Error("不可使用系統預設密碼");
+  user.salt = randomSalt();
+  user.passwordHash = hashPassword(user.salt, String(password));
+}
+
+/**
+ * 預設密碼或管理員設定的初始密碼只能用來改設新密碼，不能直接登入；
+ * 仍使用 MASTER_PASSWORD 的既有帳號 (升級前已建立、沒有旗標) 一併視為須變更
+ */
+function mustChangePassword(user, password) {
+  var flag = user.mustChangePassword;
+  return flag === true || String(flag).toUpperCase() === "TRUE" || String(password) === PROPERTIES.getProperty('MASTER_PASSWORD');
+}
+
+/**
+ * 登入：須變更密碼的帳號在同一請求附上 newPassword 後才簽發權杖
+ */
+function handleLogin(ss, payload) {
+  var user = findUser(readUsers(ss), payload.username);
+  if (!checkPassword(user, payload.password)) return { authorized: false, message: "帳號或密碼不正確" };
+  if (mustChangePassword(user, payload.password)) {
+    var changeRequired = function(message) { return { authorized: false, mustChangePassword: true, message: message }; };
+    if (!payload.newPassword) return changeRequired("首次登入或密碼已由管理員重設，請設定新密碼");
+    if (String(payload.newPassword) === String(payload.password)) return changeRequired("新密碼不可與目前密碼相同");
+    try {
+      setPassword(user, payload.newPassword);
+    } catch (err) {
+      return changeRequired(err.message);
+    }
+    user.mustChangePassword = false;
+    user.updatedAt = new Date().toISOString();
+    writeUser(ss, user);
+  }
+  var session = issueToken(user);
+  return { authorized: true, username: String(user.username), role: user.role, token: session.token, expiresAt: session.expiresAt };
+}
+
+/**
+ * 帳號維護：save_user 由管理員新增或修改帳號；change_password 僅能修改自己的密碼
+ */
+function handleUserAction(ss, action, actor, payload) {
+  var username = String(payload.username || "").trim();
+  if (!username) throw new Error("帳號名稱不可空白");
+  var user = findUser(readUsers(ss), username);
+  var now = new Date().toISOString();
+
+  if (action === "change_password") {
+    if (username !== actor) throw new Error("僅能修改自己的密碼");
+    if (!checkPassword(user, payload.oldPassword)) throw new Error("原密碼不正確");
+    setPassword(user, payload.newPassword);
+    user.mustChangePassword = false;
+    user.updatedAt = now;
+    writeUser(ss, user);
+    return { result: "ok" };
+  }
+
+  var role = String(payload.role || "");
+  if (ROLES.indexOf(role) === -1) throw new Error("未知的角色: " + role);
+  var active = payload.active !== false;
+  if (username === actor && (role !== "admin" || !active)) throw new Error("無法降低或停用自己的管理員權限");
+  if (!user) {
+    if (!payload.password) throw new Error("新增帳號必須設定初始密碼");
+    user = { username: username };
+  }
+  user.emoji = String(payload.emoji || user.emoji || "");
+  user.role = role;
+  user.active = active;
+  user.updatedAt = now;
+  if (payload.password) {
+    setPassword(user, payload.password);
+    // 管理員設定的密碼只作為初始密碼，本人下次登入時須改設
+    user.mustChangePassword = username !== actor;
+  }
+  writeUser(ss, user);
+  return { result: "ok" };
+}
+
+/**
+ * 依第一欄 (或前兩欄) 鍵值更新或新增一列
+ */
+function upsertRow(sheet, keyCount, row) {
+  var values = sheet.getDataRange().getValues();
+  for (var i = 1; i < values.length; i++) {
+    var match = true;
+    for (var k = 0; k < keyCount; k++) {
+      if (String(values[i][k]).trim() !== String(row[k]).replace(/^'/, "").trim()) { match = false; break; }
+    }
+    if (match) {
+      sheet.getRange(i + 1, 1, 1, row.length).setValues([row]);
+      return;
+    }
+  }
+  sheet.appendRow(row);
+}
+
+/**
+ * 廠商主檔：以名稱為鍵 (紀錄中的廠商欄位儲存名稱)；統一編號若填寫須為 8 碼數字
+ */
+function handleVendorAction(ss, action, actor, payload) {
+  var name = String(payload.name || payload.vendor || "").trim();
+  if (!name) throw new Error("廠商名稱不可空白");
+  var now = new Date().toISOString();
+
+  if (action === "set_vendor_payment") {
+    var period = String(payload.period || "");
+    if (!/^\d{4}-\d{2}$/.test(period)) throw new Error("月份格式錯誤: " + period);
+    var status = String(payload.status || "");
+    if (PAYMENT_STATUSES.indexOf(status) === -1) throw new Error("未知的付款狀態: " + status);
+    // 以 ' 開頭強制存為文字，避免試算表將 YYYY-MM 自動轉為日期
+    upsertRow(getOrCreateSheet(ss, VENDOR_PAYMENT_SHEET, VENDOR_PAYMENT_HEADERS), 2,
+      ["'" + period, name, status, status === "paid" ? now : "", actor, now]);
+    return { result: "ok" };
+  }
+
+  var taxId = String(payload.taxId || "").trim();
+  if (taxId && !/^\d{8}$/.test(taxId)) throw new Error("統一編號須為 8 碼數字");
+  // 統一編號可能以 0 開頭，同樣強制存為文字
+  upsertRow(getOrCreateSheet(ss, VENDOR_SHEET, VENDOR_HEADERS), 1, [
+    name, taxId ? "'" + taxId : "", String(payload.contact || "").trim(),
+    String(payload.paymentTerms || "").trim(), payload.active !== false, actor, now
+  ]);
+  return { result: "ok" };
+}
+
+/**
+ * 安全庫存：最低 (再訂購點) 與最高庫存皆為非負數，0 表示未設定；兩者皆設定時最高不可低於最低
+ */
+function assertStockLevels(pn, item) {
+  var min = Number(item.minStock || 0);
+  var max = Number(item.maxStock || 0);
+  if (isNaN(min) || min < 0 || isNaN(max) || max < 0) throw new Error("料號 " + pn + " 的安全庫存不正確");
+  if (min > 0 && max > 0 && max < min) throw new Error("料號 " + pn + " 的最高庫存不可低於最低庫存");
+}
+
+/**
+ * 料件主檔：以料號 (不分大小寫) 為鍵批次新增或更新；新料件一次整批附加
+ */
+function handleMaterialAction(ss, actor, list) {
+  if (!Array.isArray(list) || list.length === 0) throw new Error("沒有可儲存的料件");
+  list.forEach(function(item) {
+    var pn = String(item.pn || "").trim();
+    var name = String(item.name || "").trim();
+    if (!pn || !name) throw new Error("料號與品名不可空白");
+    var price = Number(item.defaultPrice || 0);
+    if (isNaN(price) || price < 0) throw new Error("料號 " + pn + " 的預設單價不正確");
+    assertStockLevels(pn, item);
+  });
+  var sheet = getOrCreateSheet(ss, MATERIAL_SHEET, MATERIAL_HEADERS);
+  ensureSheetHeaders(sheet, MATERIAL_HEADERS);
+  var values = sheet.getDataRange().getValues();
+  var index = {};
+  for (var i = 1; i < values.length; i++) index[String(values[i][0]).trim().toUpperCase()] = i;
+  var now = new Date().toISOString();
+  var appended = [];
+  var pending = {};
+  list.forEach(function(item) {
+    var pn = String(item.pn).trim();
+    // 以 ' 開頭強制存為文字，避免以 0 開頭的料號被轉為數字
+    var row = ["'" + pn, String(item.name).trim(), String(item.unit || "").trim(), Number(item.defaultPrice || 0),
+      String(item.machineCategory || ""), item.active !== false, actor, now, Number(item.minStock || 0), Number(item.maxStock || 0)];
+    var key = pn.toUpperCase();
+    var idx = index[key];
+    if (idx !== undefined) sheet.getRange(idx + 1, 1, 1, row.length).setValues([row]);
+    else if (pending[key] !== undefined) appended[pending[key]] = row;
+    else pending[key] = appended.push(row) - 1;
+  });
+  if (appended.length > 0) sheet.getRange(values.length + 1, 1, appended.length, MATERIAL_HEADERS.length).setValues(appended);
+  return { result: "ok", count: list.length };
+}
+
+/**
+ * 機台登錄：以機台編號 (不分大小寫) 為鍵新增或更新；啟用日期若填寫須為 YYYY-MM-DD
+ */
+function handleMachineAction(ss, actor, payload) {
+  var id = String(payload.id || "").trim();
+  if (!id) throw new Error("機台編號不可空白");
+  var status = String(payload.status || "active");
+  if (MACHINE_STATUSES.indexOf(status) === -1) throw new Error("未知的機台狀態: " + status);
+  var commissionedAt = String(payload.commissionedAt || "").trim();
+  if (commissionedAt && !/^\d{4}-\d{2}-\d{2}$/.test(commissionedAt)) throw new Error("啟用日期格式錯誤: " + commissionedAt);
+  var sheet = getOrCreateSheet(ss, MACHINE_SHEET, MACHINE_HEADERS);
+  var values = sheet.getDataRange().getValues();
+  // 沿用既有列的原始編號寫法，避免大小寫不同時重複建立
+  for (var i = 1; i < values.length; i++) {
+    if (String(values[i][0]).trim().toUpperCase() === id.toUpperCase()) { id = String(values[i][0]).trim(); break; }
+  }
+  // 機台編號與日期以 ' 開頭強制存為文字，避免被轉為數字或日期
+  upsertRow(sheet, 1, [
+    "'" + id, String(payload.category || "").trim(), String(payload.location || "").trim(),
+    commissionedAt ? "'" + commissionedAt : "", status, actor, new Date().toISOString()
+  ]);
+  return { result: "ok" };
+}
+
+/**
+ * 預算：新增或更新單一 維度 + 類別 + 期間 的金額；金額為 0 表示不設預算
+ */
+function handleBudgetAction(ss, actor, payload) {
+  var dimension = String(payload.dimension || "");
+  if (BUDGET_DIMENSIONS.indexOf(dimension) === -1) throw new Error("未知的預算維度: " + dimension);
+  var category = String(payload.category || "").trim();
+  if (!category) throw new Error("預算類別不可空白");
+  var period = String(payload.period || "");
+  if (!/^\d{4}(-\d{2})?$/.test(period)) throw new Error("預算期間格式錯誤: " + period);
+  var amount = Number(payload.amount);
+  if (isNaN(amount) || amount < 0) throw new Error("預算金額不正確");
+  // 期間以 ' 開頭強制存為文字，避免 YYYY-MM 被轉為日期、YYYY 被轉為數字
+  upsertRow(getOrCreateSheet(ss, BUDGET_SHEET, BUDGET_HEADERS), 3,
+    [dimension, category, "'" + period, amount, actor, new Date().toISOString()]);
+  return { result: "ok" };
+}
+
+function readReports(ss) {
+  var sheet = ss.getSheetByName(REPORT_SHEET);
+  if (!sheet) return [];
+  return readObjects(sheet).map(function(r) {
+    var def = {};
+    try { def = JSON.parse(String(r.definition || "{}")); } catch (err) { def = {}; }
+    return {
+      name: String(r.name).replace(/^'/, "").trim(),
+      description: r.description,
+      filters: def.filters || {},
+      columns: def.columns || [],
+      groupBy: def.groupBy || [],
+      aggregates: def.aggregates || [],
+      createdBy: r.createdBy,
+      updatedBy: r.updatedBy,
+      updatedAt: r.updatedAt
+    };
+  });
+}
+
+/**
+ * 檢查報表定義內容：分組維度與彙總方式須為已知值，且至少有一個明細欄位或分組
+ */
+function normalizeReportDefinition(payload) {
+  var name = String(payload.name || "").trim();
+  if (!name) throw new Error("報表名稱不可空白");
+  if (name.length > REPORT_NAME_MAX) throw new Error("報表名稱不可超過 " + REPORT_NAME_MAX + " 字");
+  var columns = Array.isArray(payload.columns) ? payload.columns.map(String) : [];
+  var groupBy = Array.isArray(payload.groupBy) ? payload.groupBy.map(String) : [];
+  groupBy.forEach(function(d) {
+    if (REPORT_DIMENSIONS.indexOf(d) === -1) throw new Error("未知的分組維度: " + d);
+  });
+  var aggregates = (Array.isArray(payload.aggregates) ? payload.aggregates : []).map(function(a) {
+    var fn = String((a && a.fn) || "");
+    var field = String((a && a.field) || "total");
+    if (REPORT_AGGREGATE_FNS.indexOf(fn) === -1) throw new Error("未知的彙總方式: " + fn);
+    if (REPORT_MEASURES.indexOf(field) === -1) throw new Error("未知的彙總欄位: " + field);
+    return { fn: fn, field: field };
+  });
+  if (columns.length === 0 && groupBy.length === 0) throw new Error("請至少選擇一個欄位或分組維度");
+  return {
+    name: name,
+    description: String(payload.description || "").trim(),
+    filters: payload.filters && typeof payload.filters === "object" ? payload.filters : {},
+    columns: columns,
+    groupBy: groupBy,
+    aggregates: aggregates
+  };
+}
+
+function assertReportOwner(ss, actor, report) {
+  var user = findUser(readUsers(ss), actor);
+  if (String(report.createdBy) !== actor && !(user && user.role === "admin")) {
+    throw new Error("只有建立者或管理員可以修改或刪除此報表");
+  }
+}
+
+/**
+ * 報表定義：save_report 以名稱為鍵新增或覆寫，delete_report 依名稱刪除
+ */
+function handleReportAction(ss, action, actor, payload) {
+  var existing = null;
+  var name = String(payload.name || "").trim();
+  readReports(ss).forEach(function(r) { if (r.name === name) existing = r; });
+  if (action === "delete_report") {
+    if (!existing) throw new Error("找不到報表: " + name);
+    assertReportOwner(ss, actor, existing);
+    var sheet = ss.getSheetByName(REPORT_SHEET);
+    var values = sheet.getDataRange().getValues();
+    for (var i = values.length - 1; i >= 1; i--) {
+      if (String(values[i][0]).replace(/^'/, "").trim() === name) sheet.deleteRow(i + 1);
+    }
+    return { result: "ok" };
+  }
+  var def = normalizeReportDefinition(payload);
+  if (existing) assertReportOwner(ss, actor, existing);
+  // 名稱以 ' 開頭強制存為文字，避免純數字名稱被轉為數字
+  upsertRow(getOrCreateSheet(ss, REPORT_SHEET, REPORT_HEADERS), 1, [
+    "'" + def.name, def.description,
+    JSON.stringify({ filters: def.filters, columns: def.columns, groupBy: def.groupBy, aggregates: def.aggregates }),
+    existing ? existing.createdBy : actor, actor, new Date().toISOString()
+  ]);
+  return { result: "ok" };
+}
+
+function readRequisitions(ss) {
+  var sheet = ss.getSheetByName(REQUISITION_SHEET);
+  if (!sheet) return [];
+  return readObjects(sheet).map(function(r) {
+    var lines = [];
+    try { lines = JSON.parse(String(r.lines || "[]")); } catch (err) { lines = []; }
+    r.id = String(r.id).replace(/^'/, "").trim();
+    r.lines = lines;
+    r.transactionIds = String(r.transactionIds || "").split(",").filter(function(x) { return x; });
+    return r;
+  });
+}
+
+function writeRequisition(ss, req) {
+  upsertRow(getOrCreateSheet(ss, REQUISITION_SHEET, REQUISITION_HEADERS), 1, REQUISITION_HEADERS.map(function(h) {
+    if (h === "id") return "'" + req.id;
+    if (h === "lines") return JSON.stringify(req.lines || []);
+    if (h === "transactionIds") return (req.transactionIds || []).join(",");
+    return req[h] === undefined || req[h] === null ? "" : req[h];
+  }));
+}
+
+function normalizeRequisitionLines(lines) {
+  if (!Array.isArray(lines) || lines.length === 0) throw new Error("請購單至少需有一項料件");
+  return lines.map(function(line, i) {
+    var name = String(line.materialName || "").trim();
+    if (!name) throw new Error("第 " + (i + 1) + " 項未填料件名稱");
+    var qty = Number(line.quantity);
+    if (isNaN(qty) || qty <= 0) throw new Error("第 " + (i + 1) + " 項數量需大於 0");
+    var price = Number(line.unitPrice || 0);
+    if (isNaN(price) || price < 0) throw new Error("第 " + (i + 1) + " 項單價不正確");
+    return {
+      materialName: name,
+      materialNumber: String(line.materialNumber || "").trim(),
+      machineCategory: String(line.machineCategory || "").trim(),
+      accountCategory: String(line.accountCategory || "").trim(),
+      vendor: String(line.vendor || "").trim(),
+      quantity: qty,
+      unitPrice: price,
+      note: String(line.note || "").trim()
+    };
+  });
+}
+
+/**
+ * 請購單轉進貨：每一項產生一筆待收貨的進貨紀錄，並以 requisitionId 連回請購單
+ */
+function requisitionRecords(req, date, actor) {
+  return req.lines.map(function(line, i) {
+    return {
+      id: req.id + "-" + (i + 1),
+      date: date,
+      type: "進貨",
+      materialName: line.materialName,
+      materialNumber: line.materialNumber,
+      machineCategory: line.machineCategory,
+      machineNumber: "",
+      accountCategory: line.accountCategory,
+      vendor: line.vendor,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      note: line.note ? "請購單 " + req.id + "：" + line.note : "請購單 " + req.id,
+      operator: actor,
+      isReceived: false,
+      requisitionId: req.id
+    };
+  });
+}
+
+/**
+ * 請購單：請購人建立與送審、核准者核准或退回 (不可核准自己的請購單)、核准後轉為進貨紀錄
+ */
+function handleRequisitionAction(ss, action, actor, payload) {
+  var id = String(payload.id || "").trim();
+  if (!id) throw new Error("請購單號不可空白");
+  var req = readRequisitions(ss).filter(function(r) { return r.id === id; })[0];
+  var now = new Date().toISOString();
+
+  if (action === "save_requisition") {
+    if (req && String(req.requester) !== actor) throw new Error("只有請購人可以修改此請購單");
+    if (req && EDITABLE_REQUISITION_STATUSES.indexOf(req.status) === -1) throw new Error("請購單已送審，無法修改");
+    var justification = String(payload.justification || "").trim();
+    if (payload.submit && !justification) throw new Error("送審前請填寫請購理由");
+    var lines = normalizeRequisitionLines(payload.lines);
+    req = req || { id: id, requester: actor, createdAt: now };
+    req.justification = justification;
+    req.lines = lines;
+    req.status = payload.submit ? "submitted" : "draft";
+    req.approver = "";
+    req.decidedAt = "";
+    req.decisionNote = "";
+    req.updatedAt = now;
+    writeRequisition(ss, req);
+    return { result: "ok" };
+  }
+
+  if (!req) throw new Error("找不到請購單: " + id);
+
+  if (action === "decide_requisition") {
+    if (req.status !== "submitted") throw new Error("只有送審中的請購單可以核准或退回");
+    if (String(req.requester) === actor) throw new Error("不可核准或退回自己提出的請購單");
+    var decision = String(payload.decision || "");
+    if (REQUISITION_DECISIONS.indexOf(decision) === -1) throw new Error("未知的審核結果: " + decision);
+    var note = String(payload.note || "").trim();
+    if (decision === "rejected" && !note) throw new Error("退回請購單需填寫原因");
+    req.status = decision;
+    req.approver = actor;
+    req.decidedAt = now;
+    req.decisionNote = note;
+    req.updatedAt = now;
+    writeRequisition(ss, req);
+    return { result: "ok" };
+  }
+
+  // order_requisition
+  if (req.status !== "approved") throw new Error("只有已核准的請購單可以轉為進貨");
+  var date = String(payload.date || "").trim();
+  assertPeriodOpen(getLockedPeriods(ss), date);
+  var records = requisitionRecords(req, date, actor);
+  var rowErrors = [];
+  records.forEach(function(record, index) {
+    var errors = validateTransaction(record);
+    if (Object.keys(errors).length > 0) rowErrors.push({ index: index, id: record.id, fieldErrors: errors });
+  });
+  if (rowErrors.length > 0) throw validationError({}, rowErrors);
+  var sheet = ss.getSheetByName("進貨");
+  if (!sheet) {
+    sheet = ss.insertSheet("進貨");
+    sheet.appendRow(COMMON_FIELDS.map(function(f){return f.header;}));
+  }
+  ensureHeaders(sheet, "進貨");
+  var headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+  records.forEach(function(record) {
+    record.version = 1;
+    var rowData = processRowData(sheet, "進貨", record, record.id, actor);
+    sheet.appendRow(rowData);
+    appendAudit(ss, "insert", record.id, "進貨", actor, diffRecords({}, rowToObject(headers, rowData)));
+  });
+  req.status = "ordered";
+  req.orderedBy = actor;
+  req.orderedAt = now;
+  req.transactionIds = records.map(function(r) { return r.id; });
+  req.updatedAt = now;
+  writeRequisition(ss, req);
+  return { result: "ok", count: records.length };
+}
+
+/**
+ * 已到貨數量以收貨明細累計為準；僅在沒有任何明細的舊資料才採用「是否收貨」旗標 (已標記視為全數到貨)
+ */
+function receivedQuantity(record, receipts) {
+  if (receipts.length === 0) {
+    var flag = pickField(record, INBOUND_FIELDS[0].keys);
+    return flag === true || String(flag).toUpperCase() === "TRUE" ? Number(pickField(record, COMMON_FIELDS[6].keys) || 0) : 0;
+  }
+  return receipts.reduce(function(sum, r) { return sum + Number(r.quantity || 0); }, 0);
+}
+
+function readRecordReceipts(ss, recordId) {
+  var receiptSheet = ss.getSheetByName(RECEIPT_SHEET);
+  if (!receiptSheet) return [];
+  return readObjects(receiptSheet).filter(function(r) { return String(r.recordId).trim() === recordId; });
+}
+
+/**
+ * 修改進貨時不採信前端傳入的「是否收貨」：有收貨明細者依累計數量判定，且進貨數量不可少於已到貨數量；
+ * 沒有明細者沿用原值
+ */
+function reconcileReceived(ss, id, before, payload) {
+  var receipts = readRecordReceipts(ss, id);
+  delete payload["是否收貨"];
+  if (receipts.length === 0) {
+    var flag = pickField(before, INBOUND_FIELDS[0].keys);
+    payload.isReceived = flag === true || String(flag).toUpperCase() === "TRUE";
+    return;
+  }
+  var received = receivedQuantity(before, receipts);
+  var qty = Number(payload.quantity || 1);
+  if (qty < received) throw validationError({ quantity: "進貨數量不可少於已到貨數量 " + received });
+  payload.isReceived = received >= qty;
+}
+
+/**
+ * 分批收貨：累計數量不可超過進貨數量，全數到貨時同步將進貨紀錄標為已收貨
+ */
+function handleReceiptAction(ss, actor, payload) {
+  var recordId = String(payload.recordId || "").trim();
+  var sheet = ss.getSheetByName("進貨");
+  if (!sheet) throw new Error("找不到進貨紀錄: " + recordId);
+  ensureHeaders(sheet, "進貨");
+  var values = sheet.getDataRange().getValues();
+  var headers = values[0].map(function(h) { return String(h).trim(); });
+  var rowIdx = -1;
+  for (var i = 1; i < values.length; i++) {
+    if (String(values[i][0]).trim() === recordId && !isRowDeleted(rowToObject(headers, values[i]))) { rowIdx = i; break; }
+  }
+  if (rowIdx === -1) throw new Error("找不到進貨紀錄: " + recordId);
+  var record = rowToObject(headers, values[rowIdx]);
+
+  var date = String(payload.date || "").trim();
+  if (!isValidDate(date)) throw validationError({ date: "收貨日期格式錯誤，應為 YYYY-MM-DD" });
+  if (date < cellToString(pickField(record, COMMON_FIELDS[1].keys)).slice(0, 10)) throw validationError({ date: "收貨日期不可早於進貨單據日期" });
+  assertPeriodOpen(getLockedPeriods(ss), date);
+
+  var receiptSheet = getOrCreateSheet(ss, RECEIPT_SHEET, RECEIPT_HEADERS);
+  var previous = readRecordReceipts(ss, recordId);
+  var ordered = Number(pickField(record, COMMON_FIELDS[6].keys) || 0);
+  var receivedKeys = INBOUND_FIELDS[0].keys;
+  var received = receivedQuantity(record, previous);
+  var outstanding = ordered - received;
+  if (outstanding <= 0) throw new Error("此進貨已全數到貨");
+  var qty = Number(payload.quantity);
+  if (isNaN(qty) || qty <= 0) throw validationError({ quantity: "收貨數量需大於 0" });
+  if (qty > outstanding) throw validationError({ quantity: "收貨數量超過未到貨數量 " + outstanding });
+
+  receiptSheet.appendRow(["'" + recordId + "-R" + (previous.length + 1), "'" + recordId, "'" + date, qty, actor, String(payload.note || "").trim(), new Date().toISOString()]);
+  var changes = [{ field: "receivedQuantity", before: String(received), after: String(received + qty) }];
+  if (received + qty >= ordered) {
+    var receivedCol = headers.findIndex(function(h) { return receivedKeys.indexOf(h) !== -1; });
+    var versionCol = headers.findIndex(function(h) { return VERSION_FIELDS[0].keys.indexOf(h) !== -1; });
+    var after = Object.assign({}, record);
+    after[headers[receivedCol]] = true;
+    after[headers[versionCol]] = Number(pickField(record, VERSION_FIELDS[0].keys) || 0) + 1;
+    sheet.getRange(rowIdx + 1, receivedCol + 1).setValue(true);
+    sheet.getRange(rowIdx + 1, versionCol + 1).setValue(after[headers[versionCol]]);
+    changes = changes.concat(diffRecords(record, after));
+  }
+  appendAudit(ss, "receive", recordId, "進貨", actor, changes);
+  return { result: "ok", outstanding: outstanding - qty };
+}
+
+function getLockedPeriods(ss) {
+  var sheet = ss.getSheetByName(PERIOD_SHEET);
+  if (!sheet) return [];
+  return readObjects(sheet)
+    .filter(function(p) { return p.status === "closed"; })
+    .map(function(p) { return String(p.period); });
+}
+
+/**
+ * 月結鎖定：拒絕寫入已關帳月份的紀錄
+ */
+function assertPeriodOpen(locked, dateVal) {
+  var period = toPeriod(dateVal);
+  if (period && locked.indexOf(period) !== -1) {
+    throw new Error(period + " 已月結關帳，無法新增、修改或刪除該月份紀錄");
+  }
+}
+
+function findRecordDate(ss, id) {
+  for (var c = 0; c < CATEGORIES.length; c++) {
+    var s = ss.getSheetByName(CATEGORIES[c]);
+    if (!s) continue;
+    var rows = readObjects(s);
+    for (var i = 0; i < rows.length; i++) {
+      var rowId = String(rows[i]["id"] || rows[i]["ID"] || rows[i]["編號"]).trim();
+      if (rowId === id) return rows[i]["date"] || rows[i]["日期"] || rows[i]["單據日期"];
+    }
+  }
+  return "";
+}
+
+/**
+ * 所有類別工作表中已使用的紀錄編號 (含回收桶)
+ */
+function readRecordIds(ss) {
+  var ids = {};
+  CATEGORIES.forEach(function(cat) {
+    var s = ss.getSheetByName(cat);
+    if (!s) return;
+    readObjects(s).forEach(function(r) { ids[String(r["id"] || r["ID"] || r["編號"]).trim()] = true; });
+  });
+  return ids;
+}
+
+/**
+ * 重送防護：同一帳號以相同 requestId 再次送出的寫入 (例如回應遺失後由離線佇列重送)
+ * 直接回傳第一次成功時的結果，不再重複執行
+ */
+function findRequest(ss, actor, requestId) {
+  var sheet = ss.getSheetByName(REQUEST_SHEET);
+  if (!sheet) return null;
+  var rows = readObjects(sheet);
+  for (var i = 0; i < rows.length; i++) {
+    if (String(rows[i].requestId) === requestId && String(rows[i].actor) === actor) return JSON.parse(String(rows[i].reply));
+  }
+  return null;
+}
+
+function rememberRequest(ss, actor, requestId, reply) {
+  var sheet = getOrCreateSheet(ss, REQUEST_SHEET, REQUEST_HEADERS);
+  var now = Date.now();
+  var values = sheet.getDataRange().getValues();
+  for (var i = values.length - 1; i >= 1; i--) {
+    if (!(now - new Date(values[i][3]).getTime() < REQUEST_LOG_DAYS * 86400000)) sheet.deleteRow(i + 1);
+  }
+  sheet.appendRow(["'" + requestId, actor, JSON.stringify(reply), new Date(now).toISOString()]);
+}
+
+function readAudit(ss, id) {
+  var sheet = ss.getSheetByName(AUDIT_SHEET);
+  if (!sheet) return [];
+  return readObjects(sheet)
+    .filter(function(r) { return !id || String(r.id).trim() === id; })
+    .map(function(r) {
+      var changes = [];
+      try { changes = JSON.parse(r.changes || "[]"); } catch (err) {}
+      return { timestamp: cellToString(r.timestamp), action: r.action, id: String(r.id), type: r.type, operator: r.operator, changes: changes };
+    });
+}
+
+/**
+ * 伺服器端重新計算指定月份的 MonthlyStats
+ */
+function computeMonthlyStats(ss, period) {
+  var keys = { "進貨": "inboundTotal", "用料": "usageTotal", "建置": "constructionTotal", "維修": "repairTotal" };
+  var stats = { inboundTotal: 0, usageTotal: 0, constructionTotal: 0, repairTotal: 0, grandTotal: 0 };
+  CATEGORIES.forEach(function(cat) {
+    var sheet = ss.getSheetByName(cat);
+    if (!sheet) return;
+    readObjects(sheet).forEach(function(row) {
+      if (isRowDeleted(row)) return;
+      if (toPeriod(row["date"] || row["日期"] || row["單據日期"]) !== period) return;
+      var amount = Number(row["total"] || row["總額"] || row["維修總額"] || row["小計"] || row["結算總額"] || 0);
+      stats[keys[cat]] += amount;
+      stats.grandTotal += amount;
+    });
+  });
+  return stats;
+}
+
+function handlePeriodAction(ss, action, operator, payload) {
+  var period = String(payload.period || "");
+  if (!/^\d{4}-\d{2}$/.test(period)) throw new Error("月份格式錯誤: " + period);
+  var now = new Date().toISOString();
+  var sheet = getOrCreateSheet(ss, PERIOD_SHEET, PERIOD_HEADERS);
+  var logSheet = getOrCreateSheet(ss, PERIOD_LOG_SHEET, PERIOD_LOG_HEADERS);
+  var values = sheet.getDataRange().getValues();
+  var rowIdx = -1;
+  for (var i = 1; i < values.length; i++) { if (String(values[i][0]) === period) { rowIdx = i + 1; break; } }
+
+  if (action === "close_period") {
+    if (rowIdx !== -1 && values[rowIdx - 1][1] === "closed") throw new Error(period + " 已經關帳");
+    var stats = computeMonthlyStats(ss, period);
+    // 以 ' 開頭強制存為文字，避免試算表將 YYYY-MM 自動轉為日期
+    var row = ["'" + period, "closed", stats.inboundTotal, stats.usageTotal, stats.constructionTotal, stats.repairTotal, stats.grandTotal, operator, now, "", "", ""];
+    if (rowIdx !== -1) sheet.getRange(rowIdx, 1, 1, row.length).setValues([row]);
+    else sheet.appendRow(row);
+    logSheet.appendRow([now, "'" + period, "close", operator, ""]);
+    return { result: "ok", stats: stats };
+  }
+
+  // reopen_period：必須明確提供原因並留下稽核紀錄
+  var reason = String(payload.reason || "").trim();
+  if (!reason) throw new Error("重新開帳必須填寫原因");
+  if (rowIdx === -1 || values[rowIdx - 1][1] !== "closed") throw new Error(period + " 尚未關帳");
+  sheet.getRange(rowIdx, 2).setValue("open");
+  sheet.getRange(rowIdx, 10, 1, 3).setValues([[operator, now, reason]]);
+  logSheet.appendRow([now, "'" + period, "reopen", operator, reason]);
+  return { result: "ok" };
+}
 
 function ensureHeaders(sheet, sheetName) {
   var lastCol = sheet.getLastColumn();
@@ -54,6 +1292,8 @@ function ensureHeaders(sheet, sheetName) {
   } else {
     targetFields = targetFields.concat(REPAIR_FIELDS);
   }
+  if (VENDOR_CATEGORIES.indexOf(sheetName) !== -1) targetFields = targetFields.concat(VENDOR_FIELDS);
+  targetFields = targetFields.concat(DELETE_FIELDS).concat(VERSION_FIELDS);
 
   var missingHeaders = [];
   targetFields.forEach(function(field) {
@@ -70,11 +1310,11 @@ function ensureHeaders(sheet, sheetName) {
 }
 
 /**
- * 安全處理：重新計算財務數據，不信任前端傳入的 total
+ * 安全處理：重新計算財務數據，不信任前端傳入的 total；操作人員一律為已驗證的 actor
  */
-function processRowData(sheet, type, payload, id) {
+function processRowData(sheet, type, payload, id, actor) {
   var currentHeaders = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
-  var allFieldDefinitions = COMMON_FIELDS.concat(ACCOUNT_FIELDS).concat(INBOUND_FIELDS).concat(REPAIR_FIELDS);
+  var allFieldDefinitions = COMMON_FIELDS.concat(ACCOUNT_FIELDS).concat(INBOUND_FIELDS).concat(REPAIR_FIELDS).concat(VENDOR_FIELDS).concat(DELETE_FIELDS).concat(VERSION_FIELDS);
   
   // 提取基礎財務數據進行伺服器端計算
   var qty = Number(payload.quantity || 1);
@@ -90,6 +1330,7 @@ function processRowData(sheet, type, payload, id) {
       if (matchedField.header === "total") return calculatedTotal;
       if (matchedField.header === "quantity") return qty;
       if (matchedField.header === "unitPrice") return price;
+      if (matchedField.header === "操作人員") return actor;
 
       if (type === "維修") {
         if (ACCOUNT_FIELDS.some(function(f) { return f.header === matchedField.header; })) return "";
@@ -98,6 +1339,7 @@ function processRowData(sheet, type, payload, id) {
         if (REPAIR_FIELDS.some(function(f) { return f.header === matchedField.header; })) return "";
         if (type !== "進貨" && INBOUND_FIELDS.some(function(f) { return f.header === matchedField.header; })) return "";
       }
+      if (VENDOR_CATEGORIES.indexOf(type) === -1 && VENDOR_FIELDS.some(function(f) { return f.header === matchedField.header; })) return "";
 
       for (var j = 0; j < matchedField.keys.length; j++) {
         var key = matchedField.keys[j];
@@ -116,6 +1358,61 @@ function processRowData(sheet, type, payload, id) {
 
 function doGet(e) {
   var ss = SpreadsheetApp.getActiveSpreadsheet();
+  var getAction = e && e.parameter ? e.parameter.action : "";
+  var viewer;
+  try {
+    viewer = verifyToken(ss, e && e.parameter ? e.parameter.token : "");
+  } catch (err) {
+    return jsonOutput({ result: "unauthorized", message: err.message });
+  }
+  // 帳號名單與角色僅供管理員維護帳號使用
+  if (getAction === "users") {
+    if (viewer.role !== "admin") return jsonOutput({ result: "error", message: "權限不足：此操作需要 admin 以上角色" });
+    return jsonOutput(readUsers(ss).map(publicUser));
+  }
+  if (getAction === "audit") {
+    return jsonOutput(readAudit(ss, e.parameter.id ? String(e.parameter.id).trim() : ""));
+  }
+  if (getAction === "periods") {
+    var periodSheet = ss.getSheetByName(PERIOD_SHEET);
+    var logSheet = ss.getSheetByName(PERIOD_LOG_SHEET);
+    return jsonOutput({
+      periods: periodSheet ? readObjects(periodSheet) : [],
+      log: logSheet ? readObjects(logSheet) : []
+    });
+  }
+  if (getAction === "materials") {
+    var materialSheet = ss.getSheetByName(MATERIAL_SHEET);
+    return jsonOutput(materialSheet ? readObjects(materialSheet) : []);
+  }
+  if (getAction === "machines") {
+    var machineSheet = ss.getSheetByName(MACHINE_SHEET);
+    return jsonOutput(machineSheet ? readObjects(machineSheet) : []);
+  }
+  if (getAction === "requisitions") {
+    return jsonOutput(readRequisitions(ss));
+  }
+  if (getAction === "receipts") {
+    var receiptSheet = ss.getSheetByName(RECEIPT_SHEET);
+    return jsonOutput(receiptSheet ? readObjects(receiptSheet) : []);
+  }
+  if (getAction === "budgets") {
+    var budgetSheet = ss.getSheetByName(BUDGET_SHEET);
+    return jsonOutput(budgetSheet ? readObjects(budgetSheet) : []);
+  }
+  if (getAction === "reports") {
+    return jsonOutput(readReports(ss));
+  }
+  if (getAction === "vendors") {
+    var vendorSheet = ss.getSheetByName(VENDOR_SHEET);
+    var paymentSheet = ss.getSheetByName(VENDOR_PAYMENT_SHEET);
+    return jsonOutput({
+      vendors: vendorSheet ? readObjects(vendorSheet) : [],
+      payments: paymentSheet ? readObjects(paymentSheet) : []
+    });
+  }
+  // 預設排除已刪除紀錄；action=deleted 僅回傳回收桶內容
+  var onlyDeleted = getAction === "deleted";
   var allData = [];
   CATEGORIES.forEach(function(cat) {
     var sheet = ss.getSheetByName(cat);
@@ -129,7 +1426,7 @@ function doGet(e) {
           headers.forEach(function(h, idx) { obj[h] = row[idx]; });
           obj["id"] = obj["id"] || obj["ID"] || obj["編號"] || row[0];
           obj["type"] = cat;
-          allData.push(obj);
+          if (isRowDeleted(obj) === onlyDeleted) allData.push(obj);
         }
       }
     }
@@ -137,67 +1434,171 @@ function doGet(e) {
   return ContentService.createTextOutput(JSON.stringify(allData)).setMimeType(ContentService.MimeType.JSON);
 }
 
+/**
+ * 所有 POST 皆在指令碼鎖內依序執行：版本檢查、收貨累計與請購單狀態等「先檢查再寫入」的步驟
+ * 不會與同時進行的其他執行交錯
+ */
 function doPost(e) {
+  var lock = LockService.getScriptLock();
+  if (!lock.tryLock(LOCK_TIMEOUT_MS)) return jsonOutput({ result: "busy", message: "系統忙碌中，請稍後再試" });
+  try {
+    return handlePost(e);
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+function handlePost(e) {
   try {
     var params = JSON.parse(e.postData.contents);
     var action = params.action;
     var ss = SpreadsheetApp.getActiveSpreadsheet();
 
     if (action === 'login') {
-      var payload = params.data || {};
-      var masterPass = PROPERTIES.getProperty('MASTER_PASSWORD');
-      if (payload.password === masterPass) {
-        return ContentService.createTextOutput(JSON.stringify({authorized: true})).setMimeType(ContentService.MimeType.JSON);
-      }
-      return ContentService.createTextOutput(JSON.stringify({authorized: false, message: "密碼不正確"})).setMimeType(ContentService.MimeType.JSON);
+      return jsonOutput(handleLogin(ss, params.data || {}));
     }
 
-    if (action === 'batch_insert') {
-      var list = params.data || [];
-      list.forEach(function(item) {
-        var sheet = ss.getSheetByName(item.type);
-        if (!sheet) {
-          sheet = ss.insertSheet(item.type);
-          sheet.appendRow(COMMON_FIELDS.map(function(f){return f.header;}));
-        }
-        ensureHeaders(sheet, item.type);
-        var rowData = processRowData(sheet, item.type, item, item.id);
-        sheet.appendRow(rowData);
-      });
-      return ContentService.createTextOutput(JSON.stringify({result: "ok", count: list.length})).setMimeType(ContentService.MimeType.JSON);
+    if (action === 'logout') {
+      revokeToken(ss, params.token);
+      return jsonOutput({ result: "ok" });
     }
 
-    var type = params.type; 
-    var id = String(params.id).trim();
-    var sheet = ss.getSheetByName(type);
-    if (!sheet) {
-      sheet = ss.insertSheet(type);
-      sheet.appendRow(COMMON_FIELDS.map(function(f){return f.header;}));
-    }
-    ensureHeaders(sheet, type);
+    // 操作人員身分一律取自已驗證的權杖，不採信請求內容
+    var actor = String(verifyToken(ss, params.token).username);
+    assertRole(ss, actor, action);
 
-    if (action === 'insert' || action === 'update') {
-      var rowData = processRowData(sheet, type, params.data, id);
-      if (action === 'insert') {
-        sheet.appendRow(rowData);
-      } else {
-        var values = sheet.getDataRange().getValues();
-        var rowIdx = -1;
-        for (var i = 1; i < values.length; i++) { if (String(values[i][0]).trim() === id) { rowIdx = i + 1; break; } }
-        if (rowIdx !== -1) sheet.getRange(rowIdx, 1, 1, rowData.length).setValues([rowData]);
-        else sheet.appendRow(rowData);
-      }
-    } else if (action === 'delete') {
-      CATEGORIES.forEach(function(cat) {
-        var s = ss.getSheetByName(cat);
-        if (s) {
-          var v = s.getDataRange().getValues();
-          for (var i = v.length - 1; i >= 1; i--) { if (String(v[i][0]).trim() === id) s.deleteRow(i + 1); }
-        }
-      });
-    }
-    return ContentService.createTextOutput(JSON.stringify({result: "ok"})).setMimeType(ContentService.MimeType.JSON);
+    var requestId = String(params.requestId || "");
+    var replayed = requestId ? findRequest(ss, actor, requestId) : null;
+    if (replayed) return jsonOutput(replayed);
+    var reply = handleWrite(ss, action, actor, params);
+    if (requestId) rememberRequest(ss, actor, requestId, reply);
+    return jsonOutput(reply);
   } catch (err) {
+    if (err.conflict) return jsonOutput({ result: "conflict", message: err.message });
+    if (err.unauthorized) return jsonOutput({ result: "unauthorized", message: err.message });
+    if (err.fieldErrors) return jsonOutput({ result: "error", message: err.message, fieldErrors: err.fieldErrors, rowErrors: err.rowErrors });
     return ContentService.createTextOutput(JSON.stringify({result: "error", message: err.toString()})).setMimeType(ContentService.MimeType.JSON);
   }
 }
+
+/**
+ * 已驗證身分與角色後執行寫入動作；失敗時拋出錯誤，由 handlePost 轉為回應
+ */
+function handleWrite(ss, action, actor, params) {
+  if (action === 'save_user' || action === 'change_password') {
+    return handleUserAction(ss, action, actor, params.data || {});
+  }
+
+  if (action === 'close_period' || action === 'reopen_period') {
+    return handlePeriodAction(ss, action, actor, params.data || {});
+  }
+
+  if (action === 'save_vendor' || action === 'set_vendor_payment') {
+    return handleVendorAction(ss, action, actor, params.data || {});
+  }
+
+  if (action === 'save_materials') {
+    return handleMaterialAction(ss, actor, params.data);
+  }
+
+  if (action === 'save_machine') {
+    return handleMachineAction(ss, actor, params.data || {});
+  }
+
+  if (action === 'save_budget') {
+    return handleBudgetAction(ss, actor, params.data || {});
+  }
+
+  if (action === 'save_report' || action === 'delete_report') {
+    return handleReportAction(ss, action, actor, params.data || {});
+  }
+
+  if (action === 'save_requisition' || action === 'decide_requisition' || action === 'order_requisition') {
+    return handleRequisitionAction(ss, action, actor, params.data || {});
+  }
+
+  if (action === 'record_receipt') {
+    return handleReceiptAction(ss, actor, params.data || {});
+  }
+
+  var locked = getLockedPeriods(ss);
+
+  if (action === 'batch_insert') {
+    var list = params.data || [];
+    list.forEach(function(item) { assertPeriodOpen(locked, item.date); });
+    // 全部通過欄位檢查後才開始寫入，避免部分寫入
+    var rowErrors = [];
+    var existingIds = readRecordIds(ss);
+    var seen = {};
+    list.forEach(function(item, index) {
+      if (item.type === "維修") applyRepairStatus({}, item, false);
+      var errors = validateTransaction(item);
+      var itemId = String(item.id || "").trim();
+      if (existingIds[itemId]) errors.id = "紀錄編號 " + itemId + " 已存在";
+      else if (seen[itemId]) errors.id = "紀錄編號 " + itemId + " 在此批次中重複";
+      seen[itemId] = true;
+      if (Object.keys(errors).length > 0) rowErrors.push({ index: index, id: String(item.id || ""), fieldErrors: errors });
+    });
+    if (rowErrors.length > 0) throw validationError({}, rowErrors);
+    list.forEach(function(item) {
+      var sheet = ss.getSheetByName(item.type);
+      if (!sheet) {
+        sheet = ss.insertSheet(item.type);
+        sheet.appendRow(COMMON_FIELDS.map(function(f){return f.header;}));
+      }
+      ensureHeaders(sheet, item.type);
+      item.version = 1;
+      var rowData = processRowData(sheet, item.type, item, item.id, actor);
+      sheet.appendRow(rowData);
+      var headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+      appendAudit(ss, "insert", String(item.id).trim(), item.type, actor, diffRecords({}, rowToObject(headers, rowData)));
+    });
+    return { result: "ok", count: list.length };
+  }
+
+  var type = params.type; 
+  var id = String(params.id).trim();
+  if (CATEGORIES.indexOf(type) === -1) throw validationError({ type: "未知的類別: " + type });
+  var sheet = ss.getSheetByName(type);
+  if (!sheet) {
+    sheet = ss.insertSheet(type);
+    sheet.appendRow(COMMON_FIELDS.map(function(f){return f.header;}));
+  }
+  ensureHeaders(sheet, type);
+
+  if (action === 'update' || action === 'delete' || action === 'restore') assertPeriodOpen(locked, findRecordDate(ss, id));
+  if (action === 'insert' || action === 'update') assertPeriodOpen(locked, (params.data || {}).date);
+
+  if (action === 'insert' && readRecordIds(ss)[id]) throw new Error("紀錄編號 " + id + " 已存在，請勿重複新增");
+
+  if (action === 'insert' || action === 'update') {
+    var payload = params.data || {};
+    var headers = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+    var before = {};
+    var rowIdx = -1;
+    if (action === 'update') {
+      var values = sheet.getDataRange().getValues();
+      for (var i = 1; i < values.length; i++) { if (String(values[i][0]).trim() === id) { rowIdx = i + 1; break; } }
+      if (rowIdx === -1) throw missingRecordConflict(id);
+      before = rowToObject(headers, values[rowIdx - 1]);
+      if (isRowDeleted(before)) throw new Error("此紀錄已刪除，請先由回收桶還原");
+      assertVersion(before, params.baseVersion);
+    }
+    if (type === "維修") applyRepairStatus(before, payload, rowIdx !== -1);
+    assertValidRecord(type, payload);
+    if (type === "進貨" && rowIdx !== -1) reconcileReceived(ss, id, before, payload);
+    payload.version = Number(before["version"] || 0) + 1;
+    var rowData = processRowData(sheet, type, payload, id, actor);
+    if (rowIdx !== -1) sheet.getRange(rowIdx, 1, 1, rowData.length).setValues([rowData]);
+    else sheet.appendRow(rowData);
+    appendAudit(ss, action, id, type, actor, diffRecords(before, rowToObject(headers, rowData)));
+    return { result: "ok", version: payload.version };
+  } else if (action === 'delete' || action === 'restore') {
+    setRecordDeletion(ss, id, action === 'delete', actor, params.baseVersion).forEach(function(a) {
+      appendAudit(ss, action, id, a.cat, actor, diffRecords(a.before, a.after));
+    });
+  } else if (action === 'purge') {
+    purgeRecord(ss, id, actor);
+  }
+  return { result: "ok" };
+}
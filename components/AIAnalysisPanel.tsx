@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { ANALYSIS_PROVIDERS, AnalysisProviderKind, analyzeWarehouseData, getAnalysisProvider, getAnalysisProviderKind, setAnalysisProviderKind } from '../services/geminiService';
+import { AnalysisEntry, AnalysisScope, addAnalysis, clearAnalysisHistory, formatScopeLabel, hashDataset, loadAnalysisHistory, removeAnalysis } from '../services/analysisHistoryService';
+import { RedactionOptions, REDACTION_LABELS, loadRedactionOptions, saveRedactionOptions } from '../services/analysisPrepService';
+import { SEVERITY_BADGES, SEVERITY_LABELS } from '../services/analysisReportService';
+import MarkdownView from './MarkdownView';
+
+interface Props {
+  transactions: Transaction[];   // Dashboard 目前篩選後的紀錄
+  scope: AnalysisScope;
+}
+
+const formatTime = (iso: string) => iso ? new Date(iso).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', hour12: false }) : '--';
+
+const providerLabel = (kind: AnalysisProviderKind) => getAnalysisProvider(kind).label;
+
+/**
+ * AI 分析：分析 Dashboard 選定的年、月與類別；相同資料集與遮蔽設定直接使用快取，歷次結果可兩兩並排比較
+ */
+const AIAnalysisPanel: React.FC<Props> = ({ transactions, scope }) => {
+  const [providerKind, setProviderKind] = useState<AnalysisProviderKind>(getAnalysisProviderKind);
+  const [history, setHistory] = useState<AnalysisEntry[]>(loadAnalysisHistory);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [redaction, setRedaction] = useState<RedactionOptions>(loadRedactionOptions);
+  const [progress, setProgress] = useState('');
+  const [view, setView] = useState<'markdown' | 'json'>('markdown');
+
+  const scopeLabel = formatScopeLabel(scope);
+  const redactionKey = (Object.keys(REDACTION_LABELS) as (keyof RedactionOptions)[]).filter(k => redaction[k]).join(',');
+  const hash = useMemo(() => hashDataset(scope, transactions, `redact:${redactionKey}`), [scope, transactions, redactionKey]);
+  const cached = history.find(e => e.hash === hash && e.provider === providerKind);
+  const comparing = history.filter(e => compareIds.includes(e.id));
+
+  const changeProvider = (kind: AnalysisProviderKind) => {
+    setAnalysisProviderKind(kind);
+    setProviderKind(kind);
+    setError('');
+  };
+
+  const toggleRedaction = (key: keyof RedactionOptions) => {
+    const next = { ...redaction, [key]: !redaction[key] };
+    saveRedactionOptions(next);
+    setRedaction(next);
+  };
+
+  const runAnalysis = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const result = await analyzeWarehouseData(transactions, scopeLabel, getAnalysisProvider(providerKind), {
+        redaction,
+        onProgress: (done, total) => setProgress(total > 1 ? ` ${done}/${total}` : '')
+      });
+      setHistory(addAnalysis({
+        hash,
+        scope: { ...scope },
+        scopeLabel,
+        provider: providerKind,
+        recordCount: transactions.length,
+        totalAmount: transactions.reduce((acc, t) => acc + (Number(t.total) || 0), 0),
+        createdAt: new Date().toISOString(),
+        markdown: result.markdown,
+        report: result.report,
+        chunks: result.chunks,
+        redacted: (Object.keys(REDACTION_LABELS) as (keyof RedactionOptions)[]).filter(k => redaction[k]).map(k => REDACTION_LABELS[k])
+      }));
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setProgress('');
+    setIsWorking(false);
+  };
+
+  const copyJson = () => {
+    if (cached?.report) navigator.clipboard?.writeText(JSON.stringify(cached.report, null, 2));
+  };
+
+  const toggleCompare = (id: string) => {
+    if (compareIds.includes(id)) setCompareIds(compareIds.filter(x => x !== id));
+    else setCompareIds([...compareIds, id].slice(-2));
+  };
+
+  const handleRemove = (id: string) => {
+    setHistory(removeAnalysis(id));
+    setCompareIds(compareIds.filter(x => x !== id));
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('確定要清除所有已儲存的分析結果嗎？')) return;
+    setHistory(clearAnalysisHistory());
+    setCompareIds([]);
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-xl font-black text-slate-900 flex items-center gap-4">
+          <span className="w-2 h-8 bg-violet-500 rounded-full"></span>
+          AI 分析
+          <span className="text-xs font-bold text-slate-400">{scopeLabel} · {transactions.length} 筆</span>
+        </h3>
+        <div className="flex items-center gap-3">
+          <select value={providerKind} onChange={e => changeProvider(e.target.value as AnalysisProviderKind)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-xs font-black text-slate-700 outline-none focus:border-violet-500">
+            {ANALYSIS_PROVIDERS.map(p => <option key={p.kind} value={p.kind}>{p.label}</option>)}
+          </select>
+          <button onClick={runAnalysis} disabled={isWorking || transactions.length === 0} className="px-5 py-2.5 bg-violet-600 hover:bg-violet-700 text-white rounded-xl text-xs font-black shadow-lg transition-all disabled:opacity-40">
+            {isWorking ? `分析中${progress}...` : cached ? '🔄 重新分析' : '✨ 開始分析'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs font-black text-slate-500">
+        <span className="text-[10px] text-slate-400 uppercase tracking-widest">送出前遮蔽</span>
+        {(Object.keys(REDACTION_LABELS) as (keyof RedactionOptions)[]).map(key => (
+          <label key={key} className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={redaction[key]} onChange={() => toggleRedaction(key)} className="w-4 h-4 accent-violet-500" />
+            {REDACTION_LABELS[key]}
+          </label>
+        ))}
+        <span className="text-[11px] font-bold text-slate-400">資料先在本機依月份、機台、料號彙總，只有維修與異常紀錄會逐筆送出</span>
+      </div>
+
+      {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+
+      {cached ? (
+        <div className="p-6 bg-violet-50/40 border border-violet-100 rounded-[2rem]">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <p className="text-[10px] font-black text-violet-500 uppercase tracking-widest">
+              {providerLabel(cached.provider)} · {formatTime(cached.createdAt)}{cached.chunks && cached.chunks > 1 ? ` · 分 ${cached.chunks} 段彙整` : ''} · 資料未變動，使用已儲存的結果
+            </p>
+            {cached.report && (
+              <div className="flex items-center gap-2">
+                <div className="bg-white p-1 rounded-lg flex border border-violet-100">
+                  {(['markdown', 'json'] as const).map(v => (
+                    <button key={v} onClick={() => setView(v)} className={`px-3 py-1 rounded-md text-[11px] font-black ${view === v ? 'bg-violet-600 text-white' : 'text-slate-400'}`}>{v === 'markdown' ? '報告' : 'JSON'}</button>
+                  ))}
+                </div>
+                {view === 'json' && <button onClick={copyJson} className="px-3 py-1.5 bg-white border border-violet-100 rounded-lg text-[11px] font-black text-violet-600">📋 複製</button>}
+              </div>
+            )}
+          </div>
+          {cached.report && cached.report.findings.length > 0 && view === 'markdown' && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(['high', 'medium', 'low'] as const).map(severity => {
+                const count = cached.report!.findings.filter(f => f.severity === severity).length;
+                return count > 0 && <span key={severity} className={`px-2 py-1 rounded-lg text-[11px] font-black ${SEVERITY_BADGES[severity]}`}>{SEVERITY_LABELS[severity]} {count}</span>;
+              })}
+            </div>
+          )}
+          {view === 'json' && cached.report
+            ? <pre className="p-4 bg-slate-900 text-slate-100 rounded-2xl text-xs overflow-x-auto max-h-96">{JSON.stringify(cached.report, null, 2)}</pre>
+            : <MarkdownView markdown={cached.markdown} />}
+        </div>
+      ) : (
+        <p className="py-10 text-center text-xs font-black italic text-slate-300 bg-slate-50/50 rounded-[2rem] border-2 border-dashed border-slate-100">
+          {transactions.length === 0 ? '此區間沒有紀錄可供分析' : '此資料集尚未分析，或資料已在上次分析後變動'}
+        </p>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">歷次分析 (勾選兩筆並排比較)</p>
+            <button onClick={handleClear} className="text-[11px] font-black text-slate-300 hover:text-rose-500 transition-colors">清除全部</button>
+          </div>
+          <div className="max-h-56 overflow-y-auto divide-y divide-slate-50 border border-slate-100 rounded-2xl">
+            {history.map(e => (
+              <div key={e.id} className={`flex items-center gap-3 px-4 py-2.5 text-xs font-bold ${e.id === cached?.id ? 'bg-violet-50/40' : ''}`}>
+                <input type="checkbox" checked={compareIds.includes(e.id)} onChange={() => toggleCompare(e.id)} className="w-4 h-4 accent-violet-500" />
+                <div className="flex-1 min-w-0">
+                  <span className="text-slate-700 font-black">{e.scopeLabel}</span>
+                  <span className="ml-2 text-slate-400">{e.recordCount} 筆 · NT$ {e.totalAmount.toLocaleString()}</span>
+                </div>
+                <span className="text-[11px] text-slate-400">{providerLabel(e.provider)} · {formatTime(e.createdAt)}</span>
+                <button onClick={() => handleRemove(e.id)} className="text-slate-300 hover:text-rose-500 font-black transition-colors">✕</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {comparing.length === 2 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {comparing.map(e => (
+            <div key={e.id} className="p-6 border border-slate-100 rounded-[2rem]">
+              <p className="text-sm font-black text-slate-900">{e.scopeLabel}</p>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">
+                {providerLabel(e.provider)} · {formatTime(e.createdAt)} · {e.recordCount} 筆 · NT$ {e.totalAmount.toLocaleString()}
+              </p>
+              <MarkdownView markdown={e.markdown} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIAnalysisPanel;
@@ -1,18 +1,29 @@
 
-import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Transaction, TransactionType } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Transaction, TransactionType, Vendor, Material } from '../types';
+import { findMaterial, checkMaterialSelection } from '../services/materialService';
+import { validateTransaction, hasErrors } from '../services/validationService';
+import { WriteResult, FieldErrors } from '../services/storage';
+import VendorSelect from './VendorSelect';
+import MaterialPicker from './MaterialPicker';
+import BatchImportPanel from './BatchImportPanel';
+import InvoiceExtractPanel from './InvoiceExtractPanel';
+import FieldError from './FieldError';
 
 interface Props {
-  onBatchSave: (txList: Transaction[]) => Promise<boolean>;
+  onBatchSave: (txList: Transaction[]) => Promise<WriteResult>;
   existingTransactions: Transaction[];
   onComplete: () => void;
+  vendors?: Vendor[];
+  materials?: Material[];
   currentUser: string;
+  prefill?: Record<string, any>[] | null;   // 由其他畫面帶入的列 (例如低庫存補貨)
+  onPrefillApplied?: () => void;
 }
 
-const MACHINE_CATEGORIES = ['BA', 'RL', 'SB', 'XD', '7UP', 'HOT8', '3card', 'DT', 'CG', '共用'];
 const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
 
-const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onComplete, currentUser }) => {
+const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onComplete, vendors = [], materials = [], currentUser, prefill, onPrefillApplied }) => {
   const [rows, setRows] = useState<any[]>([
     {
       id: Math.random().toString(36).substr(2, 9),
@@ -29,31 +40,18 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
       unitPrice: 0,
       note: '',
       operator: currentUser,
-      isReceived: false 
+      isReceived: false,
+      vendor: '',
+      lowConfidence: []   // 發票辨識信心偏低、需人工核對的欄位
     }
   ]);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
-  const [suggestions, setSuggestions] = useState<{ rowId: string, field: string, items: string[] }>({ rowId: '', field: '', items: [] });
-  const suggestionRef = useRef<HTMLDivElement>(null);
-
-  const historicalData = useMemo(() => {
-    const names = new Set<string>();
-    const numbers = new Set<string>();
-    const nameToDetails: Record<string, { number: string, machine: string }> = {};
-    existingTransactions.forEach(t => {
-      if (t.materialName) {
-        names.add(t.materialName);
-        nameToDetails[t.materialName] = { 
-          number: t.materialNumber || '', 
-          machine: t.machineCategory || MACHINE_CATEGORIES[0] 
-        };
-      }
-      if (t.materialNumber) numbers.add(t.materialNumber);
-    });
-    return { names: Array.from(names), numbers: Array.from(numbers), nameToDetails };
-  }, [existingTransactions]);
+  const [rowErrors, setRowErrors] = useState<Record<string, FieldErrors>>({}); // 列 id → 欄位錯誤
+  const [showImport, setShowImport] = useState(false);
+  const [showInvoice, setShowInvoice] = useState(false);
+  const usesCatalog = materials.length > 0;
 
   const addRow = () => {
     const lastRow = rows[0];
@@ -67,7 +65,8 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
       note: '',
       quantity: 1,
       operator: currentUser,
-      isReceived: false 
+      isReceived: false,
+      lowConfidence: []
     }, ...rows]);
   };
 
@@ -78,65 +77,128 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
     setRows(newRows);
   };
 
+  // 匯入或帶入的列取代尚未填寫的空白列；未提供的欄位沿用第一列的預設值
+  const loadRows = (imported: Record<string, any>[], message: string) => {
+    const template = rows[0];
+    const filled = rows.filter(r => r.materialName.trim());
+    const newRows = imported.map(data => ({
+      ...template,
+      ...data,
+      id: Math.random().toString(36).substr(2, 9),
+      accountCategory: data.accountCategory || template.accountCategory || 'A',
+      machineCategory: data.machineCategory || template.machineCategory,
+      operator: currentUser,
+      isReceived: false,
+      lowConfidence: data.lowConfidence || []
+    }));
+    setRows([...newRows, ...filled]);
+    setRowErrors({});
+    setShowImport(false);
+    setShowInvoice(false);
+    setStatusMessage(message);
+  };
+
+  const handleImport = (imported: Record<string, any>[]) =>
+    loadRows(imported, `📂 已載入 ${imported.length} 筆匯入資料，請確認後同步`);
+
+  const handleInvoice = (extracted: Record<string, any>[]) => {
+    const flagged = extracted.reduce((acc, r) => acc + r.lowConfidence.length, 0);
+    loadRows(extracted, `🧾 已載入 ${extracted.length} 筆發票品項${flagged > 0 ? `，${flagged} 個黃框欄位請核對` : ''}，確認後同步`);
+  };
+
+  useEffect(() => {
+    if (!prefill || prefill.length === 0) return;
+    loadRows(prefill.map(row => ({ ...row, type: TransactionType.INBOUND, date: getTaipeiToday() })), `📦 已帶入 ${prefill.length} 筆進貨列，請確認廠商與單價後同步`);
+    onPrefillApplied?.();
+  }, [prefill]);
+
   const removeRow = (index: number) => {
     if (rows.length === 1) return;
     setRows(rows.filter((_, i) => i !== index));
   };
 
+  const clearRowError = (id: string, field: string) => {
+    setRowErrors(prev => {
+      if (!prev[id]?.[field]) return prev;
+      const { [field]: _removed, ...rest } = prev[id];
+      return { ...prev, [id]: rest };
+    });
+  };
+
   const updateRow = (index: number, field: string, value: any) => {
+    clearRowError(rows[index].id, field);
     const newRows = [...rows];
     newRows[index][field] = value;
-    if (field === 'materialName' || field === 'materialNumber') {
-      const source = field === 'materialName' ? historicalData.names : historicalData.numbers;
-      const filtered = value.trim() ? source.filter(item => item.toLowerCase().includes(value.toLowerCase()) && item !== value).slice(0, 5) : [];
-      setSuggestions({ rowId: newRows[index].id, field, items: filtered });
-    }
+    newRows[index].lowConfidence = (newRows[index].lowConfidence || []).filter((f: string) => f !== field);
+    // 主檔啟用時，手動改動名稱即視為尚未選取料件
+    if (field === 'materialName' && usesCatalog) newRows[index].materialNumber = '';
     setRows(newRows);
   };
 
-  const selectSuggestion = (index: number, field: string, value: string) => {
+  const selectMaterial = (index: number, m: Material) => {
     const newRows = [...rows];
-    newRows[index][field] = value;
-    if (field === 'materialName') {
-      const details = historicalData.nameToDetails[value];
-      if (details) {
-        newRows[index].materialNumber = details.number;
-        newRows[index].machineCategory = details.machine;
-      }
-    }
+    newRows[index] = {
+      ...newRows[index],
+      materialName: m.name,
+      materialNumber: m.pn,
+      machineCategory: m.machineCategory || newRows[index].machineCategory,
+      unitPrice: newRows[index].type === TransactionType.INBOUND && m.defaultPrice ? m.defaultPrice : newRows[index].unitPrice,
+      lowConfidence: (newRows[index].lowConfidence || []).filter((f: string) => f !== 'materialName' && f !== 'materialNumber')
+    };
     setRows(newRows);
-    setSuggestions({ rowId: '', field: '', items: [] });
+    clearRowError(newRows[index].id, 'materialName');
   };
 
   const handleSubmit = async () => {
     if (isSubmitting) return;
     const validRows = rows.filter(r => r.materialName.trim());
     if (validRows.length === 0) return;
-    
+
+    const payload: Transaction[] = validRows.map(({ lowConfidence, ...row }) => {
+      const isRepair = row.type === TransactionType.REPAIR;
+      const qty = Number(row.quantity);
+      const price = Number(row.unitPrice);
+      return {
+        ...row,
+        id: 'TX-B' + Date.now() + Math.random().toString(36).substr(2, 5),
+        materialName: findMaterial(materials, row.materialNumber)?.name || row.materialName.trim(),
+        quantity: qty,
+        unitPrice: price,
+        total: qty * price,
+        accountCategory: isRepair ? '' : (row.accountCategory || 'A'),
+        operator: currentUser
+      };
+    });
+
+    // 料件主檔檢查與共用欄位規則一併標示在各列
+    const errors: Record<string, FieldErrors> = {};
+    payload.forEach((tx, i) => {
+      const materialError = checkMaterialSelection(materials, tx.materialNumber);
+      const fieldErrors = materialError ? { materialName: materialError, ...validateTransaction(tx) } : validateTransaction(tx);
+      if (hasErrors(fieldErrors)) errors[validRows[i].id] = fieldErrors;
+    });
+    setRowErrors(errors);
+    const invalidCount = Object.keys(errors).length;
+    if (invalidCount > 0) {
+      setStatusMessage(`⚠️ 有 ${invalidCount} 筆紀錄未通過欄位檢查`);
+      return;
+    }
+
     setIsSubmitting(true);
     setStatusMessage('🚀 打包數據中...');
-    
-    try {
-      const payload: Transaction[] = validRows.map(row => {
-        const isRepair = row.type === TransactionType.REPAIR;
-        const qty = Number(row.quantity);
-        const price = Number(row.unitPrice);
-        return {
-          ...row,
-          id: 'TX-B' + Date.now() + Math.random().toString(36).substr(2, 5),
-          quantity: qty,
-          unitPrice: price,
-          total: qty * price,
-          accountCategory: isRepair ? '' : (row.accountCategory || 'A'),
-          operator: currentUser
-        };
-      });
 
+    try {
       setStatusMessage(`📡 雲端高速同步中 (${payload.length} 筆)...`);
-      const success = await onBatchSave(payload);
-      if (success) {
+      const result = await onBatchSave(payload);
+      if (result.ok) {
         setStatusMessage('✅ 同步完成！');
         setTimeout(onComplete, 500);
+      } else if (result.rowErrors) {
+        setRowErrors(Object.fromEntries(result.rowErrors
+          .filter(r => validRows[r.index])
+          .map(r => [validRows[r.index].id, r.fieldErrors])));
+        setStatusMessage(`⚠️ ${result.message || '部分紀錄未通過欄位檢查'}`);
+        setIsSubmitting(false);
       } else {
         setStatusMessage('❌ 同步失敗，請稍後再試');
         setIsSubmitting(false);
@@ -160,6 +222,7 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
           <div>
             <h2 className="text-xl font-black text-white">智慧批次新增 (高速同步)</h2>
             <p className="text-sm text-indigo-400 font-bold uppercase tracking-widest mt-1">目前準備同步 {rows.length} 筆紀錄</p>
+            {!isSubmitting && statusMessage && <p className="text-xs text-rose-400 font-black mt-1">{statusMessage}</p>}
           </div>
         </div>
         <div className="flex items-center gap-8">
@@ -168,6 +231,8 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
             <p className="text-2xl font-black text-indigo-400">NT$ {totalAmount.toLocaleString()}</p>
           </div>
           <div className="flex gap-3">
+             <button onClick={() => { setShowImport(!showImport); setShowInvoice(false); }} disabled={isSubmitting} className="px-6 py-4 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-black text-sm transition-all">📂 匯入檔案</button>
+             <button onClick={() => { setShowInvoice(!showInvoice); setShowImport(false); }} disabled={isSubmitting} className="px-6 py-4 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-black text-sm transition-all">🧾 辨識發票</button>
              <button onClick={addRow} disabled={isSubmitting} className="px-6 py-4 bg-white/10 hover:bg-white/20 text-white rounded-2xl font-black text-sm transition-all">+ 新增空白列</button>
              <button onClick={handleSubmit} disabled={isSubmitting} className="px-10 py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-black text-sm shadow-xl active:scale-95 transition-all min-w-[180px]">
                 {isSubmitting ? statusMessage : "🚀 開始高速同步"}
@@ -175,17 +240,21 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
           </div>
         </div>
       </div>
+      {showImport && <BatchImportPanel vendors={vendors} materials={materials} onLoad={handleImport} onClose={() => setShowImport(false)} />}
+      {showInvoice && <InvoiceExtractPanel vendors={vendors} materials={materials} onLoad={handleInvoice} onClose={() => setShowInvoice(false)} />}
       <div className="space-y-5">
         {rows.map((row, idx) => {
           const isRepair = row.type === TransactionType.REPAIR;
           const isInbound = row.type === TransactionType.INBOUND;
+          const errorList = Object.values(rowErrors[row.id] || {});
+          const flag = (field: string) => row.lowConfidence?.includes(field) ? 'ring-2 ring-amber-400 !bg-amber-50' : '';
           return (
-            <div key={row.id} className={`bg-white rounded-[2rem] p-8 shadow-sm border border-slate-200/60 transition-all hover:border-indigo-500 relative ${idx === 0 ? 'ring-2 ring-indigo-500/20 bg-indigo-50/5' : ''}`}>
+            <div key={row.id} className={`bg-white rounded-[2rem] p-8 shadow-sm border border-slate-200/60 transition-all hover:border-indigo-500 relative ${errorList.length > 0 ? 'ring-2 ring-rose-400' : idx === 0 ? 'ring-2 ring-indigo-500/20 bg-indigo-50/5' : ''}`}>
               <div className="grid grid-cols-1 xl:grid-cols-12 gap-5 items-end">
                 <div className="xl:col-span-2">
                   <label className={labelClass}>日期/類別</label>
                   <div className="flex gap-2">
-                    <div className="flex-1"><input type="date" value={row.date} onChange={e => updateRow(idx, 'date', e.target.value)} className={inputClass} /></div>
+                    <div className="flex-1"><input type="date" value={row.date} onChange={e => updateRow(idx, 'date', e.target.value)} className={`${inputClass} ${flag('date')}`} /></div>
                     <div className="w-28"><select value={row.type} onChange={e => updateRow(idx, 'type', e.target.value)} className={`${inputClass} text-indigo-600`}>
                       <option value={TransactionType.INBOUND}>{TransactionType.INBOUND}</option>
                       <option value={TransactionType.REPAIR}>{TransactionType.REPAIR}</option>
@@ -195,15 +264,10 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
                 <div className="xl:col-span-3 relative">
                   <label className={labelClass}>料件名稱 / 料號 (PN)</label>
                   <div className="flex gap-2">
-                    <div className="flex-1 relative">
-                      <input type="text" placeholder="名稱..." value={row.materialName} onChange={e => updateRow(idx, 'materialName', e.target.value)} className={inputClass} />
-                      {suggestions.rowId === row.id && suggestions.field === 'materialName' && suggestions.items.length > 0 && (
-                        <div ref={suggestionRef} className="absolute z-50 left-0 right-0 top-full mt-2 bg-white shadow-2xl border border-slate-200 rounded-2xl overflow-hidden">
-                          {suggestions.items.map((item, sIdx) => (<button key={sIdx} onClick={() => selectSuggestion(idx, 'materialName', item)} className="w-full text-left px-5 py-3 text-sm font-black text-slate-600 hover:bg-indigo-600 hover:text-white border-b border-slate-50 last:border-0">💡 {item}</button>))}
-                        </div>
-                      )}
+                    <div className="flex-1">
+                      <MaterialPicker materials={materials} value={row.materialName} placeholder="名稱..." onChange={v => updateRow(idx, 'materialName', v)} onSelect={m => selectMaterial(idx, m)} className={`${inputClass} ${flag('materialName')}`} />
                     </div>
-                    <div className="flex-1"><input type="text" placeholder="PN..." value={row.materialNumber} onChange={e => updateRow(idx, 'materialNumber', e.target.value)} className={inputClass} /></div>
+                    <div className="flex-1"><input type="text" placeholder={usesCatalog ? '由主檔帶入' : 'PN...'} readOnly={usesCatalog} value={row.materialNumber} onChange={e => updateRow(idx, 'materialNumber', e.target.value)} className={`${inputClass} read-only:bg-slate-100 read-only:text-slate-500 ${flag('materialNumber')}`} /></div>
                   </div>
                 </div>
                 <div className="xl:col-span-3">
@@ -211,7 +275,7 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
                     <label className={labelClass}>機台 ID {isRepair && '/ SN / 故障'}</label>
                     {isInbound && (
                       <button onClick={() => updateRow(idx, 'isReceived', !row.isReceived)} className={`px-2 py-0.5 rounded-lg text-[10px] font-black border transition-all ${row.isReceived ? 'bg-emerald-50 border-emerald-200 text-emerald-600' : 'bg-amber-50 border-amber-200 text-amber-600'}`}>
-                        {row.isReceived ? '已收貨' : '待收貨'}
+                        {row.isReceived ? '已到貨' : '未到貨'}
                       </button>
                     )}
                   </div>
@@ -224,10 +288,13 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
                   </div>
                 </div>
                 <div className="xl:col-span-2">
-                  <label className={labelClass}>數量 / 單價</label>
-                  <div className="flex gap-2">
-                    <div className="flex-1"><input type="number" min="1" value={row.quantity} onChange={e => updateRow(idx, 'quantity', e.target.value)} className={`${inputClass} text-center`} /></div>
-                    <div className="flex-1"><input type="number" min="0" value={row.unitPrice} onChange={e => updateRow(idx, 'unitPrice', e.target.value)} className={`${inputClass} text-right`} /></div>
+                  <label className={labelClass}>數量 / 單價 / 廠商</label>
+                  <div className="flex flex-col gap-2">
+                    <div className="flex gap-2">
+                      <div className="flex-1"><input type="number" min="1" value={row.quantity} onChange={e => updateRow(idx, 'quantity', e.target.value)} className={`${inputClass} text-center ${flag('quantity')}`} /></div>
+                      <div className="flex-1"><input type="number" min="0" value={row.unitPrice} onChange={e => updateRow(idx, 'unitPrice', e.target.value)} className={`${inputClass} text-right ${flag('unitPrice')}`} /></div>
+                    </div>
+                    <VendorSelect vendors={vendors} value={row.vendor || ''} onChange={vendor => updateRow(idx, 'vendor', vendor)} className={`${inputClass} ${flag('vendor')}`} />
                   </div>
                 </div>
                 <div className="xl:col-span-2 flex justify-end gap-3">
@@ -235,6 +302,11 @@ const BatchAddForm: React.FC<Props> = ({ onBatchSave, existingTransactions, onCo
                   <button onClick={() => removeRow(idx)} disabled={isSubmitting} className="p-4 bg-slate-50 hover:bg-rose-50 text-slate-400 hover:text-rose-600 rounded-2xl transition-all shadow-sm">🗑️</button>
                 </div>
               </div>
+              {errorList.length > 0 && (
+                <div className="mt-4 flex flex-wrap gap-x-4">
+                  {errorList.map(message => <FieldError key={message} message={message} />)}
+                </div>
+              )}
             </div>
           );
         })}
@@ -0,0 +1,196 @@
+
+import React, { useMemo, useState } from 'react';
+import { TransactionType, Vendor, Material } from '../types';
+import {
+  IMPORT_FIELDS, IMPORT_TYPES, ColumnMapping, ImportTable, ImportField,
+  parseSpreadsheet, guessMapping, buildImportRows, findPreset, savePreset
+} from '../services/importService';
+import VendorSelect from './VendorSelect';
+
+interface Props {
+  vendors: Vendor[];
+  materials: Material[];
+  onLoad: (rows: Record<string, any>[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_COLUMNS: { field: ImportField; label: string }[] = [
+  { field: 'date', label: '日期' },
+  { field: 'type', label: '類別' },
+  { field: 'materialName', label: '料件名稱' },
+  { field: 'materialNumber', label: 'PN' },
+  { field: 'quantity', label: '數量' },
+  { field: 'unitPrice', label: '單價' }
+];
+
+/**
+ * 批次匯入：上傳廠商提供的 CSV / XLSX，對應欄位後預覽檢查結果，有效列再載入批次表
+ */
+const BatchImportPanel: React.FC<Props> = ({ vendors, materials, onLoad, onClose }) => {
+  const [vendor, setVendor] = useState('');
+  const [defaultType, setDefaultType] = useState<TransactionType>(TransactionType.INBOUND);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [onlyInvalid, setOnlyInvalid] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const preview = useMemo(
+    () => table ? buildImportRows(table, mapping, { defaultType, vendor, materials }) : [],
+    [table, mapping, defaultType, vendor, materials]
+  );
+  const invalidCount = preview.filter(r => Object.keys(r.errors).length > 0).length;
+  const validRows = preview.filter(r => Object.keys(r.errors).length === 0);
+  const visibleRows = onlyInvalid ? preview.filter(r => Object.keys(r.errors).length > 0) : preview;
+
+  // 套用預設時僅保留目前檔案中存在的表頭，其餘欄位沿用自動比對結果
+  const applyPreset = (name: string, headers: string[]) => {
+    const preset = findPreset(name);
+    const guessed = guessMapping(headers);
+    if (!preset) return guessed;
+    setDefaultType(preset.defaultType);
+    const kept = Object.fromEntries(Object.entries(preset.mapping).filter(([, header]) => headers.includes(header!)));
+    return { ...guessed, ...kept };
+  };
+
+  const handleVendorChange = (name: string) => {
+    setVendor(name);
+    const preset = findPreset(name);
+    if (preset && table) setMapping(applyPreset(name, table.headers));
+    else if (preset) setDefaultType(preset.defaultType);
+    setMessage(preset ? `已套用「${name}」的欄位對應預設` : '');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (parsed.headers.length === 0) {
+        setMessage('⚠️ 檔案沒有可讀取的表頭');
+        return;
+      }
+      setTable(parsed);
+      setFileName(file.name);
+      setMapping(applyPreset(vendor, parsed.headers));
+      setMessage('');
+    } catch (err) {
+      console.error("Import parse error:", err);
+      setMessage('⚠️ 無法讀取檔案，請確認為 CSV 或 Excel 格式');
+    }
+  };
+
+  const handleSavePreset = () => {
+    if (!vendor) return;
+    savePreset({ vendor, mapping, defaultType });
+    setMessage(`✅ 已儲存「${vendor}」的欄位對應`);
+  };
+
+  const handleLoad = () => {
+    onLoad(validRows.map(r => r.data));
+  };
+
+  const selectClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-black text-slate-700 outline-none focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-indigo-200 space-y-6 animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-black text-slate-900 flex items-center gap-3">
+          <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+          📂 匯入 CSV / Excel
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-black text-sm">✕ 關閉</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-[11px] font-black text-slate-400 mb-1.5 ml-1">廠商 (套用對應預設)</label>
+          <VendorSelect vendors={vendors} value={vendor} onChange={handleVendorChange} className={selectClass} />
+        </div>
+        <div>
+          <label className="block text-[11px] font-black text-slate-400 mb-1.5 ml-1">未填類別時預設為</label>
+          <select value={defaultType} onChange={e => setDefaultType(e.target.value as TransactionType)} className={selectClass}>
+            {IMPORT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[11px] font-black text-slate-400 mb-1.5 ml-1">檔案</label>
+          <label className="flex items-center justify-center w-full px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded-xl text-xs font-black cursor-pointer transition-all">
+            {fileName || '選擇檔案...'}
+            <input type="file" accept=".csv,.xlsx,.xls" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {message && <p className="text-xs font-bold text-indigo-600">{message}</p>}
+
+      {table && (
+        <>
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-xs font-black text-slate-500">欄位對應 (檔案共 {table.headers.length} 欄)</p>
+              <button onClick={handleSavePreset} disabled={!vendor} className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-[11px] font-black transition-all disabled:opacity-40" title={vendor ? '' : '請先選擇廠商'}>💾 儲存為此廠商預設</button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-3">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">{label}</label>
+                  <select value={mapping[field] || ''} onChange={e => setMapping({ ...mapping, [field]: e.target.value || undefined })} className={`${selectClass} ${mapping[field] ? 'text-indigo-600' : 'text-slate-400'}`}>
+                    <option value="">不匯入</option>
+                    {table.headers.map((h, i) => <option key={`${h}-${i}`} value={h}>{h || `(第 ${i + 1} 欄)`}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="border border-slate-100 rounded-2xl overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50 flex flex-wrap items-center gap-4 text-xs font-black">
+              <span className="text-slate-500">共 {preview.length} 列</span>
+              <span className="text-emerald-600">有效 {validRows.length}</span>
+              {invalidCount > 0 && <span className="text-rose-600">錯誤 {invalidCount} (不會載入)</span>}
+              <label className="ml-auto flex items-center gap-2 text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={onlyInvalid} onChange={e => setOnlyInvalid(e.target.checked)} /> 只看錯誤列
+              </label>
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-white font-black text-slate-400 border-b sticky top-0">
+                  <tr><th className="px-4 py-3">列</th>{PREVIEW_COLUMNS.map(c => <th key={c.field} className="px-4 py-3">{c.label}</th>)}<th className="px-4 py-3">問題</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+                  {visibleRows.map(r => {
+                    const errorList = Object.values(r.errors);
+                    return (
+                      <tr key={r.rowNumber} className={errorList.length > 0 ? 'bg-rose-50/60' : ''}>
+                        <td className="px-4 py-2.5 text-slate-400 tabular-nums">{r.rowNumber}</td>
+                        {PREVIEW_COLUMNS.map(c => (
+                          <td key={c.field} className={`px-4 py-2.5 ${r.errors[c.field] ? 'text-rose-600 font-black' : ''}`} title={r.errors[c.field] || ''}>
+                            {String(r.data[c.field] ?? '') || '--'}
+                          </td>
+                        ))}
+                        <td className="px-4 py-2.5 text-rose-600">{errorList.join('；')}</td>
+                      </tr>
+                    );
+                  })}
+                  {visibleRows.length === 0 && (
+                    <tr><td colSpan={PREVIEW_COLUMNS.length + 2} className="px-4 py-10 text-center text-slate-300 font-black">沒有資料列</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button onClick={handleLoad} disabled={validRows.length === 0} className="px-8 py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-40">
+              ⬇️ 載入 {validRows.length} 筆有效列
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchImportPanel;
@@ -0,0 +1,175 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Budget, BudgetDimension } from '../types';
+import { MutationResult } from '../services/storage';
+import { BUDGET_DIMENSION_LABELS, BUDGET_CATEGORIES, buildBudgetReport, budgetKey, formatBudgetPeriod } from '../services/budgetService';
+
+interface Props {
+  transactions: Transaction[];
+  budgets: Budget[];
+  year: string;
+  month: string;          // 'all' 表示整年度
+  canEdit: boolean;
+  onSave: (budget: Budget) => Promise<MutationResult>;
+}
+
+/**
+ * 預算執行：依 Dashboard 選定的年月列出預算、實際支出、剩餘金額與期末推估
+ */
+const BudgetPanel: React.FC<Props> = ({ transactions, budgets, year, month, canEdit, onSave }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [dimension, setDimension] = useState<BudgetDimension>('account');
+  const [category, setCategory] = useState(BUDGET_CATEGORIES.account[0]);
+  const [isAnnual, setIsAnnual] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const report = useMemo(() => buildBudgetReport(transactions, budgets, year, month), [transactions, budgets, year, month]);
+  const annualOnly = month === 'all';
+  const formPeriod = annualOnly || isAnnual ? year : `${year}-${month}`;
+
+  const startEdit = (budget: Budget) => {
+    setDimension(budget.dimension);
+    setCategory(budget.category);
+    setIsAnnual(budget.period.length === 4);
+    setAmount(String(budget.amount));
+    setError('');
+    setShowForm(true);
+  };
+
+  const changeDimension = (next: BudgetDimension) => {
+    setDimension(next);
+    setCategory(BUDGET_CATEGORIES[next][0]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(amount);
+    if (amount.trim() === '' || isNaN(value) || value < 0) {
+      setError('請輸入正確的預算金額');
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    const res = await onSave({ dimension, category, period: formPeriod, amount: value });
+    if (res.ok) {
+      setAmount('');
+      setShowForm(false);
+    } else {
+      setError(res.message || '儲存失敗');
+    }
+    setIsWorking(false);
+  };
+
+  const existing = budgets.find(b => budgetKey(b) === budgetKey({ dimension, category, period: formPeriod }));
+  const selectClass = "bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-sm font-black text-slate-700 outline-none focus:border-indigo-500";
+
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h3 className="text-xl font-black text-slate-900 flex items-center gap-4">
+          <span className="w-2 h-8 bg-amber-500 rounded-full"></span>
+          預算執行
+          <span className="text-xs font-bold text-slate-400">{annualOnly ? formatBudgetPeriod(year) : `${formatBudgetPeriod(`${year}-${month}`)} 與年度`}</span>
+        </h3>
+        {canEdit && (
+          <button onClick={() => { setShowForm(!showForm); setError(''); }} className={`px-4 py-2.5 rounded-xl text-xs font-black transition-all ${showForm ? 'bg-slate-900 text-white' : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}`}>
+            {showForm ? '✕ 取消' : '🎯 設定預算'}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-8 p-5 bg-amber-50/50 border border-amber-100 rounded-2xl flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">期間</label>
+            <select value={annualOnly || isAnnual ? 'annual' : 'monthly'} disabled={annualOnly} onChange={e => setIsAnnual(e.target.value === 'annual')} className={selectClass}>
+              {!annualOnly && <option value="monthly">{formatBudgetPeriod(`${year}-${month}`)}</option>}
+              <option value="annual">{formatBudgetPeriod(year)}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">維度</label>
+            <select value={dimension} onChange={e => changeDimension(e.target.value as BudgetDimension)} className={selectClass}>
+              {(Object.keys(BUDGET_DIMENSION_LABELS) as BudgetDimension[]).map(d => <option key={d} value={d}>{BUDGET_DIMENSION_LABELS[d]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">類別</label>
+            <select value={category} onChange={e => setCategory(e.target.value)} className={selectClass}>
+              {BUDGET_CATEGORIES[dimension].map(c => <option key={c} value={c}>{dimension === 'account' ? `${c} 類` : c}</option>)}
+            </select>
+          </div>
+          <div className="flex-1 min-w-[160px]">
+            <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">預算金額 (NT$){existing ? `，目前 ${existing.amount.toLocaleString()}` : ''}</label>
+            <input type="number" min="0" value={amount} onChange={e => setAmount(e.target.value)} placeholder="0 表示取消預算" className={`${selectClass} w-full text-right tabular-nums`} />
+          </div>
+          <button type="submit" disabled={isWorking} className="px-6 py-2.5 bg-amber-500 hover:bg-amber-600 text-white rounded-xl text-sm font-black transition-all disabled:opacity-40">
+            {isWorking ? '儲存中...' : '儲存'}
+          </button>
+          {error && <p className="w-full text-xs font-bold text-rose-600">⚠️ {error}</p>}
+        </form>
+      )}
+
+      {report.length === 0 ? (
+        <p className="py-10 text-center text-slate-300 font-black italic text-sm">此期間尚未設定預算</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b">
+              <tr>
+                <th className="px-3 py-3">期間</th>
+                <th className="px-3 py-3">類別</th>
+                <th className="px-3 py-3 text-right">預算</th>
+                <th className="px-3 py-3 text-right">實際</th>
+                <th className="px-3 py-3 text-right">剩餘</th>
+                <th className="px-3 py-3 w-48">執行率</th>
+                <th className="px-3 py-3 text-right">推估期末</th>
+                {canEdit && <th className="px-3 py-3"></th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50 font-bold text-slate-700">
+              {report.map(s => {
+                const over = s.remaining < 0;
+                const projectedOver = s.projected > s.budget.amount;
+                return (
+                  <tr key={budgetKey(s.budget)}>
+                    <td className="px-3 py-3">
+                      <span className={`px-2 py-0.5 rounded text-[10px] font-black ${s.isAnnual ? 'bg-indigo-50 text-indigo-600' : 'bg-slate-100 text-slate-500'}`}>{s.isAnnual ? '年度' : '月'}</span>
+                    </td>
+                    <td className="px-3 py-3">
+                      <span className="text-[11px] text-slate-400 mr-2">{BUDGET_DIMENSION_LABELS[s.budget.dimension]}</span>
+                      <span className="font-black text-slate-900">{s.budget.dimension === 'account' ? `${s.budget.category} 類` : s.budget.category}</span>
+                    </td>
+                    <td className="px-3 py-3 text-right tabular-nums">{s.budget.amount.toLocaleString()}</td>
+                    <td className="px-3 py-3 text-right tabular-nums text-slate-900">{s.actual.toLocaleString()}</td>
+                    <td className={`px-3 py-3 text-right tabular-nums font-black ${over ? 'text-rose-600' : 'text-emerald-600'}`}>{s.remaining.toLocaleString()}</td>
+                    <td className="px-3 py-3">
+                      <div className="relative w-full h-2 bg-slate-100 rounded-full overflow-hidden" title={`已使用 ${(s.usedRatio * 100).toFixed(1)}%，期間已過 ${(s.elapsedRatio * 100).toFixed(0)}%`}>
+                        <div className={`h-full ${over ? 'bg-rose-500' : projectedOver ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(s.usedRatio, 1) * 100}%` }}></div>
+                        <div className="absolute top-0 h-full w-0.5 bg-slate-900/40" style={{ left: `${s.elapsedRatio * 100}%` }}></div>
+                      </div>
+                      <p className="text-[10px] text-slate-400 mt-1 tabular-nums">{(s.usedRatio * 100).toFixed(1)}%</p>
+                    </td>
+                    <td className={`px-3 py-3 text-right tabular-nums ${projectedOver ? 'text-amber-600 font-black' : 'text-slate-500'}`}>
+                      {Math.round(s.projected).toLocaleString()}{projectedOver && ' ⚠️'}
+                    </td>
+                    {canEdit && (
+                      <td className="px-3 py-3 text-right">
+                        <button onClick={() => startEdit(s.budget)} className="text-xs font-black text-indigo-600 hover:underline">編輯</button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-4 text-[11px] font-bold text-slate-400">推估期末 = 目前支出 ÷ 期間已過比例；進度條上的直線標示期間已過的位置。支出僅計入進貨與維修。</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
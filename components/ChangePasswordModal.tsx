@@ -0,0 +1,57 @@
+
+import React, { useState } from 'react';
+import { dbService } from '../services/dbService';
+
+interface Props {
+  currentUser: string;
+  onClose: () => void;
+}
+
+const ChangePasswordModal: React.FC<Props> = ({ currentUser, onClose }) => {
+  const [oldPassword, setOldPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [isDone, setIsDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('兩次輸入的新密碼不一致');
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    const res = await dbService.changePassword(currentUser, oldPassword, newPassword);
+    setIsWorking(false);
+    if (res.ok) {
+      setIsDone(true);
+      setTimeout(onClose, 1200);
+    } else {
+      setError(res.message || '密碼變更失敗');
+    }
+  };
+
+  const inputClass = "w-full px-5 py-3.5 bg-slate-100 border-2 border-slate-100 rounded-[1.25rem] font-black text-center focus:border-indigo-600 outline-none transition-all";
+
+  return (
+    <div className="fixed inset-0 z-[700] bg-slate-950/85 backdrop-blur-md flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="bg-white p-10 rounded-[3rem] max-w-sm w-full text-center shadow-2xl border border-slate-100 space-y-4">
+        <div className="w-20 h-20 bg-indigo-50 text-indigo-600 rounded-full flex items-center justify-center text-3xl mx-auto mb-2 shadow-inner">🔑</div>
+        <h3 className="text-xl font-black text-slate-900">變更 {currentUser} 的密碼</h3>
+        <input type="password" value={oldPassword} onChange={e => setOldPassword(e.target.value)} placeholder="目前密碼" required className={inputClass} />
+        <input type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} placeholder="新密碼 (至少 6 字元)" required minLength={6} className={inputClass} />
+        <input type="password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} placeholder="再次輸入新密碼" required minLength={6} className={inputClass} />
+        {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+        {isDone && <p className="text-xs font-bold text-emerald-600">✅ 密碼已更新</p>}
+        <div className="flex flex-col gap-3 pt-2">
+          <button type="submit" disabled={isWorking || isDone} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-600 transition-all disabled:opacity-50">{isWorking ? '處理中...' : '確認變更'}</button>
+          <button type="button" onClick={onClose} className="w-full py-3 text-slate-400 font-black hover:text-slate-600 transition-colors">取消</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePasswordModal;
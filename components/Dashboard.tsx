@@ -1,6 +1,7 @@
 
 import React, { useMemo, useState } from 'react';
-import { Transaction, TransactionType } from '../types';
+import { Transaction, TransactionType, Budget, Material, Receipt } from '../types';
+import { MutationResult } from '../services/storage';
 import { 
   ResponsiveContainer, 
   XAxis, YAxis, Tooltip,
@@ -8,14 +9,24 @@ import {
   PieChart, Pie, Cell,
   AreaChart, Area
 } from 'recharts';
+import BudgetPanel from './BudgetPanel';
+import LowStockPanel from './LowStockPanel';
+import AIAnalysisPanel from './AIAnalysisPanel';
 
 interface Props {
   transactions: Transaction[];
+  budgets: Budget[];
+  canEditBudgets: boolean;
+  onSaveBudget: (budget: Budget) => Promise<MutationResult>;
+  materials: Material[];
+  receipts: Receipt[];
+  canReorder: boolean;
+  onReorder: (rows: Record<string, any>[]) => void;
 }
 
 const CATEGORY_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#f43f5e', '#ec4899', '#8b5cf6', '#06b6d4', '#94a3b8'];
 
-const Dashboard: React.FC<Props> = ({ transactions }) => {
+const Dashboard: React.FC<Props> = ({ transactions, budgets, canEditBudgets, onSaveBudget, materials, receipts, canReorder, onReorder }) => {
   const [selectedYear, setSelectedYear] = useState<string>(() => String(new Date().getFullYear()));
   const [selectedMonth, setSelectedMonth] = useState<string>(() => String(new Date().getMonth() + 1).padStart(2, '0'));
   const [selectedTypeFilter, setSelectedTypeFilter] = useState<'ALL' | TransactionType.INBOUND | TransactionType.REPAIR>('ALL');
@@ -132,6 +143,8 @@ const Dashboard: React.FC<Props> = ({ transactions }) => {
       .sort((a, b) => b.value - a.value);
   }, [filteredTransactions]);
 
+  const analysisScope = useMemo(() => ({ year: selectedYear, month: selectedMonth, type: selectedTypeFilter }), [selectedYear, selectedMonth, selectedTypeFilter]);
+
   const monthName = selectedMonth === 'all' ? '整年度' : `${selectedMonth} 月`;
 
   const cards = [
@@ -220,6 +233,12 @@ const Dashboard: React.FC<Props> = ({ transactions }) => {
         })}
       </div>
 
+      <BudgetPanel transactions={transactions} budgets={budgets} year={selectedYear} month={selectedMonth} canEdit={canEditBudgets} onSave={onSaveBudget} />
+
+      <LowStockPanel transactions={transactions} receipts={receipts} materials={materials} canReorder={canReorder} onReorder={onReorder} />
+
+      <AIAnalysisPanel transactions={filteredTransactions} scope={analysisScope} />
+
       <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
         <div className="xl:col-span-8 space-y-8">
           {/* 月度結算走勢 */}
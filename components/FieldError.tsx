@@ -0,0 +1,15 @@
+
+import React from 'react';
+
+interface Props {
+  message?: string;
+}
+
+/**
+ * 欄位下方的驗證錯誤訊息
+ */
+const FieldError: React.FC<Props> = ({ message }) => message ? (
+  <p className="mt-1 ml-1 text-[11px] font-bold text-rose-600">⚠️ {message}</p>
+) : null;
+
+export default FieldError;
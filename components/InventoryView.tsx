@@ -0,0 +1,157 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Receipt } from '../types';
+import { computeStockLedger } from '../services/inventoryService';
+
+interface Props {
+  transactions: Transaction[];
+  receipts: Receipt[];
+}
+
+const InventoryView: React.FC<Props> = ({ transactions, receipts }) => {
+  const [keyword, setKeyword] = useState('');
+  const [onlyAlerts, setOnlyAlerts] = useState(false);
+  const [selectedPn, setSelectedPn] = useState<string | null>(null);
+
+  const ledger = useMemo(() => computeStockLedger(transactions, receipts), [transactions, receipts]);
+
+  const visibleBalances = useMemo(() => {
+    const k = keyword.toLowerCase().trim();
+    return ledger.filter(b => {
+      if (onlyAlerts && b.onHand >= 0 && !b.wentNegative) return false;
+      if (!k) return true;
+      return b.materialNumber.toLowerCase().includes(k) || b.materialName.toLowerCase().includes(k);
+    });
+  }, [ledger, keyword, onlyAlerts]);
+
+  const selected = selectedPn ? ledger.find(b => b.materialNumber === selectedPn) : null;
+  const negativeCount = ledger.filter(b => b.onHand < 0).length;
+  const onOrderCount = ledger.filter(b => b.onOrder > 0).length;
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500 pb-20">
+      <div className="flex flex-wrap items-end justify-between px-2 gap-6">
+        <div>
+          <h3 className="text-3xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+            <span className="text-4xl">📦</span> 永續盤存庫存
+          </h3>
+          <p className="text-sm font-bold text-slate-400 uppercase tracking-[0.2em] mt-3">Perpetual Inventory Ledger</p>
+        </div>
+        <div className="flex gap-4">
+          <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3 shadow-sm">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">料號總數</p>
+            <p className="text-2xl font-black text-slate-900 tabular-nums">{ledger.length}</p>
+          </div>
+          <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3 shadow-sm">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">在途料號</p>
+            <p className="text-2xl font-black text-amber-500 tabular-nums">{onOrderCount}</p>
+          </div>
+          <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3 shadow-sm">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">負庫存</p>
+            <p className="text-2xl font-black text-rose-500 tabular-nums">{negativeCount}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
+        <div className="xl:col-span-7 bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
+          <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center gap-4">
+            <div className="relative flex-1 min-w-[220px]">
+              <input type="text" placeholder="搜尋料號或料件名稱..." value={keyword} onChange={e => setKeyword(e.target.value)} className="w-full pl-12 pr-4 py-3.5 bg-white border border-slate-200 rounded-2xl text-sm font-bold focus:ring-4 focus:ring-indigo-500/5 outline-none focus:border-indigo-500 shadow-sm transition-all" />
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300 text-xl">🔍</span>
+            </div>
+            <button onClick={() => setOnlyAlerts(!onlyAlerts)} className={`px-4 py-3 rounded-xl text-xs font-black border transition-all ${onlyAlerts ? 'bg-rose-50 border-rose-200 text-rose-600' : 'bg-white border-slate-200 text-slate-400 hover:text-rose-500'}`}>
+              ⚠️ 僅顯示異常
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-[640px] overflow-y-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b sticky top-0">
+                <tr><th className="px-8 py-5">料號 / 名稱</th><th className="px-8 py-5 text-right">結存</th><th className="px-8 py-5 text-right">在途</th><th className="px-8 py-5">最後異動</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-bold">
+                {visibleBalances.map(b => (
+                  <tr key={b.materialNumber} onClick={() => setSelectedPn(b.materialNumber)} className={`cursor-pointer transition-all ${selectedPn === b.materialNumber ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}>
+                    <td className="px-8 py-5">
+                      <div className="text-sm font-black text-slate-900">{b.materialNumber}</div>
+                      <div className="text-[11px] text-slate-400 truncate max-w-xs">{b.materialName}</div>
+                    </td>
+                    <td className={`px-8 py-5 text-right font-black tabular-nums ${b.onHand < 0 ? 'text-rose-600' : 'text-slate-900'}`}>
+                      {b.onHand}
+                      {b.wentNegative && b.onHand >= 0 && <span className="ml-2 text-[9px] text-amber-500 align-middle" title="歷史曾出現負庫存">⚠️</span>}
+                    </td>
+                    <td className="px-8 py-5 text-right font-black tabular-nums text-amber-500">{b.onOrder || '--'}</td>
+                    <td className="px-8 py-5 text-xs text-slate-400 font-black">{b.lastMovementDate || '--'}</td>
+                  </tr>
+                ))}
+                {visibleBalances.length === 0 && (
+                  <tr><td colSpan={4} className="px-8 py-20 text-center text-slate-300 font-black italic">目前尚無符合條件的庫存料號</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="xl:col-span-5 bg-[#0f172a] rounded-[2.5rem] p-8 shadow-2xl border border-white/5 h-fit sticky top-8">
+          {selected ? (
+            <div className="space-y-6">
+              <div className="border-b border-white/10 pb-5">
+                <p className="text-[10px] font-black text-indigo-400 uppercase tracking-[0.2em] mb-2">異動明細</p>
+                <h4 className="text-white font-black text-xl leading-tight">{selected.materialName}</h4>
+                <p className="text-[11px] font-black text-slate-400 mt-1">PN: {selected.materialNumber}</p>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5">
+                  <p className="text-[9px] font-black text-slate-500 mb-1">累計入庫</p>
+                  <p className="text-emerald-400 text-lg font-black tabular-nums">{selected.inboundQty}</p>
+                </div>
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5">
+                  <p className="text-[9px] font-black text-slate-500 mb-1">累計出庫</p>
+                  <p className="text-rose-400 text-lg font-black tabular-nums">{selected.outboundQty}</p>
+                </div>
+                <div className="bg-white/5 p-4 rounded-2xl border border-white/5">
+                  <p className="text-[9px] font-black text-slate-500 mb-1">目前結存</p>
+                  <p className={`text-lg font-black tabular-nums ${selected.onHand < 0 ? 'text-rose-500' : 'text-white'}`}>{selected.onHand}</p>
+                </div>
+              </div>
+              {selected.pendingOrders.length > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/20 rounded-2xl p-4">
+                  <p className="text-[10px] font-black text-amber-400 uppercase tracking-widest mb-2">⏳ 在途訂單 ({selected.onOrder})</p>
+                  {selected.pendingOrders.map(o => (
+                    <div key={o.id} className="flex justify-between text-[11px] font-bold text-amber-200/80">
+                      <span>{o.date}{o.outstanding < o.ordered && <span className="ml-2 text-amber-400/60">已到 {o.ordered - o.outstanding}/{o.ordered}</span>}</span><span className="tabular-nums">+{o.outstanding}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="max-h-[380px] overflow-y-auto pr-2 space-y-2">
+                {[...selected.movements].reverse().map(m => (
+                  <div key={m.id} className="flex items-center justify-between bg-white/5 rounded-xl px-4 py-3 border border-white/5">
+                    <div>
+                      <p className="text-[11px] font-black text-slate-300">{m.date} <span className="ml-2 text-indigo-400">{m.type}</span></p>
+                      <p className="text-[10px] font-bold text-slate-500">{m.machineNumber || '未標機台'} • {m.operator}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`text-sm font-black tabular-nums ${m.quantity > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{m.quantity > 0 ? `+${m.quantity}` : m.quantity}</p>
+                      <p className={`text-[10px] font-black tabular-nums ${m.balance < 0 ? 'text-rose-500' : 'text-slate-500'}`}>結存 {m.balance}</p>
+                    </div>
+                  </div>
+                ))}
+                {selected.movements.length === 0 && (
+                  <p className="text-center text-slate-600 font-black italic text-sm py-10">尚無已收貨或出庫異動</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="py-24 text-center">
+              <span className="text-4xl">👈</span>
+              <p className="text-slate-500 font-black text-sm tracking-widest mt-4">點選左側料號查看異動明細</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryView;
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { Vendor, Material } from '../types';
+import { ExtractedInvoice, INVOICE_ACCEPT, invoiceToRows, readInvoiceFile } from '../services/invoiceService';
+import { extractInvoice, getAnalysisProvider } from '../services/geminiService';
+
+interface Props {
+  vendors: Vendor[];
+  materials: Material[];
+  onLoad: (rows: Record<string, any>[]) => void;
+  onClose: () => void;
+}
+
+const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+const PREVIEW_COLUMNS: { field: string; label: string }[] = [
+  { field: 'materialNumber', label: 'PN' },
+  { field: 'materialName', label: '品名' },
+  { field: 'quantity', label: '數量' },
+  { field: 'unitPrice', label: '單價' }
+];
+
+/**
+ * 發票辨識：上傳發票 / 估價單的照片或 PDF，辨識日期、廠商與品項後預覽，信心偏低的欄位以黃色標示
+ */
+const InvoiceExtractPanel: React.FC<Props> = ({ vendors, materials, onLoad, onClose }) => {
+  const provider = getAnalysisProvider();
+  const [fileName, setFileName] = useState('');
+  const [invoice, setInvoice] = useState<ExtractedInvoice | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const rows = useMemo(
+    () => invoice ? invoiceToRows(invoice, { vendors, materials, today: getTaipeiToday() }) : [],
+    [invoice, vendors, materials]
+  );
+  const flaggedCount = rows.reduce((acc, r) => acc + r.lowConfidence.length, 0);
+  const headerFlags: string[] = rows[0]?.lowConfidence || [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setInvoice(null);
+    setError('');
+    setIsWorking(true);
+    try {
+      setInvoice(await extractInvoice(await readInvoiceFile(file), provider));
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setIsWorking(false);
+  };
+
+  const cellClass = (flags: string[], field: string) => flags.includes(field) ? 'bg-amber-100 text-amber-700 font-black' : '';
+
+  return (
+    <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-indigo-200 space-y-6 animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-black text-slate-900 flex items-center gap-3">
+          <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+          🧾 辨識發票 / 估價單
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{provider.label}</span>
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 font-black text-sm">✕ 關閉</button>
+      </div>
+
+      <label className="flex items-center justify-center w-full px-3 py-6 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded-2xl text-sm font-black cursor-pointer transition-all border-2 border-dashed border-indigo-200">
+        {isWorking ? `辨識中... (${fileName})` : fileName || '選擇發票照片或 PDF...'}
+        <input type="file" accept={INVOICE_ACCEPT} onChange={handleFile} disabled={isWorking} className="hidden" />
+      </label>
+
+      {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+
+      {invoice && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs font-bold">
+            <div className={`rounded-xl px-4 py-3 bg-slate-50 ${cellClass(headerFlags, 'date')}`}>
+              <p className="text-[10px] font-black text-slate-400 mb-1">發票日期</p>
+              {invoice.date || '無法辨識 (預設為今天)'}
+            </div>
+            <div className={`rounded-xl px-4 py-3 bg-slate-50 ${cellClass(headerFlags, 'vendor')}`}>
+              <p className="text-[10px] font-black text-slate-400 mb-1">廠商</p>
+              {invoice.vendor || '無法辨識'}
+              {rows[0] && rows[0].vendor !== invoice.vendor && <span className="ml-2 text-emerald-600">→ {rows[0].vendor}</span>}
+            </div>
+            <div className="rounded-xl px-4 py-3 bg-slate-50">
+              <p className="text-[10px] font-black text-slate-400 mb-1">發票號碼</p>
+              {invoice.invoiceNumber || '--'}
+            </div>
+          </div>
+
+          <div className="border border-slate-100 rounded-2xl overflow-hidden">
+            <div className="px-5 py-3 bg-slate-50 flex flex-wrap items-center gap-4 text-xs font-black">
+              <span className="text-slate-500">共 {rows.length} 個品項</span>
+              {flaggedCount > 0 && <span className="text-amber-600">{flaggedCount} 個欄位待核對 (黃色)</span>}
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-white font-black text-slate-400 border-b sticky top-0">
+                  <tr>{PREVIEW_COLUMNS.map(c => <th key={c.field} className="px-4 py-3">{c.label}</th>)}</tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+                  {rows.map((r, i) => (
+                    <tr key={i}>
+                      {PREVIEW_COLUMNS.map(c => (
+                        <td key={c.field} className={`px-4 py-2.5 ${cellClass(r.lowConfidence, c.field)}`}>{String(r[c.field] ?? '') || '--'}</td>
+                      ))}
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr><td colSpan={PREVIEW_COLUMNS.length} className="px-4 py-10 text-center text-slate-300 font-black">未辨識出任何品項</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button onClick={() => onLoad(rows)} disabled={rows.length === 0} className="px-8 py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-40">
+              ⬇️ 載入 {rows.length} 筆至批次表
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceExtractPanel;
@@ -0,0 +1,95 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Transaction, Material, Receipt } from '../types';
+import { buildReorderAlerts, reorderRows, USAGE_LOOKBACK_DAYS } from '../services/reorderService';
+
+interface Props {
+  transactions: Transaction[];
+  receipts: Receipt[];
+  materials: Material[];
+  canReorder: boolean;
+  onReorder: (rows: Record<string, any>[]) => void;
+}
+
+/**
+ * 低庫存警示：列出結存低於最低庫存的料號與建議訂購量，可勾選後一鍵帶入批次進貨
+ */
+const LowStockPanel: React.FC<Props> = ({ transactions, receipts, materials, canReorder, onReorder }) => {
+  const alerts = useMemo(() => buildReorderAlerts(transactions, receipts, materials), [transactions, receipts, materials]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // 預設勾選所有仍需訂購的料號 (在途已足夠者不勾選)
+  useEffect(() => {
+    setSelected(new Set(alerts.filter(a => a.suggestedQty > 0).map(a => a.material.pn)));
+  }, [alerts]);
+
+  if (alerts.length === 0) return null;
+
+  const toggle = (pn: string) => {
+    const next = new Set(selected);
+    if (next.has(pn)) next.delete(pn);
+    else next.add(pn);
+    setSelected(next);
+  };
+
+  const chosen = alerts.filter(a => selected.has(a.material.pn) && a.suggestedQty > 0);
+
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-rose-100 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h3 className="text-xl font-black text-slate-900 flex items-center gap-4">
+          <span className="w-2 h-8 bg-rose-500 rounded-full"></span>
+          低庫存警示
+          <span className="px-2 py-0.5 rounded-lg bg-rose-50 text-rose-600 text-xs font-black">{alerts.length} 項低於最低庫存</span>
+        </h3>
+        {canReorder && (
+          <button onClick={() => onReorder(reorderRows(chosen))} disabled={chosen.length === 0} className="px-5 py-2.5 bg-rose-500 hover:bg-rose-600 text-white rounded-xl text-xs font-black shadow-lg transition-all disabled:opacity-40">
+            📥 建立補貨進貨單 ({chosen.length})
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b">
+            <tr>
+              {canReorder && <th className="px-3 py-3 w-8"></th>}
+              <th className="px-3 py-3">料號 / 品名</th>
+              <th className="px-3 py-3 text-right">結存</th>
+              <th className="px-3 py-3 text-right">最低 / 最高</th>
+              <th className="px-3 py-3 text-right">在途</th>
+              <th className="px-3 py-3 text-right">月耗用</th>
+              <th className="px-3 py-3 text-right">可用天數</th>
+              <th className="px-3 py-3 text-right">建議訂購</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50 font-bold text-slate-700">
+            {alerts.map(a => (
+              <tr key={a.material.pn} className={selected.has(a.material.pn) ? 'bg-rose-50/40' : ''}>
+                {canReorder && (
+                  <td className="px-3 py-3">
+                    <input type="checkbox" checked={selected.has(a.material.pn)} disabled={a.suggestedQty === 0} onChange={() => toggle(a.material.pn)} className="w-4 h-4 accent-rose-500" />
+                  </td>
+                )}
+                <td className="px-3 py-3">
+                  <div className="font-black text-slate-900">{a.material.name}</div>
+                  <div className="text-[10px] text-slate-400">PN: {a.material.pn}</div>
+                </td>
+                <td className={`px-3 py-3 text-right tabular-nums font-black ${a.onHand <= 0 ? 'text-rose-600' : 'text-amber-600'}`}>{a.onHand}</td>
+                <td className="px-3 py-3 text-right tabular-nums text-slate-400">{a.material.minStock} / {a.material.maxStock || '--'}</td>
+                <td className="px-3 py-3 text-right tabular-nums">{a.onOrder || '--'}</td>
+                <td className="px-3 py-3 text-right tabular-nums">{a.monthlyUsage ? a.monthlyUsage.toFixed(1) : '--'}</td>
+                <td className="px-3 py-3 text-right tabular-nums">{a.daysOfCover === null ? '--' : Math.floor(a.daysOfCover)}</td>
+                <td className="px-3 py-3 text-right tabular-nums font-black text-indigo-600">
+                  {a.suggestedQty > 0 ? `${a.suggestedQty} ${a.material.unit}` : <span className="text-[11px] text-slate-400">在途已足</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-4 text-[11px] font-bold text-slate-400">結存 = 已到貨進貨 - 用料 - 建置；月耗用取近 {USAGE_LOOKBACK_DAYS} 天平均。建議訂購量補足至最高庫存 (未設定時為最低庫存加一個月耗用) 並扣除在途數量。</p>
+      </div>
+    </div>
+  );
+};
+
+export default LowStockPanel;
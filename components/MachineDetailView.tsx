@@ -0,0 +1,163 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, TransactionType, Machine, MachineStatus } from '../types';
+import { findMachine, getMachineLines, buildMachineTimeline, MACHINE_STATUS_LABELS } from '../services/machineService';
+import { getRepairStatus } from '../services/repairService';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+
+interface Props {
+  machineId: string;
+  transactions: Transaction[];
+  machines: Machine[];
+  onClose: () => void;
+}
+
+const TYPE_STYLES: Record<TransactionType, { color: string; badge: string }> = {
+  [TransactionType.INBOUND]: { color: '#4f46e5', badge: 'bg-indigo-50 text-indigo-600' },
+  [TransactionType.USAGE]: { color: '#10b981', badge: 'bg-emerald-50 text-emerald-600' },
+  [TransactionType.CONSTRUCTION]: { color: '#f59e0b', badge: 'bg-amber-50 text-amber-600' },
+  [TransactionType.REPAIR]: { color: '#f43f5e', badge: 'bg-rose-50 text-rose-600' }
+};
+
+const SERIES: { key: 'inbound' | 'usage' | 'construction' | 'repair'; type: TransactionType }[] = [
+  { key: 'inbound', type: TransactionType.INBOUND },
+  { key: 'usage', type: TransactionType.USAGE },
+  { key: 'construction', type: TransactionType.CONSTRUCTION },
+  { key: 'repair', type: TransactionType.REPAIR }
+];
+
+export const MACHINE_STATUS_BADGES: Record<MachineStatus, string> = {
+  active: 'bg-emerald-100 text-emerald-600',
+  maintenance: 'bg-amber-100 text-amber-600',
+  idle: 'bg-slate-100 text-slate-500',
+  retired: 'bg-rose-100 text-rose-600'
+};
+
+/**
+ * 機台明細：單一機台的進貨、用料、建置與維修紀錄，含累計支出與每月支出時間軸
+ */
+const MachineDetailView: React.FC<Props> = ({ machineId, transactions, machines, onClose }) => {
+  const [typeFilter, setTypeFilter] = useState<TransactionType | 'all'>('all');
+  const machine = findMachine(machines, machineId);
+  const lines = useMemo(() => getMachineLines(transactions, machineId), [transactions, machineId]);
+  const timeline = useMemo(() => buildMachineTimeline(lines), [lines]);
+
+  const totals = useMemo(() => {
+    const byType = {} as Record<TransactionType, number>;
+    SERIES.forEach(s => { byType[s.type] = 0; });
+    lines.forEach(t => { byType[t.type] = (byType[t.type] || 0) + t.total; });
+    return {
+      byType,
+      spend: lines.reduce((sum, t) => sum + t.total, 0),
+      repairs: lines.filter(t => t.type === TransactionType.REPAIR).length
+    };
+  }, [lines]);
+
+  const visibleLines = useMemo(() => {
+    const list = typeFilter === 'all' ? lines : lines.filter(t => t.type === typeFilter);
+    return [...list].reverse();
+  }, [lines, typeFilter]);
+
+  return (
+    <div className="fixed inset-0 z-[600] bg-slate-950/75 flex items-start justify-center p-6 backdrop-blur-sm overflow-y-auto">
+      <div className="w-full max-w-5xl my-auto bg-slate-50 rounded-[2.5rem] shadow-2xl overflow-hidden animate-in slide-in-from-bottom duration-300">
+        <div className="bg-slate-900 text-white p-8 flex flex-wrap items-start justify-between gap-6">
+          <div>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">機台明細</p>
+            <h3 className="text-3xl font-black flex items-center gap-3">🎰 {machine?.id || machineId}</h3>
+            {machine ? (
+              <div className="flex flex-wrap gap-2 mt-4 text-xs font-black">
+                <span className={`px-2.5 py-1 rounded-lg ${MACHINE_STATUS_BADGES[machine.status]}`}>{MACHINE_STATUS_LABELS[machine.status]}</span>
+                <span className="px-2.5 py-1 rounded-lg bg-white/10">{machine.category || '未分類'}</span>
+                <span className="px-2.5 py-1 rounded-lg bg-white/10">📍 {machine.location || '未填位置'}</span>
+                <span className="px-2.5 py-1 rounded-lg bg-white/10">啟用 {machine.commissionedAt || '--'}</span>
+              </div>
+            ) : (
+              <p className="text-xs font-bold text-amber-400 mt-4">⚠️ 此機台尚未登錄，請至「機台登錄」分頁建檔</p>
+            )}
+          </div>
+          <button onClick={onClose} className="px-4 py-2.5 bg-white/10 hover:bg-white/20 rounded-xl font-black text-sm transition-all">✕ 關閉</button>
+        </div>
+
+        <div className="p-8 space-y-8">
+          <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+            <div className="col-span-2 bg-white p-6 rounded-[1.5rem] border border-slate-200">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">累計支出</p>
+              <p className="text-2xl font-black text-slate-900 tabular-nums">NT$ {totals.spend.toLocaleString()}</p>
+              <p className="text-[11px] font-bold text-slate-400 mt-1">共 {lines.length} 筆紀錄 · 維修 {totals.repairs} 次</p>
+            </div>
+            {SERIES.map(s => (
+              <div key={s.key} className="bg-white p-6 rounded-[1.5rem] border border-slate-200">
+                <p className="text-[10px] font-black uppercase tracking-widest mb-2" style={{ color: TYPE_STYLES[s.type].color }}>{s.type}</p>
+                <p className="text-lg font-black text-slate-800 tabular-nums">{totals.byType[s.type].toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-6 rounded-[2rem] border border-slate-200">
+            <h4 className="text-sm font-black text-slate-700 mb-4">📈 支出時間軸</h4>
+            <div className="h-72">
+              {timeline.length > 0 ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={timeline} margin={{ top: 10, right: 10, left: 20, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fontSize: 11, fontWeight: 900, fill: '#94a3b8' }} />
+                    <YAxis yAxisId="month" axisLine={false} tickLine={false} tick={{ fontSize: 11, fontWeight: 800, fill: '#cbd5e1' }} tickFormatter={(val) => `${(val / 1000).toFixed(0)}k`} />
+                    <YAxis yAxisId="total" orientation="right" axisLine={false} tickLine={false} tick={{ fontSize: 11, fontWeight: 800, fill: '#cbd5e1' }} tickFormatter={(val) => `${(val / 1000).toFixed(0)}k`} />
+                    <Tooltip formatter={(value: number) => `NT$ ${value.toLocaleString()}`} />
+                    <Legend wrapperStyle={{ fontSize: 12, fontWeight: 800 }} />
+                    {SERIES.map(s => <Bar key={s.key} yAxisId="month" dataKey={s.key} name={s.type} stackId="spend" fill={TYPE_STYLES[s.type].color} />)}
+                    <Line yAxisId="total" type="monotone" dataKey="cumulative" name="累計支出" stroke="#0f172a" strokeWidth={3} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="h-full flex items-center justify-center text-slate-300 font-black italic text-sm">此機台暫無紀錄</div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-[2rem] border border-slate-200 overflow-hidden">
+            <div className="p-6 flex flex-wrap items-center gap-2 border-b border-slate-100">
+              {(['all', ...SERIES.map(s => s.type)] as (TransactionType | 'all')[]).map(type => (
+                <button key={type} onClick={() => setTypeFilter(type)} className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${typeFilter === type ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                  {type === 'all' ? '全部' : type} {type === 'all' ? lines.length : lines.filter(t => t.type === type).length}
+                </button>
+              ))}
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-left">
+                <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b sticky top-0">
+                  <tr><th className="px-6 py-4">日期 / 類別</th><th className="px-6 py-4">料件</th><th className="px-6 py-4 text-right">數量</th><th className="px-6 py-4 text-right">金額</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-bold">
+                  {visibleLines.map(t => (
+                    <tr key={t.id} className="hover:bg-slate-50">
+                      <td className="px-6 py-4 text-xs text-slate-500 font-black">{t.date}<div className="mt-1"><span className={`px-1.5 py-0.5 rounded text-[10px] font-black ${TYPE_STYLES[t.type].badge}`}>{t.type}</span></div></td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm text-slate-900 truncate max-w-xs">{t.materialName}</div>
+                        <div className="flex gap-2 mt-1 text-[10px] font-black text-slate-400">
+                          <span>PN: {t.materialNumber || '--'}</span>
+                          {t.sn && <span>SN: {t.sn}</span>}
+                          {t.type === TransactionType.REPAIR && <span className="text-rose-500">{getRepairStatus(t)}{t.faultReason ? ` · ${t.faultReason}` : ''}</span>}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm text-slate-700 tabular-nums">{t.quantity}</td>
+                      <td className="px-6 py-4 text-right text-sm font-black text-slate-900 tabular-nums">NT$ {t.total.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                  {visibleLines.length === 0 && (
+                    <tr><td colSpan={4} className="px-6 py-16 text-center text-slate-300 font-black italic">沒有符合的紀錄</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MachineDetailView;
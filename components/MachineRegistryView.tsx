@@ -0,0 +1,153 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Machine, MachineStatus } from '../types';
+import { MutationResult } from '../services/storage';
+import { MACHINE_CATEGORIES } from '../services/materialService';
+import { MACHINE_STATUS_LABELS, summarizeMachines } from '../services/machineService';
+import { MACHINE_STATUS_BADGES } from './MachineDetailView';
+
+interface Props {
+  transactions: Transaction[];
+  machines: Machine[];
+  canEdit: boolean;
+  onSave: (machine: Machine) => Promise<MutationResult>;
+  onOpen: (machineId: string) => void;
+}
+
+const EMPTY_FORM: Machine = { id: '', category: MACHINE_CATEGORIES[0], location: '', commissionedAt: '', status: 'active' };
+
+const MachineRegistryView: React.FC<Props> = ({ transactions, machines, canEdit, onSave, onOpen }) => {
+  const [form, setForm] = useState<Machine>(EMPTY_FORM);
+  const [isEditing, setIsEditing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [showUnregistered, setShowUnregistered] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const summaries = useMemo(() => summarizeMachines(transactions, machines), [transactions, machines]);
+  const unregisteredCount = summaries.filter(s => !s.machine).length;
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return summaries
+      .filter(s => showUnregistered ? !s.machine : !!s.machine)
+      .filter(s => !q || s.id.toLowerCase().includes(q) || (s.machine?.location || '').toLowerCase().includes(q) || s.category.toLowerCase().includes(q));
+  }, [summaries, search, showUnregistered]);
+
+  const startEdit = (machine: Machine, editing: boolean) => {
+    setForm(machine);
+    setIsEditing(editing);
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = form.id.trim();
+    if (!isEditing && machines.some(m => m.id.toUpperCase() === id.toUpperCase())) {
+      setError('此機台編號已登錄');
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    const res = await onSave({ ...form, id, location: form.location.trim() });
+    if (res.ok) {
+      setForm(EMPTY_FORM);
+      setIsEditing(false);
+    } else {
+      setError(res.message || '儲存失敗');
+    }
+    setIsWorking(false);
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500";
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-in fade-in duration-500">
+      <div className={`${canEdit ? 'xl:col-span-8' : 'xl:col-span-12'} bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden`}>
+        <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+              <span className="text-3xl">🎰</span> 機台登錄
+            </h3>
+            <p className="text-xs font-bold text-slate-400 mt-2">已登錄 {machines.length} 台；點選機台可查看歷史紀錄與累計支出。</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => setShowUnregistered(!showUnregistered)} className={`px-4 py-3 rounded-xl text-xs font-black transition-all ${showUnregistered ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}`}>
+              {showUnregistered ? '返回已登錄' : `⚠️ 未登錄 ${unregisteredCount}`}
+            </button>
+            <input value={search} onChange={e => setSearch(e.target.value)} placeholder="🔍 搜尋編號、種類或位置..." className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-indigo-500 w-60" />
+          </div>
+        </div>
+        {error && <p className="px-8 pt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+        <div className="overflow-x-auto max-h-[640px] overflow-y-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b sticky top-0">
+              <tr><th className="px-6 py-5">機台編號</th><th className="px-6 py-5">種類 / 位置</th><th className="px-6 py-5">狀態</th><th className="px-6 py-5 text-right">累計支出</th><th className="px-6 py-5 text-right">維修次數</th>{canEdit && <th className="px-6 py-5 text-center">操作</th>}</tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-bold">
+              {filtered.map(s => (
+                <tr key={s.id} onClick={() => onOpen(s.id)} className="hover:bg-slate-50 transition-all cursor-pointer">
+                  <td className="px-6 py-4 text-sm font-black text-indigo-600 tabular-nums">{s.id}</td>
+                  <td className="px-6 py-4 text-sm text-slate-700">{s.category || '--'}<div className="text-[11px] text-slate-400 mt-1">{s.machine ? `📍 ${s.machine.location || '未填位置'} · 啟用 ${s.machine.commissionedAt || '--'}` : `最近紀錄 ${s.lastDate || '--'}`}</div></td>
+                  <td className="px-6 py-4">
+                    {s.machine
+                      ? <span className={`px-2 py-1 rounded-lg text-[11px] font-black ${MACHINE_STATUS_BADGES[s.machine.status]}`}>{MACHINE_STATUS_LABELS[s.machine.status]}</span>
+                      : <span className="px-2 py-1 rounded-lg text-[11px] font-black bg-amber-50 text-amber-600">未登錄</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-900 text-right tabular-nums">NT$ {s.totalSpend.toLocaleString()}</td>
+                  <td className="px-6 py-4 text-sm text-slate-600 text-right tabular-nums">{s.repairCount}</td>
+                  {canEdit && (
+                    <td className="px-6 py-4">
+                      <div className="flex justify-center">
+                        <button
+                          onClick={e => { e.stopPropagation(); startEdit(s.machine || { ...EMPTY_FORM, id: s.id, category: s.category || EMPTY_FORM.category }, !!s.machine); }}
+                          disabled={isWorking}
+                          className="px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded-lg text-[11px] font-black transition-all"
+                        >
+                          {s.machine ? '✏️ 編輯' : '➕ 登錄'}
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr><td colSpan={canEdit ? 6 : 5} className="px-8 py-20 text-center text-slate-300 font-black">{showUnregistered ? '紀錄中的機台皆已登錄' : '沒有符合的機台'}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleSubmit} className="xl:col-span-4 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4 h-fit">
+          <h4 className="text-lg font-black text-slate-900 flex items-center gap-3">
+            <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+            {isEditing ? `編輯 ${form.id}` : '登錄機台'}
+          </h4>
+          <input value={form.id} onChange={e => setForm({ ...form, id: e.target.value })} disabled={isEditing} placeholder="機台編號" required className={`${inputClass} disabled:opacity-50`} />
+          <select value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputClass}>
+            {!MACHINE_CATEGORIES.includes(form.category) && form.category && <option value={form.category}>{form.category}</option>}
+            {MACHINE_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+          </select>
+          <input value={form.location} onChange={e => setForm({ ...form, location: e.target.value })} placeholder="樓層位置 (例如 2F-A 區)" className={inputClass} />
+          <div>
+            <label className="text-[11px] font-black text-slate-400 ml-1">啟用日期</label>
+            <input type="date" value={form.commissionedAt} onChange={e => setForm({ ...form, commissionedAt: e.target.value })} className={inputClass} />
+          </div>
+          <select value={form.status} onChange={e => setForm({ ...form, status: e.target.value as MachineStatus })} className={inputClass}>
+            {(Object.keys(MACHINE_STATUS_LABELS) as MachineStatus[]).map(status => <option key={status} value={status}>{MACHINE_STATUS_LABELS[status]}</option>)}
+          </select>
+          <div className="flex gap-3">
+            <button type="submit" disabled={isWorking} className="flex-1 py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50">
+              {isWorking ? '處理中...' : isEditing ? '💾 儲存變更' : '➕ 登錄機台'}
+            </button>
+            {(isEditing || form.id) && <button type="button" onClick={() => startEdit(EMPTY_FORM, false)} className="px-4 text-slate-400 font-black hover:text-slate-600 text-sm">取消</button>}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default MachineRegistryView;
@@ -0,0 +1,138 @@
+import React from 'react';
+
+interface Props {
+  markdown: string;
+}
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'quote'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'rule' }
+  | { kind: 'paragraph'; text: string };
+
+const splitRow = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(c => c.trim());
+const isTableDivider = (line: string) => /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+
+/**
+ * 將 Markdown 拆成區塊；只支援模型常用的語法 (標題、清單、表格、引言、程式碼區塊、分隔線)
+ */
+const parseBlocks = (markdown: string): Block[] => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (!trimmed) { i++; continue; }
+
+    if (trimmed.startsWith('```')) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) body.push(lines[i++]);
+      blocks.push({ kind: 'code', text: body.join('\n') });
+      i++;
+      continue;
+    }
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      blocks.push({ kind: 'rule' });
+      i++;
+      continue;
+    }
+    if (trimmed.startsWith('|') && i + 1 < lines.length && isTableDivider(lines[i + 1])) {
+      const header = splitRow(trimmed);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) rows.push(splitRow(lines[i++]));
+      blocks.push({ kind: 'table', header, rows });
+      continue;
+    }
+    if (trimmed.startsWith('>')) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) body.push(lines[i++].trim().replace(/^>\s?/, ''));
+      blocks.push({ kind: 'quote', text: body.join(' ') });
+      continue;
+    }
+    const listMatch = trimmed.match(/^([-*+]|\d+[.)])\s+/);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].trim().match(/^([-*+]|\d+[.)])\s+(.*)$/);
+        if (item && /\d/.test(item[1]) === ordered) items.push(item[2]);
+        else if (lines[i].trim() && /^\s{2,}/.test(lines[i]) && items.length > 0) items[items.length - 1] += ` ${lines[i].trim()}`;
+        else break;
+        i++;
+      }
+      blocks.push({ kind: 'list', ordered, items });
+      continue;
+    }
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && !/^(#{1,6}\s|[-*+]\s|\d+[.)]\s|>|```|\|)/.test(lines[i].trim())) body.push(lines[i++].trim());
+    if (body.length === 0) body.push(lines[i++].trim());
+    blocks.push({ kind: 'paragraph', text: body.join(' ') });
+  }
+  return blocks;
+};
+
+// 行內語法：**粗體**、*斜體*、`程式碼`
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(/(\*\*[^*]+\*\*|`[^`]+`|\*[^*\s][^*]*\*)/g).filter(Boolean).map((part, idx) => {
+    if (part.startsWith('**') && part.endsWith('**')) return <strong key={idx} className="font-black text-slate-900">{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`') && part.endsWith('`')) return <code key={idx} className="px-1 py-0.5 bg-slate-100 rounded text-[0.9em] text-indigo-600">{part.slice(1, -1)}</code>;
+    if (part.length > 2 && part.startsWith('*') && part.endsWith('*')) return <em key={idx}>{part.slice(1, -1)}</em>;
+    return part;
+  });
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+/**
+ * 輕量 Markdown 顯示 (不使用 innerHTML，模型輸出的 HTML 會以純文字呈現)
+ */
+const MarkdownView: React.FC<Props> = ({ markdown }) => (
+  <div className="space-y-3 text-sm font-bold text-slate-600 leading-relaxed">
+    {parseBlocks(markdown).map((block, idx) => {
+      switch (block.kind) {
+        case 'heading':
+          return <p key={idx} className={`${HEADING_CLASSES[block.level - 1]} font-black text-slate-900 pt-2`}>{renderInline(block.text)}</p>;
+        case 'list': {
+          const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+          return block.ordered
+            ? <ol key={idx} className="list-decimal pl-6 space-y-1">{items}</ol>
+            : <ul key={idx} className="list-disc pl-6 space-y-1">{items}</ul>;
+        }
+        case 'table':
+          return (
+            <div key={idx} className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[10px] font-black text-slate-400 border-b">
+                  <tr>{block.header.map((h, j) => <th key={j} className="px-3 py-2">{renderInline(h)}</th>)}</tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {block.rows.map((row, r) => <tr key={r}>{row.map((c, j) => <td key={j} className="px-3 py-2 tabular-nums">{renderInline(c)}</td>)}</tr>)}
+                </tbody>
+              </table>
+            </div>
+          );
+        case 'quote':
+          return <blockquote key={idx} className="border-l-4 border-indigo-200 pl-4 text-slate-400">{renderInline(block.text)}</blockquote>;
+        case 'code':
+          return <pre key={idx} className="p-4 bg-slate-900 text-slate-100 rounded-2xl text-xs overflow-x-auto">{block.text}</pre>;
+        case 'rule':
+          return <hr key={idx} className="border-slate-100" />;
+        default:
+          return <p key={idx}>{renderInline(block.text)}</p>;
+      }
+    })}
+  </div>
+);
+
+export default MarkdownView;
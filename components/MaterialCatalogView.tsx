@@ -0,0 +1,178 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Material } from '../types';
+import { MutationResult } from '../services/storage';
+import { MACHINE_CATEGORIES, MATERIAL_ISSUE_LABELS, MaterialIssue, suggestMaterialsFromHistory } from '../services/materialService';
+
+interface Props {
+  transactions: Transaction[];
+  materials: Material[];
+  issues: Map<string, MaterialIssue>;
+  onSave: (materials: Material[]) => Promise<MutationResult>;
+}
+
+const EMPTY_FORM: Material = { pn: '', name: '', unit: '個', defaultPrice: 0, machineCategory: MACHINE_CATEGORIES[0], minStock: 0, maxStock: 0, active: true };
+
+const MaterialCatalogView: React.FC<Props> = ({ transactions, materials, issues, onSave }) => {
+  const [form, setForm] = useState<Material>(EMPTY_FORM);
+  const [isEditing, setIsEditing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return materials
+      .filter(m => !q || m.pn.toLowerCase().includes(q) || m.name.toLowerCase().includes(q))
+      .sort((a, b) => a.pn.localeCompare(b.pn));
+  }, [materials, search]);
+
+  const candidates = useMemo(() => showImport ? suggestMaterialsFromHistory(transactions, materials) : [], [showImport, transactions, materials]);
+
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<MaterialIssue, number>> = {};
+    issues.forEach(issue => { counts[issue] = (counts[issue] || 0) + 1; });
+    return counts;
+  }, [issues]);
+
+  const run = async (list: Material[]) => {
+    setIsWorking(true);
+    setError('');
+    const res = await onSave(list);
+    if (!res.ok) setError(res.message || '儲存失敗');
+    setIsWorking(false);
+    return res.ok;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const pn = form.pn.trim();
+    if (!isEditing && materials.some(m => m.pn.toUpperCase() === pn.toUpperCase())) {
+      setError('此料號已存在');
+      return;
+    }
+    const minStock = Number(form.minStock) || 0;
+    const maxStock = Number(form.maxStock) || 0;
+    if (minStock > 0 && maxStock > 0 && maxStock < minStock) {
+      setError('最高庫存不可低於最低庫存');
+      return;
+    }
+    if (await run([{ ...form, pn, name: form.name.trim(), defaultPrice: Number(form.defaultPrice) || 0, minStock, maxStock }])) {
+      setForm(EMPTY_FORM);
+      setIsEditing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (await run(candidates)) setShowImport(false);
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500";
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      {(issues.size > 0 || materials.length === 0) && (
+        <div className="bg-amber-50 border border-amber-200 rounded-[2rem] p-6 flex flex-wrap items-center gap-6">
+          <p className="text-sm font-black text-amber-700">⚠️ {materials.length === 0 ? '料件主檔尚未建立，表單暫時允許自由輸入料件' : `${issues.size} 筆紀錄與料件主檔不符`}</p>
+          {(Object.keys(issueCounts) as MaterialIssue[]).map(issue => (
+            <span key={issue} className="px-3 py-1.5 bg-white rounded-lg text-[11px] font-black text-amber-600 border border-amber-100">{MATERIAL_ISSUE_LABELS[issue]} {issueCounts[issue]}</span>
+          ))}
+          <button onClick={() => setShowImport(!showImport)} className="ml-auto px-4 py-2.5 bg-amber-500 hover:bg-amber-600 text-white rounded-xl font-black text-xs transition-all">{showImport ? '收合' : '📥 由歷史紀錄建檔'}</button>
+        </div>
+      )}
+
+      {showImport && (
+        <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-6 flex items-center justify-between border-b border-slate-100">
+            <p className="text-sm font-black text-slate-700">以下 {candidates.length} 個料號尚未建檔，品名取歷史紀錄中最常出現者，預設單價取最近一筆進貨。</p>
+            <button onClick={handleImport} disabled={isWorking || candidates.length === 0} className="px-5 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-xs shadow-lg transition-all disabled:opacity-40">{isWorking ? '處理中...' : '✅ 全部建檔'}</button>
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+              <tbody className="divide-y divide-slate-100 font-bold text-slate-600">
+                {candidates.map(c => (
+                  <tr key={c.pn}><td className="px-6 py-3 tabular-nums text-slate-400">{c.pn}</td><td className="px-6 py-3 text-slate-800">{c.name}</td><td className="px-6 py-3">{c.machineCategory}</td><td className="px-6 py-3 text-right tabular-nums">NT$ {c.defaultPrice.toLocaleString()}</td></tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
+        <div className="xl:col-span-8 bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
+          <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+                <span className="text-3xl">🗂️</span> 料件主檔
+              </h3>
+              <p className="text-xs font-bold text-slate-400 mt-2">共 {materials.length} 項；表單僅能選用啟用中的料件，品名一律以主檔為準。</p>
+            </div>
+            <input value={search} onChange={e => setSearch(e.target.value)} placeholder="🔍 搜尋料號或品名..." className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-indigo-500 w-60" />
+          </div>
+          {error && <p className="px-8 pt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+          <div className="overflow-x-auto max-h-[640px] overflow-y-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b sticky top-0">
+                <tr><th className="px-6 py-5">料號</th><th className="px-6 py-5">品名</th><th className="px-6 py-5">單位</th><th className="px-6 py-5 text-right">預設單價</th><th className="px-6 py-5">機台種類</th><th className="px-6 py-5 text-right">安全庫存</th><th className="px-6 py-5 text-center">操作</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-bold">
+                {filtered.map(m => (
+                  <tr key={m.pn} className={`hover:bg-slate-50 transition-all ${m.active ? '' : 'opacity-50'}`}>
+                    <td className="px-6 py-4 text-sm text-slate-500 tabular-nums">{m.pn}</td>
+                    <td className="px-6 py-4 text-sm font-black text-slate-800">{m.name}{!m.active && <span className="ml-2 text-[10px] text-slate-400">(已停用)</span>}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{m.unit}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 text-right tabular-nums">{m.defaultPrice.toLocaleString()}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600">{m.machineCategory}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 text-right tabular-nums">{m.minStock || m.maxStock ? `${m.minStock || '--'} / ${m.maxStock || '--'}` : '--'}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => { setForm(m); setIsEditing(true); setError(''); }} disabled={isWorking} className="px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded-lg text-[11px] font-black transition-all">✏️ 編輯</button>
+                        <button onClick={() => run([{ ...m, active: !m.active }])} disabled={isWorking} className={`px-3 py-2 rounded-lg text-[11px] font-black transition-all ${m.active ? 'bg-slate-100 text-slate-500 hover:bg-slate-200' : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'}`}>{m.active ? '⛔ 停用' : '✅ 啟用'}</button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {filtered.length === 0 && (
+                  <tr><td colSpan={7} className="px-8 py-20 text-center text-slate-300 font-black">{materials.length === 0 ? '尚未建立料件主檔' : '沒有符合的料件'}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="xl:col-span-4 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4 h-fit">
+          <h4 className="text-lg font-black text-slate-900 flex items-center gap-3">
+            <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+            {isEditing ? `編輯 ${form.pn}` : '新增料件'}
+          </h4>
+          <input value={form.pn} onChange={e => setForm({ ...form, pn: e.target.value })} disabled={isEditing} placeholder="料號 (PN)" required className={`${inputClass} disabled:opacity-50`} />
+          <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="標準品名" required className={inputClass} />
+          <div className="grid grid-cols-2 gap-3">
+            <input value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value })} placeholder="單位" className={inputClass} />
+            <input type="number" min="0" value={form.defaultPrice} onChange={e => setForm({ ...form, defaultPrice: Number(e.target.value) })} placeholder="預設單價" className={`${inputClass} text-right`} />
+          </div>
+          <select value={form.machineCategory} onChange={e => setForm({ ...form, machineCategory: e.target.value })} className={inputClass}>
+            {MACHINE_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+          </select>
+          <div>
+            <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">安全庫存 (最低為再訂購點，最高為補貨目標；0 表示不設定)</label>
+            <div className="grid grid-cols-2 gap-3">
+              <input type="number" min="0" value={form.minStock} onChange={e => setForm({ ...form, minStock: Number(e.target.value) })} placeholder="最低庫存" className={`${inputClass} text-right`} />
+              <input type="number" min="0" value={form.maxStock} onChange={e => setForm({ ...form, maxStock: Number(e.target.value) })} placeholder="最高庫存" className={`${inputClass} text-right`} />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button type="submit" disabled={isWorking} className="flex-1 py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50">
+              {isWorking ? '處理中...' : isEditing ? '💾 儲存變更' : '➕ 建立料件'}
+            </button>
+            {isEditing && <button type="button" onClick={() => { setForm(EMPTY_FORM); setIsEditing(false); }} className="px-4 text-slate-400 font-black hover:text-slate-600 text-sm">取消</button>}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MaterialCatalogView;
@@ -0,0 +1,58 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Material } from '../types';
+import { searchMaterials } from '../services/materialService';
+
+interface Props {
+  materials: Material[];
+  value: string;
+  onChange: (text: string) => void;
+  onSelect: (material: Material) => void;
+  className?: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+/**
+ * 料件選擇器：輸入名稱或料號搜尋料件主檔，選取後由呼叫端帶入料號、品名與預設值
+ */
+const MaterialPicker: React.FC<Props> = ({ materials, value, onChange, onSelect, className, placeholder = '名稱或料號...', required }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const matches = useMemo(() => searchMaterials(materials, value).filter(m => m.name !== value), [materials, value]);
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <input
+        type="text"
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        className={className}
+        value={value}
+        onChange={e => { onChange(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+      />
+      {isOpen && matches.length > 0 && (
+        <div className="absolute z-50 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-2xl overflow-hidden max-h-56 overflow-y-auto">
+          {matches.map(m => (
+            <button key={m.pn} type="button" onClick={() => { onSelect(m); setIsOpen(false); }} className="w-full text-left px-4 py-3 text-sm font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 border-b border-slate-50 last:border-0">
+              <span className="text-[11px] font-black text-slate-400 mr-2 tabular-nums">{m.pn}</span>{m.name}
+              <span className="text-[11px] text-slate-400 ml-2">{m.unit}{m.machineCategory ? ` · ${m.machineCategory}` : ''}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaterialPicker;
@@ -0,0 +1,119 @@
+
+import React, { useState } from 'react';
+import { Transaction } from '../types';
+import { outboxService, OutboxStatus, OutboxEntry } from '../services/outboxService';
+import { FIELD_LABELS } from './RecordHistory';
+
+interface Props {
+  status: OutboxStatus;
+}
+
+const ACTION_LABELS: Record<OutboxEntry['action'], string> = {
+  insert: '新增',
+  update: '修改',
+  delete: '刪除',
+  batch_insert: '批次新增'
+};
+
+const describe = (e: OutboxEntry) =>
+  e.action === 'batch_insert'
+    ? `${ACTION_LABELS[e.action]} ${e.payload.length} 筆`
+    : `${ACTION_LABELS[e.action]} ${e.payload.materialName || e.recordId}`;
+
+// 比對時略過由後端決定的欄位
+const SYSTEM_FIELDS = ['id', 'type', 'total', 'version', 'operator', 'isDeleted', 'deletedBy', 'deletedAt'];
+
+const formatValue = (v: any) => v === undefined || v === null || v === '' ? '—' : String(v);
+
+/**
+ * 衝突項目與伺服器目前內容的差異欄位；刪除項目沒有本機內容，只列出伺服器版本
+ */
+const diffFields = (entry: OutboxEntry, server: Transaction) => {
+  if (entry.action === 'delete') return [];
+  const local = entry.payload as Record<string, any>;
+  const remote = server as unknown as Record<string, any>;
+  return Array.from(new Set([...Object.keys(local), ...Object.keys(remote)]))
+    .filter(f => !SYSTEM_FIELDS.includes(f) && formatValue(local[f]) !== formatValue(remote[f]))
+    .map(f => ({ field: f, server: formatValue(remote[f]), mine: formatValue(local[f]) }));
+};
+
+interface Comparison {
+  seq: number;
+  server?: Transaction | null;   // undefined 表示載入中，null 表示伺服器上已找不到
+  error?: string;
+}
+
+const OutboxPanel: React.FC<Props> = ({ status }) => {
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const problems = status.entries.filter(e => e.status !== 'pending');
+
+  const compare = async (seq: number) => {
+    setComparison({ seq });
+    try {
+      setComparison({ seq, server: await outboxService.fetchServerCopy(seq) });
+    } catch (e: any) {
+      setComparison({ seq, error: e.message });
+    }
+  };
+
+  const keepMine = async (seq: number, server: Transaction) => {
+    setComparison(null);
+    await outboxService.keepMine(seq, server.version || 0);
+  };
+
+  const renderComparison = (e: OutboxEntry) => {
+    if (comparison?.seq !== e.seq) return null;
+    if (comparison.error) return <p className="text-[9px] font-bold text-rose-300 mt-1">{comparison.error}</p>;
+    if (comparison.server === undefined) return <p className="text-[9px] font-bold text-slate-500 mt-1">讀取伺服器版本中...</p>;
+    const server = comparison.server;
+    if (!server) return <p className="text-[9px] font-bold text-orange-300 mt-1">伺服器上已找不到此紀錄 (可能已被清除或改為其他類別)，只能捨棄本機異動</p>;
+    const changes = diffFields(e, server);
+    return (
+      <div className="mt-1.5 space-y-1">
+        <p className="text-[9px] font-bold text-slate-400">伺服器目前為版本 {server.version || 0}，最後由 {server.operator || '—'} 修改</p>
+        {e.action !== 'delete' && changes.length === 0 && <p className="text-[9px] font-bold text-slate-500">內容與伺服器相同</p>}
+        {changes.map(c => (
+          <p key={c.field} className="text-[9px] font-bold text-slate-400 break-all">
+            {FIELD_LABELS[c.field] || c.field}：<span className="text-sky-300">{c.server}</span> → <span className="text-amber-300">{c.mine}</span>
+          </p>
+        ))}
+        <div className="flex gap-2">
+          <button onClick={() => keepMine(e.seq!, server)} className="text-[10px] font-black text-amber-400 hover:text-amber-300">{e.action === 'delete' ? '仍要刪除' : '保留我的版本'}</button>
+          <button onClick={() => outboxService.discard(e.seq!)} className="text-[10px] font-black text-sky-400 hover:text-sky-300">採用伺服器版本</button>
+        </div>
+      </div>
+    );
+  };
+  if (status.pending === 0 && problems.length === 0 && status.others === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex gap-2 text-[10px] font-black">
+        {status.pending > 0 && <span className="px-2 py-1 rounded-lg bg-amber-500/20 text-amber-300">⏳ 待同步 {status.pending}</span>}
+        {status.failed > 0 && <span className="px-2 py-1 rounded-lg bg-rose-500/20 text-rose-300">❌ 失敗 {status.failed}</span>}
+        {status.conflict > 0 && <span className="px-2 py-1 rounded-lg bg-orange-500/20 text-orange-300">⚠️ 衝突 {status.conflict}</span>}
+        {status.unauthorized && <span className="px-2 py-1 rounded-lg bg-rose-500/20 text-rose-300">🔒 登入逾時，請重新登入</span>}
+        {status.others > 0 && <span className="px-2 py-1 rounded-lg bg-slate-700 text-slate-400" title="僅在該帳號登入時才會送出">👤 其他帳號 {status.others}</span>}
+      </div>
+      {problems.length > 0 && (
+        <div className="max-h-[220px] overflow-y-auto space-y-1.5 pr-1">
+          {problems.map(e => (
+            <div key={e.seq} className="bg-slate-900/60 rounded-lg px-2.5 py-2">
+              <p className="text-[10px] font-black text-slate-200 truncate">{describe(e)}</p>
+              {e.lastError && <p className="text-[9px] font-bold text-slate-500 truncate" title={e.lastError}>{e.lastError}</p>}
+              <div className="flex gap-2 mt-1">
+                {e.status === 'conflict'
+                  ? <button onClick={() => compare(e.seq!)} className="text-[10px] font-black text-indigo-400 hover:text-indigo-300">比對伺服器版本</button>
+                  : <button onClick={() => outboxService.retry(e.seq!)} className="text-[10px] font-black text-indigo-400 hover:text-indigo-300">重試</button>}
+                <button onClick={() => outboxService.discard(e.seq!)} className="text-[10px] font-black text-slate-500 hover:text-rose-400">捨棄</button>
+              </div>
+              {renderComparison(e)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutboxPanel;
@@ -0,0 +1,131 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, PeriodClose, PeriodLogEntry } from '../types';
+import { computeMonthlyStats } from '../services/settlementService';
+import { MutationResult } from '../services/storage';
+
+interface Props {
+  transactions: Transaction[];
+  periods: PeriodClose[];
+  log: PeriodLogEntry[];
+  canManage: boolean;
+  onClosePeriod: (period: string) => Promise<MutationResult>;
+  onReopenPeriod: (period: string, reason: string) => Promise<MutationResult>;
+}
+
+const STAT_LABELS: { key: 'inboundTotal' | 'usageTotal' | 'constructionTotal' | 'repairTotal'; label: string }[] = [
+  { key: 'inboundTotal', label: '進貨' },
+  { key: 'usageTotal', label: '用料' },
+  { key: 'constructionTotal', label: '建置' },
+  { key: 'repairTotal', label: '維修' }
+];
+
+const PeriodClosePanel: React.FC<Props> = ({ transactions, periods, log, canManage, onClosePeriod, onReopenPeriod }) => {
+  const [period, setPeriod] = useState(() => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' }).slice(0, 7));
+  const [reopenTarget, setReopenTarget] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const preview = useMemo(() => computeMonthlyStats(transactions, period), [transactions, period]);
+  const current = periods.find(p => p.period === period);
+  const isClosed = current?.status === 'closed';
+  const closedPeriods = periods.filter(p => p.status === 'closed').sort((a, b) => b.period.localeCompare(a.period));
+
+  const run = async (action: () => Promise<MutationResult>) => {
+    setIsWorking(true);
+    setError('');
+    const res = await action();
+    if (!res.ok) setError(res.message || '操作失敗');
+    setIsWorking(false);
+    return res.ok;
+  };
+
+  const handleClose = () => run(() => onClosePeriod(period));
+
+  const handleReopen = async () => {
+    if (!reopenTarget || !reason.trim()) return;
+    const ok = await run(() => onReopenPeriod(reopenTarget, reason.trim()));
+    if (ok) { setReopenTarget(null); setReason(''); }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-6">
+      <h4 className="text-lg font-black text-slate-900 flex items-center gap-3">
+        <span className="w-1.5 h-6 bg-rose-500 rounded-full"></span>
+        月結關帳
+      </h4>
+
+      <div className="flex items-center gap-3">
+        <input type="month" value={period} onChange={e => { setPeriod(e.target.value); setError(''); }} className="flex-1 px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl font-black text-sm text-indigo-600 outline-none focus:border-indigo-500" />
+        {isClosed
+          ? <span className="px-3 py-2 rounded-xl bg-rose-50 text-rose-600 text-xs font-black">🔒 已關帳</span>
+          : <span className="px-3 py-2 rounded-xl bg-emerald-50 text-emerald-600 text-xs font-black">🔓 開放中</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {STAT_LABELS.map(({ key, label }) => (
+          <div key={key} className="bg-slate-50 rounded-xl px-4 py-3 border border-slate-100">
+            <p className="text-[10px] font-black text-slate-400">{label}</p>
+            <p className="text-sm font-black text-slate-800 tabular-nums">NT$ {(isClosed ? current![key] : preview[key]).toLocaleString()}</p>
+          </div>
+        ))}
+        <div className="col-span-2 bg-slate-900 rounded-xl px-4 py-3 flex items-center justify-between">
+          <p className="text-[10px] font-black text-slate-400">{isClosed ? '關帳快照總計' : '目前試算總計'}</p>
+          <p className="text-base font-black text-indigo-400 tabular-nums">NT$ {(isClosed ? current!.grandTotal : preview.grandTotal).toLocaleString()}</p>
+        </div>
+      </div>
+
+      {isClosed ? (
+        <p className="text-[11px] font-bold text-slate-400">由 {current!.closedBy} 於 {current!.closedAt.slice(0, 16).replace('T', ' ')} 關帳，該月份紀錄已鎖定。</p>
+      ) : canManage && (
+        <button onClick={handleClose} disabled={isWorking} className="w-full py-3.5 bg-rose-600 hover:bg-rose-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50">
+          {isWorking ? '處理中...' : `🔒 關帳 ${period}`}
+        </button>
+      )}
+
+      {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+
+      {closedPeriods.length > 0 && (
+        <div className="pt-4 border-t border-slate-100 space-y-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">已關帳月份</p>
+          {closedPeriods.map(p => (
+            <div key={p.period} className="flex items-center justify-between text-xs font-black">
+              <span className="text-slate-700">🔒 {p.period}</span>
+              {canManage && <button onClick={() => { setReopenTarget(p.period); setReason(''); setError(''); }} className="text-slate-400 hover:text-amber-600 transition-colors">重新開帳</button>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {reopenTarget && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-3">
+          <p className="text-[12px] font-black text-amber-700">重新開帳 {reopenTarget}</p>
+          <textarea value={reason} onChange={e => setReason(e.target.value)} placeholder="請填寫重新開帳原因 (必填，將記錄於稽核軌跡)..." className="w-full px-3 py-2 bg-white border border-amber-200 rounded-lg text-xs font-bold outline-none min-h-[60px] resize-none" />
+          <div className="flex gap-2">
+            <button onClick={handleReopen} disabled={isWorking || !reason.trim()} className="flex-1 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-black disabled:opacity-40">確認重新開帳</button>
+            <button onClick={() => setReopenTarget(null)} className="px-4 py-2 text-slate-400 hover:text-slate-600 text-xs font-black">取消</button>
+          </div>
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <div className="pt-4 border-t border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">關帳稽核軌跡</p>
+          <div className="max-h-[140px] overflow-y-auto space-y-1.5 pr-1">
+            {[...log].reverse().map((entry, idx) => (
+              <div key={idx} className="text-[11px] font-bold text-slate-500">
+                <span className="text-slate-400">{entry.timestamp.slice(0, 16).replace('T', ' ')}</span>
+                <span className={`mx-2 ${entry.action === 'close' ? 'text-rose-500' : 'text-amber-600'}`}>{entry.action === 'close' ? '關帳' : '重新開帳'} {entry.period}</span>
+                <span>{entry.operator}</span>
+                {entry.reason && <span className="block text-slate-400 pl-2">「{entry.reason}」</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodClosePanel;
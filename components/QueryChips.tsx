@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { TransactionType } from '../types';
+import { RecordQuery, QueryField, QueryStatus, QueryVocabulary, QUERY_FIELD_LABELS, QUERY_STATUS_LABELS, clearQueryField, formatQueryField, listQueryFields, normalizeRecordQuery } from '../services/searchQueryService';
+
+interface Props {
+  query: RecordQuery;
+  parsedBy: string;
+  vocabulary: QueryVocabulary;
+  onChange: (query: RecordQuery) => void;
+  onClear: () => void;
+}
+
+const ALL_FIELDS = Object.keys(QUERY_FIELD_LABELS) as QueryField[];
+
+/**
+ * 智慧搜尋的篩選條件：每個條件一個 chip，點選可修改、✕ 移除，也可手動加入其他條件
+ */
+const QueryChips: React.FC<Props> = ({ query, parsedBy, vocabulary, onChange, onClear }) => {
+  const [editing, setEditing] = useState<QueryField | null>(null);
+  const [draft, setDraft] = useState<RecordQuery>(query);
+
+  const fields = listQueryFields(query);
+  const missing = ALL_FIELDS.filter(f => !fields.includes(f));
+
+  const startEdit = (field: QueryField) => {
+    setDraft(query);
+    setEditing(field);
+  };
+
+  const applyEdit = () => {
+    onChange(normalizeRecordQuery(draft));
+    setEditing(null);
+  };
+
+  const toggleType = (type: TransactionType) =>
+    setDraft({ ...draft, types: draft.types.includes(type) ? draft.types.filter(t => t !== type) : [...draft.types, type] });
+
+  const amountValue = (v: number | null) => (v === null ? '' : String(v));
+  const amountInput = (v: string) => (v.trim() === '' ? null : Number(v));
+  const inputClass = "bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-700 outline-none focus:border-indigo-500";
+
+  const renderEditor = (field: QueryField) => {
+    switch (field) {
+      case 'types':
+        return Object.values(TransactionType).map(type => (
+          <button key={type} type="button" onClick={() => toggleType(type)} className={`px-2 py-1 rounded-lg text-xs font-black ${draft.types.includes(type) ? 'bg-indigo-600 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}>{type}</button>
+        ));
+      case 'date':
+        return (
+          <>
+            <input type="date" value={draft.dateFrom} onChange={e => setDraft({ ...draft, dateFrom: e.target.value })} className={inputClass} />
+            <span className="text-[10px] font-black text-slate-300">至</span>
+            <input type="date" value={draft.dateTo} onChange={e => setDraft({ ...draft, dateTo: e.target.value })} className={inputClass} />
+          </>
+        );
+      case 'total':
+        return (
+          <>
+            <input type="number" min="0" placeholder="下限" value={amountValue(draft.minTotal)} onChange={e => setDraft({ ...draft, minTotal: amountInput(e.target.value) })} className={`${inputClass} w-24 text-right`} />
+            <span className="text-[10px] font-black text-slate-300">~</span>
+            <input type="number" min="0" placeholder="上限" value={amountValue(draft.maxTotal)} onChange={e => setDraft({ ...draft, maxTotal: amountInput(e.target.value) })} className={`${inputClass} w-24 text-right`} />
+          </>
+        );
+      case 'machineCategory':
+        return (
+          <select value={draft.machineCategory} onChange={e => setDraft({ ...draft, machineCategory: e.target.value })} className={inputClass}>
+            <option value="">不限</option>
+            {vocabulary.machineCategories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        );
+      case 'status':
+        return (
+          <select value={draft.status} onChange={e => setDraft({ ...draft, status: e.target.value as QueryStatus | '' })} className={inputClass}>
+            <option value="">不限</option>
+            {(Object.keys(QUERY_STATUS_LABELS) as QueryStatus[]).map(s => <option key={s} value={s}>{QUERY_STATUS_LABELS[s]}</option>)}
+          </select>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            autoFocus
+            list={field === 'vendor' ? 'query-vendors' : field === 'machineNumber' ? 'query-machines' : undefined}
+            value={draft[field]}
+            onChange={e => setDraft({ ...draft, [field]: e.target.value })}
+            onKeyDown={e => { if (e.key === 'Enter') applyEdit(); }}
+            className={`${inputClass} w-40`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">✨ {parsedBy}</span>
+      {fields.map(field => editing === field ? null : (
+        <span key={field} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-indigo-50 border border-indigo-100 rounded-full text-xs font-black text-indigo-700">
+          <button type="button" onClick={() => startEdit(field)} className="hover:underline">
+            <span className="text-indigo-400">{QUERY_FIELD_LABELS[field]}：</span>{formatQueryField(query, field)}
+          </button>
+          <button type="button" onClick={() => onChange(clearQueryField(query, field))} className="w-5 h-5 rounded-full text-indigo-300 hover:text-rose-500 hover:bg-white transition-colors">✕</button>
+        </span>
+      ))}
+      {editing && (
+        <span className="inline-flex flex-wrap items-center gap-2 px-3 py-1.5 bg-slate-50 border border-indigo-200 rounded-2xl">
+          <span className="text-[10px] font-black text-slate-400">{QUERY_FIELD_LABELS[editing]}</span>
+          {renderEditor(editing)}
+          <button type="button" onClick={applyEdit} className="px-2 py-1 bg-indigo-600 text-white rounded-lg text-xs font-black">確定</button>
+          <button type="button" onClick={() => setEditing(null)} className="px-2 py-1 text-slate-400 hover:text-slate-600 text-xs font-black">取消</button>
+        </span>
+      )}
+      {!editing && missing.length > 0 && (
+        <select value="" onChange={e => e.target.value && startEdit(e.target.value as QueryField)} className="bg-white border border-dashed border-slate-300 rounded-full px-3 py-1 text-xs font-black text-slate-400 outline-none cursor-pointer">
+          <option value="">＋ 條件</option>
+          {missing.map(f => <option key={f} value={f}>{QUERY_FIELD_LABELS[f]}</option>)}
+        </select>
+      )}
+      <button type="button" onClick={onClear} className="ml-auto text-[11px] font-black text-slate-300 hover:text-rose-500 transition-colors">清除智慧搜尋</button>
+      <datalist id="query-vendors">{vocabulary.vendors.map(v => <option key={v} value={v} />)}</datalist>
+      <datalist id="query-machines">{vocabulary.machineNumbers.map(m => <option key={m} value={m} />)}</datalist>
+    </div>
+  );
+};
+
+export default QueryChips;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Transaction } from '../types';
+import { ReceiptDraft, WriteResult } from '../services/storage';
+import { ReceiptProgress, RECEIPT_STATUS_BADGES } from '../services/receiptService';
+import FieldError from './FieldError';
+
+interface Props {
+  transaction: Transaction;
+  progress: ReceiptProgress;
+  canReceive: boolean;
+  onSave: (draft: ReceiptDraft) => Promise<WriteResult>;
+  onClose: () => void;
+}
+
+const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+/**
+ * 進貨收貨明細：列出各次到貨並登記新的收貨 (數量預設為未到貨數量)
+ */
+const ReceiptModal: React.FC<Props> = ({ transaction, progress, canReceive, onSave, onClose }) => {
+  const [date, setDate] = useState(getTaipeiToday());
+  const [quantity, setQuantity] = useState(String(progress.outstanding));
+  const [note, setNote] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const qty = Number(quantity);
+    if (!(qty > 0) || qty > progress.outstanding) {
+      setFieldErrors({ quantity: `收貨數量需介於 1 與未到貨數量 ${progress.outstanding} 之間` });
+      return;
+    }
+    setIsWorking(true);
+    setError('');
+    setFieldErrors({});
+    const res = await onSave({ recordId: transaction.id, date, quantity: qty, note: note.trim() });
+    setIsWorking(false);
+    if (res.ok) {
+      onClose();
+    } else if (res.fieldErrors) {
+      setFieldErrors(res.fieldErrors);
+    } else {
+      setError(res.message || '收貨登記失敗');
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-black text-slate-700 outline-none focus:border-indigo-500";
+  const showForm = canReceive && progress.outstanding > 0;
+
+  return (
+    <div className="fixed inset-0 z-[700] bg-slate-950/85 backdrop-blur-md flex items-center justify-center p-6" onClick={onClose}>
+      <div onClick={e => e.stopPropagation()} className="bg-white p-10 rounded-[3rem] max-w-lg w-full shadow-2xl border border-slate-100 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-[10px] font-black text-indigo-500 uppercase tracking-[0.2em] mb-1">收貨明細 · {transaction.id}</p>
+            <h3 className="text-xl font-black text-slate-900 leading-tight">{transaction.materialName}</h3>
+            <p className="text-[11px] font-bold text-slate-400 mt-1">PN: {transaction.materialNumber || '--'}{transaction.vendor ? ` · ${transaction.vendor}` : ''} · 單據日期 {transaction.date}</p>
+          </div>
+          <span className={`shrink-0 px-2 py-1 rounded-lg text-[11px] font-black ${RECEIPT_STATUS_BADGES[progress.status]}`}>{progress.status}</span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-slate-50 rounded-2xl p-3">
+            <p className="text-[10px] font-black text-slate-400">訂購</p>
+            <p className="text-lg font-black text-slate-900 tabular-nums">{progress.ordered}</p>
+          </div>
+          <div className="bg-emerald-50 rounded-2xl p-3">
+            <p className="text-[10px] font-black text-emerald-500">已到貨</p>
+            <p className="text-lg font-black text-emerald-600 tabular-nums">{progress.received}</p>
+          </div>
+          <div className="bg-amber-50 rounded-2xl p-3">
+            <p className="text-[10px] font-black text-amber-500">未到貨</p>
+            <p className="text-lg font-black text-amber-600 tabular-nums">{progress.outstanding}</p>
+          </div>
+        </div>
+
+        <div className="max-h-48 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-2xl">
+          {progress.receipts.map(r => (
+            <div key={r.id} className="flex items-center justify-between px-4 py-2.5 text-xs font-bold">
+              <div>
+                <span className="text-slate-700 font-black">{r.date}</span>
+                <span className="ml-2 text-slate-400">{r.receiver}</span>
+                {r.note && <p className="text-[11px] text-slate-400">{r.note}</p>}
+              </div>
+              <span className="text-emerald-600 font-black tabular-nums">+{r.quantity}</span>
+            </div>
+          ))}
+          {progress.receipts.length === 0 && (
+            <p className="px-4 py-6 text-center text-xs font-black italic text-slate-300">
+              {progress.status === '已到貨' ? '此筆於建立時已標記全數到貨，無分批收貨明細' : '尚無收貨紀錄'}
+            </p>
+          )}
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-3 p-5 bg-indigo-50/50 border border-indigo-100 rounded-2xl">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">收貨日期</label>
+                <input type="date" value={date} min={transaction.date} onChange={e => setDate(e.target.value)} required className={inputClass} />
+                <FieldError message={fieldErrors.date} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">本次到貨數量</label>
+                <input type="number" min="1" max={progress.outstanding} value={quantity} onChange={e => setQuantity(e.target.value)} required className={`${inputClass} text-right tabular-nums`} />
+                <FieldError message={fieldErrors.quantity} />
+              </div>
+            </div>
+            <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="備註 (例如：出貨單號、短缺原因)" className={inputClass} />
+            {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+            <button type="submit" disabled={isWorking} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-black transition-all disabled:opacity-40">
+              {isWorking ? '登記中...' : '📥 登記收貨'}
+            </button>
+          </form>
+        )}
+
+        <button type="button" onClick={onClose} className="w-full py-3 text-slate-400 font-black hover:text-slate-600 transition-colors">關閉</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptModal;
@@ -0,0 +1,111 @@
+
+import React, { useEffect, useState } from 'react';
+import { AuditEntry } from '../types';
+import { dbService } from '../services/dbService';
+
+interface Props {
+  recordId: string;
+}
+
+// 後端欄位可能為英文鍵或中文表頭，統一顯示為中文名稱
+export const FIELD_LABELS: Record<string, string> = {
+  id: '編號',
+  date: '單據日期',
+  type: '類別',
+  materialName: '料件名稱',
+  materialNumber: '料號 (PN)',
+  machineNumber: '機台編號',
+  '機台編號': '機台編號',
+  machineCategory: '機台種類',
+  '機台種類': '機台種類',
+  accountCategory: '帳目類別',
+  '帳目類別': '帳目類別',
+  quantity: '數量',
+  unitPrice: '單價',
+  total: '總額',
+  note: '備註',
+  operator: '操作人員',
+  '操作人員': '操作人員',
+  sn: '序號 (SN)',
+  faultReason: '故障原因',
+  '故障原因': '故障原因',
+  isScrapped: '是否報廢',
+  '是否報廢': '是否報廢',
+  isReceived: '是否收貨',
+  '是否收貨': '是否收貨',
+  receivedQuantity: '已到貨數量',
+  sentDate: '送修日期',
+  '送修日期': '送修日期',
+  repairDate: '完修日期',
+  '完修日期': '完修日期',
+  installDate: '上機日期',
+  '上機日期': '上機日期',
+  repairStatus: '維修狀態',
+  '維修狀態': '維修狀態',
+  vendor: '廠商',
+  '廠商': '廠商'
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], { label: string; className: string }> = {
+  insert: { label: '新增', className: 'bg-emerald-100 text-emerald-600' },
+  update: { label: '修改', className: 'bg-indigo-100 text-indigo-600' },
+  delete: { label: '刪除', className: 'bg-rose-100 text-rose-600' },
+  restore: { label: '還原', className: 'bg-amber-100 text-amber-600' },
+  purge: { label: '永久清除', className: 'bg-slate-200 text-slate-600' },
+  receive: { label: '收貨', className: 'bg-sky-100 text-sky-600' }
+};
+
+const RecordHistory: React.FC<Props> = ({ recordId }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    dbService.fetchAudit(recordId).then(list => {
+      if (cancelled) return;
+      setEntries([...list].sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [recordId]);
+
+  return (
+    <div className="mt-6 p-6 rounded-[2rem] bg-white shadow-xl border border-slate-200/60">
+      <h4 className="text-base font-black text-slate-900 flex items-center gap-3 mb-4">
+        <span className="w-1.5 h-5 rounded-full bg-slate-400"></span>
+        異動歷程
+      </h4>
+      {isLoading ? (
+        <p className="text-xs font-black text-slate-300 text-center py-6">讀取中...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs font-black text-slate-300 text-center py-6 italic">此紀錄尚無稽核軌跡</p>
+      ) : (
+        <div className="max-h-[280px] overflow-y-auto space-y-4 pr-1">
+          {entries.map((entry, idx) => (
+            <div key={idx} className="border-l-2 border-slate-200 pl-4">
+              <div className="flex items-center gap-2 mb-1.5">
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-black ${ACTION_STYLES[entry.action].className}`}>{ACTION_STYLES[entry.action].label}</span>
+                <span className="text-[11px] font-black text-slate-700">{entry.operator || '系統'}</span>
+                <span className="text-[10px] font-bold text-slate-400">{new Date(entry.timestamp).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' })}</span>
+              </div>
+              {(entry.action === 'insert' || entry.action === 'purge') && (
+                <p className="text-[10px] font-bold text-slate-400">{entry.action === 'insert' ? '建立' : '移除'} {entry.changes.length} 個欄位</p>
+              )}
+              {(entry.action === 'update' || entry.action === 'delete' || entry.action === 'restore') && entry.changes.map((c, cIdx) => (
+                <div key={cIdx} className="text-[11px] font-bold text-slate-500 flex flex-wrap gap-1">
+                  <span className="text-slate-400">{FIELD_LABELS[c.field] || c.field}：</span>
+                  <span className="line-through text-rose-400">{c.before || '(空)'}</span>
+                  <span className="text-slate-300">→</span>
+                  <span className="text-emerald-600">{c.after || '(空)'}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordHistory;
@@ -0,0 +1,117 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Transaction } from '../types';
+import { dbService } from '../services/dbService';
+
+interface Props {
+  currentUser: string;
+  isLocked: (t: Transaction) => boolean;
+  canRestore: boolean;
+  canPurge: boolean;
+  onRestored: () => void;
+}
+
+// 需與後端 RETENTION_DAYS 一致
+const RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysSinceDeleted = (t: Transaction) => {
+  const at = t.deletedAt ? new Date(t.deletedAt).getTime() : NaN;
+  return isNaN(at) ? 0 : Math.floor((Date.now() - at) / DAY_MS);
+};
+
+const RecycleBinView: React.FC<Props> = ({ currentUser, isLocked, canRestore, canPurge, onRestored }) => {
+  const [items, setItems] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    const list = await dbService.fetchDeleted();
+    setItems(list.sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || '')));
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleRestore = async (t: Transaction) => {
+    setWorkingId(t.id);
+    setError('');
+    const res = await dbService.restore(t.id, t.type, currentUser);
+    if (res.ok) {
+      await load();
+      onRestored();
+    } else {
+      setError(res.message || '還原失敗');
+    }
+    setWorkingId(null);
+  };
+
+  const handlePurge = async (t: Transaction) => {
+    if (!window.confirm(`確定要永久清除「${t.materialName}」？此操作無法復原。`)) return;
+    setWorkingId(t.id);
+    setError('');
+    const res = await dbService.purge(t.id, t.type, currentUser);
+    if (res.ok) await load();
+    else setError(res.message || '清除失敗');
+    setWorkingId(null);
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden animate-in fade-in duration-500">
+      <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+            <span className="text-3xl">♻️</span> 回收桶
+          </h3>
+          <p className="text-xs font-bold text-slate-400 mt-2">已刪除的紀錄保留 {RETENTION_DAYS} 天，期間內可隨時還原；超過保留期限後方可永久清除。</p>
+        </div>
+        <button onClick={load} disabled={isLoading} className="px-5 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl font-black text-xs transition-all">🔄 重新整理</button>
+      </div>
+      {error && <p className="px-8 pt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b">
+            <tr><th className="px-8 py-5">日期 / 類別</th><th className="px-8 py-5">料件明細</th><th className="px-8 py-5">刪除資訊</th><th className="px-8 py-5 text-right">金額</th><th className="px-8 py-5 text-center">操作</th></tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 font-bold">
+            {items.map(t => {
+              const age = daysSinceDeleted(t);
+              const isExpired = age >= RETENTION_DAYS;
+              const locked = isLocked(t);
+              return (
+                <tr key={`${t.type}-${t.id}`} className="hover:bg-slate-50 transition-all">
+                  <td className="px-8 py-5 text-xs text-slate-500 font-black">{t.date}<div className="text-[10px] text-indigo-600 font-black uppercase mt-1 tracking-widest">{t.type}</div></td>
+                  <td className="px-8 py-5">
+                    <div className="text-slate-900 truncate max-w-xs">{t.materialName}</div>
+                    <div className="text-[10px] text-slate-400 font-black mt-1">PN: {t.materialNumber || '--'} • {t.machineNumber || '未標機台'}</div>
+                  </td>
+                  <td className="px-8 py-5 text-[11px] text-slate-500 font-black">
+                    {t.deletedBy || '未知'}
+                    <div className="text-[10px] text-slate-400 mt-1">{t.deletedAt ? new Date(t.deletedAt).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' }) : '--'} ({age} 天前)</div>
+                  </td>
+                  <td className="px-8 py-5 text-right font-black text-slate-700 tabular-nums">NT$ {t.total.toLocaleString()}</td>
+                  <td className="px-8 py-5 text-center">
+                    <div className="flex justify-center gap-2">
+                      <button onClick={() => handleRestore(t)} disabled={workingId === t.id || locked || !canRestore} title={locked ? '所屬月份已關帳' : undefined} className="px-3 py-2 bg-emerald-50 hover:bg-emerald-100 text-emerald-600 rounded-lg text-[11px] font-black disabled:opacity-30 transition-all">{locked ? '🔒 已關帳' : '↩️ 還原'}</button>
+                      <button onClick={() => handlePurge(t)} disabled={workingId === t.id || !isExpired || !canPurge} title={!canPurge ? '僅管理員可永久清除' : isExpired ? undefined : `尚需 ${RETENTION_DAYS - age} 天`} className="px-3 py-2 bg-rose-50 hover:bg-rose-100 text-rose-600 rounded-lg text-[11px] font-black disabled:opacity-30 transition-all">🔥 永久清除</button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {!isLoading && items.length === 0 && (
+              <tr><td colSpan={5} className="px-8 py-20 text-center text-slate-300 font-black italic">回收桶目前是空的</td></tr>
+            )}
+            {isLoading && (
+              <tr><td colSpan={5} className="px-8 py-20 text-center text-slate-300 font-black">讀取中...</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RecycleBinView;
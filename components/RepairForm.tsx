@@ -1,23 +1,41 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { TransactionType, Transaction } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TransactionType, Transaction, RepairStatus, Vendor, Material } from '../types';
+import { getRepairStatus, getAllowedStatuses } from '../services/repairService';
+import { findMaterial, checkMaterialSelection, pnKey } from '../services/materialService';
+import { validateTransaction, hasErrors } from '../services/validationService';
+import { WriteResult, FieldErrors } from '../services/storage';
+import VendorSelect from './VendorSelect';
+import MaterialPicker from './MaterialPicker';
+import FieldError from './FieldError';
 
 interface Props {
-  onSave: (transaction: Transaction) => Promise<boolean>;
+  onSave: (transaction: Transaction) => Promise<WriteResult>;
   initialData?: Transaction;
   onCancel?: () => void;
   existingTransactions?: Transaction[];
+  vendors?: Vendor[];
+  materials?: Material[];
   currentUser: string;
 }
 
 const MACHINE_CATEGORIES = ['BA', 'RL', 'SB', 'XD', '7UP', 'HOT8', '3card', 'DT', 'CG', '共用'];
+const INLINE_ERROR_FIELDS = ['date', 'materialName', 'quantity', 'unitPrice', 'faultReason', 'sentDate', 'repairDate', 'installDate'];
 const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
 
-const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTransactions = [], currentUser }) => {
+const STATUS_STYLES: Record<RepairStatus, string> = {
+  [RepairStatus.PENDING]: 'bg-slate-600',
+  [RepairStatus.SENT]: 'bg-amber-500',
+  [RepairStatus.REPAIRED]: 'bg-emerald-600',
+  [RepairStatus.INSTALLED]: 'bg-indigo-600',
+  [RepairStatus.SCRAPPED]: 'bg-rose-600'
+};
+
+const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTransactions = [], vendors = [], materials = [], currentUser }) => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
-  const [suggestions, setSuggestions] = useState<string[]>([]);
-  const suggestionRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   
   const [formData, setFormData] = useState({
     date: getTaipeiToday(),
@@ -32,26 +50,37 @@ const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTr
     note: '',
     operator: currentUser,
     faultReason: '',
-    isScrapped: false,
+    vendor: '',
+    repairStatus: RepairStatus.PENDING,
     sentDate: '',
     repairDate: '',
     installDate: ''
   });
 
-  const historicalData = useMemo(() => {
-    const names = new Set<string>();
-    const nameToDetails: Record<string, { number: string, machine: string, price: number }> = {};
+  // 修改欄位時一併清除該欄位的驗證訊息
+  const setField = (patch: Partial<typeof formData>) => {
+    setFormData(prev => ({ ...prev, ...patch }));
+    setFieldErrors(prev => {
+      const next = { ...prev };
+      Object.keys(patch).forEach(key => delete next[key]);
+      return next;
+    });
+  };
+
+  // 編輯時僅能維持原狀態或依狀態機前進；新增時只能由待送修或送修中開始
+  const originalStatus = initialData ? getRepairStatus(initialData) : null;
+  const allowedStatuses = getAllowedStatuses(originalStatus);
+  const isScrapped = formData.repairStatus === RepairStatus.SCRAPPED;
+
+  const usesCatalog = materials.length > 0;
+
+  // 維修單價沿用該料號最近一次的維修費用
+  const lastRepairPrice = useMemo(() => {
+    const prices: Record<string, number> = {};
     existingTransactions.forEach(t => {
-      if (t.materialName) {
-        names.add(t.materialName);
-        nameToDetails[t.materialName] = { 
-          number: t.materialNumber || '', 
-          machine: t.machineCategory || MACHINE_CATEGORIES[0],
-          price: t.unitPrice || 0
-        };
-      }
+      if (t.type === TransactionType.REPAIR && t.materialNumber && t.unitPrice) prices[pnKey(t.materialNumber)] = t.unitPrice;
     });
-    return { names: Array.from(names), nameToDetails };
+    return prices;
   }, [existingTransactions]);
 
   useEffect(() => {
@@ -61,7 +90,8 @@ const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTr
         ...initialData,
         date: initialData.date || getTaipeiToday(),
         operator: initialData.operator || currentUser,
-        isScrapped: !!initialData.isScrapped,
+        vendor: initialData.vendor || '',
+        repairStatus: getRepairStatus(initialData),
         unitPrice: initialData.unitPrice || 0
       });
     } else {
@@ -69,141 +99,151 @@ const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTr
     }
   }, [initialData, currentUser]);
 
-  useEffect(() => {
-    const handleClick = (e: MouseEvent) => {
-      if (suggestionRef.current && !suggestionRef.current.contains(e.target as Node)) {
-        setSuggestions([]);
-      }
-    };
-    document.addEventListener('mousedown', handleClick);
-    return () => document.removeEventListener('mousedown', handleClick);
-  }, []);
-
+  // 主檔啟用時，手動改動名稱即視為尚未選取料件
   const handleMaterialNameChange = (val: string) => {
-    setFormData(prev => ({ ...prev, materialName: val }));
-    if (val.trim()) {
-      const filtered = historicalData.names.filter(n => 
-        n.toLowerCase().includes(val.toLowerCase()) && n !== val
-      ).slice(0, 5);
-      setSuggestions(filtered);
-    } else {
-      setSuggestions([]);
-    }
+    setError('');
+    setField({ materialName: val, materialNumber: usesCatalog ? '' : formData.materialNumber });
   };
 
-  const selectSuggestion = (name: string) => {
-    const details = historicalData.nameToDetails[name];
+  const selectMaterial = (m: Material) => {
+    setError('');
     setFormData(prev => ({
       ...prev,
-      materialName: name,
-      materialNumber: details?.number || prev.materialNumber,
-      machineCategory: details?.machine || prev.machineCategory,
-      unitPrice: details?.price || prev.unitPrice
+      materialName: m.name,
+      materialNumber: m.pn,
+      machineCategory: m.machineCategory || prev.machineCategory,
+      unitPrice: lastRepairPrice[pnKey(m.pn)] || prev.unitPrice
     }));
-    setSuggestions([]);
+  };
+
+  // 切換狀態時自動帶入當日作為對應日期
+  const selectStatus = (status: RepairStatus) => {
+    const today = getTaipeiToday();
+    setError('');
+    setField({
+      repairStatus: status,
+      sentDate: status === RepairStatus.SENT && !formData.sentDate ? today : formData.sentDate,
+      repairDate: status === RepairStatus.REPAIRED && !formData.repairDate ? today : formData.repairDate,
+      installDate: status === RepairStatus.INSTALLED && !formData.installDate ? today : formData.installDate
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSyncing(true);
+    const materialError = checkMaterialSelection(materials, formData.materialNumber);
+    if (materialError) {
+      setError(materialError);
+      return;
+    }
+    setError('');
     let finalNote = formData.note.trim();
-    if (formData.isScrapped && !finalNote.includes('報廢')) {
+    if (isScrapped && !finalNote.includes('報廢')) {
       finalNote = `【報廢】${finalNote}`.trim();
     }
     
-    const finalPrice = formData.isScrapped ? 0 : Number(formData.unitPrice);
+    const finalPrice = isScrapped ? 0 : Number(formData.unitPrice);
     
     const tx: Transaction = {
       ...formData,
+      materialName: findMaterial(materials, formData.materialNumber)?.name || formData.materialName.trim(),
       note: finalNote,
       id: initialData?.id || 'RP' + Date.now(),
       unitPrice: finalPrice,
       total: Number(formData.quantity) * finalPrice,
       operator: currentUser,
-      isScrapped: !!formData.isScrapped,
-      repairDate: formData.isScrapped ? '' : formData.repairDate,
-      installDate: formData.isScrapped ? '' : formData.installDate,
+      isScrapped,
+      repairDate: isScrapped ? '' : formData.repairDate,
+      installDate: isScrapped ? '' : formData.installDate,
       accountCategory: '' // Explicitly empty for repairs
     };
+
+    const errors = validateTransaction(tx);
+    setFieldErrors(errors);
+    if (hasErrors(errors)) return;
+
+    setIsSyncing(true);
     const result = await onSave(tx);
-    if (result) {
+    if (result.fieldErrors) setFieldErrors(result.fieldErrors);
+    if (result.ok) {
       setIsSuccess(true);
       setTimeout(() => { setIsSuccess(false); if (onCancel) onCancel(); }, 1200);
-      if (!initialData) setFormData({ ...formData, materialName: '', materialNumber: '', machineNumber: '', sn: '', quantity: 1, unitPrice: 0, note: '', faultReason: '', isScrapped: false, sentDate: '', repairDate: '', installDate: '', operator: currentUser });
+      if (!initialData) setFormData({ ...formData, materialName: '', materialNumber: '', machineNumber: '', sn: '', quantity: 1, unitPrice: 0, note: '', faultReason: '', vendor: '', repairStatus: RepairStatus.PENDING, sentDate: '', repairDate: '', installDate: '', operator: currentUser });
     }
     setIsSyncing(false);
   };
 
-  const inputClasses = `w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl focus:ring-4 outline-none transition-all font-bold text-base text-slate-700 ${formData.isScrapped ? 'focus:ring-rose-500/10 focus:border-rose-500' : 'focus:ring-emerald-500/10 focus:border-emerald-500'}`;
-  const labelClasses = `block text-[14px] font-black uppercase tracking-widest mb-2 ml-1 ${formData.isScrapped ? 'text-rose-600' : 'text-emerald-700/70'}`;
+  // 表單上沒有對應位置的欄位錯誤統一列在底部
+  const otherErrors = Object.entries(fieldErrors)
+    .filter(([field]) => !INLINE_ERROR_FIELDS.includes(field))
+    .map(([, message]) => message);
+
+  const inputClasses = `w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl focus:ring-4 outline-none transition-all font-bold text-base text-slate-700 ${isScrapped ? 'focus:ring-rose-500/10 focus:border-rose-500' : 'focus:ring-emerald-500/10 focus:border-emerald-500'}`;
+  const labelClasses = `block text-[14px] font-black uppercase tracking-widest mb-2 ml-1 ${isScrapped ? 'text-rose-600' : 'text-emerald-700/70'}`;
 
   return (
-    <form onSubmit={handleSubmit} className={`p-8 rounded-[2rem] shadow-xl border transition-colors duration-500 bg-white w-full ${formData.isScrapped ? 'border-rose-100 ring-4 ring-rose-50' : 'border-emerald-100'}`}>
+    <form onSubmit={handleSubmit} className={`p-8 rounded-[2rem] shadow-xl border transition-colors duration-500 bg-white w-full ${isScrapped ? 'border-rose-100 ring-4 ring-rose-50' : 'border-emerald-100'}`}>
       <div className="flex items-center justify-between mb-5">
         <h3 className="text-2xl font-black text-slate-900 tracking-tight flex items-center gap-3">
-          <span className={`w-1.5 h-6 rounded-full ${formData.isScrapped ? 'bg-rose-600' : 'bg-emerald-500'}`}></span>
-          {initialData ? "編輯維修" : "新增維修"} {formData.isScrapped && <span className="text-rose-600 ml-1 text-sm">💀</span>}
+          <span className={`w-1.5 h-6 rounded-full ${isScrapped ? 'bg-rose-600' : 'bg-emerald-500'}`}></span>
+          {initialData ? "編輯維修" : "新增維修"} {isScrapped && <span className="text-rose-600 ml-1 text-sm">💀</span>}
         </h3>
         {onCancel && <button type="button" onClick={onCancel} className="text-slate-300 hover:text-rose-600 transition-colors text-xl">✕</button>}
       </div>
 
       <div className="space-y-4">
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <label className={labelClasses}>單據日期</label>
-            <input type="date" className={inputClasses} value={formData.date} onChange={e => setFormData({...formData, date: e.target.value})} />
-          </div>
-          <div className="flex items-end">
-            <label className="flex items-center gap-3 cursor-pointer group mb-2 ml-1">
-              <input type="checkbox" checked={formData.isScrapped} onChange={e => setFormData({...formData, isScrapped: e.target.checked})} className="hidden" />
-              <div className={`w-12 h-6 rounded-full relative transition-all duration-300 ${formData.isScrapped ? 'bg-rose-600' : 'bg-slate-200'}`}>
-                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all duration-300 ${formData.isScrapped ? 'left-7' : 'left-1'}`}></div>
-              </div>
-              <span className={`text-[12px] font-black uppercase ${formData.isScrapped ? 'text-rose-600' : 'text-slate-400'}`}>報廢標記</span>
-            </label>
+        <div>
+          <label className={labelClasses}>單據日期</label>
+          <input type="date" className={inputClasses} value={formData.date} onChange={e => setField({date: e.target.value})} />
+          <FieldError message={fieldErrors.date} />
+        </div>
+
+        <div>
+          <label className={labelClasses}>維修狀態{originalStatus && <span className="ml-2 text-[11px] text-slate-400 normal-case tracking-normal">目前：{originalStatus}</span>}</label>
+          <div className="flex flex-wrap gap-2">
+            {allowedStatuses.map(status => (
+              <button key={status} type="button" onClick={() => selectStatus(status)} className={`px-3 py-2 rounded-xl text-xs font-black transition-all ${formData.repairStatus === status ? `${STATUS_STYLES[status]} text-white shadow-md` : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                {status === RepairStatus.SCRAPPED ? '💀 ' : ''}{status}
+              </button>
+            ))}
+            {allowedStatuses.length === 1 && <span className="self-center text-[11px] font-bold text-slate-400">此維修單已結案，狀態無法再變更</span>}
           </div>
         </div>
 
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label className={labelClasses}>設備序號 (SN)</label>
-            <input type="text" placeholder="SN..." className={inputClasses} value={formData.sn} onChange={e => setFormData({...formData, sn: e.target.value})} />
+            <input type="text" placeholder="SN..." className={inputClasses} value={formData.sn} onChange={e => setField({sn: e.target.value})} />
           </div>
           <div>
             <label className={labelClasses}>機台 ID</label>
-            <input type="text" placeholder="ID..." className={inputClasses} value={formData.machineNumber} onChange={e => setFormData({...formData, machineNumber: e.target.value})} />
+            <input type="text" placeholder="ID..." className={inputClasses} value={formData.machineNumber} onChange={e => setField({machineNumber: e.target.value})} />
           </div>
         </div>
 
-        <div className="relative">
-          <label className={labelClasses}>維修零件/主體</label>
-          <input type="text" required placeholder="名稱..." className={inputClasses} value={formData.materialName} autoComplete="off" onChange={e => handleMaterialNameChange(e.target.value)} />
-          {suggestions.length > 0 && (
-            <div ref={suggestionRef} className="absolute z-50 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-2xl overflow-hidden max-h-48 overflow-y-auto">
-              {suggestions.map((name, i) => (
-                <button key={i} type="button" onClick={() => selectSuggestion(name)} className="w-full text-left px-4 py-3 text-sm font-bold text-slate-600 hover:bg-emerald-50 hover:text-emerald-700 border-b border-slate-50 last:border-0">💡 {name}</button>
-              ))}
-            </div>
-          )}
+        <div>
+          <label className={labelClasses}>維修零件/主體{formData.materialNumber && <span className="ml-2 text-[11px] text-slate-400 normal-case tracking-normal">PN {formData.materialNumber}</span>}</label>
+          <MaterialPicker materials={materials} value={formData.materialName} required className={inputClasses} onChange={handleMaterialNameChange} onSelect={selectMaterial} />
+          <FieldError message={fieldErrors.materialName} />
         </div>
 
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label className={labelClasses}>數量 / 維修單價</label>
             <div className="flex gap-2">
-              <input type="number" min="1" className={`${inputClasses} text-center px-1`} value={formData.quantity} onChange={e => setFormData({...formData, quantity: Number(e.target.value)})} />
-              <input type="number" disabled={formData.isScrapped} placeholder="費用..." className={`${inputClasses} text-right px-1 disabled:opacity-30`} value={formData.unitPrice} onChange={e => setFormData({...formData, unitPrice: Number(e.target.value)})} />
+              <input type="number" min="1" className={`${inputClasses} text-center px-1`} value={formData.quantity} onChange={e => setField({quantity: Number(e.target.value)})} />
+              <input type="number" disabled={isScrapped} placeholder="費用..." className={`${inputClasses} text-right px-1 disabled:opacity-30`} value={formData.unitPrice} onChange={e => setField({unitPrice: Number(e.target.value)})} />
             </div>
+            <FieldError message={fieldErrors.quantity || fieldErrors.unitPrice} />
           </div>
           <div>
             <label className={labelClasses}>機台類別</label>
-            <select className={inputClasses} value={formData.machineCategory} onChange={e => setFormData({...formData, machineCategory: e.target.value})}>
+            <select className={inputClasses} value={formData.machineCategory} onChange={e => setField({machineCategory: e.target.value})}>
               {MACHINE_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
             </select>
           </div>
         </div>
 
-        {!formData.isScrapped && (
+        {!isScrapped && (
           <div>
             <label className={labelClasses}>本筆維修小計</label>
             <div className="px-5 py-3 bg-slate-900 text-emerald-400 rounded-xl font-black text-lg tabular-nums text-center shadow-inner border border-white/5">
@@ -212,26 +252,36 @@ const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTr
           </div>
         )}
 
-        <div>
-          <label className={labelClasses}>故障原因 (必填)</label>
-          <input type="text" placeholder="描述..." className={inputClasses} value={formData.faultReason} required onChange={e => setFormData({...formData, faultReason: e.target.value})} />
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClasses}>故障原因 (必填)</label>
+            <input type="text" placeholder="描述..." className={inputClasses} value={formData.faultReason} required onChange={e => setField({faultReason: e.target.value})} />
+            <FieldError message={fieldErrors.faultReason} />
+          </div>
+          <div>
+            <label className={labelClasses}>維修廠商</label>
+            <VendorSelect vendors={vendors} value={formData.vendor} onChange={vendor => setField({vendor})} className={inputClasses} />
+          </div>
         </div>
 
         <div className="grid grid-cols-3 gap-3 pt-2 border-t border-slate-100">
           <div>
             <label className={labelClasses}>送修日</label>
-            <input type="date" className={`${inputClasses} px-1`} value={formData.sentDate} onChange={e => setFormData({...formData, sentDate: e.target.value})} />
+            <input type="date" className={`${inputClasses} px-1`} value={formData.sentDate} onChange={e => setField({sentDate: e.target.value})} />
+            <FieldError message={fieldErrors.sentDate} />
           </div>
           
-          {!formData.isScrapped && (
+          {!isScrapped && (
             <>
               <div>
                 <label className={labelClasses}>完修日</label>
-                <input type="date" className={`${inputClasses} px-1`} value={formData.repairDate} onChange={e => setFormData({...formData, repairDate: e.target.value})} />
+                <input type="date" className={`${inputClasses} px-1`} value={formData.repairDate} onChange={e => setField({repairDate: e.target.value})} />
+                <FieldError message={fieldErrors.repairDate} />
               </div>
               <div>
                 <label className={labelClasses}>上機日</label>
-                <input type="date" className={`${inputClasses} px-1`} value={formData.installDate} onChange={e => setFormData({...formData, installDate: e.target.value})} />
+                <input type="date" className={`${inputClasses} px-1`} value={formData.installDate} onChange={e => setField({installDate: e.target.value})} />
+                <FieldError message={fieldErrors.installDate} />
               </div>
             </>
           )}
@@ -239,12 +289,15 @@ const RepairForm: React.FC<Props> = ({ onSave, initialData, onCancel, existingTr
 
         <div>
           <label className={labelClasses}>備註說明</label>
-          <textarea className={`${inputClasses} min-h-[50px] py-2 resize-none`} value={formData.note} onChange={e => setFormData({...formData, note: e.target.value})}></textarea>
+          <textarea className={`${inputClasses} min-h-[50px] py-2 resize-none`} value={formData.note} onChange={e => setField({note: e.target.value})}></textarea>
         </div>
       </div>
 
-      <button type="submit" disabled={isSyncing} className={`mt-6 w-full font-black py-4 rounded-xl transition-all shadow-lg text-lg active:scale-[0.98] ${isSuccess ? "bg-emerald-500 text-white" : formData.isScrapped ? "bg-rose-600 hover:bg-rose-700 text-white" : "bg-emerald-600 hover:bg-emerald-700 text-white"}`}>
-        {isSyncing ? "同步中..." : isSuccess ? "✅ 已更新" : formData.isScrapped ? "💀 確認報廢" : "存入紀錄"}
+      {error && <p className="mt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+      {otherErrors.map(message => <p key={message} className="mt-2 text-xs font-bold text-rose-600">⚠️ {message}</p>)}
+
+      <button type="submit" disabled={isSyncing} className={`mt-6 w-full font-black py-4 rounded-xl transition-all shadow-lg text-lg active:scale-[0.98] ${isSuccess ? "bg-emerald-500 text-white" : isScrapped ? "bg-rose-600 hover:bg-rose-700 text-white" : "bg-emerald-600 hover:bg-emerald-700 text-white"}`}>
+        {isSyncing ? "同步中..." : isSuccess ? "✅ 已更新" : isScrapped ? "💀 確認報廢" : "存入紀錄"}
       </button>
     </form>
   );
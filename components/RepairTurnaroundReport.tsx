@@ -0,0 +1,86 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { computeTurnaroundReport, DurationStats, TurnaroundGroupBy } from '../services/repairService';
+
+interface Props {
+  transactions: Transaction[];
+}
+
+const GROUP_OPTIONS: { key: TurnaroundGroupBy; label: string }[] = [
+  { key: 'part', label: '零件' },
+  { key: 'vendor', label: '廠商' },
+  { key: 'machineCategory', label: '機台種類' }
+];
+
+const formatDays = (v: number) => v.toFixed(1);
+
+const StatCells: React.FC<{ stats: DurationStats; tone: string }> = ({ stats, tone }) => (
+  stats.count === 0 ? (
+    <td colSpan={4} className="px-4 py-4 text-center text-slate-300 text-xs">無資料</td>
+  ) : (
+    <>
+      <td className={`px-4 py-4 text-right tabular-nums font-black ${tone}`}>{formatDays(stats.mean)}</td>
+      <td className="px-4 py-4 text-right tabular-nums text-slate-600">{formatDays(stats.p50)}</td>
+      <td className="px-4 py-4 text-right tabular-nums text-slate-600">{formatDays(stats.p90)}</td>
+      <td className="px-4 py-4 text-right tabular-nums text-slate-400">{formatDays(stats.max)}</td>
+    </>
+  )
+);
+
+const RepairTurnaroundReport: React.FC<Props> = ({ transactions }) => {
+  const [groupBy, setGroupBy] = useState<TurnaroundGroupBy>('part');
+  const rows = useMemo(() => computeTurnaroundReport(transactions, groupBy), [transactions, groupBy]);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
+      <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+            <span className="text-3xl">⏱️</span> 維修週期分析
+          </h3>
+          <p className="text-xs font-bold text-slate-400 mt-2">單位：天。僅統計日期完整的維修單。</p>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-xl">
+          {GROUP_OPTIONS.map(opt => (
+            <button key={opt.key} onClick={() => setGroupBy(opt.key)} className={`px-4 py-2 rounded-lg text-xs font-black transition-all ${groupBy === opt.key ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-[420px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b sticky top-0">
+            <tr>
+              <th rowSpan={2} className="px-6 py-3">{GROUP_OPTIONS.find(o => o.key === groupBy)?.label}</th>
+              <th rowSpan={2} className="px-4 py-3 text-right">件數</th>
+              <th colSpan={4} className="px-4 py-3 text-center text-amber-500 border-l border-slate-100">送修 → 完修</th>
+              <th colSpan={4} className="px-4 py-3 text-center text-indigo-500 border-l border-slate-100">完修 → 上機</th>
+            </tr>
+            <tr>
+              {['平均', 'P50', 'P90', '最長', '平均', 'P50', 'P90', '最長'].map((h, i) => (
+                <th key={i} className={`px-4 py-2 text-right ${i % 4 === 0 ? 'border-l border-slate-100' : ''}`}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 font-bold">
+            {rows.map(r => (
+              <tr key={r.key} className="hover:bg-slate-50 transition-all">
+                <td className="px-6 py-4 text-slate-800 truncate max-w-xs">{r.key}</td>
+                <td className="px-4 py-4 text-right tabular-nums text-slate-500">{r.repairs}</td>
+                <StatCells stats={r.sentToRepaired} tone="text-amber-600" />
+                <StatCells stats={r.repairedToInstalled} tone="text-indigo-600" />
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr><td colSpan={10} className="px-8 py-16 text-center text-slate-300 font-black">尚無維修紀錄</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RepairTurnaroundReport;
@@ -0,0 +1,282 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction, TransactionType, ReportDefinition, ReportDimension, ReportAggregateFn, ReportMeasure, ReportFilters } from '../types';
+import { MutationResult } from '../services/storage';
+import { MACHINE_CATEGORIES } from '../services/materialService';
+import {
+  REPORT_COLUMNS, DIMENSION_LABELS, AGGREGATE_FN_LABELS, MEASURE_LABELS, createReportDefinition, buildReportTable, exportReport
+} from '../services/reportBuilderService';
+
+interface Props {
+  transactions: Transaction[];
+  reports: ReportDefinition[];
+  currentUser: string;
+  isAdmin: boolean;
+  canManage: boolean;
+  onSave: (report: ReportDefinition) => Promise<MutationResult>;
+  onDelete: (name: string) => Promise<MutationResult>;
+}
+
+// 畫面只顯示前幾列，匯出時包含全部
+const PREVIEW_LIMIT = 300;
+const ACCOUNT_CATEGORIES = ['A', 'B', 'C'];
+
+const formatCell = (value: string | number, numeric: boolean) =>
+  numeric && typeof value === 'number' ? value.toLocaleString() : String(value ?? '') || '--';
+
+/**
+ * 報表產生器：自選篩選條件、欄位與順序、分組維度與彙總方式；報表定義依名稱儲存於後端，所有帳號共用
+ */
+const ReportBuilderView: React.FC<Props> = ({ transactions, reports, currentUser, isAdmin, canManage, onSave, onDelete }) => {
+  const [def, setDef] = useState<ReportDefinition>(createReportDefinition);
+  const [loadedName, setLoadedName] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const table = useMemo(() => buildReportTable(transactions, def), [transactions, def]);
+  const loaded = reports.find(r => r.name === loadedName);
+  const existing = reports.find(r => r.name === def.name.trim());
+  const canOverwrite = !existing || existing.createdBy === currentUser || isAdmin;
+  const availableColumns = REPORT_COLUMNS.filter(c => !def.columns.includes(c.key));
+  const vendorOptions = useMemo(() => Array.from(new Set(transactions.map(t => t.vendor || '').filter(Boolean))).sort(), [transactions]);
+
+  const setFilters = (patch: Partial<ReportFilters>) => setDef({ ...def, filters: { ...def.filters, ...patch } });
+
+  const loadReport = (name: string) => {
+    const report = reports.find(r => r.name === name);
+    setDef(report || createReportDefinition());
+    setLoadedName(report ? name : '');
+    setError('');
+    setNotice('');
+  };
+
+  const toggleType = (type: TransactionType) => {
+    const types = def.filters.types.includes(type) ? def.filters.types.filter(t => t !== type) : [...def.filters.types, type];
+    setFilters({ types });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...def.columns];
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    setDef({ ...def, columns });
+  };
+
+  // 分組順序即點選順序
+  const toggleGroup = (dimension: ReportDimension) => {
+    const groupBy = def.groupBy.includes(dimension) ? def.groupBy.filter(d => d !== dimension) : [...def.groupBy, dimension];
+    setDef({ ...def, groupBy });
+  };
+
+  const updateAggregate = (index: number, patch: { fn?: ReportAggregateFn; field?: ReportMeasure }) =>
+    setDef({ ...def, aggregates: def.aggregates.map((a, i) => i === index ? { ...a, ...patch } : a) });
+
+  const handleSave = async () => {
+    const name = def.name.trim();
+    if (!name) {
+      setError('請輸入報表名稱');
+      return;
+    }
+    if (existing && existing.name !== loadedName && !window.confirm(`已有名為「${name}」的報表，確定要覆寫嗎？`)) return;
+    setIsWorking(true);
+    setError('');
+    const res = await onSave({ ...def, name, description: def.description.trim() });
+    if (res.ok) {
+      setLoadedName(name);
+      setNotice(`已儲存「${name}」`);
+    } else {
+      setError(res.message || '儲存失敗');
+    }
+    setIsWorking(false);
+  };
+
+  const handleDelete = async () => {
+    if (!loaded || !window.confirm(`確定要刪除報表「${loaded.name}」嗎？`)) return;
+    setIsWorking(true);
+    setError('');
+    const res = await onDelete(loaded.name);
+    if (res.ok) {
+      setDef(createReportDefinition());
+      setLoadedName('');
+      setNotice(`已刪除「${loaded.name}」`);
+    } else {
+      setError(res.message || '刪除失敗');
+    }
+    setIsWorking(false);
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500";
+  const chipClass = (active: boolean) => `px-3 py-2 rounded-xl text-xs font-black transition-all ${active ? 'bg-indigo-600 text-white shadow' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`;
+  const sectionTitle = (text: string) => <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest">{text}</p>;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-in fade-in duration-500">
+      <div className="xl:col-span-4 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-6 h-fit">
+        <h4 className="text-lg font-black text-slate-900 flex items-center gap-3">
+          <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+          報表設定
+        </h4>
+
+        <div className="space-y-2">
+          {sectionTitle('已儲存的報表')}
+          <select value={loadedName} onChange={e => loadReport(e.target.value)} className={inputClass}>
+            <option value="">＋ 新報表</option>
+            {reports.map(r => <option key={r.name} value={r.name}>{r.name} · {r.createdBy}</option>)}
+          </select>
+          {loaded && <p className="text-[11px] font-bold text-slate-400 ml-1">最後更新 {loaded.updatedBy} · {loaded.updatedAt.slice(0, 16).replace('T', ' ')}</p>}
+        </div>
+
+        <div className="space-y-2">
+          {sectionTitle('名稱與說明')}
+          <input value={def.name} onChange={e => setDef({ ...def, name: e.target.value })} maxLength={40} placeholder="報表名稱" className={inputClass} />
+          <input value={def.description} onChange={e => setDef({ ...def, description: e.target.value })} placeholder="說明 (選填)" className={inputClass} />
+        </div>
+
+        <div className="space-y-3">
+          {sectionTitle('篩選條件')}
+          <div className="flex flex-wrap gap-2">
+            {Object.values(TransactionType).map(type => (
+              <button key={type} onClick={() => toggleType(type)} className={chipClass(def.filters.types.includes(type))}>{type}</button>
+            ))}
+            <span className="text-[11px] font-bold text-slate-400 self-center">{def.filters.types.length === 0 ? '未選表示全部類別' : ''}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={def.filters.dateFrom} onChange={e => setFilters({ dateFrom: e.target.value })} className={inputClass} />
+            <input type="date" value={def.filters.dateTo} onChange={e => setFilters({ dateTo: e.target.value })} className={inputClass} />
+            <select value={def.filters.machineCategory} onChange={e => setFilters({ machineCategory: e.target.value })} className={inputClass}>
+              <option value="">全部機台種類</option>
+              {MACHINE_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+            </select>
+            <select value={def.filters.accountCategory} onChange={e => setFilters({ accountCategory: e.target.value })} className={inputClass}>
+              <option value="">全部帳目</option>
+              {ACCOUNT_CATEGORIES.map(cat => <option key={cat} value={cat}>帳目 {cat}</option>)}
+            </select>
+          </div>
+          <input value={def.filters.vendor} onChange={e => setFilters({ vendor: e.target.value })} list="report-vendors" placeholder="廠商 (部分符合)" className={inputClass} />
+          <datalist id="report-vendors">{vendorOptions.map(v => <option key={v} value={v} />)}</datalist>
+          <input value={def.filters.keyword} onChange={e => setFilters({ keyword: e.target.value })} placeholder="關鍵字：品名、料號、機台、備註" className={inputClass} />
+        </div>
+
+        <div className="space-y-3">
+          {sectionTitle('分組 (依點選順序)')}
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(DIMENSION_LABELS) as ReportDimension[]).map(d => {
+              const order = def.groupBy.indexOf(d);
+              return <button key={d} onClick={() => toggleGroup(d)} className={chipClass(order !== -1)}>{order !== -1 ? `${order + 1}. ` : ''}{DIMENSION_LABELS[d]}</button>;
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {sectionTitle('彙總')}
+          {def.aggregates.map((a, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <select value={a.fn} onChange={e => updateAggregate(i, { fn: e.target.value as ReportAggregateFn })} className={inputClass}>
+                {(Object.keys(AGGREGATE_FN_LABELS) as ReportAggregateFn[]).map(fn => <option key={fn} value={fn}>{AGGREGATE_FN_LABELS[fn]}</option>)}
+              </select>
+              <select value={a.field} onChange={e => updateAggregate(i, { field: e.target.value as ReportMeasure })} disabled={a.fn === 'count'} className={`${inputClass} disabled:opacity-40`}>
+                {(Object.keys(MEASURE_LABELS) as ReportMeasure[]).map(field => <option key={field} value={field}>{MEASURE_LABELS[field]}</option>)}
+              </select>
+              <button onClick={() => setDef({ ...def, aggregates: def.aggregates.filter((_, j) => j !== i) })} className="px-2 text-slate-300 hover:text-rose-500 font-black">✕</button>
+            </div>
+          ))}
+          <button onClick={() => setDef({ ...def, aggregates: [...def.aggregates, { fn: 'sum', field: 'total' }] })} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-xs font-black">＋ 彙總</button>
+        </div>
+
+        <div className={`space-y-3 ${def.groupBy.length > 0 ? 'opacity-40' : ''}`}>
+          {sectionTitle(def.groupBy.length > 0 ? '明細欄位 (分組時不顯示)' : '明細欄位與順序')}
+          <div className="space-y-1.5">
+            {def.columns.map((key, i) => (
+              <div key={key} className="flex items-center gap-2 px-3 py-2 bg-slate-50 rounded-xl text-xs font-black text-slate-700">
+                <span className="flex-1">{REPORT_COLUMNS.find(c => c.key === key)?.label || key}</span>
+                <button onClick={() => moveColumn(i, -1)} disabled={i === 0} className="px-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-20">↑</button>
+                <button onClick={() => moveColumn(i, 1)} disabled={i === def.columns.length - 1} className="px-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-20">↓</button>
+                <button onClick={() => setDef({ ...def, columns: def.columns.filter(c => c !== key) })} className="px-1.5 text-slate-300 hover:text-rose-500">✕</button>
+              </div>
+            ))}
+          </div>
+          {availableColumns.length > 0 && (
+            <select value="" onChange={e => e.target.value && setDef({ ...def, columns: [...def.columns, e.target.value] })} className={inputClass}>
+              <option value="">＋ 加入欄位</option>
+              {availableColumns.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+            </select>
+          )}
+        </div>
+
+        {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+        {notice && !error && <p className="text-xs font-bold text-emerald-600">✅ {notice}</p>}
+        {canManage && (
+          <div className="flex gap-3">
+            <button onClick={handleSave} disabled={isWorking || !canOverwrite} className="flex-1 py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50">
+              {isWorking ? '處理中...' : existing ? '💾 更新報表' : '💾 儲存報表'}
+            </button>
+            {loaded && (loaded.createdBy === currentUser || isAdmin) && (
+              <button onClick={handleDelete} disabled={isWorking} className="px-4 bg-rose-50 hover:bg-rose-100 text-rose-600 rounded-xl font-black text-sm">🗑️</button>
+            )}
+          </div>
+        )}
+        {canManage && !canOverwrite && <p className="text-[11px] font-bold text-amber-600">此名稱的報表由 {existing?.createdBy} 建立，請改用其他名稱另存。</p>}
+      </div>
+
+      <div className="xl:col-span-8 bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden h-fit">
+        <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+              <span className="text-3xl">📑</span> {def.name.trim() || '自訂報表'}
+            </h3>
+            <p className="text-xs font-bold text-slate-400 mt-2">
+              {def.description || '調整左側設定即時預覽'} · 符合 {table.recordCount} 筆{def.groupBy.length > 0 ? `，共 ${table.rows.length} 組` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => exportReport(table, def.name.trim(), 'xlsx')} className="px-4 py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl text-xs font-black shadow-lg active:scale-95 transition-all">📥 Excel</button>
+            <button onClick={() => exportReport(table, def.name.trim(), 'csv')} className="px-4 py-3 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl text-xs font-black active:scale-95 transition-all">📄 CSV</button>
+          </div>
+        </div>
+
+        {table.summary.length > 0 && (
+          <div className="px-8 py-4 bg-slate-50 border-b border-slate-100 flex flex-wrap gap-6">
+            {table.summary.map((s, i) => (
+              <div key={i}>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{s.label}</p>
+                <p className="text-lg font-black text-slate-900 tabular-nums">{s.value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto max-h-[640px] overflow-y-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b sticky top-0">
+              <tr>{table.headers.map((h, i) => <th key={i} className={`px-5 py-4 whitespace-nowrap ${h.numeric ? 'text-right' : ''}`}>{h.label}</th>)}</tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-bold text-sm text-slate-700">
+              {table.rows.slice(0, PREVIEW_LIMIT).map((row, i) => (
+                <tr key={i} className="hover:bg-slate-50">
+                  {row.map((cell, j) => <td key={j} className={`px-5 py-3 ${table.headers[j]?.numeric ? 'text-right tabular-nums' : ''}`}>{formatCell(cell, !!table.headers[j]?.numeric)}</td>)}
+                </tr>
+              ))}
+              {table.totals && (
+                <tr className="bg-indigo-50/50 font-black text-slate-900">
+                  {table.totals.map((cell, j) => <td key={j} className={`px-5 py-3 ${table.headers[j]?.numeric ? 'text-right tabular-nums' : ''}`}>{cell === '' ? '' : formatCell(cell, !!table.headers[j]?.numeric)}</td>)}
+                </tr>
+              )}
+              {table.headers.length === 0 && (
+                <tr><td className="px-8 py-20 text-center text-slate-300 font-black">請選擇明細欄位或分組維度</td></tr>
+              )}
+              {table.headers.length > 0 && table.rows.length === 0 && (
+                <tr><td colSpan={table.headers.length} className="px-8 py-20 text-center text-slate-300 font-black">沒有符合條件的紀錄</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {table.rows.length > PREVIEW_LIMIT && (
+          <p className="px-8 py-4 text-xs font-bold text-slate-400 border-t border-slate-100">畫面僅顯示前 {PREVIEW_LIMIT} 列，匯出檔包含全部 {table.rows.length} 列。</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportBuilderView;
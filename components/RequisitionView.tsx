@@ -0,0 +1,337 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Requisition, RequisitionLine, RequisitionStatus, Transaction, Vendor, Material, UserRole, Receipt } from '../types';
+import { MutationResult, WriteResult, RequisitionDraft } from '../services/storage';
+import { MACHINE_CATEGORIES, checkMaterialSelection } from '../services/materialService';
+import {
+  REQUISITION_STATUS_LABELS, REQUISITION_STATUS_BADGES, lineTotal, requisitionTotal,
+  canEditRequisition, canDecideRequisition, canOrderRequisition, findRequisitionRecords
+} from '../services/requisitionService';
+import { can } from '../services/permissions';
+import { groupReceipts, getReceiptProgress, formatReceiptProgress, RECEIPT_STATUS_BADGES } from '../services/receiptService';
+import VendorSelect from './VendorSelect';
+import MaterialPicker from './MaterialPicker';
+
+interface Props {
+  requisitions: Requisition[];
+  transactions: Transaction[];
+  receipts: Receipt[];
+  vendors: Vendor[];
+  materials: Material[];
+  currentUser: string;
+  role: UserRole | null;
+  focusId?: string | null;
+  onSave: (draft: RequisitionDraft) => Promise<MutationResult>;
+  onDecide: (id: string, decision: 'approved' | 'rejected', note: string) => Promise<MutationResult>;
+  onOrder: (id: string, date: string) => Promise<WriteResult>;
+}
+
+const ACCOUNT_CATEGORIES = ['A', 'B', 'C'];
+const STATUS_FILTERS: ('all' | RequisitionStatus)[] = ['all', 'draft', 'submitted', 'approved', 'rejected', 'ordered'];
+const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+const emptyLine = (): RequisitionLine => ({
+  materialName: '', materialNumber: '', machineCategory: MACHINE_CATEGORIES[0], accountCategory: ACCOUNT_CATEGORIES[0],
+  vendor: '', quantity: 1, unitPrice: 0, note: ''
+});
+
+const formatTime = (iso: string) => iso ? new Date(iso).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', hour12: false }) : '--';
+
+/**
+ * 請購單：請購人建立品項與理由後送審，核准者核准或退回，核准後轉為待收貨的進貨紀錄
+ */
+const RequisitionView: React.FC<Props> = ({ requisitions, transactions, receipts, vendors, materials, currentUser, role, focusId, onSave, onDecide, onOrder }) => {
+  const [statusFilter, setStatusFilter] = useState<'all' | RequisitionStatus>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(focusId || null);
+  const [draft, setDraft] = useState<{ id: string; justification: string; lines: RequisitionLine[] } | null>(null);
+  const [decisionNote, setDecisionNote] = useState('');
+  const [orderDate, setOrderDate] = useState(getTaipeiToday());
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => { if (focusId) { setSelectedId(focusId); setDraft(null); } }, [focusId]);
+
+  const sorted = useMemo(() => [...requisitions]
+    .filter(r => statusFilter === 'all' || r.status === statusFilter)
+    .sort((a, b) => (b.updatedAt || b.createdAt).localeCompare(a.updatedAt || a.createdAt)), [requisitions, statusFilter]);
+  const pendingCount = requisitions.filter(r => r.status === 'submitted').length;
+  const selected = requisitions.find(r => r.id === selectedId) || null;
+  const linkedRecords = useMemo(() => selected ? findRequisitionRecords(selected, transactions) : [], [selected, transactions]);
+  const receiptsByRecord = useMemo(() => groupReceipts(receipts), [receipts]);
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+    setDecisionNote('');
+    setError('');
+  };
+
+  const startNew = () => {
+    setDraft({ id: 'REQ' + Date.now(), justification: '', lines: [emptyLine()] });
+    setSelectedId(null);
+    setError('');
+  };
+
+  const startEdit = (req: Requisition) => {
+    setDraft({ id: req.id, justification: req.justification, lines: req.lines.map(l => ({ ...l })) });
+    setError('');
+  };
+
+  const updateLine = (index: number, patch: Partial<RequisitionLine>) => {
+    if (!draft) return;
+    setDraft({ ...draft, lines: draft.lines.map((l, i) => i === index ? { ...l, ...patch } : l) });
+  };
+
+  const selectMaterial = (index: number, m: Material) => updateLine(index, {
+    materialName: m.name,
+    materialNumber: m.pn,
+    machineCategory: m.machineCategory || draft!.lines[index].machineCategory,
+    unitPrice: m.defaultPrice || draft!.lines[index].unitPrice
+  });
+
+  const run = async (action: () => Promise<MutationResult>, onDone?: () => void) => {
+    setIsWorking(true);
+    setError('');
+    const res = await action();
+    if (res.ok) onDone?.();
+    else setError(res.message || '操作失敗');
+    setIsWorking(false);
+  };
+
+  const handleSaveDraft = (submit: boolean) => {
+    if (!draft) return;
+    const lines = draft.lines.filter(l => l.materialName.trim());
+    if (lines.length === 0) { setError('請至少填寫一項料件'); return; }
+    const materialError = lines.map(l => checkMaterialSelection(materials, l.materialNumber)).find(Boolean);
+    if (materialError) { setError(materialError); return; }
+    if (submit && !draft.justification.trim()) { setError('送審前請填寫請購理由'); return; }
+    run(() => onSave({ id: draft.id, justification: draft.justification.trim(), lines, submit }), () => {
+      setSelectedId(draft.id);
+      setDraft(null);
+    });
+  };
+
+  const handleDecide = (decision: 'approved' | 'rejected') => {
+    if (!selected) return;
+    if (decision === 'rejected' && !decisionNote.trim()) { setError('退回請購單需填寫原因'); return; }
+    run(() => onDecide(selected.id, decision, decisionNote.trim()), () => setDecisionNote(''));
+  };
+
+  // 欄位檢查未通過時，列出各筆進貨紀錄的錯誤訊息
+  const handleOrder = () => {
+    if (!selected) return;
+    run(async () => {
+      const res = await onOrder(selected.id, orderDate);
+      const details = (res.rowErrors || []).flatMap(r => Object.values(r.fieldErrors));
+      return details.length > 0 ? { ...res, message: Array.from(new Set(details)).join('；') } : res;
+    });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500";
+  const usesCatalog = materials.length > 0;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-in fade-in duration-500">
+      <div className="xl:col-span-5 bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden h-fit">
+        <div className="p-6 lg:p-8 border-b border-slate-100 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3"><span className="text-3xl">📝</span> 請購單</h3>
+              <p className="text-xs font-bold text-slate-400 mt-2">待審核 {pendingCount} 張</p>
+            </div>
+            {can(role, 'requisition') && (
+              <button onClick={startNew} className="px-5 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-black shadow-lg transition-all">+ 新增請購</button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_FILTERS.map(s => (
+              <button key={s} onClick={() => setStatusFilter(s)} className={`px-3 py-1.5 rounded-lg text-[11px] font-black transition-all ${statusFilter === s ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                {s === 'all' ? '全部' : REQUISITION_STATUS_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="divide-y divide-slate-100 max-h-[640px] overflow-y-auto">
+          {sorted.map(r => (
+            <button key={r.id} onClick={() => select(r.id)} className={`w-full text-left px-6 py-4 transition-all ${r.id === selectedId ? 'bg-indigo-50/60' : 'hover:bg-slate-50'}`}>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm font-black text-slate-900">{r.id}</span>
+                <span className={`px-2 py-0.5 rounded text-[10px] font-black ${REQUISITION_STATUS_BADGES[r.status]}`}>{REQUISITION_STATUS_LABELS[r.status]}</span>
+              </div>
+              <div className="flex items-center justify-between gap-3 mt-1 text-[11px] font-bold text-slate-400">
+                <span className="truncate">{r.requester} · {r.lines.length} 項 · {r.justification || '未填理由'}</span>
+                <span className="tabular-nums text-slate-600">NT$ {requisitionTotal(r).toLocaleString()}</span>
+              </div>
+            </button>
+          ))}
+          {sorted.length === 0 && <p className="px-6 py-16 text-center text-slate-300 font-black italic text-sm">沒有符合條件的請購單</p>}
+        </div>
+      </div>
+
+      <div className="xl:col-span-7">
+        {draft ? (
+          <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 p-8 space-y-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xl font-black text-slate-900">{requisitions.some(r => r.id === draft.id) ? '修改' : '新增'}請購單 <span className="text-slate-400 text-sm ml-2">{draft.id}</span></h3>
+              <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-slate-600 font-black text-sm">✕ 取消</button>
+            </div>
+            <div>
+              <label className="block text-[11px] font-black text-slate-400 mb-1.5 ml-1">請購理由</label>
+              <textarea value={draft.justification} onChange={e => setDraft({ ...draft, justification: e.target.value })} placeholder="用途、急迫性..." className={`${inputClass} min-h-[70px] resize-none`} />
+            </div>
+            <div className="space-y-3">
+              {draft.lines.map((line, i) => (
+                <div key={i} className="p-4 bg-slate-50/60 border border-slate-100 rounded-2xl grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+                  <div className="col-span-2">
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">料件 {i + 1}</label>
+                    <MaterialPicker materials={materials} value={line.materialName} onChange={v => updateLine(i, { materialName: v, materialNumber: usesCatalog ? '' : line.materialNumber })} onSelect={m => selectMaterial(i, m)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">PN</label>
+                    <input value={line.materialNumber} readOnly={usesCatalog} onChange={e => updateLine(i, { materialNumber: e.target.value })} placeholder={usesCatalog ? '由主檔帶入' : 'PN...'} className={`${inputClass} read-only:text-slate-500`} />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">數量</label>
+                    <input type="number" min="1" value={line.quantity} onChange={e => updateLine(i, { quantity: Number(e.target.value) })} className={`${inputClass} text-center`} />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">預估單價</label>
+                    <input type="number" min="0" value={line.unitPrice} onChange={e => updateLine(i, { unitPrice: Number(e.target.value) })} className={`${inputClass} text-right`} />
+                  </div>
+                  <div className="text-right">
+                    <p className="text-[10px] font-black text-slate-400 mb-1">小計</p>
+                    <p className="py-2 text-sm font-black text-indigo-600 tabular-nums">{lineTotal(line).toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">帳目類別</label>
+                    <select value={line.accountCategory} onChange={e => updateLine(i, { accountCategory: e.target.value })} className={inputClass}>
+                      {ACCOUNT_CATEGORIES.map(c => <option key={c} value={c}>{c} 類</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">機台種類</label>
+                    <select value={line.machineCategory} onChange={e => updateLine(i, { machineCategory: e.target.value })} className={inputClass}>
+                      {MACHINE_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">廠商</label>
+                    <VendorSelect vendors={vendors} value={line.vendor} onChange={v => updateLine(i, { vendor: v })} className={inputClass} />
+                  </div>
+                  <div className="col-span-2 flex gap-2">
+                    <input value={line.note} onChange={e => updateLine(i, { note: e.target.value })} placeholder="備註..." className={inputClass} />
+                    <button onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, idx) => idx !== i) })} disabled={draft.lines.length === 1} className="px-3 text-slate-400 hover:text-rose-600 disabled:opacity-30">🗑️</button>
+                  </div>
+                </div>
+              ))}
+              <button onClick={() => setDraft({ ...draft, lines: [...draft.lines, emptyLine()] })} className="w-full py-3 border-2 border-dashed border-slate-200 rounded-2xl text-xs font-black text-slate-400 hover:text-indigo-600 hover:border-indigo-300 transition-all">+ 新增品項</button>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4 pt-2">
+              <p className="text-sm font-black text-slate-500">預估總額 <span className="text-xl text-indigo-600 tabular-nums ml-2">NT$ {requisitionTotal(draft).toLocaleString()}</span></p>
+              <div className="flex gap-3">
+                <button onClick={() => handleSaveDraft(false)} disabled={isWorking} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-sm font-black transition-all disabled:opacity-40">💾 儲存草稿</button>
+                <button onClick={() => handleSaveDraft(true)} disabled={isWorking} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-black shadow-lg transition-all disabled:opacity-40">📤 送出審核</button>
+              </div>
+            </div>
+            {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+          </div>
+        ) : selected ? (
+          <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 p-8 space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-3">
+                  <h3 className="text-2xl font-black text-slate-900">{selected.id}</h3>
+                  <span className={`px-2 py-1 rounded-lg text-xs font-black ${REQUISITION_STATUS_BADGES[selected.status]}`}>{REQUISITION_STATUS_LABELS[selected.status]}</span>
+                </div>
+                <p className="text-xs font-bold text-slate-400 mt-2">請購人 {selected.requester} · 建立於 {formatTime(selected.createdAt)}</p>
+              </div>
+              {canEditRequisition(selected, currentUser) && (
+                <button onClick={() => startEdit(selected)} className="px-4 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl text-xs font-black transition-all">✏️ 修改{selected.status === 'rejected' ? '後重送' : ''}</button>
+              )}
+            </div>
+
+            <div className="p-5 bg-slate-50 rounded-2xl">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">請購理由</p>
+              <p className="text-sm font-bold text-slate-700 whitespace-pre-wrap">{selected.justification || '--'}</p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b">
+                  <tr><th className="px-3 py-3">料件</th><th className="px-3 py-3">類別</th><th className="px-3 py-3">廠商</th><th className="px-3 py-3 text-right">數量</th><th className="px-3 py-3 text-right">單價</th><th className="px-3 py-3 text-right">小計</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50 font-bold text-slate-700">
+                  {selected.lines.map((line, i) => (
+                    <tr key={i}>
+                      <td className="px-3 py-3"><div className="text-slate-900">{line.materialName}</div><div className="text-[10px] text-slate-400">PN: {line.materialNumber || '--'}{line.note ? ` · ${line.note}` : ''}</div></td>
+                      <td className="px-3 py-3 text-xs">{line.accountCategory} 類 · {line.machineCategory}</td>
+                      <td className="px-3 py-3 text-xs">{line.vendor || '--'}</td>
+                      <td className="px-3 py-3 text-right tabular-nums">{line.quantity}</td>
+                      <td className="px-3 py-3 text-right tabular-nums">{line.unitPrice.toLocaleString()}</td>
+                      <td className="px-3 py-3 text-right tabular-nums text-indigo-600 font-black">{lineTotal(line).toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot><tr className="border-t"><td colSpan={5} className="px-3 py-3 text-right text-xs font-black text-slate-400">合計</td><td className="px-3 py-3 text-right font-black text-indigo-600 tabular-nums">NT$ {requisitionTotal(selected).toLocaleString()}</td></tr></tfoot>
+              </table>
+            </div>
+
+            {selected.approver && (
+              <div className={`p-5 rounded-2xl border ${selected.status === 'rejected' ? 'bg-rose-50 border-rose-100' : 'bg-emerald-50 border-emerald-100'}`}>
+                <p className="text-xs font-black text-slate-600">{selected.status === 'rejected' ? '❌ 退回' : '✅ 核准'}：{selected.approver} · {formatTime(selected.decidedAt)}</p>
+                {selected.decisionNote && <p className="text-xs font-bold text-slate-500 mt-1">{selected.decisionNote}</p>}
+              </div>
+            )}
+
+            {canDecideRequisition(selected, currentUser, role) && (
+              <div className="p-5 bg-amber-50/60 border border-amber-100 rounded-2xl space-y-3">
+                <p className="text-xs font-black text-amber-700">審核此請購單</p>
+                <input value={decisionNote} onChange={e => setDecisionNote(e.target.value)} placeholder="核准備註 / 退回原因 (退回必填)..." className={inputClass} />
+                <div className="flex gap-3 justify-end">
+                  <button onClick={() => handleDecide('rejected')} disabled={isWorking} className="px-5 py-2.5 bg-rose-50 hover:bg-rose-100 text-rose-600 rounded-xl text-xs font-black transition-all disabled:opacity-40">退回</button>
+                  <button onClick={() => handleDecide('approved')} disabled={isWorking} className="px-5 py-2.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl text-xs font-black transition-all disabled:opacity-40">核准</button>
+                </div>
+              </div>
+            )}
+            {selected.status === 'submitted' && selected.requester === currentUser && (
+              <p className="text-xs font-bold text-slate-400">等待其他核准者審核 (不可審核自己的請購單)。</p>
+            )}
+
+            {canOrderRequisition(selected, role) && (
+              <div className="p-5 bg-indigo-50/60 border border-indigo-100 rounded-2xl flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 mb-1 ml-1">進貨單據日期</label>
+                  <input type="date" value={orderDate} onChange={e => setOrderDate(e.target.value)} className={inputClass} />
+                </div>
+                <button onClick={handleOrder} disabled={isWorking} className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-sm font-black shadow-lg transition-all disabled:opacity-40">📦 轉為進貨 ({selected.lines.length} 筆)</button>
+              </div>
+            )}
+
+            {selected.status === 'ordered' && (
+              <div>
+                <p className="text-xs font-black text-slate-500 mb-3">📦 轉出的進貨紀錄 ({selected.orderedBy} · {formatTime(selected.orderedAt)})</p>
+                <div className="space-y-2">
+                  {linkedRecords.map(t => {
+                    const progress = getReceiptProgress(t, receiptsByRecord.get(t.id));
+                    return (
+                      <div key={t.id} className="flex items-center justify-between px-4 py-2.5 bg-slate-50 rounded-xl text-xs font-bold">
+                        <span className="text-slate-700">{t.id} · {t.date} · {t.materialName} × {t.quantity}</span>
+                        <span className={`px-2 py-0.5 rounded text-[10px] font-black ${RECEIPT_STATUS_BADGES[progress.status]}`}>{formatReceiptProgress(progress)}</span>
+                      </div>
+                    );
+                  })}
+                  {linkedRecords.length === 0 && <p className="text-xs font-bold text-slate-300 italic">進貨紀錄已刪除或尚未同步</p>}
+                </div>
+              </div>
+            )}
+            {error && <p className="text-xs font-bold text-rose-600">⚠️ {error}</p>}
+          </div>
+        ) : (
+          <div className="bg-white rounded-[2.5rem] border-2 border-dashed border-slate-200 p-16 text-center text-slate-300 font-black italic">選擇左側的請購單查看內容</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequisitionView;
@@ -0,0 +1,106 @@
+
+import React, { useMemo } from 'react';
+import { Transaction, TransactionType } from '../types';
+import { buildSerialGenealogy } from '../services/serialService';
+import { getRepairStatus } from '../services/repairService';
+
+interface Props {
+  sn: string;
+  transactions: Transaction[];
+  onClose: () => void;
+  onOpenMachine: (machineId: string) => void;
+}
+
+/**
+ * 序號履歷：同一 SN 的所有紀錄串成一條生命週期，列出安裝過的機台與每次送修
+ */
+const SerialGenealogyView: React.FC<Props> = ({ sn, transactions, onClose, onOpenMachine }) => {
+  const genealogy = useMemo(() => buildSerialGenealogy(transactions, sn), [transactions, sn]);
+  const hasConflict = !!genealogy && genealogy.installedIn.length > 1;
+
+  return (
+    <div className="fixed inset-0 z-[600] bg-slate-950/75 flex items-start justify-center p-6 backdrop-blur-sm overflow-y-auto">
+      <div className="w-full max-w-3xl my-auto bg-slate-50 rounded-[2.5rem] shadow-2xl overflow-hidden animate-in slide-in-from-bottom duration-300">
+        <div className="bg-slate-900 text-white p-8 flex flex-wrap items-start justify-between gap-6">
+          <div>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">序號履歷</p>
+            <h3 className="text-3xl font-black">🔖 {genealogy?.sn || sn}</h3>
+            {genealogy && <p className="text-sm font-bold text-slate-400 mt-2">{genealogy.materialName}{genealogy.materialNumber ? ` · PN ${genealogy.materialNumber}` : ''}</p>}
+          </div>
+          <button onClick={onClose} className="px-4 py-2.5 bg-white/10 hover:bg-white/20 rounded-xl font-black text-sm transition-all">✕ 關閉</button>
+        </div>
+
+        {!genealogy ? (
+          <p className="p-16 text-center text-slate-300 font-black italic">查無此序號的紀錄</p>
+        ) : (
+          <div className="p-8 space-y-6">
+            {hasConflict && (
+              <div className="bg-rose-50 border border-rose-200 rounded-2xl p-5 text-sm font-black text-rose-600">
+                ⚠️ 此序號同時標記安裝於 {genealogy.installedIn.join('、')}，請確認拆裝紀錄
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="col-span-2 bg-white p-5 rounded-[1.5rem] border border-slate-200">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">目前狀態</p>
+                <p className="text-lg font-black text-slate-900">{genealogy.currentState}</p>
+              </div>
+              <div className="bg-white p-5 rounded-[1.5rem] border border-slate-200">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">送修次數</p>
+                <p className="text-lg font-black text-slate-900 tabular-nums">{genealogy.visits.length}</p>
+              </div>
+              <div className="bg-white p-5 rounded-[1.5rem] border border-slate-200">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">累計維修費</p>
+                <p className="text-lg font-black text-rose-600 tabular-nums">NT$ {genealogy.totalRepairSpend.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-[2rem] border border-slate-200">
+              <h4 className="text-sm font-black text-slate-700 mb-4">🎰 安裝過的機台</h4>
+              {genealogy.installations.length === 0 ? (
+                <p className="text-xs font-bold text-slate-300 italic">尚無上機紀錄</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {genealogy.installations.map(inst => (
+                    <button key={inst.recordId} onClick={() => onOpenMachine(inst.machineNumber)} className={`px-3 py-2 rounded-xl text-xs font-black transition-all ${genealogy.installedIn.includes(inst.machineNumber) ? 'bg-indigo-600 text-white hover:bg-indigo-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+                      {inst.machineNumber}<span className="ml-2 opacity-60 tabular-nums">{inst.installedAt}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white p-6 rounded-[2rem] border border-slate-200">
+              <h4 className="text-sm font-black text-slate-700 mb-5">🧭 生命週期</h4>
+              <ol className="relative border-l-2 border-slate-100 ml-2 space-y-6">
+                {genealogy.lines.map(t => {
+                  const isRepair = t.type === TransactionType.REPAIR;
+                  return (
+                    <li key={t.id} className="ml-6">
+                      <span className={`absolute -left-[9px] w-4 h-4 rounded-full border-4 border-white ${isRepair ? 'bg-rose-500' : 'bg-emerald-500'}`}></span>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs font-black text-slate-400 tabular-nums">{(isRepair && t.sentDate) || t.date}</span>
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-black ${isRepair ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>{isRepair ? getRepairStatus(t) : t.type}</span>
+                        {t.machineNumber && <button onClick={() => onOpenMachine(t.machineNumber)} className="text-xs font-black text-indigo-600 hover:underline">🎰 {t.machineNumber}</button>}
+                        <span className="ml-auto text-sm font-black text-slate-900 tabular-nums">NT$ {t.total.toLocaleString()}</span>
+                      </div>
+                      {isRepair && (
+                        <div className="mt-2 text-[11px] font-bold text-slate-500 flex flex-wrap gap-x-4 gap-y-1">
+                          {t.faultReason && <span className="text-rose-500">故障：{t.faultReason}</span>}
+                          {t.vendor && <span>廠商：{t.vendor}</span>}
+                          <span>送修 {t.sentDate || '--'} → 完修 {t.repairDate || '--'} → 上機 {t.installDate || '--'}</span>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SerialGenealogyView;
@@ -1,21 +1,35 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { TransactionType, Transaction } from '../types';
+import { TransactionType, Transaction, Vendor, Material, Budget, Receipt } from '../types';
+import { checkStockShortage } from '../services/inventoryService';
+import { getReceiptProgress, RECEIPT_STATUS_BADGES } from '../services/receiptService';
+import { checkBudgetImpact, formatBudgetPeriod, BUDGET_DIMENSION_LABELS } from '../services/budgetService';
+import { findMaterial, checkMaterialSelection } from '../services/materialService';
+import { validateTransaction, hasErrors } from '../services/validationService';
+import { WriteResult, FieldErrors } from '../services/storage';
+import VendorSelect from './VendorSelect';
+import MaterialPicker from './MaterialPicker';
+import FieldError from './FieldError';
 
 interface Props {
-  onSave: (transaction: Transaction) => Promise<boolean>;
+  onSave: (transaction: Transaction) => Promise<WriteResult>;
   initialData?: Transaction;
   onCancel?: () => void;
   title?: string;
   existingTransactions?: Transaction[];
+  receipts?: Receipt[];
+  budgets?: Budget[];
+  vendors?: Vendor[];
+  materials?: Material[];
   currentUser: string;
 }
 
 const MACHINE_CATEGORIES = ['BA', 'RL', 'SB', 'XD', '7UP', 'HOT8', '3card', 'DT', 'CG', '共用'];
 const ACCOUNT_CATEGORIES = ['A', 'B', 'C'];
+const INLINE_ERROR_FIELDS = ['date', 'type', 'accountCategory', 'materialName', 'quantity', 'unitPrice'];
 const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
 
-const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title, existingTransactions = [], currentUser }) => {
+const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title, existingTransactions = [], receipts = [], budgets = [], vendors = [], materials = [], currentUser }) => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   
@@ -31,10 +45,22 @@ const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title
     unitPrice: 0,
     note: '',
     operator: currentUser,
-    isReceived: false 
+    isReceived: false,
+    vendor: ''
   });
 
-  const [suggestions, setSuggestions] = useState<{ field: string, items: string[] }>({ field: '', items: [] });
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  // 修改欄位時一併清除該欄位的驗證訊息
+  const setField = (patch: Partial<typeof formData>) => {
+    setFormData(prev => ({ ...prev, ...patch }));
+    setFieldErrors(prev => {
+      const next = { ...prev };
+      Object.keys(patch).forEach(key => delete next[key]);
+      return next;
+    });
+  };
 
   useEffect(() => {
     if (initialData) {
@@ -50,65 +76,88 @@ const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title
         unitPrice: Number(initialData.unitPrice) || 0,
         note: String(initialData.note || ''),
         operator: initialData.operator || currentUser,
-        isReceived: initialData.isReceived !== undefined ? !!initialData.isReceived : false
+        isReceived: initialData.isReceived !== undefined ? !!initialData.isReceived : false,
+        vendor: String(initialData.vendor || '')
       });
     } else {
       setFormData(prev => ({ ...prev, operator: currentUser }));
     }
   }, [initialData, currentUser]);
 
-  const historicalData = useMemo(() => {
-    const names = new Set<string>();
-    const nameToDetails: Record<string, { number: string, machine: string }> = {};
-    existingTransactions.forEach(t => {
-      if (t.materialName) {
-        names.add(t.materialName);
-        nameToDetails[t.materialName] = { 
-          number: t.materialNumber || '', 
-          machine: t.machineCategory || MACHINE_CATEGORIES[0] 
-        };
-      }
-    });
-    return { names: Array.from(names), nameToDetails };
-  }, [existingTransactions]);
-
-  const handleInputChange = (field: string, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-    if (field === 'materialName') {
-      const filtered = value.trim() ? historicalData.names.filter(item => item.toLowerCase().includes(value.toLowerCase()) && item !== value).slice(0, 5) : [];
-      setSuggestions({ field, items: filtered });
-    }
+  const selectedMaterial = findMaterial(materials, formData.materialNumber);
+  const usesCatalog = materials.length > 0;
+
+  const stockShortage = useMemo(() => checkStockShortage(existingTransactions, {
+    id: initialData?.id || '',
+    type: formData.type,
+    materialNumber: formData.materialNumber,
+    quantity: Number(formData.quantity) || 0
+  }, receipts), [existingTransactions, receipts, initialData, formData.type, formData.materialNumber, formData.quantity]);
+
+  // 編輯既有進貨時顯示分批收貨進度；到貨狀態只能由收貨明細推算，表單不可修改
+  const recordReceipts = useMemo(() => initialData ? receipts.filter(r => r.recordId === initialData.id) : [], [receipts, initialData]);
+  const receivedTotal = recordReceipts.reduce((acc, r) => acc + r.quantity, 0);
+  const receiptProgress = initialData
+    ? getReceiptProgress({ ...initialData, quantity: Number(formData.quantity) || 0 }, recordReceipts)
+    : null;
+
+  const budgetWarnings = useMemo(() => checkBudgetImpact(existingTransactions, budgets, {
+    id: initialData?.id || '',
+    date: formData.date,
+    type: formData.type,
+    accountCategory: formData.accountCategory,
+    machineCategory: formData.machineCategory,
+    total: (Number(formData.quantity) || 0) * (Number(formData.unitPrice) || 0)
+  }), [existingTransactions, budgets, initialData, formData.date, formData.type, formData.accountCategory, formData.machineCategory, formData.quantity, formData.unitPrice]);
+
+  // 主檔啟用時，手動改動名稱即視為尚未選取料件
+  const handleMaterialNameChange = (value: string) => {
+    setError('');
+    setField({ materialName: value, materialNumber: usesCatalog ? '' : formData.materialNumber });
   };
 
-  const selectSuggestion = (value: string) => {
-    const details = historicalData.nameToDetails[value];
-    setFormData(prev => ({ 
-      ...prev, 
-      materialName: value,
-      materialNumber: details?.number || prev.materialNumber,
-      machineCategory: details?.machine || prev.machineCategory
+  const selectMaterial = (m: Material) => {
+    setError('');
+    setFormData(prev => ({
+      ...prev,
+      materialName: m.name,
+      materialNumber: m.pn,
+      machineCategory: m.machineCategory || prev.machineCategory,
+      unitPrice: m.defaultPrice || prev.unitPrice
     }));
-    setSuggestions({ field: '', items: [] });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.materialName.trim()) return;
-    setIsSyncing(true);
+    const materialError = checkMaterialSelection(materials, formData.materialNumber);
+    if (materialError) {
+      setError(materialError);
+      return;
+    }
     const qty = Number(formData.quantity) || 0;
     const price = Number(formData.unitPrice) || 0;
 
     const tx: Transaction = {
       ...formData,
+      materialName: selectedMaterial?.name || formData.materialName.trim(),
       id: initialData?.id || 'TX' + Date.now(),
       quantity: qty,
       unitPrice: price,
       total: qty * price,
-      operator: currentUser
+      operator: currentUser,
+      vendor: formData.type === TransactionType.INBOUND ? formData.vendor : '',
+      requisitionId: initialData?.requisitionId || ''
     };
 
+    const errors = validateTransaction(tx);
+    if (tx.type === TransactionType.INBOUND && qty < receivedTotal) errors.quantity = `進貨數量不可少於已到貨數量 ${receivedTotal}`;
+    setFieldErrors(errors);
+    if (hasErrors(errors)) return;
+
+    setIsSyncing(true);
     const result = await onSave(tx);
-    if (result) {
+    if (result.fieldErrors) setFieldErrors(result.fieldErrors);
+    if (result.ok) {
       setIsSuccess(true);
       setTimeout(() => { setIsSuccess(false); if (onCancel && initialData) onCancel(); }, 1200);
       if (!initialData) setFormData(prev => ({ ...prev, materialName: '', materialNumber: '', machineNumber: '', quantity: 1, unitPrice: 0, note: '', isReceived: false }));
@@ -120,6 +169,10 @@ const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title
   const labelClasses = `block text-[14px] font-black uppercase tracking-widest mb-2 ml-1 text-slate-500`;
 
   const isInbound = formData.type === TransactionType.INBOUND;
+  // 表單上沒有對應位置的欄位錯誤統一列在底部
+  const otherErrors = Object.entries(fieldErrors)
+    .filter(([field]) => !INLINE_ERROR_FIELDS.includes(field))
+    .map(([, message]) => message);
 
   return (
     <form onSubmit={handleSubmit} className="p-8 rounded-[2rem] shadow-xl border border-slate-200/60 transition-all duration-300 bg-white w-full">
@@ -135,24 +188,28 @@ const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title
         <div className="grid grid-cols-2 gap-4">
           <div className="col-span-2">
             <label className={labelClasses}>單據日期</label>
-            <input type="date" className={inputClasses} value={formData.date} onChange={e => setFormData({...formData, date: e.target.value})} />
+            <input type="date" className={inputClasses} value={formData.date} onChange={e => setField({date: e.target.value})} />
+            <FieldError message={fieldErrors.date} />
           </div>
         </div>
 
         <div className="grid grid-cols-2 gap-5">
           <div>
             <label className={labelClasses}>紀錄類別</label>
-            <select className={`${inputClasses} text-lg font-black text-indigo-700 h-[52px]`} value={formData.type} onChange={e => setFormData({...formData, type: e.target.value as any})}>
+            {/* 各類別分開存放，修改既有紀錄時不可變更類別 */}
+            <select className={`${inputClasses} text-lg font-black text-indigo-700 h-[52px] disabled:opacity-60`} value={formData.type} disabled={!!initialData} onChange={e => setField({type: e.target.value as any})}>
               <option value={TransactionType.INBOUND}>{TransactionType.INBOUND}</option>
               <option value={TransactionType.USAGE}>{TransactionType.USAGE}</option>
               <option value={TransactionType.CONSTRUCTION}>{TransactionType.CONSTRUCTION}</option>
             </select>
+            <FieldError message={fieldErrors.type} />
           </div>
           <div>
             <label className={labelClasses}>帳目類別</label>
-            <select className={`${inputClasses} text-lg font-black h-[52px]`} value={formData.accountCategory} onChange={e => setFormData({...formData, accountCategory: e.target.value})}>
+            <select className={`${inputClasses} text-lg font-black h-[52px]`} value={formData.accountCategory} onChange={e => setField({accountCategory: e.target.value})}>
               {ACCOUNT_CATEGORIES.map(acc => <option key={acc} value={acc}>{acc} 類</option>)}
             </select>
+            <FieldError message={fieldErrors.accountCategory} />
           </div>
         </div>
 
@@ -160,59 +217,75 @@ const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title
           <div className="bg-indigo-50/50 p-4 rounded-xl border border-indigo-100 flex items-center justify-between">
             <div>
               <p className="text-[12px] font-black text-indigo-600 uppercase">實物收貨追蹤</p>
-              <p className="text-[11px] text-slate-400 font-bold">料件是否已到貨</p>
+              <p className="text-[11px] text-slate-400 font-bold">
+                {receiptProgress ? `已到貨 ${receiptProgress.received}/${receiptProgress.ordered}，其餘請於紀錄列表登記收貨` : '存檔後請於紀錄列表登記收貨'}
+              </p>
             </div>
-            <label className="flex items-center gap-3 cursor-pointer">
-              <input type="checkbox" checked={formData.isReceived} onChange={e => setFormData({...formData, isReceived: e.target.checked})} className="hidden" />
-              <div className={`w-12 h-6 rounded-full relative transition-all duration-300 ${formData.isReceived ? 'bg-emerald-500' : 'bg-amber-400'}`}>
-                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all duration-300 ${formData.isReceived ? 'left-7' : 'left-1'}`}></div>
-              </div>
-              <span className={`text-[12px] font-black ${formData.isReceived ? 'text-emerald-600' : 'text-amber-600'}`}>
-                {formData.isReceived ? '已收貨' : '待收貨'}
-              </span>
-            </label>
+            <span className={`px-3 py-1 rounded-lg text-[12px] font-black ${RECEIPT_STATUS_BADGES[receiptProgress?.status || '未到貨']}`}>
+              {receiptProgress?.status || '未到貨'}
+            </span>
           </div>
         )}
 
-        <div className="relative">
+        {isInbound && (
+          <div>
+            <label className={labelClasses}>供應廠商</label>
+            <VendorSelect vendors={vendors} value={formData.vendor} onChange={vendor => setField({vendor})} className={inputClasses} />
+          </div>
+        )}
+
+        <div>
           <label className={labelClasses}>料件名稱</label>
-          <input type="text" placeholder="名稱..." required className={inputClasses} value={formData.materialName} autoComplete="off" onChange={e => handleInputChange('materialName', e.target.value)} />
-          {suggestions.items.length > 0 && (
-            <div className="absolute z-50 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-2xl overflow-hidden max-h-40 overflow-y-auto">
-              {suggestions.items.map((item, idx) => (
-                <button key={idx} type="button" className="w-full text-left px-4 py-3 text-sm font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-600 border-b border-slate-50 last:border-0" onClick={() => selectSuggestion(item)}>{item}</button>
-              ))}
-            </div>
-          )}
+          <MaterialPicker materials={materials} value={formData.materialName} required className={inputClasses} onChange={handleMaterialNameChange} onSelect={selectMaterial} />
+          <FieldError message={fieldErrors.materialName} />
         </div>
 
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label className={labelClasses}>料件編號 (P/N)</label>
-            <input type="text" placeholder="P/N..." className={inputClasses} value={formData.materialNumber} onChange={e => setFormData({...formData, materialNumber: e.target.value})} />
+            <input type="text" placeholder={usesCatalog ? '由主檔帶入' : 'P/N...'} readOnly={usesCatalog} className={`${inputClasses} read-only:bg-slate-100 read-only:text-slate-500`} value={formData.materialNumber} onChange={e => setField({materialNumber: e.target.value})} />
           </div>
           <div>
             <label className={labelClasses}>機台 ID</label>
-            <input type="text" placeholder="ID..." className={inputClasses} value={formData.machineNumber} onChange={e => setFormData({...formData, machineNumber: e.target.value})} />
+            <input type="text" placeholder="ID..." className={inputClasses} value={formData.machineNumber} onChange={e => setField({machineNumber: e.target.value})} />
           </div>
         </div>
 
         <div className="grid grid-cols-2 gap-4">
           <div>
             <label className={labelClasses}>機台種類</label>
-            <select className={inputClasses} value={formData.machineCategory} onChange={e => setFormData({...formData, machineCategory: e.target.value})}>
+            <select className={inputClasses} value={formData.machineCategory} onChange={e => setField({machineCategory: e.target.value})}>
               {MACHINE_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
             </select>
           </div>
           <div>
-            <label className={labelClasses}>數量 / 單價</label>
+            <label className={labelClasses}>數量{selectedMaterial?.unit ? ` (${selectedMaterial.unit})` : ''} / 單價</label>
             <div className="flex gap-2">
-              <input type="number" min="1" className={`${inputClasses} text-center px-1`} value={formData.quantity} onChange={e => setFormData({...formData, quantity: Number(e.target.value)})} />
-              <input type="number" placeholder="0" className={`${inputClasses} text-right px-1`} value={formData.unitPrice} onChange={e => setFormData({...formData, unitPrice: Number(e.target.value)})} />
+              <input type="number" min="1" className={`${inputClasses} text-center px-1`} value={formData.quantity} onChange={e => setField({quantity: Number(e.target.value)})} />
+              <input type="number" placeholder="0" className={`${inputClasses} text-right px-1`} value={formData.unitPrice} onChange={e => setField({unitPrice: Number(e.target.value)})} />
             </div>
+            <FieldError message={fieldErrors.quantity || fieldErrors.unitPrice} />
           </div>
         </div>
 
+        {stockShortage && (
+          <div className="bg-rose-50 p-4 rounded-xl border border-rose-200">
+            <p className="text-[12px] font-black text-rose-600">⚠️ 庫存不足警示</p>
+            <p className="text-[11px] text-rose-500 font-bold mt-1">料號 {formData.materialNumber} 目前結存 {stockShortage.onHand}，本次{formData.type}後將為 {stockShortage.after}。</p>
+          </div>
+        )}
+
+        {budgetWarnings.length > 0 && (
+          <div className="bg-amber-50 p-4 rounded-xl border border-amber-200">
+            <p className="text-[12px] font-black text-amber-700">⚠️ 預算超支警示</p>
+            {budgetWarnings.map(w => (
+              <p key={`${w.budget.dimension}-${w.budget.period}`} className="text-[11px] text-amber-600 font-bold mt-1">
+                {BUDGET_DIMENSION_LABELS[w.budget.dimension]} {w.budget.category} 的{formatBudgetPeriod(w.budget.period)}預算 NT$ {w.budget.amount.toLocaleString()}，本筆存檔後累計 NT$ {w.after.toLocaleString()} (超出 {(w.after - w.budget.amount).toLocaleString()})。
+              </p>
+            ))}
+          </div>
+        )}
+
         <div>
           <label className={labelClasses}>結算總額</label>
           <div className="px-5 py-3 bg-slate-900 text-indigo-400 rounded-xl font-black text-lg tabular-nums text-center shadow-inner border border-white/5">
@@ -222,10 +295,13 @@ const TransactionForm: React.FC<Props> = ({ onSave, initialData, onCancel, title
 
         <div>
           <label className={labelClasses}>備註事項</label>
-          <textarea placeholder="備註..." className={`${inputClasses} min-h-[60px] py-3 resize-none`} value={formData.note} onChange={e => setFormData({...formData, note: e.target.value})}></textarea>
+          <textarea placeholder="備註..." className={`${inputClasses} min-h-[60px] py-3 resize-none`} value={formData.note} onChange={e => setField({note: e.target.value})}></textarea>
         </div>
       </div>
 
+      {error && <p className="mt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+      {otherErrors.map(message => <p key={message} className="mt-2 text-xs font-bold text-rose-600">⚠️ {message}</p>)}
+
       <button type="submit" disabled={isSyncing} className={`mt-8 w-full font-black py-4 rounded-xl transition-all shadow-lg active:scale-[0.98] text-lg ${isSuccess ? "bg-emerald-500 text-white" : "bg-indigo-600 hover:bg-indigo-700 text-white"}`}>
         {isSyncing ? "同步中..." : isSuccess ? "✅ 存檔成功" : "確認存檔"}
       </button>
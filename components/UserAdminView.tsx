@@ -0,0 +1,133 @@
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { UserAccount, UserRole } from '../types';
+import { dbService } from '../services/dbService';
+import { ROLE_LABELS } from '../services/permissions';
+import { UserInput } from '../services/storage';
+
+interface Props {
+  currentUser: string;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+const EMPTY_FORM: UserInput = { username: '', emoji: '👤', role: 'clerk', active: true, password: '' };
+
+const UserAdminView: React.FC<Props> = ({ currentUser }) => {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<UserInput>(EMPTY_FORM);
+  const [resetTarget, setResetTarget] = useState<string | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setUsers(await dbService.fetchUsers());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (input: UserInput) => {
+    setIsWorking(true);
+    setError('');
+    const res = await dbService.saveUser(input);
+    if (res.ok) await load();
+    else setError(res.message || '儲存失敗');
+    setIsWorking(false);
+    return res.ok;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (users.some(u => u.username === form.username.trim())) {
+      setError('此帳號名稱已存在');
+      return;
+    }
+    if (await run({ ...form, username: form.username.trim() })) setForm(EMPTY_FORM);
+  };
+
+  const handleReset = async (u: UserAccount) => {
+    if (await run({ ...u, password: resetPassword })) {
+      setResetTarget(null);
+      setResetPassword('');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-in fade-in duration-500">
+      <div className="xl:col-span-8 bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
+        <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+              <span className="text-3xl">👥</span> 帳號管理
+            </h3>
+            <p className="text-xs font-bold text-slate-400 mt-2">密碼僅以加鹽雜湊保存於後端；管理員設定或重設的密碼為初始密碼，本人下次登入時須改設新密碼；角色決定可使用的分頁與操作。</p>
+          </div>
+          <button onClick={load} disabled={isLoading} className="px-5 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl font-black text-xs transition-all">🔄 重新整理</button>
+        </div>
+        {error && <p className="px-8 pt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b">
+              <tr><th className="px-8 py-5">人員</th><th className="px-8 py-5">角色</th><th className="px-8 py-5 text-center">狀態</th><th className="px-8 py-5 text-center">密碼</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-bold">
+              {users.map(u => {
+                const isSelf = u.username === currentUser;
+                return (
+                  <tr key={u.username} className={`hover:bg-slate-50 transition-all ${u.active ? '' : 'opacity-50'}`}>
+                    <td className="px-8 py-5 text-sm font-black text-slate-800"><span className="text-xl mr-2">{u.emoji}</span>{u.username}{isSelf && <span className="ml-2 text-[10px] text-indigo-500">(目前登入)</span>}</td>
+                    <td className="px-8 py-5">
+                      <select value={u.role} disabled={isWorking || isSelf} onChange={e => run({ ...u, role: e.target.value as UserRole })} className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-black outline-none text-slate-600 focus:border-indigo-500 disabled:opacity-50">
+                        {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-8 py-5 text-center">
+                      <button onClick={() => run({ ...u, active: !u.active })} disabled={isWorking || isSelf} className={`px-3 py-2 rounded-lg text-[11px] font-black transition-all disabled:opacity-30 ${u.active ? 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{u.active ? '✅ 啟用中' : '⛔ 已停用'}</button>
+                    </td>
+                    <td className="px-8 py-5 text-center">
+                      {resetTarget === u.username ? (
+                        <div className="flex items-center justify-center gap-2">
+                          <input type="password" value={resetPassword} onChange={e => setResetPassword(e.target.value)} placeholder="新密碼 (至少 6 字元)" className="w-36 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold outline-none focus:border-indigo-500" />
+                          <button onClick={() => handleReset(u)} disabled={isWorking || resetPassword.length < 6} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-[11px] font-black disabled:opacity-40">確認</button>
+                          <button onClick={() => setResetTarget(null)} className="text-slate-400 hover:text-slate-600 text-[11px] font-black">取消</button>
+                        </div>
+                      ) : (
+                        <button onClick={() => { setResetTarget(u.username); setResetPassword(''); }} className="px-3 py-2 bg-amber-50 hover:bg-amber-100 text-amber-600 rounded-lg text-[11px] font-black transition-all">🔑 重設密碼</button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {isLoading && (
+                <tr><td colSpan={4} className="px-8 py-20 text-center text-slate-300 font-black">讀取中...</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <form onSubmit={handleCreate} className="xl:col-span-4 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4 h-fit">
+        <h4 className="text-lg font-black text-slate-900 flex items-center gap-3">
+          <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+          新增帳號
+        </h4>
+        <div className="grid grid-cols-4 gap-3">
+          <input value={form.emoji} onChange={e => setForm({ ...form, emoji: e.target.value })} maxLength={4} className="col-span-1 px-3 py-3 bg-slate-50 border border-slate-200 rounded-xl text-center text-xl outline-none focus:border-indigo-500" />
+          <input value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} placeholder="帳號名稱" required className="col-span-3 px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500" />
+        </div>
+        <select value={form.role} onChange={e => setForm({ ...form, role: e.target.value as UserRole })} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-black text-slate-600 outline-none focus:border-indigo-500">
+          {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <input type="password" value={form.password} onChange={e => setForm({ ...form, password: e.target.value })} placeholder="初始密碼 (至少 6 字元)" required minLength={6} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500" />
+        <button type="submit" disabled={isWorking} className="w-full py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50">
+          {isWorking ? '處理中...' : '➕ 建立帳號'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UserAdminView;
@@ -0,0 +1,28 @@
+
+import React from 'react';
+import { Vendor } from '../types';
+
+interface Props {
+  vendors: Vendor[];
+  value: string;
+  onChange: (vendor: string) => void;
+  className?: string;
+}
+
+/**
+ * 廠商下拉選單：僅列出啟用中的廠商；舊紀錄的廠商若已停用或不在主檔中仍保留為選項
+ */
+const VendorSelect: React.FC<Props> = ({ vendors, value, onChange, className }) => {
+  const active = vendors.filter(v => v.active);
+  const isLegacy = !!value && !active.some(v => v.name === value);
+
+  return (
+    <select className={className} value={value} onChange={e => onChange(e.target.value)}>
+      <option value="">未指定廠商</option>
+      {isLegacy && <option value={value}>{value} (不在主檔)</option>}
+      {active.map(v => <option key={v.name} value={v.name}>{v.name}{v.paymentTerms ? ` · ${v.paymentTerms}` : ''}</option>)}
+    </select>
+  );
+};
+
+export default VendorSelect;
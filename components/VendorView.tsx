@@ -0,0 +1,193 @@
+
+import React, { useMemo, useState } from 'react';
+import { Transaction, Vendor, VendorPayment, PaymentStatus } from '../types';
+import { MutationResult } from '../services/storage';
+import { buildVendorStatements, exportVendorStatements, PAYMENT_STATUS_LABELS, VAT_RATE } from '../services/reportService';
+
+interface Props {
+  transactions: Transaction[];
+  vendors: Vendor[];
+  payments: VendorPayment[];
+  canManage: boolean;
+  canMarkPayment: boolean;
+  onSaveVendor: (vendor: Vendor) => Promise<MutationResult>;
+  onSetPayment: (vendor: string, period: string, status: PaymentStatus) => Promise<MutationResult>;
+}
+
+const EMPTY_FORM: Vendor = { name: '', taxId: '', contact: '', paymentTerms: '', active: true };
+const getTaipeiMonth = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' }).slice(0, 7);
+
+const VendorView: React.FC<Props> = ({ transactions, vendors, payments, canManage, canMarkPayment, onSaveVendor, onSetPayment }) => {
+  const [form, setForm] = useState<Vendor>(EMPTY_FORM);
+  const [isEditing, setIsEditing] = useState(false);
+  const [period, setPeriod] = useState(getTaipeiMonth());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const statements = useMemo(() => buildVendorStatements(transactions, vendors, payments, period), [transactions, vendors, payments, period]);
+
+  const run = async (action: () => Promise<MutationResult>) => {
+    setIsWorking(true);
+    setError('');
+    const res = await action();
+    if (!res.ok) setError(res.message || '儲存失敗');
+    setIsWorking(false);
+    return res.ok;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    if (!isEditing && vendors.some(v => v.name === name)) {
+      setError('此廠商名稱已存在');
+      return;
+    }
+    if (await run(() => onSaveVendor({ ...form, name }))) {
+      setForm(EMPTY_FORM);
+      setIsEditing(false);
+    }
+  };
+
+  const startEdit = (v: Vendor) => {
+    setForm(v);
+    setIsEditing(true);
+    setError('');
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-indigo-500";
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
+        <div className="xl:col-span-8 bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
+          <div className="p-6 lg:p-8 border-b border-slate-100">
+            <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+              <span className="text-3xl">🏢</span> 廠商主檔
+            </h3>
+            <p className="text-xs font-bold text-slate-400 mt-2">進貨與維修紀錄以廠商名稱對應；停用的廠商不會出現在表單選單中。</p>
+          </div>
+          {error && <p className="px-8 pt-4 text-xs font-bold text-rose-600">⚠️ {error}</p>}
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 font-black text-slate-400 uppercase tracking-widest text-[11px] border-b">
+                <tr><th className="px-8 py-5">廠商</th><th className="px-8 py-5">統一編號</th><th className="px-8 py-5">聯絡資訊</th><th className="px-8 py-5">付款條件</th><th className="px-8 py-5 text-center">操作</th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 font-bold">
+                {vendors.map(v => (
+                  <tr key={v.name} className={`hover:bg-slate-50 transition-all ${v.active ? '' : 'opacity-50'}`}>
+                    <td className="px-8 py-5 text-sm font-black text-slate-800">{v.name}{!v.active && <span className="ml-2 text-[10px] text-slate-400">(已停用)</span>}</td>
+                    <td className="px-8 py-5 text-sm text-slate-600 tabular-nums">{v.taxId || '--'}</td>
+                    <td className="px-8 py-5 text-sm text-slate-600">{v.contact || '--'}</td>
+                    <td className="px-8 py-5 text-sm text-slate-600">{v.paymentTerms || '--'}</td>
+                    <td className="px-8 py-5 text-center">
+                      {canManage && (
+                        <div className="flex justify-center gap-2">
+                          <button onClick={() => startEdit(v)} disabled={isWorking} className="px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded-lg text-[11px] font-black transition-all">✏️ 編輯</button>
+                          <button onClick={() => run(() => onSaveVendor({ ...v, active: !v.active }))} disabled={isWorking} className={`px-3 py-2 rounded-lg text-[11px] font-black transition-all ${v.active ? 'bg-slate-100 text-slate-500 hover:bg-slate-200' : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'}`}>{v.active ? '⛔ 停用' : '✅ 啟用'}</button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {vendors.length === 0 && (
+                  <tr><td colSpan={5} className="px-8 py-20 text-center text-slate-300 font-black">尚未建立任何廠商</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {canManage && (
+          <form onSubmit={handleSubmit} className="xl:col-span-4 bg-white p-8 rounded-[2rem] border border-slate-200 shadow-sm space-y-4 h-fit">
+            <h4 className="text-lg font-black text-slate-900 flex items-center gap-3">
+              <span className="w-1.5 h-6 bg-indigo-500 rounded-full"></span>
+              {isEditing ? `編輯 ${form.name}` : '新增廠商'}
+            </h4>
+            <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} disabled={isEditing} placeholder="廠商名稱" required className={`${inputClass} disabled:opacity-50`} />
+            <input value={form.taxId} onChange={e => setForm({ ...form, taxId: e.target.value })} placeholder="統一編號 (8 碼)" pattern="\d{8}" maxLength={8} className={inputClass} />
+            <input value={form.contact} onChange={e => setForm({ ...form, contact: e.target.value })} placeholder="聯絡人 / 電話" className={inputClass} />
+            <input value={form.paymentTerms} onChange={e => setForm({ ...form, paymentTerms: e.target.value })} placeholder="付款條件，例如：月結 30 天" className={inputClass} />
+            <div className="flex gap-3">
+              <button type="submit" disabled={isWorking} className="flex-1 py-3.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-black text-sm shadow-lg active:scale-95 transition-all disabled:opacity-50">
+                {isWorking ? '處理中...' : isEditing ? '💾 儲存變更' : '➕ 建立廠商'}
+              </button>
+              {isEditing && <button type="button" onClick={() => { setForm(EMPTY_FORM); setIsEditing(false); }} className="px-4 text-slate-400 font-black hover:text-slate-600 text-sm">取消</button>}
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-200/60 overflow-hidden">
+        <div className="p-6 lg:p-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 flex items-center gap-3">
+              <span className="text-3xl">🧾</span> 廠商月對帳單
+            </h3>
+            <p className="text-xs font-bold text-slate-400 mt-2">金額為未稅，另計營業稅 {VAT_RATE * 100}%；僅列出已指定廠商的進貨與維修紀錄。</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-black text-slate-600 outline-none focus:border-indigo-500" />
+            <button onClick={() => exportVendorStatements(statements, period)} className="px-5 py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-xl font-black text-xs shadow-lg transition-all">📥 匯出對帳單</button>
+          </div>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {statements.map(s => (
+            <div key={s.vendor}>
+              <div className="px-8 py-5 flex flex-wrap items-center gap-6 hover:bg-slate-50 cursor-pointer transition-all" onClick={() => setExpanded(expanded === s.vendor ? null : s.vendor)}>
+                <div className="flex-1 min-w-[200px]">
+                  <p className="text-sm font-black text-slate-800">{expanded === s.vendor ? '▾' : '▸'} {s.vendor}{!s.info && <span className="ml-2 text-[10px] text-amber-500">(不在主檔)</span>}</p>
+                  <p className="text-[11px] font-bold text-slate-400 mt-1">進貨 {s.inboundLines.length} 筆 · 維修 {s.repairLines.length} 筆{s.info?.paymentTerms ? ` · ${s.info.paymentTerms}` : ''}</p>
+                </div>
+                <div className="text-right text-xs font-bold text-slate-500 tabular-nums">
+                  <p>未稅 NT$ {s.subtotal.toLocaleString()}</p>
+                  <p>稅額 NT$ {s.tax.toLocaleString()}</p>
+                </div>
+                <p className="text-lg font-black text-slate-900 tabular-nums w-40 text-right">NT$ {s.total.toLocaleString()}</p>
+                <button
+                  onClick={e => { e.stopPropagation(); run(() => onSetPayment(s.vendor, period, s.paymentStatus === 'paid' ? 'unpaid' : 'paid')); }}
+                  disabled={!canMarkPayment || isWorking}
+                  title={canMarkPayment ? '切換付款狀態' : '需核准者以上角色'}
+                  className={`px-3 py-2 rounded-lg text-[11px] font-black transition-all disabled:cursor-not-allowed ${s.paymentStatus === 'paid' ? 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100' : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}`}
+                >
+                  {s.paymentStatus === 'paid' ? '✅' : '⏳'} {PAYMENT_STATUS_LABELS[s.paymentStatus]}{s.paidAt ? ` ${s.paidAt.slice(0, 10)}` : ''}
+                </button>
+              </div>
+              {expanded === s.vendor && (
+                <div className="px-8 pb-6 bg-slate-50/50">
+                  <table className="w-full text-left text-sm">
+                    <thead className="font-black text-slate-400 uppercase tracking-widest text-[10px] border-b">
+                      <tr><th className="py-3">類別</th><th className="py-3">日期</th><th className="py-3">料件名稱</th><th className="py-3">機台</th><th className="py-3 text-right">數量</th><th className="py-3 text-right">單價</th><th className="py-3 text-right">金額</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 font-bold text-slate-600">
+                      {[...s.inboundLines, ...s.repairLines].map(t => (
+                        <tr key={t.id}>
+                          <td className="py-2.5">{t.type}</td>
+                          <td className="py-2.5 tabular-nums">{t.date}</td>
+                          <td className="py-2.5 text-slate-800">{t.materialName}</td>
+                          <td className="py-2.5">{t.machineNumber || '--'}</td>
+                          <td className="py-2.5 text-right tabular-nums">{t.quantity}</td>
+                          <td className="py-2.5 text-right tabular-nums">{t.unitPrice.toLocaleString()}</td>
+                          <td className="py-2.5 text-right tabular-nums text-slate-900">{t.total.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="flex justify-end gap-8 mt-4 text-xs font-black text-slate-500 tabular-nums">
+                    <span>進貨小計 NT$ {s.inboundSubtotal.toLocaleString()}</span>
+                    <span>維修小計 NT$ {s.repairSubtotal.toLocaleString()}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+          {statements.length === 0 && (
+            <p className="px-8 py-16 text-center text-slate-300 font-black">{period} 沒有任何廠商交易</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VendorView;
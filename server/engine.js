@@ -0,0 +1,1090 @@
+/**
+ * 倉儲月結管理系統 - 本機後端協定引擎
+ * 與 GAS_BACKEND.js 的 doGet / doPost 採用相同的請求與回應格式，
+ * 由瀏覽器端 IndexedDB 後端與 Node 本機伺服器 (server/localServer.js) 共用。
+ * 資料狀態為單一純物件，持久化由呼叫端負責。
+ */
+
+import { hashPassword, randomSalt, hmacSha256, utf8Bytes, toHex, toBase64Url, fromBase64Url } from "./hash.js";
+import { validateTransaction, validationError } from "./schema.js";
+
+export var CATEGORIES = ["進貨", "用料", "建置", "維修"];
+export var RETENTION_DAYS = 30;
+
+// 已完成寫入的 requestId 保留天數；離線佇列在此期間內重送同一請求不會重複寫入
+var REQUEST_LOG_DAYS = 7;
+
+// 角色由低至高，高階角色涵蓋低階角色的所有權限
+export var ROLES = ["viewer", "clerk", "approver", "admin"];
+
+// 各寫入動作所需的最低角色 (未列出者不需特定角色)
+var ACTION_ROLES = {
+  insert: "clerk",
+  update: "clerk",
+  delete: "clerk",
+  restore: "clerk",
+  batch_insert: "clerk",
+  close_period: "approver",
+  reopen_period: "approver",
+  purge: "admin",
+  save_user: "admin",
+  save_vendor: "clerk",
+  set_vendor_payment: "approver",
+  save_materials: "admin",
+  save_machine: "clerk",
+  save_budget: "approver",
+  save_requisition: "clerk",
+  decide_requisition: "approver",
+  order_requisition: "clerk",
+  record_receipt: "clerk",
+  save_report: "clerk",
+  delete_report: "clerk"
+};
+
+// 帶有廠商欄位的紀錄類別 (進貨向供應商採購、維修由外部廠商報價)
+var VENDOR_CATEGORIES = ["進貨", "維修"];
+var PAYMENT_STATUSES = ["unpaid", "paid"];
+var MACHINE_STATUSES = ["active", "maintenance", "idle", "retired"];
+var BUDGET_DIMENSIONS = ["account", "machine"];
+
+// 報表定義：以名稱為鍵，所有人可讀取；只有建立者或管理員可以覆寫或刪除
+var REPORT_DIMENSIONS = ["type", "accountCategory", "machineCategory", "machineNumber", "operator", "month"];
+var REPORT_AGGREGATE_FNS = ["count", "sum", "avg", "min", "max"];
+var REPORT_MEASURES = ["quantity", "unitPrice", "total"];
+var REPORT_NAME_MAX = 40;
+
+// 請購單：草稿 → 送審 → 核准 / 退回 → 已下單；退回後可由請購人修改重送
+var EDITABLE_REQUISITION_STATUSES = ["draft", "rejected"];
+var REQUISITION_DECISIONS = ["approved", "rejected"];
+
+// 維修狀態機：待送修 → 送修中 → 已完修 → 已上機，未結束狀態皆可轉為報廢
+var REPAIR_TRANSITIONS = {
+  "待送修": ["送修中", "報廢"],
+  "送修中": ["已完修", "報廢"],
+  "已完修": ["已上機", "報廢"],
+  "已上機": [],
+  "報廢": []
+};
+
+// 工作階段權杖有效期限 (一個工作班次)；閒置登出時前端會主動撤銷
+var TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+
+// 首次啟用帳號制時，以原共用密碼建立既有人員帳號；第一位為管理員，所有人首次登入時須改設自己的密碼
+var LEGACY_USERS = [
+  { username: "Mountain", emoji: "⛰️", role: "admin" },
+  { username: "Uri", emoji: "🌟", role: "clerk" },
+  { username: "Simon", emoji: "🦁", role: "clerk" },
+  { username: "George", emoji: "⚓", role: "clerk" },
+  { username: "Barry", emoji: "🛡️", role: "clerk" },
+  { username: "Jason", emoji: "🏹", role: "clerk" },
+  { username: "Nick", emoji: "🐺", role: "clerk" }
+];
+
+export function createEmptyState() {
+  return {
+    records: [],
+    periods: [],
+    periodLog: [],
+    audit: [],
+    users: [],
+    revokedTokens: [],
+    vendors: [],
+    vendorPayments: [],
+    materials: [],
+    machines: [],
+    budgets: [],
+    reports: [],
+    requisitions: [],
+    receipts: [],
+    requests: [],
+    settings: { MASTER_PASSWORD: "Jumbo.net" }
+  };
+}
+
+/**
+ * 安全處理：重新計算財務數據，不信任前端傳入的 total；操作人員一律為已驗證的 actor
+ */
+function processRowData(type, payload, id, actor) {
+  var qty = Number(payload.quantity || 1);
+  var price = Number(payload.unitPrice || 0);
+  var row = Object.assign({}, payload, {
+    id: id,
+    type: type,
+    quantity: qty,
+    unitPrice: price,
+    total: qty * price,
+    operator: actor
+  });
+
+  if (type === "維修") {
+    row.accountCategory = "";
+    row.isReceived = "";
+    row.requisitionId = "";
+  } else {
+    row.sn = "";
+    row.faultReason = "";
+    row.isScrapped = "";
+    row.sentDate = "";
+    row.repairDate = "";
+    row.installDate = "";
+    row.repairStatus = "";
+    if (type === "進貨") {
+      row.isReceived = !!payload.isReceived;
+      row.requisitionId = String(payload.requisitionId || "");
+    } else {
+      row.isReceived = "";
+      row.requisitionId = "";
+    }
+  }
+  if (VENDOR_CATEGORIES.indexOf(type) === -1) row.vendor = "";
+  return row;
+}
+
+function toPeriod(dateVal) {
+  if (!dateVal) return "";
+  var d = new Date(dateVal);
+  if (isNaN(d.getTime())) return "";
+  return d.toLocaleDateString("sv-SE", { timeZone: "Asia/Taipei" }).slice(0, 7);
+}
+
+function getLockedPeriods(state) {
+  return state.periods
+    .filter(function(p) { return p.status === "closed"; })
+    .map(function(p) { return p.period; });
+}
+
+/**
+ * 月結鎖定：拒絕寫入已關帳月份的紀錄
+ */
+function assertPeriodOpen(locked, dateVal) {
+  var period = toPeriod(dateVal);
+  if (period && locked.indexOf(period) !== -1) {
+    throw new Error(period + " 已月結關帳，無法新增、修改或刪除該月份紀錄");
+  }
+}
+
+function cellToString(v) {
+  if (v === null || v === undefined) return "";
+  return String(v);
+}
+
+/**
+ * 欄位層級差異：僅記錄前後值不同的欄位
+ */
+function diffRecords(before, after) {
+  var fields = {};
+  Object.keys(before || {}).forEach(function(k) { fields[k] = true; });
+  Object.keys(after || {}).forEach(function(k) { fields[k] = true; });
+  var changes = [];
+  Object.keys(fields).forEach(function(f) {
+    var b = cellToString(before ? before[f] : "");
+    var a = cellToString(after ? after[f] : "");
+    if (b !== a) changes.push({ field: f, before: b, after: a });
+  });
+  return changes;
+}
+
+/**
+ * 稽核軌跡：僅附加寫入，不修改既有項目
+ */
+function appendAudit(state, action, id, type, operator, changes) {
+  if (action === "update" && changes.length === 0) return;
+  state.audit.push({
+    timestamp: new Date().toISOString(),
+    action: action,
+    id: id,
+    type: type,
+    operator: operator || "",
+    changes: changes
+  });
+}
+
+/**
+ * 衝突檢查：前端送出的 baseVersion 與目前版本不符時拒絕寫入
+ */
+function assertVersion(current, baseVersion) {
+  if (baseVersion === undefined || baseVersion === null || baseVersion === "") return;
+  var currentVersion = Number((current && current.version) || 0);
+  if (Number(baseVersion) !== currentVersion) {
+    var err = new Error("此紀錄已被其他人修改 (目前版本 " + currentVersion + "，送出版本 " + baseVersion + ")");
+    err.conflict = true;
+    throw err;
+  }
+}
+
+/**
+ * 重送防護：同一帳號以相同 requestId 再次送出的寫入 (例如回應遺失後由離線佇列重送)
+ * 直接回傳第一次成功時的結果，不再重複執行
+ */
+function findRequest(state, actor, requestId) {
+  return state.requests.find(function(r) { return r.requestId === requestId && r.actor === actor; });
+}
+
+function rememberRequest(state, actor, requestId, reply) {
+  var now = Date.now();
+  state.requests = state.requests.filter(function(r) { return now - new Date(r.at).getTime() < REQUEST_LOG_DAYS * 86400000; });
+  state.requests.push({ requestId: requestId, actor: actor, reply: reply, at: new Date(now).toISOString() });
+}
+
+/**
+ * 修改的紀錄已不存在 (被永久清除或移至其他類別) 時視為衝突，不可當成新增寫回
+ */
+function missingRecordConflict(id) {
+  var err = new Error("找不到紀錄 " + id + "，可能已被其他人清除或改為其他類別");
+  err.conflict = true;
+  return err;
+}
+
+function recordExists(state, id) {
+  return state.records.some(function(r) { return String(r.id).trim() === id; });
+}
+
+function isRowDeleted(r) {
+  return r.isDeleted === true || String(r.isDeleted).toUpperCase() === "TRUE";
+}
+
+/**
+ * 依 id 設定軟刪除標記並寫入稽核軌跡
+ */
+function setRecordDeletion(state, action, id, operator, baseVersion) {
+  var deleted = action === "delete";
+  var targets = state.records.filter(function(r) {
+    return String(r.id).trim() === id && isRowDeleted(r) !== deleted;
+  });
+  targets.forEach(function(r) { assertVersion(r, baseVersion); });
+  targets.forEach(function(r) {
+    var before = Object.assign({}, r);
+    r.version = Number(r.version || 0) + 1;
+    r.isDeleted = deleted ? true : "";
+    r.deletedBy = deleted ? operator : "";
+    r.deletedAt = deleted ? new Date().toISOString() : "";
+    appendAudit(state, action, id, r.type, operator, diffRecords(before, r));
+  });
+}
+
+/**
+ * 永久清除：僅限已軟刪除且超過保留期限的紀錄
+ */
+function purgeRecord(state, id, operator) {
+  var targets = state.records.filter(function(r) { return String(r.id).trim() === id; });
+  if (targets.length === 0) throw new Error("找不到紀錄: " + id);
+  targets.forEach(function(r) {
+    if (!isRowDeleted(r)) throw new Error("紀錄尚未刪除，無法永久清除");
+    var ageDays = (Date.now() - new Date(r.deletedAt).getTime()) / 86400000;
+    if (!(ageDays >= RETENTION_DAYS)) throw new Error("回收桶紀錄需保留 " + RETENTION_DAYS + " 天後才可永久清除");
+  });
+  state.records = state.records.filter(function(r) {
+    if (targets.indexOf(r) === -1) return true;
+    appendAudit(state, "purge", id, r.type, operator, diffRecords(r, {}));
+    return false;
+  });
+}
+
+/**
+ * 取得維修狀態；舊資料沒有狀態欄位時依報廢標記與日期欄位推導
+ */
+function deriveRepairStatus(r) {
+  if (REPAIR_TRANSITIONS[r.repairStatus]) return r.repairStatus;
+  if (r.isScrapped === true || String(r.isScrapped).toUpperCase() === "TRUE") return "報廢";
+  if (r.installDate) return "已上機";
+  if (r.repairDate) return "已完修";
+  if (r.sentDate) return "送修中";
+  return "待送修";
+}
+
+/**
+ * 寫入前依共用欄位規則檢查；不通過時拋出帶有 fieldErrors 的錯誤
+ */
+function assertValidRecord(type, data) {
+  var errors = validateTransaction(Object.assign({}, data, { type: type }));
+  if (Object.keys(errors).length > 0) throw validationError(errors);
+}
+
+/**
+ * 維修狀態轉換檢查：修改時僅允許維持原狀態或依狀態機前進；寫入前同步報廢標記
+ */
+function applyRepairStatus(before, payload, isExisting) {
+  var to = deriveRepairStatus(payload);
+  if (isExisting) {
+    var from = deriveRepairStatus(before);
+    if (from !== to && REPAIR_TRANSITIONS[from].indexOf(to) === -1) {
+      throw new Error("維修狀態無法由「" + from + "」變更為「" + to + "」");
+    }
+  }
+  return Object.assign({}, payload, { repairStatus: to, isScrapped: to === "報廢" });
+}
+
+function ensureUsers(state) {
+  if (state.users && state.users.length > 0) return;
+  var now = new Date().toISOString();
+  state.users = LEGACY_USERS.map(function(u) {
+    var salt = randomSalt();
+    return Object.assign({}, u, { salt: salt, passwordHash: hashPassword(salt, state.settings.MASTER_PASSWORD), active: true, mustChangePassword: true, updatedAt: now });
+  });
+}
+
+function findUser(state, username) {
+  var name = String(username || "").trim();
+  return state.users.find(function(u) { return u.username === name; });
+}
+
+function isActiveUser(u) {
+  return !!u && u.active !== false && String(u.active).toUpperCase() !== "FALSE";
+}
+
+function publicUser(u) {
+  return { username: u.username, emoji: u.emoji || "", role: u.role, active: isActiveUser(u) };
+}
+
+function checkPassword(u, password) {
+  return isActiveUser(u) && hashPassword(u.salt, String(password || "")) === u.passwordHash;
+}
+
+/**
+ * 角色檢查：依動作所需最低角色拒絕權限不足的請求
+ */
+function assertRole(state, actor, action) {
+  var required = ACTION_ROLES[action];
+  if (!required) return;
+  var user = findUser(state, actor);
+  if (!isActiveUser(user)) throw new Error("無法辨識操作人員，請重新登入");
+  if (ROLES.indexOf(user.role) < ROLES.indexOf(required)) {
+    throw new Error("權限不足：此操作需要 " + required + " 以上角色");
+  }
+}
+
+function getTokenSecret(state) {
+  if (!state.settings.TOKEN_SECRET) state.settings.TOKEN_SECRET = randomSalt() + randomSalt();
+  return state.settings.TOKEN_SECRET;
+}
+
+function signPayload(state, body) {
+  return toHex(hmacSha256(utf8Bytes(getTokenSecret(state)), utf8Bytes(body)));
+}
+
+/**
+ * 簽發權杖：base64url(內容).HMAC-SHA256 簽章
+ */
+function issueToken(state, user) {
+  var payload = { sub: user.username, exp: Date.now() + TOKEN_TTL_MS, jti: randomSalt() };
+  var body = toBase64Url(JSON.stringify(payload));
+  return { token: body + "." + signPayload(state, body), expiresAt: new Date(payload.exp).toISOString() };
+}
+
+function unauthorized(message) {
+  var err = new Error(message);
+  err.unauthorized = true;
+  return err;
+}
+
+function readToken(state, token) {
+  var parts = String(token || "").split(".");
+  if (parts.length !== 2 || !parts[0]) throw unauthorized("尚未登入，請重新登入");
+  if (signPayload(state, parts[0]) !== parts[1]) throw unauthorized("登入憑證無效，請重新登入");
+  try {
+    return JSON.parse(fromBase64Url(parts[0]));
+  } catch (e) {
+    throw unauthorized("登入憑證無效，請重新登入");
+  }
+}
+
+/**
+ * 驗證權杖：簽章、期限、撤銷清單與帳號狀態皆須通過，回傳對應的帳號
+ */
+function verifyToken(state, token) {
+  var payload = readToken(state, token);
+  if (!(Number(payload.exp) > Date.now())) throw unauthorized("登入已逾時，請重新登入");
+  if (state.revokedTokens.some(function(r) { return r.jti === payload.jti; })) throw unauthorized("此登入已登出，請重新登入");
+  var user = findUser(state, payload.sub);
+  if (!isActiveUser(user)) throw unauthorized("帳號已停用");
+  return user;
+}
+
+function revokeToken(state, token) {
+  var payload = readToken(state, token);
+  var now = Date.now();
+  // 已過期的撤銷紀錄不再需要保留
+  state.revokedTokens = state.revokedTokens.filter(function(r) { return Number(r.exp) > now; });
+  if (Number(payload.exp) > now) state.revokedTokens.push({ jti: payload.jti, exp: payload.exp });
+}
+
+function setPassword(state, user, password) {
+  if (String(password).length < 6) throw new Error("密碼長度至少需 6 個字元");
+  if (String(password) === state.settings.MASTER_PASSWORD) throw new Error("不可使用系統預設密碼");
+  user.salt = randomSalt();
+  user.passwordHash = hashPassword(user.salt, String(password));
+}
+
+/**
+ * 預設密碼或管理員設定的初始密碼只能用來改設新密碼，不能直接登入；
+ * 仍使用原共用密碼的既有帳號 (升級前已建立、沒有旗標) 一併視為須變更
+ */
+function mustChangePassword(state, user, password) {
+  return isTruthy(user.mustChangePassword) || String(password) === state.settings.MASTER_PASSWORD;
+}
+
+/**
+ * 登入：須變更密碼的帳號在同一請求附上 newPassword 後才簽發權杖
+ */
+function handleLogin(state, payload) {
+  var user = findUser(state, payload.username);
+  if (!checkPassword(user, payload.password)) return { authorized: false, message: "帳號或密碼不正確" };
+  if (mustChangePassword(state, user, payload.password)) {
+    var changeRequired = function(message) { return { authorized: false, mustChangePassword: true, message: message }; };
+    if (!payload.newPassword) return changeRequired("首次登入或密碼已由管理員重設，請設定新密碼");
+    if (String(payload.newPassword) === String(payload.password)) return changeRequired("新密碼不可與目前密碼相同");
+    try {
+      setPassword(state, user, payload.newPassword);
+    } catch (err) {
+      return changeRequired(err.message);
+    }
+    user.mustChangePassword = false;
+    user.updatedAt = new Date().toISOString();
+  }
+  var session = issueToken(state, user);
+  return { authorized: true, username: user.username, role: user.role, token: session.token, expiresAt: session.expiresAt };
+}
+
+/**
+ * 帳號維護：save_user 由管理員新增或修改帳號；change_password 僅能修改自己的密碼
+ */
+function handleUserAction(state, action, actor, payload) {
+  var username = String(payload.username || "").trim();
+  if (!username) throw new Error("帳號名稱不可空白");
+  var user = findUser(state, username);
+  var now = new Date().toISOString();
+
+  if (action === "change_password") {
+    if (username !== actor) throw new Error("僅能修改自己的密碼");
+    if (!checkPassword(user, payload.oldPassword)) throw new Error("原密碼不正確");
+    setPassword(state, user, payload.newPassword);
+    user.mustChangePassword = false;
+    user.updatedAt = now;
+    return { result: "ok" };
+  }
+
+  var role = String(payload.role || "");
+  if (ROLES.indexOf(role) === -1) throw new Error("未知的角色: " + role);
+  var active = payload.active !== false;
+  if (username === actor && (role !== "admin" || !active)) throw new Error("無法降低或停用自己的管理員權限");
+  if (!user) {
+    if (!payload.password) throw new Error("新增帳號必須設定初始密碼");
+    user = { username: username };
+    state.users.push(user);
+  }
+  user.emoji = String(payload.emoji || user.emoji || "");
+  user.role = role;
+  user.active = active;
+  user.updatedAt = now;
+  if (payload.password) {
+    setPassword(state, user, payload.password);
+    // 管理員設定的密碼只作為初始密碼，本人下次登入時須改設
+    user.mustChangePassword = username !== actor;
+  }
+  return { result: "ok" };
+}
+
+/**
+ * 廠商主檔：以名稱為鍵 (紀錄中的 vendor 欄位儲存名稱)；統一編號若填寫須為 8 碼數字
+ */
+function handleVendorAction(state, action, actor, payload) {
+  var name = String(payload.name || payload.vendor || "").trim();
+  if (!name) throw new Error("廠商名稱不可空白");
+  var now = new Date().toISOString();
+
+  if (action === "set_vendor_payment") {
+    var period = String(payload.period || "");
+    if (!/^\d{4}-\d{2}$/.test(period)) throw new Error("月份格式錯誤: " + period);
+    var status = String(payload.status || "");
+    if (PAYMENT_STATUSES.indexOf(status) === -1) throw new Error("未知的付款狀態: " + status);
+    var payment = state.vendorPayments.find(function(p) { return p.vendor === name && p.period === period; });
+    if (!payment) {
+      payment = { period: period, vendor: name };
+      state.vendorPayments.push(payment);
+    }
+    payment.status = status;
+    payment.paidAt = status === "paid" ? now : "";
+    payment.updatedBy = actor;
+    payment.updatedAt = now;
+    return { result: "ok" };
+  }
+
+  var taxId = String(payload.taxId || "").trim();
+  if (taxId && !/^\d{8}$/.test(taxId)) throw new Error("統一編號須為 8 碼數字");
+  var vendor = state.vendors.find(function(v) { return v.name === name; });
+  if (!vendor) {
+    vendor = { name: name };
+    state.vendors.push(vendor);
+  }
+  vendor.taxId = taxId;
+  vendor.contact = String(payload.contact || "").trim();
+  vendor.paymentTerms = String(payload.paymentTerms || "").trim();
+  vendor.active = payload.active !== false;
+  vendor.updatedBy = actor;
+  vendor.updatedAt = now;
+  return { result: "ok" };
+}
+
+/**
+ * 安全庫存：最低 (再訂購點) 與最高庫存皆為非負數，0 表示未設定；兩者皆設定時最高不可低於最低
+ */
+function assertStockLevels(pn, item) {
+  var min = Number(item.minStock || 0);
+  var max = Number(item.maxStock || 0);
+  if (isNaN(min) || min < 0 || isNaN(max) || max < 0) throw new Error("料號 " + pn + " 的安全庫存不正確");
+  if (min > 0 && max > 0 && max < min) throw new Error("料號 " + pn + " 的最高庫存不可低於最低庫存");
+}
+
+/**
+ * 料件主檔：以料號 (不分大小寫) 為鍵批次新增或更新
+ */
+function handleMaterialAction(state, actor, list) {
+  if (!Array.isArray(list) || list.length === 0) throw new Error("沒有可儲存的料件");
+  var now = new Date().toISOString();
+  list.forEach(function(item) {
+    var pn = String(item.pn || "").trim();
+    var name = String(item.name || "").trim();
+    if (!pn || !name) throw new Error("料號與品名不可空白");
+    var price = Number(item.defaultPrice || 0);
+    if (isNaN(price) || price < 0) throw new Error("料號 " + pn + " 的預設單價不正確");
+    assertStockLevels(pn, item);
+  });
+  list.forEach(function(item) {
+    var pn = String(item.pn).trim();
+    var material = state.materials.find(function(m) { return String(m.pn).toUpperCase() === pn.toUpperCase(); });
+    if (!material) {
+      material = { pn: pn };
+      state.materials.push(material);
+    }
+    material.name = String(item.name).trim();
+    material.unit = String(item.unit || "").trim();
+    material.defaultPrice = Number(item.defaultPrice || 0);
+    material.machineCategory = String(item.machineCategory || "");
+    material.minStock = Number(item.minStock || 0);
+    material.maxStock = Number(item.maxStock || 0);
+    material.active = item.active !== false;
+    material.updatedBy = actor;
+    material.updatedAt = now;
+  });
+  return { result: "ok", count: list.length };
+}
+
+/**
+ * 機台登錄：以機台編號 (不分大小寫) 為鍵新增或更新；啟用日期若填寫須為 YYYY-MM-DD
+ */
+function handleMachineAction(state, actor, payload) {
+  var id = String(payload.id || "").trim();
+  if (!id) throw new Error("機台編號不可空白");
+  var status = String(payload.status || "active");
+  if (MACHINE_STATUSES.indexOf(status) === -1) throw new Error("未知的機台狀態: " + status);
+  var commissionedAt = String(payload.commissionedAt || "").trim();
+  if (commissionedAt && !/^\d{4}-\d{2}-\d{2}$/.test(commissionedAt)) throw new Error("啟用日期格式錯誤: " + commissionedAt);
+  var machine = state.machines.find(function(m) { return String(m.id).toUpperCase() === id.toUpperCase(); });
+  if (!machine) {
+    machine = { id: id };
+    state.machines.push(machine);
+  }
+  machine.category = String(payload.category || "").trim();
+  machine.location = String(payload.location || "").trim();
+  machine.commissionedAt = commissionedAt;
+  machine.status = status;
+  machine.updatedBy = actor;
+  machine.updatedAt = new Date().toISOString();
+  return { result: "ok" };
+}
+
+/**
+ * 預算：以 維度 + 類別 + 期間 為鍵新增或更新；期間為 YYYY-MM (月) 或 YYYY (年度)，金額為 0 表示不設預算
+ */
+function handleBudgetAction(state, actor, payload) {
+  var dimension = String(payload.dimension || "");
+  if (BUDGET_DIMENSIONS.indexOf(dimension) === -1) throw new Error("未知的預算維度: " + dimension);
+  var category = String(payload.category || "").trim();
+  if (!category) throw new Error("預算類別不可空白");
+  var period = String(payload.period || "");
+  if (!/^\d{4}(-\d{2})?$/.test(period)) throw new Error("預算期間格式錯誤: " + period);
+  var amount = Number(payload.amount);
+  if (isNaN(amount) || amount < 0) throw new Error("預算金額不正確");
+  var budget = state.budgets.find(function(b) { return b.dimension === dimension && b.category === category && b.period === period; });
+  if (!budget) {
+    budget = { dimension: dimension, category: category, period: period };
+    state.budgets.push(budget);
+  }
+  budget.amount = amount;
+  budget.updatedBy = actor;
+  budget.updatedAt = new Date().toISOString();
+  return { result: "ok" };
+}
+
+/**
+ * 檢查報表定義內容：分組維度與彙總方式須為已知值，且至少有一個明細欄位或分組
+ */
+function normalizeReportDefinition(payload) {
+  var name = String(payload.name || "").trim();
+  if (!name) throw new Error("報表名稱不可空白");
+  if (name.length > REPORT_NAME_MAX) throw new Error("報表名稱不可超過 " + REPORT_NAME_MAX + " 字");
+  var columns = Array.isArray(payload.columns) ? payload.columns.map(String) : [];
+  var groupBy = Array.isArray(payload.groupBy) ? payload.groupBy.map(String) : [];
+  groupBy.forEach(function(d) {
+    if (REPORT_DIMENSIONS.indexOf(d) === -1) throw new Error("未知的分組維度: " + d);
+  });
+  var aggregates = (Array.isArray(payload.aggregates) ? payload.aggregates : []).map(function(a) {
+    var fn = String((a && a.fn) || "");
+    var field = String((a && a.field) || "total");
+    if (REPORT_AGGREGATE_FNS.indexOf(fn) === -1) throw new Error("未知的彙總方式: " + fn);
+    if (REPORT_MEASURES.indexOf(field) === -1) throw new Error("未知的彙總欄位: " + field);
+    return { fn: fn, field: field };
+  });
+  if (columns.length === 0 && groupBy.length === 0) throw new Error("請至少選擇一個欄位或分組維度");
+  return {
+    name: name,
+    description: String(payload.description || "").trim(),
+    filters: payload.filters && typeof payload.filters === "object" ? payload.filters : {},
+    columns: columns,
+    groupBy: groupBy,
+    aggregates: aggregates
+  };
+}
+
+function assertReportOwner(state, actor, report) {
+  var user = findUser(state, actor);
+  if (report.createdBy !== actor && !(user && user.role === "admin")) {
+    throw new Error("只有建立者或管理員可以修改或刪除此報表");
+  }
+}
+
+/**
+ * 報表定義：save_report 以名稱為鍵新增或覆寫，delete_report 依名稱刪除
+ */
+function handleReportAction(state, action, actor, payload) {
+  var now = new Date().toISOString();
+  if (action === "delete_report") {
+    var name = String(payload.name || "").trim();
+    var idx = state.reports.findIndex(function(r) { return r.name === name; });
+    if (idx === -1) throw new Error("找不到報表: " + name);
+    assertReportOwner(state, actor, state.reports[idx]);
+    state.reports.splice(idx, 1);
+    return { result: "ok" };
+  }
+  var def = normalizeReportDefinition(payload);
+  var report = state.reports.find(function(r) { return r.name === def.name; });
+  if (report) assertReportOwner(state, actor, report);
+  else {
+    report = { name: def.name, createdBy: actor };
+    state.reports.push(report);
+  }
+  Object.assign(report, def, { updatedBy: actor, updatedAt: now });
+  return { result: "ok" };
+}
+
+function normalizeRequisitionLines(lines) {
+  if (!Array.isArray(lines) || lines.length === 0) throw new Error("請購單至少需有一項料件");
+  return lines.map(function(line, i) {
+    var name = String(line.materialName || "").trim();
+    if (!name) throw new Error("第 " + (i + 1) + " 項未填料件名稱");
+    var qty = Number(line.quantity);
+    if (isNaN(qty) || qty <= 0) throw new Error("第 " + (i + 1) + " 項數量需大於 0");
+    var price = Number(line.unitPrice || 0);
+    if (isNaN(price) || price < 0) throw new Error("第 " + (i + 1) + " 項單價不正確");
+    return {
+      materialName: name,
+      materialNumber: String(line.materialNumber || "").trim(),
+      machineCategory: String(line.machineCategory || "").trim(),
+      accountCategory: String(line.accountCategory || "").trim(),
+      vendor: String(line.vendor || "").trim(),
+      quantity: qty,
+      unitPrice: price,
+      note: String(line.note || "").trim()
+    };
+  });
+}
+
+/**
+ * 請購單轉進貨：每一項產生一筆待收貨的進貨紀錄，並以 requisitionId 連回請購單
+ */
+function requisitionRecords(req, date, actor) {
+  return req.lines.map(function(line, i) {
+    return {
+      id: req.id + "-" + (i + 1),
+      date: date,
+      type: "進貨",
+      materialName: line.materialName,
+      materialNumber: line.materialNumber,
+      machineCategory: line.machineCategory,
+      machineNumber: "",
+      accountCategory: line.accountCategory,
+      vendor: line.vendor,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      note: line.note ? "請購單 " + req.id + "：" + line.note : "請購單 " + req.id,
+      operator: actor,
+      isReceived: false,
+      requisitionId: req.id
+    };
+  });
+}
+
+/**
+ * 請購單：請購人建立與送審、核准者核准或退回 (不可核准自己的請購單)、核准後轉為進貨紀錄
+ */
+function handleRequisitionAction(state, action, actor, payload) {
+  var id = String(payload.id || "").trim();
+  if (!id) throw new Error("請購單號不可空白");
+  var req = state.requisitions.find(function(r) { return r.id === id; });
+  var now = new Date().toISOString();
+
+  if (action === "save_requisition") {
+    if (req && req.requester !== actor) throw new Error("只有請購人可以修改此請購單");
+    if (req && EDITABLE_REQUISITION_STATUSES.indexOf(req.status) === -1) throw new Error("請購單已送審，無法修改");
+    var justification = String(payload.justification || "").trim();
+    if (payload.submit && !justification) throw new Error("送審前請填寫請購理由");
+    var lines = normalizeRequisitionLines(payload.lines);
+    if (!req) {
+      req = { id: id, requester: actor, createdAt: now };
+      state.requisitions.push(req);
+    }
+    req.justification = justification;
+    req.lines = lines;
+    req.status = payload.submit ? "submitted" : "draft";
+    req.approver = "";
+    req.decidedAt = "";
+    req.decisionNote = "";
+    req.updatedAt = now;
+    return { result: "ok" };
+  }
+
+  if (!req) throw new Error("找不到請購單: " + id);
+
+  if (action === "decide_requisition") {
+    if (req.status !== "submitted") throw new Error("只有送審中的請購單可以核准或退回");
+    if (req.requester === actor) throw new Error("不可核准或退回自己提出的請購單");
+    var decision = String(payload.decision || "");
+    if (REQUISITION_DECISIONS.indexOf(decision) === -1) throw new Error("未知的審核結果: " + decision);
+    var note = String(payload.note || "").trim();
+    if (decision === "rejected" && !note) throw new Error("退回請購單需填寫原因");
+    req.status = decision;
+    req.approver = actor;
+    req.decidedAt = now;
+    req.decisionNote = note;
+    req.updatedAt = now;
+    return { result: "ok" };
+  }
+
+  // order_requisition
+  if (req.status !== "approved") throw new Error("只有已核准的請購單可以轉為進貨");
+  var date = String(payload.date || "").trim();
+  assertPeriodOpen(getLockedPeriods(state), date);
+  var records = requisitionRecords(req, date, actor);
+  var rowErrors = [];
+  records.forEach(function(record, index) {
+    var errors = validateTransaction(record);
+    if (Object.keys(errors).length > 0) rowErrors.push({ index: index, id: record.id, fieldErrors: errors });
+  });
+  if (rowErrors.length > 0) throw validationError({}, rowErrors);
+  records.forEach(function(record) {
+    var row = processRowData("進貨", Object.assign({}, record, { version: 1 }), record.id, actor);
+    state.records.push(row);
+    appendAudit(state, "insert", row.id, row.type, actor, diffRecords({}, row));
+  });
+  req.status = "ordered";
+  req.orderedBy = actor;
+  req.orderedAt = now;
+  req.transactionIds = records.map(function(r) { return r.id; });
+  req.updatedAt = now;
+  return { result: "ok", count: records.length };
+}
+
+function isTruthy(v) {
+  return v === true || String(v).toUpperCase() === "TRUE";
+}
+
+/**
+ * 已到貨數量以收貨明細累計為準；僅在沒有任何明細的舊資料才採用「是否收貨」旗標 (已標記視為全數到貨)
+ */
+function receivedQuantity(record, receipts) {
+  if (receipts.length === 0) return isTruthy(record.isReceived) ? Number(record.quantity || 0) : 0;
+  return receipts.reduce(function(sum, r) { return sum + Number(r.quantity || 0); }, 0);
+}
+
+/**
+ * 修改進貨時不採信前端傳入的「是否收貨」：有收貨明細者依累計數量判定，且進貨數量不可少於已到貨數量；
+ * 沒有明細者沿用原值
+ */
+function reconcileReceived(state, id, before, data) {
+  var receipts = state.receipts.filter(function(r) { return r.recordId === id; });
+  if (receipts.length === 0) return Object.assign({}, data, { isReceived: isTruthy(before.isReceived) });
+  var received = receivedQuantity(before, receipts);
+  var qty = Number(data.quantity || 1);
+  if (qty < received) throw validationError({ quantity: "進貨數量不可少於已到貨數量 " + received });
+  return Object.assign({}, data, { isReceived: received >= qty });
+}
+
+/**
+ * 分批收貨：每次收貨記錄日期、數量與收貨人，累計不可超過進貨數量；全數到貨時同步將進貨紀錄標為已收貨
+ */
+function handleReceiptAction(state, actor, payload) {
+  var recordId = String(payload.recordId || "").trim();
+  var record = state.records.find(function(r) { return String(r.id).trim() === recordId && !isRowDeleted(r); });
+  if (!record) throw new Error("找不到進貨紀錄: " + recordId);
+  if (record.type !== "進貨") throw new Error("只有進貨紀錄可以登記收貨");
+  var date = String(payload.date || "").trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw validationError({ date: "收貨日期格式錯誤，應為 YYYY-MM-DD" });
+  if (date < String(record.date).slice(0, 10)) throw validationError({ date: "收貨日期不可早於進貨單據日期" });
+  assertPeriodOpen(getLockedPeriods(state), date);
+
+  var ordered = Number(record.quantity || 0);
+  var previous = state.receipts.filter(function(r) { return r.recordId === recordId; });
+  var received = receivedQuantity(record, previous);
+  var outstanding = ordered - received;
+  if (outstanding <= 0) throw new Error("此進貨已全數到貨");
+  var qty = Number(payload.quantity);
+  if (isNaN(qty) || qty <= 0) throw validationError({ quantity: "收貨數量需大於 0" });
+  if (qty > outstanding) throw validationError({ quantity: "收貨數量超過未到貨數量 " + outstanding });
+
+  var now = new Date().toISOString();
+  state.receipts.push({
+    id: recordId + "-R" + (previous.length + 1),
+    recordId: recordId,
+    date: date,
+    quantity: qty,
+    receiver: actor,
+    note: String(payload.note || "").trim(),
+    createdAt: now
+  });
+  var changes = [{ field: "receivedQuantity", before: String(received), after: String(received + qty) }];
+  if (received + qty >= ordered) {
+    var before = Object.assign({}, record);
+    record.isReceived = true;
+    record.version = Number(record.version || 0) + 1;
+    changes = changes.concat(diffRecords(before, record));
+  }
+  appendAudit(state, "receive", recordId, record.type, actor, changes);
+  return { result: "ok", outstanding: outstanding - qty };
+}
+
+function findRecordDate(state, id) {
+  var found = state.records.find(function(r) { return String(r.id).trim() === id; });
+  return found ? found.date : "";
+}
+
+function computeMonthlyStats(state, period) {
+  var keys = { "進貨": "inboundTotal", "用料": "usageTotal", "建置": "constructionTotal", "維修": "repairTotal" };
+  var stats = { inboundTotal: 0, usageTotal: 0, constructionTotal: 0, repairTotal: 0, grandTotal: 0 };
+  state.records.forEach(function(r) {
+    if (isRowDeleted(r) || toPeriod(r.date) !== period || !keys[r.type]) return;
+    var amount = Number(r.total || 0);
+    stats[keys[r.type]] += amount;
+    stats.grandTotal += amount;
+  });
+  return stats;
+}
+
+function handlePeriodAction(state, action, operator, payload) {
+  var period = String(payload.period || "");
+  if (!/^\d{4}-\d{2}$/.test(period)) throw new Error("月份格式錯誤: " + period);
+  var now = new Date().toISOString();
+  var existing = state.periods.find(function(p) { return p.period === period; });
+
+  if (action === "close_period") {
+    if (existing && existing.status === "closed") throw new Error(period + " 已經關帳");
+    var stats = computeMonthlyStats(state, period);
+    var row = Object.assign({ period: period, status: "closed" }, stats, {
+      closedBy: operator, closedAt: now, reopenedBy: "", reopenedAt: "", reopenReason: ""
+    });
+    if (existing) Object.assign(existing, row);
+    else state.periods.push(row);
+    state.periodLog.push({ timestamp: now, period: period, action: "close", operator: operator, reason: "" });
+    return { result: "ok", stats: stats };
+  }
+
+  // reopen_period：必須明確提供原因並留下稽核紀錄
+  var reason = String(payload.reason || "").trim();
+  if (!reason) throw new Error("重新開帳必須填寫原因");
+  if (!existing || existing.status !== "closed") throw new Error(period + " 尚未關帳");
+  Object.assign(existing, { status: "open", reopenedBy: operator, reopenedAt: now, reopenReason: reason });
+  state.periodLog.push({ timestamp: now, period: period, action: "reopen", operator: operator, reason: reason });
+  return { result: "ok" };
+}
+
+export function handleGet(state, params) {
+  ensureUsers(state);
+  var viewer;
+  try {
+    viewer = verifyToken(state, params && params.token);
+  } catch (err) {
+    return { result: "unauthorized", message: err.message };
+  }
+  // 帳號名單與角色僅供管理員維護帳號使用
+  if (params && params.action === "users") {
+    if (viewer.role !== "admin") return { result: "error", message: "權限不足：此操作需要 admin 以上角色" };
+    return state.users.map(publicUser);
+  }
+  if (params && params.action === "audit") {
+    var auditId = params.id ? String(params.id).trim() : "";
+    return state.audit.filter(function(a) { return !auditId || a.id === auditId; });
+  }
+  if (params && params.action === "periods") {
+    return { periods: state.periods.slice(), log: state.periodLog.slice() };
+  }
+  if (params && params.action === "materials") {
+    return state.materials.slice();
+  }
+  if (params && params.action === "machines") {
+    return state.machines.slice();
+  }
+  if (params && params.action === "requisitions") {
+    return state.requisitions.map(function(r) { return Object.assign({}, r); });
+  }
+  if (params && params.action === "budgets") {
+    return state.budgets.slice();
+  }
+  if (params && params.action === "reports") {
+    return state.reports.map(function(r) { return Object.assign({}, r); });
+  }
+  if (params && params.action === "receipts") {
+    return state.receipts.slice();
+  }
+  if (params && params.action === "vendors") {
+    return { vendors: state.vendors.slice(), payments: state.vendorPayments.slice() };
+  }
+  // 預設排除已刪除紀錄；action=deleted 僅回傳回收桶內容
+  var onlyDeleted = !!params && params.action === "deleted";
+  return state.records
+    .filter(function(r) { return isRowDeleted(r) === onlyDeleted; })
+    .map(function(r) { return Object.assign({}, r); });
+}
+
+export function handlePost(state, params) {
+  try {
+    var action = params.action;
+
+    ensureUsers(state);
+
+    if (action === "login") {
+      return handleLogin(state, params.data || {});
+    }
+
+    if (action === "logout") {
+      revokeToken(state, params.token);
+      return { result: "ok" };
+    }
+
+    // 操作人員身分一律取自已驗證的權杖，不採信請求內容
+    var actor = verifyToken(state, params.token).username;
+    assertRole(state, actor, action);
+
+    var requestId = String(params.requestId || "");
+    var replayed = requestId ? findRequest(state, actor, requestId) : null;
+    if (replayed) return replayed.reply;
+    var reply = handleWrite(state, action, actor, params);
+    if (requestId) rememberRequest(state, actor, requestId, reply);
+    return reply;
+  } catch (err) {
+    if (err.conflict) return { result: "conflict", message: err.message };
+    if (err.unauthorized) return { result: "unauthorized", message: err.message };
+    if (err.fieldErrors) return { result: "error", message: err.message, fieldErrors: err.fieldErrors, rowErrors: err.rowErrors };
+    return { result: "error", message: String(err) };
+  }
+}
+
+/**
+ * 已驗證身分與角色後執行寫入動作；失敗時拋出錯誤，由 handlePost 轉為回應
+ */
+function handleWrite(state, action, actor, params) {
+  if (action === "save_user" || action === "change_password") {
+    return handleUserAction(state, action, actor, params.data || {});
+  }
+
+  if (action === "close_period" || action === "reopen_period") {
+    return handlePeriodAction(state, action, actor, params.data || {});
+  }
+
+  if (action === "save_vendor" || action === "set_vendor_payment") {
+    return handleVendorAction(state, action, actor, params.data || {});
+  }
+
+  if (action === "save_materials") {
+    return handleMaterialAction(state, actor, params.data);
+  }
+
+  if (action === "save_machine") {
+    return handleMachineAction(state, actor, params.data || {});
+  }
+
+  if (action === "save_budget") {
+    return handleBudgetAction(state, actor, params.data || {});
+  }
+
+  if (action === "save_report" || action === "delete_report") {
+    return handleReportAction(state, action, actor, params.data || {});
+  }
+
+  if (action === "save_requisition" || action === "decide_requisition" || action === "order_requisition") {
+    return handleRequisitionAction(state, action, actor, params.data || {});
+  }
+
+  if (action === "record_receipt") {
+    return handleReceiptAction(state, actor, params.data || {});
+  }
+
+  var locked = getLockedPeriods(state);
+
+  if (action === "batch_insert") {
+    var list = params.data || [];
+    list.forEach(function(item) { assertPeriodOpen(locked, item.date); });
+    var rowErrors = [];
+    var seen = {};
+    var prepared = list.map(function(item, index) {
+      var data = item.type === "維修" ? applyRepairStatus({}, item, false) : item;
+      var errors = validateTransaction(data);
+      var itemId = String(item.id || "").trim();
+      if (recordExists(state, itemId)) errors.id = "紀錄編號 " + itemId + " 已存在";
+      else if (seen[itemId]) errors.id = "紀錄編號 " + itemId + " 在此批次中重複";
+      seen[itemId] = true;
+      if (Object.keys(errors).length > 0) rowErrors.push({ index: index, id: String(item.id || ""), fieldErrors: errors });
+      return data;
+    });
+    if (rowErrors.length > 0) throw validationError({}, rowErrors);
+    list.forEach(function(item, index) {
+      var data = prepared[index];
+      var row = processRowData(item.type, Object.assign({}, data, { version: 1 }), String(item.id).trim(), actor);
+      state.records.push(row);
+      appendAudit(state, "insert", row.id, row.type, actor, diffRecords({}, row));
+    });
+    return { result: "ok", count: list.length };
+  }
+
+  var type = params.type;
+  var id = String(params.id).trim();
+  if (CATEGORIES.indexOf(type) === -1) throw validationError({ type: "未知的類別: " + type });
+
+  if (action === "update" || action === "delete" || action === "restore") assertPeriodOpen(locked, findRecordDate(state, id));
+  if (action === "insert" || action === "update") assertPeriodOpen(locked, (params.data || {}).date);
+
+  if (action === "insert" && recordExists(state, id)) throw new Error("紀錄編號 " + id + " 已存在，請勿重複新增");
+
+  if (action === "insert" || action === "update") {
+    var idx = -1;
+    if (action === "update") {
+      idx = state.records.findIndex(function(r) { return r.type === type && String(r.id).trim() === id; });
+      if (idx === -1) throw missingRecordConflict(id);
+    }
+    var before = idx !== -1 ? state.records[idx] : {};
+    if (idx !== -1 && isRowDeleted(before)) throw new Error("此紀錄已刪除，請先由回收桶還原");
+    if (idx !== -1) assertVersion(before, params.baseVersion);
+    var data = type === "維修" ? applyRepairStatus(before, params.data || {}, idx !== -1) : (params.data || {});
+    assertValidRecord(type, data);
+    if (type === "進貨" && idx !== -1) data = reconcileReceived(state, id, before, data);
+    var version = Number(before.version || 0) + 1;
+    var rowData = processRowData(type, Object.assign({}, data, { version: version }), id, actor);
+    if (idx !== -1) state.records[idx] = rowData;
+    else state.records.push(rowData);
+    appendAudit(state, action, id, type, actor, diffRecords(before, rowData));
+    return { result: "ok", version: version };
+  } else if (action === "delete" || action === "restore") {
+    setRecordDeletion(state, action, id, actor, params.baseVersion);
+  } else if (action === "purge") {
+    purgeRecord(state, id, actor);
+  }
+  return { result: "ok" };
+}
@@ -0,0 +1,189 @@
+/**
+ * engine.js 的行為測試：npm test (node --test)，每個案例使用全新的記憶體狀態
+ */
+
+import test from "node:test";
+import assert from "node:assert/strict";
+import { createEmptyState, handleGet, handlePost } from "./engine.js";
+
+var NEW_PASSWORD = "secret-123";
+
+function login(state, username) {
+  var reply = handlePost(state, { action: "login", data: { username: username, password: "Jumbo.net", newPassword: NEW_PASSWORD } });
+  assert.equal(reply.authorized, true, reply.message);
+  return reply.token;
+}
+
+function setup() {
+  var state = createEmptyState();
+  return { state: state, token: login(state, "Mountain") };
+}
+
+function usage(id, overrides) {
+  return Object.assign({
+    id: id, date: "2026-10-01", type: "用料", materialName: "風扇", accountCategory: "耗材",
+    machineCategory: "A", machineNumber: "M1", quantity: 2, unitPrice: 50
+  }, overrides);
+}
+
+function repair(id, overrides) {
+  return Object.assign({
+    id: id, date: "2026-10-01", type: "維修", materialName: "主機板", faultReason: "無法開機",
+    machineCategory: "A", machineNumber: "M1", sn: "SN1", quantity: 1, unitPrice: 3000
+  }, overrides);
+}
+
+function post(ctx, action, fields) {
+  return handlePost(ctx.state, Object.assign({ action: action, token: ctx.token }, fields));
+}
+
+function save(ctx, action, record, fields) {
+  return post(ctx, action, Object.assign({ id: record.id, type: record.type, data: record }, fields));
+}
+
+test("insert recomputes total, records the actor and rejects a duplicate id", function() {
+  var ctx = setup();
+  assert.deepEqual(save(ctx, "insert", usage("U1", { total: 1, operator: "Nick" })), { result: "ok", version: 1 });
+  var rows = handleGet(ctx.state, { token: ctx.token });
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].total, 100);
+  assert.equal(rows[0].operator, "Mountain");
+
+  var again = save(ctx, "insert", usage("U1"));
+  assert.equal(again.result, "error");
+  assert.match(again.message, /已存在/);
+  assert.equal(handleGet(ctx.state, { token: ctx.token }).length, 1);
+});
+
+test("a replayed requestId returns the first reply without writing twice", function() {
+  var ctx = setup();
+  var first = save(ctx, "insert", usage("U1"), { requestId: "req-1" });
+  var replay = save(ctx, "insert", usage("U1"), { requestId: "req-1" });
+  assert.deepEqual(replay, first);
+  assert.equal(handleGet(ctx.state, { token: ctx.token }).length, 1);
+});
+
+test("batch_insert reports duplicate ids per row and writes nothing", function() {
+  var ctx = setup();
+  save(ctx, "insert", usage("U1"));
+  var reply = post(ctx, "batch_insert", { data: [usage("U1"), usage("U2"), usage("U2")] });
+  assert.equal(reply.result, "error");
+  assert.deepEqual(reply.rowErrors.map(function(r) { return r.index; }), [0, 2]);
+  assert.equal(handleGet(ctx.state, { token: ctx.token }).length, 1);
+});
+
+test("update checks the base version and treats a missing record as a conflict", function() {
+  var ctx = setup();
+  save(ctx, "insert", usage("U1"));
+  assert.deepEqual(save(ctx, "update", usage("U1", { quantity: 3 }), { baseVersion: 1 }), { result: "ok", version: 2 });
+
+  var stale = save(ctx, "update", usage("U1", { quantity: 4 }), { baseVersion: 1 });
+  assert.equal(stale.result, "conflict");
+  assert.equal(handleGet(ctx.state, { token: ctx.token })[0].quantity, 3);
+
+  assert.equal(save(ctx, "update", usage("U9"), { baseVersion: 1 }).result, "conflict");
+  assert.equal(save(ctx, "update", usage("U1", { type: "建置" }), { baseVersion: 2 }).result, "conflict");
+  assert.equal(handleGet(ctx.state, { token: ctx.token }).length, 1);
+});
+
+test("delete moves a record to the recycle bin and restore brings it back", function() {
+  var ctx = setup();
+  save(ctx, "insert", usage("U1"));
+  assert.equal(post(ctx, "delete", { id: "U1", type: "用料", baseVersion: 1 }).result, "ok");
+  assert.equal(handleGet(ctx.state, { token: ctx.token }).length, 0);
+  var bin = handleGet(ctx.state, { token: ctx.token, action: "deleted" });
+  assert.equal(bin.length, 1);
+  assert.equal(bin[0].deletedBy, "Mountain");
+
+  assert.match(save(ctx, "update", usage("U1"), { baseVersion: 2 }).message, /已刪除/);
+  assert.match(post(ctx, "purge", { id: "U1", type: "用料" }).message, /保留 30 天/);
+
+  assert.equal(post(ctx, "restore", { id: "U1", type: "用料", baseVersion: 2 }).result, "ok");
+  var rows = handleGet(ctx.state, { token: ctx.token });
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].version, 3);
+  assert.deepEqual(handleGet(ctx.state, { token: ctx.token, action: "audit", id: "U1" }).map(function(a) { return a.action; }), ["insert", "delete", "restore"]);
+});
+
+test("a closed period rejects writes until it is reopened with a reason", function() {
+  var ctx = setup();
+  save(ctx, "insert", usage("U1"));
+  var closed = post(ctx, "close_period", { data: { period: "2026-10" } });
+  assert.equal(closed.result, "ok");
+  assert.equal(closed.stats.usageTotal, 100);
+
+  assert.match(save(ctx, "insert", usage("U2")).message, /2026-10/);
+  assert.match(save(ctx, "update", usage("U1", { quantity: 5 }), { baseVersion: 1 }).message, /2026-10/);
+  assert.match(post(ctx, "delete", { id: "U1", type: "用料" }).message, /2026-10/);
+  assert.equal(save(ctx, "insert", usage("U3", { date: "2026-11-02" })).result, "ok");
+
+  assert.match(post(ctx, "reopen_period", { data: { period: "2026-10" } }).message, /原因/);
+  assert.equal(post(ctx, "reopen_period", { data: { period: "2026-10", reason: "補登" } }).result, "ok");
+  assert.equal(save(ctx, "insert", usage("U2")).result, "ok");
+});
+
+test("repair status only moves forward along the state machine", function() {
+  var ctx = setup();
+  save(ctx, "insert", repair("R1"));
+  assert.equal(handleGet(ctx.state, { token: ctx.token })[0].repairStatus, "待送修");
+
+  var skipped = save(ctx, "update", repair("R1", { repairStatus: "已完修", sentDate: "2026-10-02", repairDate: "2026-10-05" }));
+  assert.match(skipped.message, /待送修.*已完修/);
+
+  var sent = repair("R1", { repairStatus: "送修中", sentDate: "2026-10-02" });
+  assert.equal(save(ctx, "update", sent).result, "ok");
+  assert.match(save(ctx, "update", repair("R1", { repairStatus: "待送修" })).message, /送修中.*待送修/);
+
+  var missingDate = save(ctx, "update", repair("R1", { repairStatus: "已完修", sentDate: "2026-10-02" }));
+  assert.ok(missingDate.fieldErrors.repairDate);
+
+  assert.equal(save(ctx, "update", repair("R1", { repairStatus: "報廢", sentDate: "2026-10-02" })).result, "ok");
+  var row = handleGet(ctx.state, { token: ctx.token })[0];
+  assert.equal(row.isScrapped, true);
+  assert.match(save(ctx, "update", repair("R1", { repairStatus: "已上機" })).message, /報廢/);
+});
+
+test("receipts accumulate up to the ordered quantity and mark the record received", function() {
+  var ctx = setup();
+  save(ctx, "insert", usage("P1", { type: "進貨", quantity: 10 }));
+  var receive = function(quantity, date) {
+    return post(ctx, "record_receipt", { data: { recordId: "P1", date: date || "2026-10-03", quantity: quantity } });
+  };
+
+  assert.ok(receive(1, "2026-09-30").fieldErrors.date);
+  assert.deepEqual(receive(4), { result: "ok", outstanding: 6 });
+  assert.ok(receive(7).fieldErrors.quantity);
+  assert.equal(handleGet(ctx.state, { token: ctx.token })[0].isReceived, false);
+
+  var shrink = save(ctx, "update", usage("P1", { type: "進貨", quantity: 3, isReceived: true }));
+  assert.ok(shrink.fieldErrors.quantity);
+
+  assert.deepEqual(receive(6), { result: "ok", outstanding: 0 });
+  var row = handleGet(ctx.state, { token: ctx.token })[0];
+  assert.equal(row.isReceived, true);
+  assert.equal(row.version, 2);
+  assert.equal(handleGet(ctx.state, { token: ctx.token, action: "receipts" }).length, 2);
+  assert.match(receive(1).message, /全數到貨/);
+
+  save(ctx, "insert", usage("U1"));
+  assert.match(post(ctx, "record_receipt", { data: { recordId: "U1", date: "2026-10-03", quantity: 1 } }).message, /只有進貨/);
+});
+
+test("the default password only allows setting a new one", function() {
+  var state = createEmptyState();
+  var plain = handlePost(state, { action: "login", data: { username: "Uri", password: "Jumbo.net" } });
+  assert.equal(plain.authorized, false);
+  assert.equal(plain.mustChangePassword, true);
+  assert.equal(plain.token, undefined);
+
+  var reused = handlePost(state, { action: "login", data: { username: "Uri", password: "Jumbo.net", newPassword: "Jumbo.net" } });
+  assert.equal(reused.authorized, false);
+
+  var token = login(state, "Uri");
+  assert.equal(handlePost(state, { action: "login", data: { username: "Uri", password: NEW_PASSWORD } }).authorized, true);
+  assert.equal(handlePost(state, { action: "login", data: { username: "Uri", password: "Jumbo.net" } }).authorized, false);
+
+  var users = handleGet(state, { token: token, action: "users" });
+  assert.equal(users.result, "error");
+  assert.equal(handleGet(state, { action: "users" }).result, "unauthorized");
+});
@@ -0,0 +1,103 @@
+/**
+ * 倉儲月結管理系統 - 雜湊工具
+ * 純 JavaScript 的 SHA-256 與 HMAC，供 server/engine.js 在瀏覽器 (IndexedDB 後端) 與 Node 中同步使用。
+ * 雲端腳本改用 Utilities.computeDigest，兩者輸出相同。
+ */
+
+var K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+export var HASH_ROUNDS = 1000;
+
+function rotr(x, n) {
+  return (x >>> n) | (x << (32 - n));
+}
+
+export function utf8Bytes(str) {
+  return Array.from(new TextEncoder().encode(String(str)));
+}
+
+export function toHex(bytes) {
+  return bytes.map(function(b) { return ((b & 0xff) + 0x100).toString(16).slice(1); }).join("");
+}
+
+/**
+ * SHA-256：輸入與輸出皆為 0-255 的位元組陣列
+ */
+export function sha256(bytes) {
+  var h = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  var bitLen = bytes.length * 8;
+  var msg = bytes.slice();
+  msg.push(0x80);
+  while (msg.length % 64 !== 56) msg.push(0);
+  for (var s = 56; s >= 0; s -= 8) msg.push(s >= 32 ? Math.floor(bitLen / Math.pow(2, s)) & 0xff : (bitLen >>> s) & 0xff);
+
+  var w = new Array(64);
+  for (var off = 0; off < msg.length; off += 64) {
+    for (var i = 0; i < 16; i++) {
+      w[i] = (msg[off + i * 4] << 24) | (msg[off + i * 4 + 1] << 16) | (msg[off + i * 4 + 2] << 8) | msg[off + i * 4 + 3];
+    }
+    for (i = 16; i < 64; i++) {
+      var s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      var s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+    var a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], hh = h[7];
+    for (i = 0; i < 64; i++) {
+      var t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      var t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      hh = g; g = f; f = e; e = (d + t1) | 0;
+      d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+    h = [h[0] + a, h[1] + b, h[2] + c, h[3] + d, h[4] + e, h[5] + f, h[6] + g, h[7] + hh].map(function(v) { return v | 0; });
+  }
+
+  var out = [];
+  h.forEach(function(v) { out.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff); });
+  return out;
+}
+
+/**
+ * 密碼雜湊：salt 與密碼串接後反覆 SHA-256 HASH_ROUNDS 次，以提高暴力破解成本
+ */
+export function hashPassword(salt, password) {
+  var digest = sha256(utf8Bytes(salt + ":" + password));
+  for (var i = 1; i < HASH_ROUNDS; i++) digest = sha256(digest);
+  return toHex(digest);
+}
+
+export function randomSalt() {
+  var bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  return toHex(Array.from(bytes));
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104)，供工作階段權杖簽章使用
+ */
+export function hmacSha256(keyBytes, msgBytes) {
+  var key = keyBytes.length > 64 ? sha256(keyBytes) : keyBytes.slice();
+  while (key.length < 64) key.push(0);
+  var inner = sha256(key.map(function(b) { return b ^ 0x36; }).concat(msgBytes));
+  return sha256(key.map(function(b) { return b ^ 0x5c; }).concat(inner));
+}
+
+export function toBase64Url(str) {
+  var binary = utf8Bytes(str).map(function(b) { return String.fromCharCode(b); }).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function fromBase64Url(str) {
+  var binary = atob(String(str).replace(/-/g, "+").replace(/_/g, "/"));
+  var bytes = new Uint8Array(binary.length);
+  for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,91 @@
+/**
+ * 倉儲月結管理系統 - 本機 JSON 檔案伺服器
+ * 供離線開發與測試使用，介面與 Google Apps Script 部署相同：
+ *   GET  /?action=fetch&token=...  → 全部紀錄
+ *   POST /                         → { action, token, id, type, data }
+ *
+ * 啟動：npm run server  (PORT 預設 8787，DATA_FILE 預設 server/data.json)
+ * 預設只聽本機 (HOST=127.0.0.1)，且只接受開發伺服器來源的跨來源請求 (CORS_ORIGIN，逗號分隔)
+ */
+
+import http from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createEmptyState, handleGet, handlePost } from "./engine.js";
+
+var __dirname = path.dirname(fileURLToPath(import.meta.url));
+var PORT = Number(process.env.PORT || 8787);
+var HOST = process.env.HOST || "127.0.0.1";
+var ALLOWED_ORIGINS = (process.env.CORS_ORIGIN || "http://localhost:3000,http://127.0.0.1:3000")
+  .split(",")
+  .map(function(o) { return o.trim(); })
+  .filter(Boolean);
+var DATA_FILE = process.env.DATA_FILE || path.join(__dirname, "data.json");
+
+function loadState() {
+  if (!fs.existsSync(DATA_FILE)) return createEmptyState();
+  var parsed = JSON.parse(fs.readFileSync(DATA_FILE, "utf8"));
+  return Object.assign(createEmptyState(), parsed);
+}
+
+function saveState(state) {
+  var tmp = DATA_FILE + ".tmp";
+  fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+  fs.renameSync(tmp, DATA_FILE);
+}
+
+// 沒有 Origin 標頭的請求 (curl、同源) 不受限制；瀏覽器跨來源請求只接受清單內的來源
+function isAllowedOrigin(origin) {
+  return !origin || ALLOWED_ORIGINS.indexOf(origin) !== -1;
+}
+
+function sendJson(req, res, status, body) {
+  var headers = { "Content-Type": "application/json; charset=utf-8", "Vary": "Origin" };
+  var origin = req.headers.origin;
+  if (origin && isAllowedOrigin(origin)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    headers["Access-Control-Allow-Headers"] = "Content-Type";
+    headers["Access-Control-Allow-Methods"] = "GET, POST, OPTIONS";
+  }
+  res.writeHead(status, headers);
+  res.end(JSON.stringify(body));
+}
+
+var state = loadState();
+
+var server = http.createServer(function(req, res) {
+  if (!isAllowedOrigin(req.headers.origin)) {
+    return sendJson(req, res, 403, { result: "error", message: "不允許的來源: " + req.headers.origin });
+  }
+
+  if (req.method === "OPTIONS") return sendJson(req, res, 204, {});
+
+  if (req.method === "GET") {
+    var url = new URL(req.url || "/", "http://localhost");
+    return sendJson(req, res, 200, handleGet(state, Object.fromEntries(url.searchParams)));
+  }
+
+  if (req.method === "POST") {
+    var chunks = [];
+    req.on("data", function(c) { chunks.push(c); });
+    req.on("end", function() {
+      var params;
+      try {
+        params = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+      } catch (err) {
+        return sendJson(req, res, 400, { result: "error", message: "無效的 JSON 內容" });
+      }
+      var reply = handlePost(state, params);
+      saveState(state);
+      sendJson(req, res, 200, reply);
+    });
+    return;
+  }
+
+  sendJson(req, res, 405, { result: "error", message: "不支援的請求方法" });
+});
+
+server.listen(PORT, HOST, function() {
+  console.log("本機倉儲後端已啟動：http://" + HOST + ":" + PORT + " (資料檔 " + DATA_FILE + "，允許來源 " + ALLOWED_ORIGINS.join(", ") + ")");
+});
@@ -0,0 +1,106 @@
+/**
+ * 倉儲月結管理系統 - 紀錄欄位驗證規則
+ * 前端表單、本機後端 (engine.js) 共用此檔；Apps Script 無法載入模組，
+ * GAS_BACKEND.js 內保留相同內容的副本，修改規則時需一併更新。
+ */
+
+export var TRANSACTION_SCHEMA = {
+  // 各欄位的型別與基本限制
+  fields: {
+    date: { label: "單據日期", kind: "date", required: true },
+    type: { label: "類別", kind: "enum", values: ["進貨", "用料", "建置", "維修"], required: true },
+    materialName: { label: "料件名稱", kind: "text", required: true },
+    accountCategory: { label: "帳目類別", kind: "text" },
+    faultReason: { label: "故障原因", kind: "text" },
+    quantity: { label: "數量", kind: "number", required: true, positive: true },
+    unitPrice: { label: "單價", kind: "number", required: true, min: 0 },
+    sentDate: { label: "送修日", kind: "date" },
+    repairDate: { label: "完修日", kind: "date" },
+    installDate: { label: "上機日", kind: "date" },
+    repairStatus: { label: "維修狀態", kind: "enum", values: ["待送修", "送修中", "已完修", "已上機", "報廢"] }
+  },
+  // 各類別額外必填的欄位
+  required: {
+    "進貨": ["accountCategory"],
+    "用料": ["accountCategory"],
+    "建置": ["accountCategory"],
+    "維修": ["faultReason"]
+  },
+  // 跨欄位規則：order 為日期先後；requiredWhen 為特定狀態下必填 (錯誤標示於 field)
+  rules: [
+    { kind: "order", type: "維修", earlier: "sentDate", later: "repairDate", field: "repairDate", message: "完修日不可早於送修日" },
+    { kind: "order", type: "維修", earlier: "repairDate", later: "installDate", field: "installDate", message: "上機日不可早於完修日" },
+    { kind: "order", type: "維修", earlier: "sentDate", later: "installDate", field: "installDate", message: "上機日不可早於送修日" },
+    { kind: "requiredWhen", type: "維修", field: "sentDate", when: "repairStatus", values: ["送修中", "已完修", "已上機"], message: "此維修狀態需填寫送修日" },
+    { kind: "requiredWhen", type: "維修", field: "repairDate", when: "repairStatus", values: ["已完修", "已上機"], message: "此維修狀態需填寫完修日" },
+    { kind: "requiredWhen", type: "維修", field: "installDate", when: "repairStatus", values: ["已上機"], message: "狀態「已上機」需填寫上機日" }
+  ]
+};
+
+function isBlank(value) {
+  return value === undefined || value === null || String(value).trim() === "";
+}
+
+function isValidDate(value) {
+  var m = String(value).trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return false;
+  var d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.getUTCMonth() === Number(m[2]) - 1 && d.getUTCDate() === Number(m[3]);
+}
+
+function checkField(spec, value) {
+  if (isBlank(value)) return spec.required ? spec.label + "為必填" : "";
+  if (spec.kind === "date" && !isValidDate(value)) return spec.label + "格式錯誤，應為 YYYY-MM-DD";
+  if (spec.kind === "enum" && spec.values.indexOf(String(value)) === -1) return "未知的" + spec.label + ": " + value;
+  if (spec.kind === "number") {
+    var num = Number(value);
+    if (isNaN(num)) return spec.label + "需為數字";
+    if (spec.positive && !(num > 0)) return spec.label + "需大於 0";
+    if (spec.min !== undefined && num < spec.min) return spec.label + "不可小於 " + spec.min;
+  }
+  return "";
+}
+
+/**
+ * 依 TRANSACTION_SCHEMA 檢查單筆紀錄，回傳 欄位 → 錯誤訊息 (無誤時為空物件)；每個欄位只保留第一個錯誤
+ */
+export function validateTransaction(record) {
+  record = record || {};
+  var schema = TRANSACTION_SCHEMA;
+  var errors = {};
+  var add = function(field, message) { if (message && !errors[field]) errors[field] = message; };
+
+  Object.keys(schema.fields).forEach(function(field) {
+    add(field, checkField(schema.fields[field], record[field]));
+  });
+
+  (schema.required[record.type] || []).forEach(function(field) {
+    if (isBlank(record[field])) add(field, (schema.fields[field] ? schema.fields[field].label : field) + "為必填");
+  });
+
+  schema.rules.forEach(function(rule) {
+    if (rule.type && rule.type !== record.type) return;
+    if (rule.kind === "order") {
+      var earlier = record[rule.earlier];
+      var later = record[rule.later];
+      if (isValidDate(earlier) && isValidDate(later) && String(later) < String(earlier)) add(rule.field, rule.message);
+    } else if (rule.kind === "requiredWhen") {
+      if (rule.values.indexOf(String(record[rule.when])) !== -1 && isBlank(record[rule.field])) add(rule.field, rule.message);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * 驗證失敗時拋出的錯誤；fieldErrors 供呼叫端回傳結構化訊息
+ */
+export function validationError(fieldErrors, rowErrors) {
+  var fields = Object.keys(fieldErrors || {});
+  var err = new Error(rowErrors
+    ? "有 " + rowErrors.length + " 筆紀錄未通過欄位檢查"
+    : fields.map(function(f) { return fieldErrors[f]; }).join("；"));
+  err.fieldErrors = fieldErrors || {};
+  if (rowErrors) err.rowErrors = rowErrors;
+  return err;
+}
@@ -0,0 +1,85 @@
+
+import { Transaction } from '../types';
+import { AnalysisProviderKind } from './geminiService';
+import { AnalysisReport } from './analysisReportService';
+
+const HISTORY_KEY = 'wms_ai_analyses';
+// localStorage 容量有限，只保留最近的分析結果
+export const MAX_ANALYSIS_HISTORY = 30;
+
+export interface AnalysisScope {
+  year: string;
+  month: string;   // 'all' 或 MM
+  type: string;    // 'ALL' 或 TransactionType
+}
+
+export interface AnalysisEntry {
+  id: string;
+  hash: string;            // 資料集雜湊 (範圍 + 各紀錄內容 + 遮蔽設定)
+  scope: AnalysisScope;
+  scopeLabel: string;
+  provider: AnalysisProviderKind;
+  recordCount: number;
+  totalAmount: number;
+  createdAt: string;
+  markdown: string;
+  report?: AnalysisReport; // 結構化結果 (較早的紀錄沒有)
+  chunks?: number;         // 明細分段數
+  redacted?: string[];     // 送出前遮蔽的欄位
+}
+
+export const formatScopeLabel = (scope: AnalysisScope) =>
+  `${scope.year} 年${scope.month === 'all' ? '整年度' : ` ${scope.month} 月`} · ${scope.type === 'ALL' ? '全類別' : scope.type}`;
+
+// FNV-1a 32 位元雜湊，足以辨識資料是否變動
+const fnv1a = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * 資料集雜湊：與紀錄順序無關，任一筆紀錄的分析欄位或版本變動都會改變雜湊；
+ * settings 為其他會影響結果的設定 (例如遮蔽欄位)
+ */
+export const hashDataset = (scope: AnalysisScope, transactions: Transaction[], settings = '') => {
+  const rows = transactions
+    .map(t => [
+      t.id, t.version ?? '', t.date, t.type, t.machineCategory, t.machineNumber, t.materialName, t.materialNumber, t.quantity, t.total,
+      t.vendor ?? '', t.sn ?? '', t.faultReason ?? '', t.isScrapped ? 1 : 0, t.operator, t.note
+    ].join('|'))
+    .sort();
+  return fnv1a([scope.year, scope.month, scope.type, settings, ...rows].join('\n'));
+};
+
+export const loadAnalysisHistory = (): AnalysisEntry[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveHistory = (entries: AnalysisEntry[]) => {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(entries.slice(0, MAX_ANALYSIS_HISTORY)));
+  return loadAnalysisHistory();
+};
+
+/**
+ * 快取查詢：同一資料集與供應者的最新分析結果
+ */
+export const findCachedAnalysis = (hash: string, provider: AnalysisProviderKind): AnalysisEntry | undefined =>
+  loadAnalysisHistory().find(e => e.hash === hash && e.provider === provider);
+
+// 新結果置於最前；重新分析同一資料集時保留舊結果以便比較
+export const addAnalysis = (entry: Omit<AnalysisEntry, 'id'>): AnalysisEntry[] =>
+  saveHistory([{ ...entry, id: `AI-${Date.now().toString(36)}` }, ...loadAnalysisHistory()]);
+
+export const removeAnalysis = (id: string): AnalysisEntry[] =>
+  saveHistory(loadAnalysisHistory().filter(e => e.id !== id));
+
+export const clearAnalysisHistory = (): AnalysisEntry[] => saveHistory([]);
@@ -0,0 +1,182 @@
+
+import { Transaction, TransactionType } from '../types';
+
+/**
+ * 送出前的遮蔽設定：operator / sn 以代號取代 (同一人、同一序號代號相同)，note 整段移除
+ */
+export interface RedactionOptions {
+  operator: boolean;
+  sn: boolean;
+  note: boolean;
+}
+
+export const REDACTION_LABELS: Record<keyof RedactionOptions, string> = {
+  operator: '操作人員',
+  sn: '序號 (SN)',
+  note: '備註'
+};
+
+export const DEFAULT_REDACTION: RedactionOptions = { operator: true, sn: true, note: true };
+
+// 每次模型呼叫的提示詞上限 (估算 token)，超過時分段分析再彙整
+export const DEFAULT_TOKEN_BUDGET = 6000;
+
+// 彙總表保留的筆數，其餘併入「其他」
+const TOP_MACHINES = 30;
+const TOP_PARTS = 40;
+
+const REDACTION_KEY = 'wms_ai_redaction';
+
+export const loadRedactionOptions = (): RedactionOptions => {
+  try {
+    return { ...DEFAULT_REDACTION, ...JSON.parse(localStorage.getItem(REDACTION_KEY) || '{}') };
+  } catch {
+    return DEFAULT_REDACTION;
+  }
+};
+
+export const saveRedactionOptions = (options: RedactionOptions) => {
+  localStorage.setItem(REDACTION_KEY, JSON.stringify(options));
+};
+
+export interface AggregateRow {
+  key: string;
+  label: string;
+  count: number;
+  quantity: number;
+  amount: number;
+  byType: Partial<Record<TransactionType, number>>;   // 各類別金額
+}
+
+export interface PreparedDataset {
+  recordCount: number;
+  totalAmount: number;
+  byMonth: AggregateRow[];
+  byMachine: AggregateRow[];
+  byPart: AggregateRow[];
+  otherMachines: number;       // 未列入彙總表的機台數
+  otherParts: number;
+  aggregateText: string;       // 彙總表的提示詞文字
+  detailLines: string[];       // 遮蔽後的逐筆明細 (維修與有故障原因 / 備註的紀錄)
+  redacted: (keyof RedactionOptions)[];
+}
+
+/**
+ * 估算 token 數：中日韓文字約 1 字 1 token，其餘約 4 字元 1 token
+ */
+export const estimateTokens = (text: string) => {
+  const cjk = (text.match(/[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+/**
+ * 將明細行依 token 上限切段；單行超過上限時自成一段
+ */
+export const chunkLines = (lines: string[], budget: number): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+  lines.forEach(line => {
+    const cost = estimateTokens(line) + 1;
+    if (current.length > 0 && used + cost > budget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(line);
+    used += cost;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+const aggregate = (transactions: Transaction[], keyOf: (t: Transaction) => string, labelOf: (t: Transaction) => string) => {
+  const map = new Map<string, AggregateRow>();
+  transactions.forEach(t => {
+    const key = keyOf(t);
+    const row = map.get(key) || { key, label: labelOf(t), count: 0, quantity: 0, amount: 0, byType: {} };
+    const amount = Number(t.total) || 0;
+    row.count += 1;
+    row.quantity += Number(t.quantity) || 0;
+    row.amount += amount;
+    row.byType[t.type] = (row.byType[t.type] || 0) + amount;
+    map.set(key, row);
+  });
+  return Array.from(map.values());
+};
+
+const byActivity = (a: AggregateRow, b: AggregateRow) => b.count - a.count || b.amount - a.amount || a.key.localeCompare(b.key);
+
+const formatByType = (row: AggregateRow) =>
+  Object.values(TransactionType).filter(type => row.byType[type]).map(type => `${type} ${row.byType[type]}`).join('、') || '--';
+
+/**
+ * 代號對照：依首次出現順序編號，同一原值取得相同代號
+ */
+const aliasMaker = (prefix: string) => {
+  const map = new Map<string, string>();
+  return (value: string | undefined) => {
+    if (!value) return '';
+    if (!map.has(value)) map.set(value, `${prefix}${map.size + 1}`);
+    return map.get(value)!;
+  };
+};
+
+/**
+ * 本地前處理：依月份、機台、料號彙總 (只送出彙總數字)，明細只保留維修與含故障原因 / 備註 (未遮蔽時) 的紀錄並套用遮蔽
+ */
+export const prepareDataset = (transactions: Transaction[], redaction: RedactionOptions): PreparedDataset => {
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const outbound = sorted.filter(t => t.type !== TransactionType.INBOUND);
+
+  const byMonth = aggregate(sorted, t => t.date.slice(0, 7), t => t.date.slice(0, 7)).sort((a, b) => a.key.localeCompare(b.key));
+  const allMachines = aggregate(outbound, t => t.machineNumber || '未標註', t => `${t.machineNumber || '未標註'} (${t.machineCategory || '未分類'})`).sort(byActivity);
+  const allParts = aggregate(sorted, t => t.materialNumber || t.materialName, t => `${t.materialName} (#${t.materialNumber || '--'})`).sort(byActivity);
+  const byMachine = allMachines.slice(0, TOP_MACHINES);
+  const byPart = allParts.slice(0, TOP_PARTS);
+
+  const table = (title: string, rows: AggregateRow[], others: number) => [
+    `【${title}】名稱 | 筆數 | 數量 | 金額 | 各類別金額`,
+    ...rows.map(r => `${r.label} | ${r.count} | ${r.quantity} | ${r.amount} | ${formatByType(r)}`),
+    ...(others > 0 ? [`(另有 ${others} 項未列出)`] : [])
+  ].join('\n');
+  const totalAmount = sorted.reduce((acc, t) => acc + (Number(t.total) || 0), 0);
+  const aggregateText = [
+    `總筆數 ${sorted.length}，總金額 ${totalAmount}`,
+    table('每月', byMonth, 0),
+    table('機台 (用料 / 建置 / 維修)', byMachine, allMachines.length - byMachine.length),
+    table('料號', byPart, allParts.length - byPart.length)
+  ].join('\n\n');
+
+  const operatorAlias = aliasMaker('人員');
+  const snAlias = aliasMaker('SN-');
+  const detailLines = sorted
+    .filter(t => t.type === TransactionType.REPAIR || t.faultReason || (t.note && !redaction.note))
+    .map(t => [
+      t.date,
+      t.type,
+      `機台 ${t.machineNumber || '未標註'}`,
+      `料件 ${t.materialName}(#${t.materialNumber || '--'})`,
+      `數量 ${t.quantity}`,
+      `金額 ${t.total}`,
+      t.vendor ? `廠商 ${t.vendor}` : '',
+      t.sn ? `SN ${redaction.sn ? snAlias(t.sn) : t.sn}` : '',
+      t.faultReason ? `故障 ${t.faultReason}` : '',
+      t.isScrapped ? '已報廢' : '',
+      t.operator ? `人員 ${redaction.operator ? operatorAlias(t.operator) : t.operator}` : '',
+      t.note && !redaction.note ? `備註 ${t.note}` : ''
+    ].filter(Boolean).join(' | '));
+
+  return {
+    recordCount: sorted.length,
+    totalAmount,
+    byMonth,
+    byMachine,
+    byPart,
+    otherMachines: allMachines.length - byMachine.length,
+    otherParts: allParts.length - byPart.length,
+    aggregateText,
+    detailLines,
+    redacted: (Object.keys(REDACTION_LABELS) as (keyof RedactionOptions)[]).filter(k => redaction[k])
+  };
+};
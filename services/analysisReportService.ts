@@ -0,0 +1,77 @@
+
+export type FindingSeverity = 'high' | 'medium' | 'low';
+export type EntityKind = 'machine' | 'material' | 'month' | 'vendor' | 'category';
+
+export interface AffectedEntity {
+  kind: EntityKind;
+  id: string;              // 機台編號、料號、YYYY-MM、廠商名稱或機台種類
+}
+
+export interface AnalysisFinding {
+  title: string;
+  detail: string;
+  severity: FindingSeverity;
+  entities: AffectedEntity[];
+  recommendation: string;
+}
+
+/**
+ * 結構化分析結果；Markdown 由此產生，兩者內容一致
+ */
+export interface AnalysisReport {
+  summary: string;
+  findings: AnalysisFinding[];
+}
+
+export const SEVERITY_LABELS: Record<FindingSeverity, string> = { high: '高', medium: '中', low: '低' };
+
+export const SEVERITY_BADGES: Record<FindingSeverity, string> = {
+  high: 'bg-rose-100 text-rose-600',
+  medium: 'bg-amber-100 text-amber-600',
+  low: 'bg-slate-100 text-slate-500'
+};
+
+export const ENTITY_LABELS: Record<EntityKind, string> = {
+  machine: '機台',
+  material: '料號',
+  month: '月份',
+  vendor: '廠商',
+  category: '機台種類'
+};
+
+const SEVERITY_ORDER: FindingSeverity[] = ['high', 'medium', 'low'];
+
+/**
+ * 整理模型回傳的 JSON：未知的嚴重度視為 low、未知的實體種類與空白項目略過，依嚴重度排序
+ */
+export const normalizeAnalysisReport = (raw: any): AnalysisReport => {
+  const text = (v: any) => String(v ?? '').trim();
+  const findings = (Array.isArray(raw?.findings) ? raw.findings : [])
+    .map((f: any): AnalysisFinding => ({
+      title: text(f?.title),
+      detail: text(f?.detail),
+      severity: SEVERITY_ORDER.includes(f?.severity) ? f.severity : 'low',
+      recommendation: text(f?.recommendation),
+      entities: (Array.isArray(f?.entities) ? f.entities : [])
+        .filter((e: any) => e?.kind in ENTITY_LABELS && text(e?.id))
+        .map((e: any) => ({ kind: e.kind, id: text(e.id) }))
+    }))
+    .filter((f: AnalysisFinding) => f.title || f.detail);
+  return {
+    summary: text(raw?.summary),
+    findings: findings.sort((a: AnalysisFinding, b: AnalysisFinding) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+  };
+};
+
+export const renderReportMarkdown = (report: AnalysisReport, title: string) => {
+  const lines = [`## ${title}`, '', report.summary || '(無摘要)', ''];
+  if (report.findings.length === 0) lines.push('未發現需要注意的項目。');
+  report.findings.forEach((f, i) => {
+    lines.push(`### ${i + 1}. [${SEVERITY_LABELS[f.severity]}] ${f.title}`, '');
+    if (f.detail) lines.push(f.detail, '');
+    if (f.entities.length > 0) lines.push(`- **影響對象**：${f.entities.map(e => `${ENTITY_LABELS[e.kind]} ${e.id}`).join('、')}`);
+    if (f.recommendation) lines.push(`- **建議**：${f.recommendation}`);
+    lines.push('');
+  });
+  return lines.join('\n').trim();
+};
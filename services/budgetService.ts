@@ -0,0 +1,117 @@
+
+import { Transaction, TransactionType, Budget, BudgetDimension } from '../types';
+import { MACHINE_CATEGORIES } from './materialService';
+
+export const BUDGET_DIMENSION_LABELS: Record<BudgetDimension, string> = {
+  account: '帳目類別',
+  machine: '機台種類'
+};
+
+export const BUDGET_CATEGORIES: Record<BudgetDimension, string[]> = {
+  account: ['A', 'B', 'C'],
+  machine: MACHINE_CATEGORIES
+};
+
+// 與 Dashboard 結算一致，只有進貨與維修計入支出
+export const SPEND_TYPES = [TransactionType.INBOUND, TransactionType.REPAIR];
+
+export interface BudgetStatus {
+  budget: Budget;
+  isAnnual: boolean;
+  actual: number;
+  remaining: number;      // 負數表示已超支
+  usedRatio: number;      // 實際 / 預算 (預算為 0 時為 0)
+  elapsedRatio: number;   // 期間已經過的比例 (0 ~ 1)
+  projected: number;      // 依目前消耗速度推估期末支出
+}
+
+export interface BudgetWarning {
+  budget: Budget;
+  actual: number;   // 不含本筆的已發生支出
+  after: number;    // 加上本筆後的支出
+}
+
+const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+export const isAnnualBudget = (budget: Budget) => budget.period.length === 4;
+
+export const budgetKey = (b: Pick<Budget, 'dimension' | 'category' | 'period'>) => `${b.dimension}|${b.category}|${b.period}`;
+
+export const formatBudgetPeriod = (period: string) =>
+  period.length === 4 ? `${period} 年度` : `${period.slice(0, 4)} 年 ${period.slice(5)} 月`;
+
+const categoryOf = (t: Pick<Transaction, 'accountCategory' | 'machineCategory'>, dimension: BudgetDimension) =>
+  String((dimension === 'account' ? t.accountCategory : t.machineCategory) || '').trim();
+
+const spendFor = (transactions: Transaction[], budget: Budget, excludeId = '') =>
+  transactions
+    .filter(t => t.id !== excludeId && SPEND_TYPES.includes(t.type) && t.date.startsWith(budget.period) && categoryOf(t, budget.dimension) === budget.category)
+    .reduce((sum, t) => sum + (t.total || 0), 0);
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/**
+ * 期間已經過的比例：今天之前結束為 1、尚未開始為 0，進行中的期間含今天計算
+ */
+export const periodElapsedRatio = (period: string, today = getTaipeiToday()): number => {
+  const start = period.length === 4 ? `${period}-01-01` : `${period}-01`;
+  const endDate = period.length === 4
+    ? new Date(Date.UTC(Number(period), 11, 31))
+    : new Date(Date.UTC(Number(period.slice(0, 4)), Number(period.slice(5)), 0));
+  const end = endDate.toISOString().slice(0, 10);
+  if (today < start) return 0;
+  if (today > end) return 1;
+  return (daysBetween(start, today) + 1) / (daysBetween(start, end) + 1);
+};
+
+export const buildBudgetStatus = (transactions: Transaction[], budget: Budget, today = getTaipeiToday()): BudgetStatus => {
+  const actual = spendFor(transactions, budget);
+  const elapsedRatio = periodElapsedRatio(budget.period, today);
+  return {
+    budget,
+    isAnnual: isAnnualBudget(budget),
+    actual,
+    remaining: budget.amount - actual,
+    usedRatio: budget.amount > 0 ? actual / budget.amount : 0,
+    elapsedRatio,
+    projected: elapsedRatio > 0 ? actual / elapsedRatio : actual
+  };
+};
+
+/**
+ * Dashboard 預算對照：選定月份時列出該月的月預算與當年度的年度預算；整年度時僅列年度預算
+ */
+export const buildBudgetReport = (
+  transactions: Transaction[],
+  budgets: Budget[],
+  year: string,
+  month: string,
+  today = getTaipeiToday()
+): BudgetStatus[] => {
+  const periods = month === 'all' ? [year] : [`${year}-${month}`, year];
+  return budgets
+    .filter(b => b.amount > 0 && periods.includes(b.period))
+    .sort((a, b) => b.period.length - a.period.length || a.dimension.localeCompare(b.dimension) || a.category.localeCompare(b.category))
+    .map(b => buildBudgetStatus(transactions, b, today));
+};
+
+/**
+ * 檢查一筆支出是否會使所屬類別超出月預算或年度預算
+ * 編輯既有紀錄時先排除該筆原始金額，無超支時回傳空陣列。
+ */
+export const checkBudgetImpact = (
+  transactions: Transaction[],
+  budgets: Budget[],
+  draft: Pick<Transaction, 'id' | 'date' | 'type' | 'accountCategory' | 'machineCategory' | 'total'>
+): BudgetWarning[] => {
+  if (!SPEND_TYPES.includes(draft.type) || !draft.date || !(draft.total > 0)) return [];
+  const periods = [draft.date.slice(0, 7), draft.date.slice(0, 4)];
+  return budgets
+    .filter(b => b.amount > 0 && periods.includes(b.period) && categoryOf(draft, b.dimension) === b.category)
+    .map(budget => {
+      const actual = spendFor(transactions, budget, draft.id);
+      return { budget, actual, after: actual + draft.total };
+    })
+    .filter(w => w.after > w.budget.amount);
+};
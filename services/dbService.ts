@@ -1,37 +1,15 @@
 
-import { Transaction, TransactionType } from "../types";
-
-// 使用者提供的最新穩定網址
-const DEFAULT_URL = "https://script.google.com/macros/s/AKfycbyJ1JWbmU350jW9LXs9yMJaF31pDqWI0sAethLLL160kuu4ZjHLzDNVa5crLQpchTWW/exec";
-
-const getScriptUrl = () => {
-  const saved = localStorage.getItem('google_sheet_script_url');
-  if (!saved || !saved.includes('/exec')) return DEFAULT_URL;
-  return saved.trim();
-};
-
-const toTaipeiISO = (dateStr: string | undefined) => {
-  if (!dateStr) return "";
-  try {
-    const d = new Date(dateStr);
-    if (isNaN(d.getTime())) return "";
-    return d.toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
-  } catch {
-    return "";
-  }
-};
-
-const parseBool = (val: any): boolean => {
-  if (val === true || val === 1 || val === "true") return true;
-  if (typeof val === 'string') {
-    const s = val.trim().toUpperCase();
-    return s === 'TRUE' || s === '1' || s === 'YES' || s === '是';
-  }
-  return false;
-};
+import { Transaction, TransactionType, AuditEntry, UserAccount, Vendor, PaymentStatus, Material, Machine, Budget, Requisition, Receipt, ReportDefinition } from "../types";
+import { getBackend, getBackendKind, getScriptUrl, setToken, getToken, onUnauthorized, StorageBackend, LoginResult, MutationResult, WriteResult, PeriodState, UserInput, VendorState, RequisitionDraft, ReceiptDraft } from "./storage";
+import { outboxService } from "./outboxService";
 
 export const dbService = {
+  get backend(): StorageBackend {
+    return getBackend();
+  },
+
   isConfigured(): boolean {
+    if (getBackendKind() !== 'sheets') return true;
     const url = getScriptUrl();
     return !!url && url.startsWith('https://script.google.com/');
   },
@@ -40,164 +18,159 @@ export const dbService = {
     localStorage.setItem('google_sheet_script_url', newUrl);
   },
 
-  async verifyLogin(username: string, password: string): Promise<{ authorized: boolean; message?: string }> {
-    const url = DEFAULT_URL;
-    try {
-      // 解決 Failed to fetch 的核心方案：
-      // 1. 使用 text/plain 避免引發 OPTIONS 預檢請求。
-      // 2. redirect: 'follow' 處理 GAS 的重新導向。
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
-        body: JSON.stringify({
-          action: 'login',
-          data: { username, password }
-        }),
-        redirect: 'follow'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP 伺服器回傳狀態: ${response.status}`);
-      }
-      
-      const res = await response.json();
-      return { authorized: res.authorized === true, message: res.message };
-    } catch (e: any) {
-      console.error("Login verification network error:", e);
-      if (e.message === 'Failed to fetch') {
-        return { 
-          authorized: false, 
-          message: "連線失敗：請確認 Google 腳本已部署為『任何人 (Anyone)』且權限正確。" 
-        };
-      }
-      return { authorized: false, message: `系統連線異常: ${e.message}` };
-    }
-  },
-
-  async fetchAll(signal?: AbortSignal, retries = 1): Promise<Transaction[]> {
-    const url = DEFAULT_URL;
-    
-    const fetchWithRetry = async (attempt: number): Promise<Transaction[]> => {
-      try {
-        const separator = url.includes('?') ? '&' : '?';
-        const finalUrl = `${url}${separator}action=fetch&_=${Date.now()}`;
-        
-        const response = await fetch(finalUrl, { 
-          method: 'GET', 
-          mode: 'cors',
-          redirect: 'follow', 
-          signal,
-          cache: 'no-cache'
-        });
-        
-        if (!response.ok) throw new Error(`HTTP ${response.status}`);
-        
-        const data = await response.json();
-        if (!Array.isArray(data)) return [];
-
-        return data.map((item: any, index: number) => {
-          const type = (item.type || item.類別 || TransactionType.INBOUND) as TransactionType;
-          const unitPrice = Number(item.unitPrice || item.單價 || item['維修單價'] || item['費用'] || 0);
-          const quantity = Number(item.quantity || item.數量 || 1);
-          const total = Number(item.total || item.總額 || item['維修總額'] || item['小計'] || item['結算總額'] || (unitPrice * quantity));
-
-          return {
-            id: String(item.id || item.ID || item['編號'] || `row-${index + 1}`).trim(),
-            date: toTaipeiISO(item.date || item.日期),
-            type: type,
-            accountCategory: String(item.帳目類別 || item.accountCategory || 'A'),
-            materialName: String(item.materialName || item.料件名稱 || item['維修零件/主體'] || '未命名'),
-            materialNumber: String(item.materialNumber || item.料件編號 || item['料件編號(PN)'] || ''),
-            machineCategory: String(item.機台種類 || item.machineCategory || 'BA'),
-            machineNumber: String(item.機台編號 || item.machineNumber || item['機台 ID'] || ''),
-            sn: String(item.sn || item.序號 || item['設備序號(SN)'] || ''),
-            quantity: quantity,
-            unitPrice: unitPrice,
-            total: total,
-            note: String(item.note || item.備註 || ''),
-            operator: String(item.操作人員 || item.operator || '系統'),
-            faultReason: String(item.故障原因 || item.faultReason || ''),
-            isScrapped: parseBool(item.isScrapped || item['是否報廢']),
-            isReceived: parseBool(item.isReceived || item['是否收貨']),
-            sentDate: toTaipeiISO(item.送修日期 || item.sentDate),
-            repairDate: toTaipeiISO(item.完修日期 || item.repairDate),
-            installDate: toTaipeiISO(item.上機日期 || item.installDate)
-          };
-        });
-      } catch (error: any) {
-        if (error.name === 'AbortError') throw error;
-        if (attempt < retries) return fetchWithRetry(attempt + 1);
-        throw error;
-      }
-    };
-    return fetchWithRetry(0).catch(() => []);
-  },
-
-  async save(transaction: Transaction): Promise<boolean> {
-    return this.postToCloud('insert', transaction.id, transaction.type, transaction);
-  },
-
-  async batchSave(transactions: Transaction[]): Promise<boolean> {
-    const url = DEFAULT_URL;
-    if (!url || transactions.length === 0) return false;
-    try {
-      const payload = {
-        action: 'batch_insert',
-        data: transactions.map(tx => ({
-          ...tx,
-          date: toTaipeiISO(tx.date),
-          sentDate: toTaipeiISO(tx.sentDate),
-          repairDate: toTaipeiISO(tx.repairDate),
-          installDate: toTaipeiISO(tx.installDate)
-        }))
-      };
-      await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
-        body: JSON.stringify(payload),
-        redirect: 'follow'
-      });
-      return true;
-    } catch (e) {
-      console.error("Batch save error:", e);
-      return false;
-    }
-  },
-
-  async update(transaction: Transaction): Promise<boolean> {
-    return this.postToCloud('update', transaction.id, transaction.type, transaction);
-  },
-
-  async delete(id: string, type: TransactionType): Promise<boolean> {
-    return this.postToCloud('delete', id, type, {});
-  },
-
-  async postToCloud(action: string, id: string, type: string, transaction: any): Promise<boolean> {
-    const url = DEFAULT_URL;
-    if (!url) return false;
-    try {
-      const payload = {
-        action,
-        id: String(id).trim(),
-        type, 
-        data: action === 'delete' ? {} : {
-          ...transaction,
-          date: toTaipeiISO(transaction.date),
-          sentDate: toTaipeiISO(transaction.sentDate),
-          repairDate: toTaipeiISO(transaction.repairDate),
-          installDate: toTaipeiISO(transaction.installDate)
-        }
-      };
-      await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
-        body: JSON.stringify(payload),
-        redirect: 'follow'
-      });
-      return true;
-    } catch (e) {
-      console.error("Cloud post error:", e);
-      return false;
-    }
+  // 登入成功後保存後端簽發的權杖，之後所有請求皆附帶此權杖；須變更密碼時以 newPassword 一併送出
+  async verifyLogin(username: string, password: string, newPassword?: string): Promise<LoginResult> {
+    const res = await this.backend.verifyLogin(username, password, newPassword);
+    setToken(res.authorized ? res.token || null : null);
+    return res;
+  },
+
+  hasSession(): boolean {
+    return !!getToken();
+  },
+
+  // 登出時通知後端撤銷權杖；即使連線失敗也會清除本機權杖
+  async logout(): Promise<void> {
+    const token = getToken();
+    setToken(null);
+    if (token) await this.backend.logout(token);
+  },
+
+  onUnauthorized(handler: ((message: string) => void) | null) {
+    onUnauthorized(handler);
+  },
+
+  async fetchUsers(): Promise<UserAccount[]> {
+    return this.backend.fetchUsers();
+  },
+
+  async saveUser(user: UserInput): Promise<MutationResult> {
+    return this.backend.saveUser(user);
+  },
+
+  async changePassword(username: string, oldPassword: string, newPassword: string): Promise<MutationResult> {
+    return this.backend.changePassword(username, oldPassword, newPassword);
+  },
+
+  async fetchAll(signal?: AbortSignal): Promise<Transaction[]> {
+    return this.backend.fetchAll(signal);
+  },
+
+  // 新增、修改、刪除皆經由離線佇列送出，斷線時先保存於本機
+  async save(transaction: Transaction): Promise<WriteResult> {
+    return outboxService.submit({ action: 'insert', recordId: transaction.id, type: transaction.type, payload: transaction });
+  },
+
+  async batchSave(transactions: Transaction[]): Promise<WriteResult> {
+    if (transactions.length === 0) return { ok: false, message: '沒有可同步的紀錄' };
+    return outboxService.submit({ action: 'batch_insert', recordId: '', type: '', payload: transactions });
+  },
+
+  async update(transaction: Transaction, baseVersion?: number): Promise<WriteResult> {
+    return outboxService.submit({ action: 'update', recordId: transaction.id, type: transaction.type, payload: transaction, baseVersion });
+  },
+
+  async delete(id: string, type: TransactionType, operator: string, baseVersion?: number): Promise<WriteResult> {
+    return outboxService.submit({ action: 'delete', recordId: id, type, payload: { operator }, baseVersion });
+  },
+
+  async fetchDeleted(): Promise<Transaction[]> {
+    return this.backend.fetchDeleted();
+  },
+
+  async restore(id: string, type: TransactionType, operator: string): Promise<MutationResult> {
+    return this.backend.restore(id, type, operator);
+  },
+
+  async purge(id: string, type: TransactionType, operator: string): Promise<MutationResult> {
+    return this.backend.purge(id, type, operator);
+  },
+
+  async fetchAudit(id: string): Promise<AuditEntry[]> {
+    return this.backend.fetchAudit(id);
+  },
+
+  async fetchPeriods(): Promise<PeriodState> {
+    return this.backend.fetchPeriods();
+  },
+
+  async closePeriod(period: string, operator: string): Promise<MutationResult> {
+    return this.backend.closePeriod(period, operator);
+  },
+
+  async reopenPeriod(period: string, operator: string, reason: string): Promise<MutationResult> {
+    return this.backend.reopenPeriod(period, operator, reason);
+  },
+
+  async fetchVendors(): Promise<VendorState> {
+    return this.backend.fetchVendors();
+  },
+
+  async saveVendor(vendor: Vendor): Promise<MutationResult> {
+    return this.backend.saveVendor(vendor);
+  },
+
+  async setVendorPayment(vendor: string, period: string, status: PaymentStatus): Promise<MutationResult> {
+    return this.backend.setVendorPayment(vendor, period, status);
+  },
+
+  async fetchMaterials(): Promise<Material[]> {
+    return this.backend.fetchMaterials();
+  },
+
+  async saveMaterials(materials: Material[]): Promise<MutationResult> {
+    return this.backend.saveMaterials(materials);
+  },
+
+  async fetchMachines(): Promise<Machine[]> {
+    return this.backend.fetchMachines();
+  },
+
+  async saveMachine(machine: Machine): Promise<MutationResult> {
+    return this.backend.saveMachine(machine);
+  },
+
+  async fetchBudgets(): Promise<Budget[]> {
+    return this.backend.fetchBudgets();
+  },
+
+  async saveBudget(budget: Budget): Promise<MutationResult> {
+    return this.backend.saveBudget(budget);
+  },
+
+  async fetchReports(): Promise<ReportDefinition[]> {
+    return this.backend.fetchReports();
+  },
+
+  async saveReport(report: ReportDefinition): Promise<MutationResult> {
+    return this.backend.saveReport(report);
+  },
+
+  async deleteReport(name: string): Promise<MutationResult> {
+    return this.backend.deleteReport(name);
+  },
+
+  async fetchRequisitions(): Promise<Requisition[]> {
+    return this.backend.fetchRequisitions();
+  },
+
+  async saveRequisition(draft: RequisitionDraft): Promise<MutationResult> {
+    return this.backend.saveRequisition(draft);
+  },
+
+  async decideRequisition(id: string, decision: 'approved' | 'rejected', note: string): Promise<MutationResult> {
+    return this.backend.decideRequisition(id, decision, note);
+  },
+
+  async orderRequisition(id: string, date: string): Promise<WriteResult> {
+    return this.backend.orderRequisition(id, date);
+  },
+
+  async fetchReceipts(): Promise<Receipt[]> {
+    return this.backend.fetchReceipts();
+  },
+
+  async recordReceipt(draft: ReceiptDraft): Promise<WriteResult> {
+    return this.backend.recordReceipt(draft);
   }
 };
@@ -1,38 +1,412 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { Transaction, TransactionType } from "../types";
+import { RecordQuery, QueryVocabulary, QUERY_STATUS_LABELS, normalizeRecordQuery, parseQueryLocally } from "./searchQueryService";
+import { ExtractedInvoice, InvoiceFile, normalizeExtractedInvoice } from "./invoiceService";
+import { findInvoiceFixture } from "./invoiceFixtures";
+import { PreparedDataset, RedactionOptions, DEFAULT_REDACTION, DEFAULT_TOKEN_BUDGET, REDACTION_LABELS, prepareDataset, estimateTokens, chunkLines } from "./analysisPrepService";
+import { AnalysisReport, ENTITY_LABELS, normalizeAnalysisReport, renderReportMarkdown } from "./analysisReportService";
 
-import { GoogleGenAI } from "@google/genai";
-import { Transaction } from "../types";
-
-export const analyzeWarehouseData = async (transactions: Transaction[]) => {
-  // Always use { apiKey: process.env.API_KEY } as per guidelines
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const summary = transactions.map(t => 
-    `${t.date} | ${t.type} | 機台: ${t.machineNumber || '未標註'} | 料件: ${t.materialName}(#${t.materialNumber}) | 數量: ${t.quantity} | 金額: ${t.total}`
-  ).join('\n');
-
-  const prompt = `
-    你是一位專業的倉儲數據分析專家。請根據以下本月的倉儲結算數據進行分析，數據包含日期、類別、機台編號及零件資訊：
-    
-    ${summary}
-
-    請提供以下見解：
-    1. 機台零件損耗趨勢：分析是否有特定機台領用零件頻率異常偏高。
-    2. 料件消耗與庫存建議：觀察特定料號的領用頻率，給予下月採購策略。
-    3. 成本結構與優化：針對「進貨」、「用料」與「建置」的比例進行合理性分析。
-    
-    請使用專業口吻並以 Markdown 格式輸出。
-  `;
+export type AnalysisProviderKind = 'gemini' | 'stub';
 
-  try {
-    // Upgraded model to gemini-3-pro-preview for complex reasoning and analysis tasks
+// single：資料一次送出；map：分段分析明細；reduce：彙整各段結果
+export type AnalysisStage = 'single' | 'map' | 'reduce';
+
+export interface AnalysisRequest {
+  stage: AnalysisStage;
+  prompt: string;
+  dataset: PreparedDataset;       // 本地彙總並遮蔽後的資料
+  scopeLabel: string;             // 分析區間說明，例如「2025 年 03 月 · 全類別」
+  chunk?: string[];               // map 階段的明細段落
+  partials?: AnalysisReport[];    // reduce 階段要合併的結果
+}
+
+export interface QueryParseRequest {
+  text: string;
+  vocabulary: QueryVocabulary;
+  today: string;          // YYYY-MM-DD，解析「上個月」等相對日期用
+}
+
+/**
+ * AI 分析供應者：analyze 回傳結構化分析結果，parseQuery 將自然語言搜尋轉為篩選條件，
+ * extractInvoice 辨識發票 / 估價單影像；失敗時拋出錯誤
+ */
+export interface AnalysisProvider {
+  kind: AnalysisProviderKind;
+  label: string;
+  analyze: (request: AnalysisRequest) => Promise<AnalysisReport>;
+  parseQuery: (request: QueryParseRequest) => Promise<RecordQuery>;
+  extractInvoice: (file: InvoiceFile) => Promise<ExtractedInvoice>;
+}
+
+export const ANALYSIS_ERROR_MESSAGE = "分析失敗，請確認 API Key 與網路連線。";
+export const EXTRACTION_ERROR_MESSAGE = "發票辨識失敗，請確認檔案清晰且 API Key 與網路連線正常。";
+
+// 結構化輸出：欄位與 RecordQuery 相同，不限的欄位回傳空字串或 null
+const RECORD_QUERY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    types: { type: Type.ARRAY, items: { type: Type.STRING, enum: Object.values(TransactionType) } },
+    dateFrom: { type: Type.STRING, description: '起始日期 YYYY-MM-DD (含)，不限時為空字串' },
+    dateTo: { type: Type.STRING, description: '結束日期 YYYY-MM-DD (含)，不限時為空字串' },
+    minTotal: { type: Type.NUMBER, nullable: true, description: '金額下限 (含)' },
+    maxTotal: { type: Type.NUMBER, nullable: true, description: '金額上限 (含)' },
+    machineCategory: { type: Type.STRING },
+    machineNumber: { type: Type.STRING },
+    vendor: { type: Type.STRING },
+    status: { type: Type.STRING, enum: ['', ...Object.keys(QUERY_STATUS_LABELS)] },
+    keyword: { type: Type.STRING, description: '其餘要比對品名、PN、SN 或備註的關鍵字，以空白分隔' }
+  },
+  required: ['types', 'dateFrom', 'dateTo', 'minTotal', 'maxTotal', 'machineCategory', 'machineNumber', 'vendor', 'status', 'keyword']
+};
+
+const buildQueryPrompt = ({ text, vocabulary, today }: QueryParseRequest) => `
+  你是倉儲系統的搜尋助理，請將使用者的查詢轉為篩選條件 JSON。今天是 ${today}。
+  - types：紀錄類別，可為 ${Object.values(TransactionType).join('、')}。
+  - dateFrom / dateTo：相對日期 (例如「上個月」、「近 30 天」) 請換算為實際日期。
+  - minTotal / maxTotal：金額門檻 (新台幣)，「超過 5000」為 minTotal 5000。
+  - status：pending_inbound (未到貨)、scrapped (報廢)、repairing (維修中)，不限時為空字串。
+  - machineCategory 只能是：${vocabulary.machineCategories.join('、')}。
+  - vendor 只能是：${vocabulary.vendors.join('、') || '(無)'}。
+  - machineNumber 為機台編號，例如：${vocabulary.machineNumbers.slice(0, 20).join('、') || '(無)'}。
+  未提及的條件請留空，不要自行推測。
+
+  查詢：${text}
+`;
+
+const CONFIDENCE_SCHEMA = { type: Type.NUMBER, description: '0 到 1 的辨識信心分數' };
+
+const INVOICE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    date: { type: Type.STRING, description: '發票日期 YYYY-MM-DD，無法辨識時為空字串' },
+    vendor: { type: Type.STRING, description: '開立發票的廠商名稱' },
+    invoiceNumber: { type: Type.STRING },
+    confidence: { type: Type.OBJECT, properties: { date: CONFIDENCE_SCHEMA, vendor: CONFIDENCE_SCHEMA } },
+    lines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          materialNumber: { type: Type.STRING, description: '料號 (PN)，沒有時為空字串' },
+          materialName: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          unitPrice: { type: Type.NUMBER, description: '未稅單價' },
+          confidence: {
+            type: Type.OBJECT,
+            properties: { materialNumber: CONFIDENCE_SCHEMA, materialName: CONFIDENCE_SCHEMA, quantity: CONFIDENCE_SCHEMA, unitPrice: CONFIDENCE_SCHEMA }
+          }
+        },
+        required: ['materialNumber', 'materialName', 'quantity', 'unitPrice', 'confidence']
+      }
+    }
+  },
+  required: ['date', 'vendor', 'invoiceNumber', 'confidence', 'lines']
+};
+
+const INVOICE_PROMPT = `
+  這是一張廠商的發票或估價單。請辨識發票日期、廠商名稱、發票號碼，以及每一個品項的料號 (PN)、品名、數量與未稅單價。
+  民國年請換算為西元年。運費、稅額與合計列不是品項，請勿列入。
+  每個欄位請附上 0 到 1 的信心分數；字跡模糊、被遮蔽或需要推測的欄位請給較低的分數，不要自行編造內容。
+`;
+
+const REPORT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: '整體摘要，2 到 4 句' },
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          detail: { type: Type.STRING, description: '依據的數字與觀察' },
+          severity: { type: Type.STRING, enum: ['high', 'medium', 'low'] },
+          entities: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                kind: { type: Type.STRING, enum: Object.keys(ENTITY_LABELS) },
+                id: { type: Type.STRING, description: '機台編號、料號、YYYY-MM、廠商名稱或機台種類' }
+              },
+              required: ['kind', 'id']
+            }
+          },
+          recommendation: { type: Type.STRING }
+        },
+        required: ['title', 'detail', 'severity', 'entities', 'recommendation']
+      }
+    }
+  },
+  required: ['summary', 'findings']
+};
+
+const ANALYSIS_GOALS = `
+  請提供以下見解：
+  1. 機台零件損耗趨勢：分析是否有特定機台領用零件頻率異常偏高。
+  2. 料件消耗與庫存建議：觀察特定料號的領用頻率，給予下月採購策略。
+  3. 成本結構與優化：針對「進貨」、「用料」、「建置」與「維修」的比例進行合理性分析。
+  每個發現請標示嚴重度 (high：需立即處理；medium：需追蹤；low：參考) 與影響的機台、料號、月份、廠商或機台種類。
+  人員與序號已以代號 (例如「人員1」、「SN-3」) 取代，請直接沿用代號，不要推測真實身分。
+`;
+
+const buildSinglePrompt = (dataset: PreparedDataset, scopeLabel: string) => `
+  你是一位專業的倉儲數據分析專家。以下是 ${scopeLabel} 的倉儲結算資料：已彙總的統計表，以及維修與異常紀錄的明細。
+${ANALYSIS_GOALS}
+  ${dataset.aggregateText}
+
+  【明細】
+  ${dataset.detailLines.join('\n') || '(無)'}
+`;
+
+const buildMapPrompt = (chunk: string[], index: number, total: number, scopeLabel: string) => `
+  你是一位專業的倉儲數據分析專家。以下是 ${scopeLabel} 維修與異常紀錄明細的第 ${index} / ${total} 段，
+  請只根據這一段找出值得注意的模式 (例如同一機台或序號反覆維修、同一故障原因集中、金額異常)，稍後會與其他段落合併。
+${ANALYSIS_GOALS}
+  【明細】
+  ${chunk.join('\n')}
+`;
+
+const buildReducePrompt = (partials: AnalysisReport[], scopeLabel: string, aggregateText: string) => `
+  你是一位專業的倉儲數據分析專家。以下是 ${scopeLabel} 分段分析的結果 (JSON)${aggregateText ? '，以及整個期間的彙總統計表' : ''}。
+  請合併重複的發現、依彙總數字修正或補充，輸出一份完整的分析。
+${ANALYSIS_GOALS}
+  ${aggregateText}
+
+  【分段結果】
+  ${JSON.stringify(partials)}
+`;
+
+const geminiProvider: AnalysisProvider = {
+  kind: 'gemini',
+  label: 'Gemini',
+  analyze: async ({ stage, prompt }) => {
+    // Always use { apiKey: process.env.API_KEY } as per guidelines
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    // 分段分析用較快的模型，整體分析與彙整用 gemini-3-pro-preview
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
+      model: stage === 'map' ? 'gemini-2.5-flash' : 'gemini-3-pro-preview',
       contents: prompt,
+      config: { responseMimeType: 'application/json', responseSchema: REPORT_SCHEMA },
     });
     // Use .text property directly as per guidelines
-    return response.text;
+    if (!response.text) throw new Error("模型未回傳內容");
+    return normalizeAnalysisReport(JSON.parse(response.text));
+  },
+  parseQuery: async (request) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: buildQueryPrompt(request),
+      config: { responseMimeType: 'application/json', responseSchema: RECORD_QUERY_SCHEMA },
+    });
+    if (!response.text) throw new Error("模型未回傳內容");
+    return normalizeRecordQuery(JSON.parse(response.text));
+  },
+  extractInvoice: async ({ mimeType, data }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: [{ inlineData: { mimeType, data } }, { text: INVOICE_PROMPT }],
+      config: { responseMimeType: 'application/json', responseSchema: INVOICE_SCHEMA },
+    });
+    if (!response.text) throw new Error("模型未回傳內容");
+    return normalizeExtractedInvoice(JSON.parse(response.text));
+  }
+};
+
+const share = (part: number, total: number) => total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '0%';
+
+/**
+ * 本機模擬分析：不連網，只依本地彙總表產生固定規則的發現；相同資料必定產生相同結果 (開發與測試用)
+ */
+const stubReport = ({ stage, dataset, scopeLabel, chunk = [], partials = [] }: AnalysisRequest): AnalysisReport => {
+  if (stage === 'map') return { summary: `明細段落：${chunk.length} 筆`, findings: [] };
+  if (dataset.recordCount === 0) return { summary: `${scopeLabel} 沒有任何紀錄。`, findings: [] };
+
+  const findings: AnalysisReport['findings'] = [];
+  const machines = dataset.byMachine.filter(m => m.key !== '未標註');
+  const average = machines.reduce((acc, m) => acc + m.count, 0) / (machines.length || 1);
+  const top = machines[0];
+  if (top) {
+    findings.push({
+      title: `機台 ${top.key} 領用最頻繁`,
+      detail: `${top.count} 筆、NT$ ${top.amount.toLocaleString()}，平均每台 ${average.toFixed(1)} 筆。`,
+      severity: top.count >= average * 2 && top.count >= 3 ? 'high' : 'medium',
+      entities: [{ kind: 'machine', id: top.key }],
+      recommendation: '檢查該機台的故障紀錄與保養狀況。'
+    });
+  }
+  const costly = [...dataset.byPart].sort((a, b) => b.amount - a.amount)[0];
+  if (costly) {
+    findings.push({
+      title: `料號 ${costly.label} 金額最高`,
+      detail: `${costly.count} 筆、數量 ${costly.quantity}、NT$ ${costly.amount.toLocaleString()}，佔總金額 ${share(costly.amount, dataset.totalAmount)}。`,
+      severity: 'medium',
+      entities: [{ kind: 'material', id: costly.key }],
+      recommendation: '確認下月需求量，評估議價或調整安全庫存。'
+    });
+  }
+  const repairTotal = dataset.byMonth.reduce((acc, m) => acc + (m.byType[TransactionType.REPAIR] || 0), 0);
+  findings.push({
+    title: '維修成本佔比',
+    detail: `維修金額 NT$ ${repairTotal.toLocaleString()}，佔總金額 ${share(repairTotal, dataset.totalAmount)}。`,
+    severity: repairTotal > dataset.totalAmount / 2 ? 'high' : 'low',
+    entities: [],
+    recommendation: repairTotal > dataset.totalAmount / 2 ? '維修支出過半，建議檢討汰換或預防保養。' : '維持目前的維修與採購比例。'
+  });
+  const peak = [...dataset.byMonth].sort((a, b) => b.amount - a.amount || a.key.localeCompare(b.key))[0];
+  if (peak && dataset.byMonth.length > 1) {
+    findings.push({
+      title: `${peak.key} 支出最高`,
+      detail: `NT$ ${peak.amount.toLocaleString()}，共 ${peak.count} 筆。`,
+      severity: 'low',
+      entities: [{ kind: 'month', id: peak.key }],
+      recommendation: '比對該月是否有集中採購或大量維修。'
+    });
+  }
+
+  const redacted = dataset.redacted.map(k => REDACTION_LABELS[k]).join('、') || '無';
+  return {
+    summary: `${scopeLabel} 共 ${dataset.recordCount} 筆、NT$ ${dataset.totalAmount.toLocaleString()}；明細 ${dataset.detailLines.length} 筆${partials.length > 0 ? '，分段分析後彙整' : ''}；已遮蔽：${redacted}。此結果由本機模擬供應者產生，未呼叫任何模型。`,
+    findings
+  };
+};
+
+const stubProvider: AnalysisProvider = {
+  kind: 'stub',
+  label: '本機模擬',
+  analyze: async (request) => stubReport(request),
+  parseQuery: async ({ text, vocabulary, today }) => parseQueryLocally(text, vocabulary, today),
+  extractInvoice: async (file) => normalizeExtractedInvoice(findInvoiceFixture(file))
+};
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, stubProvider];
+
+/**
+ * 供應者選擇順序：localStorage 覆寫 → 建置時的 AI_PROVIDER → 有 API Key 時用 Gemini，否則用本機模擬
+ */
+export const getAnalysisProviderKind = (): AnalysisProviderKind => {
+  const candidates = [localStorage.getItem('wms_ai_provider'), process.env.AI_PROVIDER];
+  const found = candidates.find(k => !!k && ANALYSIS_PROVIDERS.some(p => p.kind === k));
+  return (found as AnalysisProviderKind) || (process.env.API_KEY ? 'gemini' : 'stub');
+};
+
+export const setAnalysisProviderKind = (kind: AnalysisProviderKind) => {
+  localStorage.setItem('wms_ai_provider', kind);
+};
+
+export const getAnalysisProvider = (kind = getAnalysisProviderKind()): AnalysisProvider =>
+  ANALYSIS_PROVIDERS.find(p => p.kind === kind) || stubProvider;
+
+// token 上限不足以完成分析；訊息直接顯示給使用者，不改成一般的分析失敗
+const budgetError = (message: string) => Object.assign(new Error(message), { budget: true });
+
+export interface AnalysisOptions {
+  redaction: RedactionOptions;
+  tokenBudget: number;                               // 每次呼叫的提示詞上限 (估算 token)
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface AnalysisResult {
+  report: AnalysisReport;
+  markdown: string;
+  calls: number;          // 模型呼叫次數
+  chunks: number;         // 明細分段數 (1 表示一次送出)
+}
+
+/**
+ * 分析資料：先在本地彙總並遮蔽，提示詞在 token 上限內時一次送出；
+ * 否則將明細分段分析 (map)，再連同彙總表合併各段結果 (reduce)，段落過多時逐層合併。
+ * 結果大到無法在上限內合併時拋出說明原因的錯誤，其他失敗拋出 ANALYSIS_ERROR_MESSAGE
+ */
+export const analyzeWarehouseData = async (
+  transactions: Transaction[],
+  scopeLabel = '本月',
+  provider = getAnalysisProvider(),
+  options: Partial<AnalysisOptions> = {}
+): Promise<AnalysisResult> => {
+  const { redaction = DEFAULT_REDACTION, tokenBudget = DEFAULT_TOKEN_BUDGET, onProgress } = options;
+  const dataset = prepareDataset(transactions, redaction);
+  let calls = 0;
+  const call = async (request: Omit<AnalysisRequest, 'dataset' | 'scopeLabel'>) => {
+    const report = await provider.analyze({ ...request, dataset, scopeLabel });
+    calls += 1;
+    return report;
+  };
+  const finish = (raw: AnalysisReport, chunks: number): AnalysisResult => {
+    const report = normalizeAnalysisReport(raw);
+    return { report, markdown: renderReportMarkdown(report, `${scopeLabel} 分析報告`), calls, chunks };
+  };
+
+  try {
+    const singlePrompt = buildSinglePrompt(dataset, scopeLabel);
+    if (estimateTokens(singlePrompt) <= tokenBudget) {
+      onProgress?.(0, 1);
+      return finish(await call({ stage: 'single', prompt: singlePrompt }), 1);
+    }
+
+    const mapOverhead = estimateTokens(buildMapPrompt([], 1, 1, scopeLabel));
+    const chunks = chunkLines(dataset.detailLines, Math.max(tokenBudget - mapOverhead, 500));
+    let partials: AnalysisReport[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.(i, chunks.length + 1);
+      partials.push(await call({ stage: 'map', prompt: buildMapPrompt(chunks[i], i + 1, chunks.length, scopeLabel), chunk: chunks[i] }));
+    }
+
+    // 合併結果超過上限時，先分組合併 (不附彙總表)，逐層進行直到能與彙總表一起送出
+    const finalBudget = tokenBudget - estimateTokens(buildReducePrompt([], scopeLabel, dataset.aggregateText));
+    const groupBudget = tokenBudget - estimateTokens(buildReducePrompt([], scopeLabel, ''));
+    if (finalBudget <= 0) throw budgetError('彙總表本身已超過 token 上限，請縮小分析範圍或提高上限');
+    while (estimateTokens(JSON.stringify(partials)) > finalBudget) {
+      const groups = chunkLines(partials.map(p => JSON.stringify(p)), groupBudget);
+      // 每層至少要有一組合併兩段以上才會縮小；做不到表示單段結果已大到無法合併
+      if (groups.length === partials.length) throw budgetError('單段分析結果超過 token 上限，無法合併，請縮小分析範圍或提高上限');
+      const merged: AnalysisReport[] = [];
+      for (const group of groups) {
+        const items = group.map(g => JSON.parse(g) as AnalysisReport);
+        merged.push(items.length === 1 ? items[0] : await call({ stage: 'reduce', prompt: buildReducePrompt(items, scopeLabel, ''), partials: items }));
+      }
+      partials = merged;
+    }
+    onProgress?.(chunks.length, chunks.length + 1);
+    return finish(await call({ stage: 'reduce', prompt: buildReducePrompt(partials, scopeLabel, dataset.aggregateText), partials }), chunks.length);
   } catch (error) {
     console.error("AI Analysis error:", error);
-    return "分析失敗，請確認 API Key 與網路連線。";
+    if ((error as { budget?: boolean }).budget) throw error;
+    throw new Error(ANALYSIS_ERROR_MESSAGE);
+  }
+};
+
+const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+/**
+ * 自然語言搜尋：未設定 API Key 或模型失敗時改用規則式解析；parsedBy 為實際解析者名稱
+ */
+export const parseRecordQuery = async (
+  text: string,
+  vocabulary: QueryVocabulary,
+  provider = getAnalysisProvider()
+): Promise<{ query: RecordQuery; parsedBy: string }> => {
+  const request = { text, vocabulary, today: getTaipeiToday() };
+  const rules = { query: parseQueryLocally(request.text, vocabulary, request.today), parsedBy: '規則解析' };
+  if (provider.kind === 'stub' || !process.env.API_KEY) return rules;
+  try {
+    return { query: await provider.parseQuery(request), parsedBy: provider.label };
+  } catch (error) {
+    console.error("Query parse error:", error);
+    return rules;
+  }
+};
+
+/**
+ * 發票 / 估價單辨識；本機模擬供應者回傳固定的範例資料。失敗時拋出 EXTRACTION_ERROR_MESSAGE
+ */
+export const extractInvoice = async (file: InvoiceFile, provider = getAnalysisProvider()): Promise<ExtractedInvoice> => {
+  try {
+    return await provider.extractInvoice(file);
+  } catch (error) {
+    console.error("Invoice extraction error:", error);
+    throw new Error(EXTRACTION_ERROR_MESSAGE);
   }
 };
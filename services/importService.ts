@@ -0,0 +1,208 @@
+
+import * as XLSX from 'xlsx';
+import { TransactionType, Material } from '../types';
+import { findMaterial } from './materialService';
+
+export type ImportField =
+  | 'date' | 'type' | 'materialName' | 'materialNumber' | 'machineCategory' | 'machineNumber'
+  | 'sn' | 'faultReason' | 'quantity' | 'unitPrice' | 'accountCategory' | 'note';
+
+// 可對應的欄位與自動比對用的表頭別名 (不分大小寫、忽略空白)
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'date', label: '日期', aliases: ['date', '日期', '單據日期', '出貨日期', '交貨日期'] },
+  { field: 'type', label: '類別', aliases: ['type', '類別', '類型'] },
+  { field: 'materialName', label: '料件名稱', aliases: ['materialname', '料件名稱', '品名', '品項', '名稱', 'description'] },
+  { field: 'materialNumber', label: '料號 (PN)', aliases: ['materialnumber', 'pn', 'p/n', '料號', '料件編號', 'partno', 'partnumber'] },
+  { field: 'machineCategory', label: '機台種類', aliases: ['machinecategory', '機台種類', '機種'] },
+  { field: 'machineNumber', label: '機台 ID', aliases: ['machinenumber', '機台編號', '機台id', '機台'] },
+  { field: 'sn', label: '序號 (SN)', aliases: ['sn', 's/n', '序號', 'serial', 'serialnumber'] },
+  { field: 'faultReason', label: '故障原因', aliases: ['faultreason', '故障原因', '故障'] },
+  { field: 'quantity', label: '數量', aliases: ['quantity', 'qty', '數量'] },
+  { field: 'unitPrice', label: '單價', aliases: ['unitprice', 'price', '單價', '未稅單價'] },
+  { field: 'accountCategory', label: '帳目類別', aliases: ['accountcategory', '帳目類別', '科目'] },
+  { field: 'note', label: '備註', aliases: ['note', '備註', 'remark', 'remarks'] }
+];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>; // 欄位 → 檔案表頭名稱
+
+export interface ImportTable {
+  headers: string[];
+  rows: any[][];
+}
+
+export interface ImportPreset {
+  vendor: string;
+  mapping: ColumnMapping;
+  defaultType: TransactionType;
+}
+
+export interface ImportRow {
+  rowNumber: number;                  // 檔案中的列號 (含表頭，從 1 起算)
+  data: Record<string, any>;
+  errors: Partial<Record<ImportField, string>>;
+}
+
+// 批次新增僅支援進貨與維修
+export const IMPORT_TYPES = [TransactionType.INBOUND, TransactionType.REPAIR];
+
+const PRESET_KEY = 'wms_import_presets';
+
+const normalizeHeader = (h: string) => String(h || '').toLowerCase().replace(/\s+/g, '');
+
+// CSV 先以 UTF-8 解碼，失敗時改用 Big5 (Excel 在繁中系統另存 CSV 的預設編碼)
+const decodeCsv = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('big5').decode(buffer);
+  }
+};
+
+/**
+ * 讀取 CSV / XLSX 第一個工作表；第一列視為表頭
+ */
+export const parseSpreadsheet = async (file: File): Promise<ImportTable> => {
+  const buffer = await file.arrayBuffer();
+  const wb = /\.csv$/i.test(file.name)
+    ? XLSX.read(decodeCsv(buffer), { type: 'string', cellDates: true })
+    : XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheet = wb.Sheets[wb.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+  const aoa = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, raw: true, defval: '' });
+  const [headerRow = [], ...rows] = aoa;
+  return {
+    headers: headerRow.map((h: any) => String(h).trim()),
+    rows
+  };
+};
+
+/**
+ * 依表頭別名自動推測欄位對應
+ */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const header = headers.find(h => aliases.includes(normalizeHeader(h)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+export const loadPresets = (): ImportPreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRESET_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePreset = (preset: ImportPreset): ImportPreset[] => {
+  const presets = [...loadPresets().filter(p => p.vendor !== preset.vendor), preset];
+  localStorage.setItem(PRESET_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const findPreset = (vendor: string): ImportPreset | undefined =>
+  loadPresets().find(p => p.vendor === vendor);
+
+/**
+ * 解析日期：支援 Date 物件、Excel 序號與 YYYY-MM-DD / YYYY/M/D 文字；無法辨識時回傳空字串
+ */
+export const parseImportDate = (value: any): string => {
+  // 試算表解析出的日期為本機時區的午夜，直接取本機年月日以免跨時區位移
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toLocaleDateString('sv-SE');
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? `${parsed.y}-${String(parsed.m).padStart(2, '0')}-${String(parsed.d).padStart(2, '0')}` : '';
+  }
+  const match = String(value || '').trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return '';
+  const [, y, m, d] = match;
+  const date = new Date(Number(y), Number(m) - 1, Number(d));
+  if (date.getMonth() !== Number(m) - 1 || date.getDate() !== Number(d)) return '';
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+/**
+ * 解析數字：移除千分位、幣別符號與空白；無法辨識時回傳 NaN
+ */
+export const parseImportNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').replace(/NT\$|\$|,|\s/gi, '');
+  return text === '' ? NaN : Number(text);
+};
+
+const parseType = (value: any, fallback: TransactionType): TransactionType | null => {
+  const text = String(value ?? '').trim();
+  if (!text) return fallback;
+  const upper = text.toUpperCase();
+  if (upper === 'INBOUND') return TransactionType.INBOUND;
+  if (upper === 'REPAIR') return TransactionType.REPAIR;
+  return IMPORT_TYPES.find(t => t === text) || null;
+};
+
+/**
+ * 依欄位對應轉換檔案內容並逐列檢查：日期、類別、數量、單價，以及主檔已建立時的料號；全空白列略過
+ */
+export const buildImportRows = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: { defaultType: TransactionType; vendor: string; materials: Material[] }
+): ImportRow[] => {
+  const columnIndex = (field: ImportField) => mapping[field] ? table.headers.indexOf(mapping[field]!) : -1;
+  const indexes = Object.fromEntries(IMPORT_FIELDS.map(f => [f.field, columnIndex(f.field)])) as Record<ImportField, number>;
+  const cell = (row: any[], field: ImportField) => indexes[field] === -1 ? '' : row[indexes[field]];
+  const text = (row: any[], field: ImportField) => String(cell(row, field) ?? '').trim();
+
+  const isBlank = (row: any[]) => row.every(value => String(value ?? '').trim() === '');
+
+  return table.rows.flatMap((row, i) => {
+    if (isBlank(row)) return [];
+    const errors: Partial<Record<ImportField, string>> = {};
+
+    const date = indexes.date === -1 ? '' : parseImportDate(cell(row, 'date'));
+    if (!date) errors.date = indexes.date === -1 ? '未對應日期欄位' : `日期格式錯誤：${text(row, 'date')}`;
+
+    const type = parseType(cell(row, 'type'), options.defaultType);
+    if (!type) errors.type = `類別不明：${text(row, 'type')}`;
+
+    const quantity = indexes.quantity === -1 ? 1 : parseImportNumber(cell(row, 'quantity'));
+    if (isNaN(quantity) || quantity <= 0) errors.quantity = `數量需為正數：${text(row, 'quantity')}`;
+
+    const unitPrice = parseImportNumber(cell(row, 'unitPrice'));
+    if (indexes.unitPrice === -1) errors.unitPrice = '未對應單價欄位';
+    else if (isNaN(unitPrice) || unitPrice < 0) errors.unitPrice = `單價非數字：${text(row, 'unitPrice')}`;
+
+    const pn = text(row, 'materialNumber');
+    const material = findMaterial(options.materials, pn);
+    if (options.materials.length > 0) {
+      if (!pn) errors.materialNumber = '未填料號';
+      else if (!material) errors.materialNumber = `料號不在主檔：${pn}`;
+      else if (!material.active) errors.materialNumber = `料件已停用：${pn}`;
+    }
+
+    const materialName = material?.name || text(row, 'materialName');
+    if (!materialName) errors.materialName = '未填料件名稱';
+
+    return [{
+      rowNumber: i + 2,
+      errors,
+      data: {
+        date,
+        type: type || options.defaultType,
+        materialName,
+        materialNumber: material?.pn || pn,
+        machineCategory: text(row, 'machineCategory') || material?.machineCategory || '',
+        machineNumber: text(row, 'machineNumber'),
+        sn: text(row, 'sn'),
+        faultReason: text(row, 'faultReason'),
+        quantity: isNaN(quantity) ? 0 : quantity,
+        unitPrice: isNaN(unitPrice) ? 0 : unitPrice,
+        accountCategory: text(row, 'accountCategory'),
+        note: text(row, 'note'),
+        vendor: options.vendor
+      }
+    }];
+  });
+};
@@ -0,0 +1,143 @@
+
+import { Transaction, TransactionType, Receipt } from '../types';
+import { groupReceipts, getReceiptProgress } from './receiptService';
+
+export interface StockMovement {
+  id: string;
+  date: string;
+  type: TransactionType;
+  quantity: number;  // 有號數量：入庫為正、出庫為負
+  balance: number;   // 此筆異動後的結存
+  machineNumber: string;
+  operator: string;
+  note: string;
+}
+
+export interface PendingOrder {
+  id: string;
+  date: string;
+  ordered: number;
+  outstanding: number;
+}
+
+export interface StockBalance {
+  materialNumber: string;
+  materialName: string;
+  onHand: number;
+  onOrder: number;
+  inboundQty: number;
+  outboundQty: number;
+  lastMovementDate: string;
+  wentNegative: boolean;     // 歷史上是否曾出現負庫存
+  movements: StockMovement[];
+  pendingOrders: PendingOrder[];
+}
+
+const OUTBOUND_TYPES = [TransactionType.USAGE, TransactionType.CONSTRUCTION];
+
+export const isOutbound = (type: TransactionType) => OUTBOUND_TYPES.includes(type);
+
+const pnKey = (t: Transaction) => String(t.materialNumber || '').trim();
+
+// 入庫事件：每次收貨一筆；全數到貨但無收貨明細的部分 (舊資料) 以進貨單據日期入帳
+interface StockEvent {
+  id: string;
+  date: string;
+  quantity: number;
+  operator: string;
+  source: Transaction;
+}
+
+const toStockEvents = (t: Transaction, receipts: Receipt[] = []): StockEvent[] => {
+  const qty = Number(t.quantity) || 0;
+  if (t.type !== TransactionType.INBOUND) return [{ id: t.id, date: t.date, quantity: -qty, operator: t.operator, source: t }];
+  const events: StockEvent[] = receipts.map(r => ({ id: r.id, date: r.date, quantity: r.quantity, operator: r.receiver, source: t }));
+  const progress = getReceiptProgress(t, receipts);
+  const fromReceipts = events.reduce((sum, e) => sum + e.quantity, 0);
+  if (progress.received > fromReceipts) events.push({ id: t.id, date: t.date, quantity: progress.received - fromReceipts, operator: t.operator, source: t });
+  return events;
+};
+
+/**
+ * 永續盤存帳
+ * 結存 = 已到貨數量 - 用料 - 建置，進貨依各次收貨日期入帳；未到貨數量計入在途量。
+ * 無料號 (PN) 的紀錄無法歸戶，不列入計算。
+ */
+export const computeStockLedger = (transactions: Transaction[], receipts: Receipt[] = []): StockBalance[] => {
+  const map = new Map<string, StockBalance>();
+  const getEntry = (t: Transaction) => {
+    const key = pnKey(t);
+    let entry = map.get(key);
+    if (!entry) {
+      entry = {
+        materialNumber: key,
+        materialName: t.materialName,
+        onHand: 0,
+        onOrder: 0,
+        inboundQty: 0,
+        outboundQty: 0,
+        lastMovementDate: '',
+        wentNegative: false,
+        movements: [],
+        pendingOrders: []
+      };
+      map.set(key, entry);
+    }
+    return entry;
+  };
+
+  const grouped = groupReceipts(receipts);
+  const relevant = transactions.filter(t => pnKey(t) && (t.type === TransactionType.INBOUND || isOutbound(t.type)));
+
+  relevant.forEach(t => {
+    if (t.type !== TransactionType.INBOUND) return;
+    const progress = getReceiptProgress(t, grouped.get(t.id));
+    if (progress.outstanding === 0) return;
+    const entry = getEntry(t);
+    entry.onOrder += progress.outstanding;
+    entry.pendingOrders.push({ id: t.id, date: t.date, ordered: progress.ordered, outstanding: progress.outstanding });
+  });
+
+  relevant
+    .flatMap(t => toStockEvents(t, grouped.get(t.id)))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+    .forEach(({ id, date, quantity: signed, operator, source: t }) => {
+      const entry = getEntry(t);
+      entry.onHand += signed;
+      if (signed > 0) entry.inboundQty += signed;
+      else entry.outboundQty -= signed;
+      if (entry.onHand < 0) entry.wentNegative = true;
+      entry.materialName = t.materialName || entry.materialName;
+      entry.lastMovementDate = date;
+      entry.movements.push({
+        id,
+        date,
+        type: t.type,
+        quantity: signed,
+        balance: entry.onHand,
+        machineNumber: t.machineNumber,
+        operator,
+        note: t.note
+      });
+    });
+
+  return Array.from(map.values()).sort((a, b) => a.materialNumber.localeCompare(b.materialNumber));
+};
+
+/**
+ * 檢查一筆出庫紀錄是否會造成負庫存
+ * 編輯既有紀錄時會先排除該筆原始數量，回傳 null 表示無需警示。
+ */
+export const checkStockShortage = (
+  transactions: Transaction[],
+  draft: Pick<Transaction, 'id' | 'type' | 'materialNumber' | 'quantity'>,
+  receipts: Receipt[] = []
+): { onHand: number; after: number } | null => {
+  const pn = String(draft.materialNumber || '').trim();
+  if (!pn || !isOutbound(draft.type)) return null;
+  const others = transactions.filter(t => t.id !== draft.id && pnKey(t) === pn);
+  const balance = computeStockLedger(others, receipts).find(b => b.materialNumber === pn);
+  const onHand = balance ? balance.onHand : 0;
+  const after = onHand - (Number(draft.quantity) || 0);
+  return after < 0 ? { onHand, after } : null;
+};
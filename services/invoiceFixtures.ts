@@ -0,0 +1,47 @@
+
+import { ExtractedInvoice, InvoiceFile } from './invoiceService';
+
+/**
+ * 本機模擬供應者使用的發票辨識結果 (開發與測試用，不讀取檔案內容)
+ * 檔名包含鍵值時回傳對應的範例，否則回傳 default；可用 registerInvoiceFixture 加入自訂範例
+ */
+const fixtures: Record<string, ExtractedInvoice> = {
+  default: {
+    date: '2025-03-05',
+    vendor: '範例電子',
+    invoiceNumber: 'AB-12345678',
+    confidence: { date: 0.98, vendor: 0.95 },
+    lines: [
+      { materialNumber: 'PN-1001', materialName: '電源供應器 350W', quantity: 2, unitPrice: 1850, confidence: { materialNumber: 0.97, materialName: 0.96, quantity: 0.99, unitPrice: 0.98 } },
+      { materialNumber: 'PN-2040', materialName: '觸控面板 15 吋', quantity: 1, unitPrice: 6200, confidence: { materialNumber: 0.62, materialName: 0.9, quantity: 0.97, unitPrice: 0.7 } },
+      { materialNumber: 'PN-0087', materialName: '按鈕開關', quantity: 10, unitPrice: 45, confidence: { materialNumber: 0.95, materialName: 0.93, quantity: 0.58, unitPrice: 0.96 } }
+    ]
+  },
+  // 手寫 / 模糊的估價單：日期與廠商辨識不出
+  blurry: {
+    date: '',
+    vendor: '',
+    invoiceNumber: '',
+    confidence: { date: 0.2, vendor: 0.3 },
+    lines: [
+      { materialNumber: '', materialName: '主機板', quantity: 1, unitPrice: 12000, confidence: { materialNumber: 0.1, materialName: 0.55, quantity: 0.8, unitPrice: 0.6 } }
+    ]
+  },
+  empty: {
+    date: '',
+    vendor: '',
+    invoiceNumber: '',
+    confidence: {},
+    lines: []
+  }
+};
+
+export const registerInvoiceFixture = (key: string, invoice: ExtractedInvoice) => {
+  fixtures[key.toLowerCase()] = invoice;
+};
+
+export const findInvoiceFixture = (file: InvoiceFile): ExtractedInvoice => {
+  const name = file.fileName.toLowerCase();
+  const key = Object.keys(fixtures).filter(k => k !== 'default' && name.includes(k)).sort((a, b) => b.length - a.length)[0];
+  return fixtures[key || 'default'];
+};
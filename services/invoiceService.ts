@@ -0,0 +1,140 @@
+
+import { TransactionType, Vendor, Material } from '../types';
+import { findMaterial } from './materialService';
+import { parseImportDate } from './importService';
+
+export type InvoiceLineField = 'materialNumber' | 'materialName' | 'quantity' | 'unitPrice';
+
+// 信心分數 0 ~ 1，低於此值的欄位在批次表中標示為待核對
+export const LOW_CONFIDENCE = 0.75;
+
+export interface InvoiceLine {
+  materialNumber: string;
+  materialName: string;
+  quantity: number;
+  unitPrice: number;
+  confidence: Partial<Record<InvoiceLineField, number>>;
+}
+
+export interface ExtractedInvoice {
+  date: string;            // YYYY-MM-DD；無法辨識時為空字串
+  vendor: string;
+  invoiceNumber: string;
+  lines: InvoiceLine[];
+  confidence: { date?: number; vendor?: number };
+}
+
+// 發票辨識支援的檔案類型
+export const INVOICE_ACCEPT = 'image/png,image/jpeg,image/webp,application/pdf';
+
+export interface InvoiceFile {
+  fileName: string;
+  mimeType: string;
+  data: string;            // base64 (不含 data: 前綴)
+}
+
+export const readInvoiceFile = (file: File): Promise<InvoiceFile> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const url = String(reader.result || '');
+      resolve({ fileName: file.name, mimeType: file.type || 'application/octet-stream', data: url.slice(url.indexOf(',') + 1) });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * 發票日期：除西元格式外也接受民國年 (例如 113/03/05)
+ */
+const parseInvoiceDate = (value: any): string => {
+  const text = String(value ?? '').trim();
+  const roc = text.match(/^(?:民國)?\s*(\d{2,3})\s*[/.年-]\s*(\d{1,2})\s*[/.月-]\s*(\d{1,2})\s*日?$/);
+  if (roc) return parseImportDate(`${Number(roc[1]) + 1911}-${roc[2]}-${roc[3]}`);
+  return parseImportDate(text.replace(/[年月]/g, '-').replace(/日$/, ''));
+};
+
+const toNumber = (v: any) => {
+  const n = typeof v === 'number' ? v : Number(String(v ?? '').replace(/NT\$|\$|,|\s/gi, ''));
+  return isFinite(n) ? n : 0;
+};
+
+const toConfidence = (v: any) => {
+  const n = Number(v);
+  return isFinite(n) ? Math.min(Math.max(n, 0), 1) : undefined;
+};
+
+/**
+ * 整理模型回傳的發票 JSON：數字與日期轉型、信心分數限制在 0 ~ 1，略過沒有品名也沒有料號的列
+ */
+export const normalizeExtractedInvoice = (raw: any): ExtractedInvoice => ({
+  date: parseInvoiceDate(raw?.date),
+  vendor: String(raw?.vendor ?? '').trim(),
+  invoiceNumber: String(raw?.invoiceNumber ?? '').trim(),
+  confidence: { date: toConfidence(raw?.confidence?.date), vendor: toConfidence(raw?.confidence?.vendor) },
+  lines: (Array.isArray(raw?.lines) ? raw.lines : [])
+    .map((l: any): InvoiceLine => ({
+      materialNumber: String(l?.materialNumber ?? '').trim(),
+      materialName: String(l?.materialName ?? '').trim(),
+      quantity: toNumber(l?.quantity),
+      unitPrice: toNumber(l?.unitPrice),
+      confidence: {
+        materialNumber: toConfidence(l?.confidence?.materialNumber),
+        materialName: toConfidence(l?.confidence?.materialName),
+        quantity: toConfidence(l?.confidence?.quantity),
+        unitPrice: toConfidence(l?.confidence?.unitPrice)
+      }
+    }))
+    .filter((l: InvoiceLine) => l.materialNumber || l.materialName)
+});
+
+const isLow = (score: number | undefined) => score !== undefined && score < LOW_CONFIDENCE;
+
+// 廠商名稱比對主檔：完全相同優先，其次為互相包含 (發票抬頭常帶「股份有限公司」)
+export const matchVendor = (vendors: Vendor[], name: string): Vendor | undefined => {
+  const key = name.replace(/\s+/g, '').toLowerCase();
+  if (!key) return undefined;
+  const normalized = vendors.map(v => ({ v, k: v.name.replace(/\s+/g, '').toLowerCase() }));
+  return (normalized.find(x => x.k === key) || normalized.find(x => key.includes(x.k) || x.k.includes(key)))?.v;
+};
+
+/**
+ * 轉為批次新增用的進貨列；lowConfidence 列出需人工核對的欄位：
+ * 模型信心偏低、日期無法辨識、廠商不在主檔，或 (主檔已建立時) 料號不在主檔
+ */
+export const invoiceToRows = (
+  invoice: ExtractedInvoice,
+  options: { vendors: Vendor[]; materials: Material[]; today: string }
+): Record<string, any>[] => {
+  const vendor = matchVendor(options.vendors, invoice.vendor);
+  const headerFlags = [
+    ...(!invoice.date || isLow(invoice.confidence.date) ? ['date'] : []),
+    ...((options.vendors.length > 0 && !vendor) || isLow(invoice.confidence.vendor) ? ['vendor'] : [])
+  ];
+
+  return invoice.lines.map(line => {
+    const material = findMaterial(options.materials, line.materialNumber);
+    const flags = new Set(headerFlags);
+    (Object.keys(line.confidence) as InvoiceLineField[]).forEach(field => {
+      if (isLow(line.confidence[field])) flags.add(field);
+    });
+    if (options.materials.length > 0 && !material) {
+      flags.add('materialNumber');
+      flags.add('materialName');
+    }
+    if (!(line.quantity > 0)) flags.add('quantity');
+
+    return {
+      date: invoice.date || options.today,
+      type: TransactionType.INBOUND,
+      vendor: vendor?.name || invoice.vendor,
+      materialName: material?.name || line.materialName,
+      materialNumber: material?.pn || line.materialNumber,
+      machineCategory: material?.machineCategory || '',
+      quantity: line.quantity > 0 ? line.quantity : 1,
+      unitPrice: line.unitPrice,
+      note: invoice.invoiceNumber ? `發票 ${invoice.invoiceNumber}` : '',
+      lowConfidence: Array.from(flags)
+    };
+  });
+};
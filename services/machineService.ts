@@ -0,0 +1,120 @@
+
+import { Transaction, TransactionType, Machine, MachineStatus } from '../types';
+
+export const MACHINE_STATUS_LABELS: Record<MachineStatus, string> = {
+  active: '運轉中',
+  maintenance: '維護中',
+  idle: '停機',
+  retired: '已除役'
+};
+
+export const machineKey = (id: string | undefined) => String(id || '').trim().toUpperCase();
+
+export const findMachine = (registry: Machine[], id: string | undefined): Machine | undefined => {
+  const key = machineKey(id);
+  return key ? registry.find(m => machineKey(m.id) === key) : undefined;
+};
+
+export interface MachineSummary {
+  id: string;
+  machine?: Machine;          // 未登錄的機台 (僅出現在紀錄中) 為 undefined
+  category: string;           // 已登錄取主檔，否則取紀錄中最常出現的機台種類
+  totalSpend: number;
+  repairCount: number;
+  lineCount: number;
+  lastDate: string;
+}
+
+export interface MachineTimelinePoint {
+  month: string;              // YYYY-MM
+  inbound: number;
+  usage: number;
+  construction: number;
+  repair: number;
+  cumulative: number;         // 截至該月的累計支出
+}
+
+const TIMELINE_KEYS: Record<TransactionType, keyof Omit<MachineTimelinePoint, 'month' | 'cumulative'>> = {
+  [TransactionType.INBOUND]: 'inbound',
+  [TransactionType.USAGE]: 'usage',
+  [TransactionType.CONSTRUCTION]: 'construction',
+  [TransactionType.REPAIR]: 'repair'
+};
+
+/**
+ * 取出指定機台的所有紀錄 (機台編號不分大小寫)，依日期由舊至新排序
+ */
+export const getMachineLines = (transactions: Transaction[], id: string): Transaction[] => {
+  const key = machineKey(id);
+  if (!key) return [];
+  return transactions
+    .filter(t => machineKey(t.machineNumber) === key)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * 依月份彙總各類別支出與累計支出；中間沒有紀錄的月份補 0，讓時間軸連續
+ */
+export const buildMachineTimeline = (lines: Transaction[]): MachineTimelinePoint[] => {
+  const dated = lines.filter(t => /^\d{4}-\d{2}/.test(t.date));
+  if (dated.length === 0) return [];
+  const byMonth = new Map<string, MachineTimelinePoint>();
+  dated.forEach(t => {
+    const month = t.date.slice(0, 7);
+    const point = byMonth.get(month) || { month, inbound: 0, usage: 0, construction: 0, repair: 0, cumulative: 0 };
+    const key = TIMELINE_KEYS[t.type];
+    if (key) point[key] += t.total;
+    byMonth.set(month, point);
+  });
+
+  const months = Array.from(byMonth.keys()).sort();
+  const points: MachineTimelinePoint[] = [];
+  let [year, month] = months[0].split('-').map(Number);
+  const last = months[months.length - 1];
+  let running = 0;
+  while (true) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    const point = byMonth.get(key) || { month: key, inbound: 0, usage: 0, construction: 0, repair: 0, cumulative: 0 };
+    running += point.inbound + point.usage + point.construction + point.repair;
+    points.push({ ...point, cumulative: running });
+    if (key >= last) break;
+    month += 1;
+    if (month > 12) { month = 1; year += 1; }
+  }
+  return points;
+};
+
+/**
+ * 彙整登錄表與紀錄中出現過的所有機台：累計支出、維修次數與最近一筆紀錄日期
+ */
+export const summarizeMachines = (transactions: Transaction[], registry: Machine[]): MachineSummary[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    const key = machineKey(t.machineNumber);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const mostCommon = (values: string[]) => {
+    const counts = new Map<string, number>();
+    values.filter(Boolean).forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+  };
+
+  const summarize = (id: string, machine: Machine | undefined, lines: Transaction[]): MachineSummary => ({
+    id,
+    machine,
+    category: machine?.category || mostCommon(lines.map(t => t.machineCategory)),
+    totalSpend: lines.reduce((sum, t) => sum + t.total, 0),
+    repairCount: lines.filter(t => t.type === TransactionType.REPAIR).length,
+    lineCount: lines.length,
+    lastDate: lines.reduce((latest, t) => t.date > latest ? t.date : latest, '')
+  });
+
+  const registered = registry.map(m => summarize(m.id, m, groups.get(machineKey(m.id)) || []));
+  const unregistered = Array.from(groups.entries())
+    .filter(([key]) => !findMachine(registry, key))
+    .map(([, lines]) => summarize(lines[0].machineNumber.trim(), undefined, lines));
+
+  return [...registered, ...unregistered].sort((a, b) => a.id.localeCompare(b.id));
+};
@@ -0,0 +1,94 @@
+
+import { Transaction, TransactionType, Material } from '../types';
+
+export const MACHINE_CATEGORIES = ['BA', 'RL', 'SB', 'XD', '7UP', 'HOT8', '3card', 'DT', 'CG', '共用'];
+
+export type MaterialIssue = 'missing_pn' | 'unknown_pn' | 'inactive' | 'name_mismatch';
+
+export const MATERIAL_ISSUE_LABELS: Record<MaterialIssue, string> = {
+  missing_pn: '未填料號',
+  unknown_pn: '料號不在主檔',
+  inactive: '料件已停用',
+  name_mismatch: '名稱與主檔不符'
+};
+
+export const pnKey = (pn: string | undefined) => String(pn || '').trim().toUpperCase();
+
+export const findMaterial = (catalog: Material[], pn: string | undefined): Material | undefined => {
+  const key = pnKey(pn);
+  return key ? catalog.find(m => pnKey(m.pn) === key) : undefined;
+};
+
+/**
+ * 依名稱或料號搜尋啟用中的料件
+ */
+export const searchMaterials = (catalog: Material[], query: string, limit = 8): Material[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  return catalog
+    .filter(m => m.active && (m.name.toLowerCase().includes(q) || m.pn.toLowerCase().includes(q)))
+    .slice(0, limit);
+};
+
+/**
+ * 表單存檔前檢查：主檔已建立時，料件必須選自主檔且為啟用狀態；回傳錯誤訊息 (無誤時為空字串)
+ */
+export const checkMaterialSelection = (catalog: Material[], pn: string | undefined): string => {
+  if (catalog.length === 0) return '';
+  const material = findMaterial(catalog, pn);
+  if (!material) return '請由料件主檔選擇料件 (可輸入名稱或料號搜尋)';
+  if (!material.active) return `料件 ${material.pn} 已停用，請改選其他料件`;
+  return '';
+};
+
+/**
+ * 將讀回的紀錄與料件主檔比對，回傳 id → 問題類型 (僅列出有問題的紀錄)
+ */
+export const validateAgainstCatalog = (transactions: Transaction[], catalog: Material[]): Map<string, MaterialIssue> => {
+  const issues = new Map<string, MaterialIssue>();
+  if (catalog.length === 0) return issues;
+  transactions.forEach(t => {
+    if (!pnKey(t.materialNumber)) {
+      issues.set(t.id, 'missing_pn');
+      return;
+    }
+    const material = findMaterial(catalog, t.materialNumber);
+    if (!material) issues.set(t.id, 'unknown_pn');
+    else if (!material.active) issues.set(t.id, 'inactive');
+    else if (material.name.trim() !== t.materialName.trim()) issues.set(t.id, 'name_mismatch');
+  });
+  return issues;
+};
+
+/**
+ * 由歷史紀錄整理尚未建檔的料號：名稱與機台種類取出現最多次者，預設單價取最近一筆進貨單價
+ */
+export const suggestMaterialsFromHistory = (transactions: Transaction[], catalog: Material[]): Material[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    const key = pnKey(t.materialNumber);
+    if (!key || findMaterial(catalog, key)) return;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const mostCommon = (values: string[]) => {
+    const counts = new Map<string, number>();
+    values.filter(Boolean).forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+  };
+
+  return Array.from(groups.entries()).map(([pn, items]) => {
+    const byDate = [...items].sort((a, b) => b.date.localeCompare(a.date));
+    const lastPurchase = byDate.find(t => t.type === TransactionType.INBOUND && t.unitPrice > 0);
+    return {
+      pn: String(items[0].materialNumber).trim(),
+      name: mostCommon(items.map(t => t.materialName.trim())) || pn,
+      unit: '個',
+      defaultPrice: lastPurchase?.unitPrice || 0,
+      minStock: 0,
+      maxStock: 0,
+      machineCategory: mostCommon(items.map(t => t.machineCategory)) || MACHINE_CATEGORIES[0],
+      active: true
+    };
+  }).sort((a, b) => a.pn.localeCompare(b.pn));
+};
@@ -0,0 +1,323 @@
+
+import { Transaction, TransactionType } from "../types";
+import { getBackend, WriteResult } from "./storage";
+
+export type OutboxAction = 'insert' | 'update' | 'delete' | 'batch_insert';
+export type OutboxEntryStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  seq?: number;
+  requestId: string;       // 每次送出都帶此識別碼；回應遺失而重送時後端據此避免重複寫入
+  username: string;        // 建立此異動的帳號；只有同一帳號登入時才會重送
+  action: OutboxAction;
+  recordId: string;
+  type: TransactionType | '';
+  payload: any;
+  baseVersion?: number;
+  createdAt: string;
+  attempts: number;
+  status: OutboxEntryStatus;
+  lastError?: string;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  failed: number;
+  conflict: number;
+  others: number;          // 其他帳號留下、待其登入後才會送出的異動
+  unauthorized: boolean;   // 重送時權杖已失效，需重新登入
+  entries: OutboxEntry[];
+  lastFlushAt: string | null;
+  lastCommitAt: string | null;
+}
+
+type NewEntry = Pick<OutboxEntry, 'action' | 'recordId' | 'type' | 'payload' | 'baseVersion'>;
+
+const DB_NAME = 'wms_outbox';
+const STORE_NAME = 'entries';
+const BASE_DELAY = 5000;
+const MAX_DELAY = 5 * 60 * 1000;
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const run = <T>(db: IDBDatabase, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const req = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// 無法使用 IndexedDB 時 (例如隱私模式) 退回僅存於記憶體的佇列
+const getDb = () => (dbPromise ??= openDb().catch(e => {
+  console.error("Outbox storage unavailable:", e);
+  return null;
+}));
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let memorySeq = 0;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let lastFlushAt: string | null = null;
+let lastCommitAt: string | null = null;
+let currentUser: string | null = null;
+let unauthorized = false;
+const listeners = new Set<(status: OutboxStatus) => void>();
+
+const createRequestId = () => typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+  ? crypto.randomUUID()
+  : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const ensureLoaded = () => (loaded ??= (async () => {
+  const db = await getDb();
+  if (db) entries = (await run<OutboxEntry[]>(db, 'readonly', s => s.getAll())).sort((a, b) => a.seq! - b.seq!);
+  memorySeq = entries.reduce((max, e) => Math.max(max, e.seq || 0), 0);
+  // 舊版佇列未記錄帳號，無法確認是誰的異動，改為待使用者確認後手動重試或捨棄
+  entries.forEach(e => {
+    e.requestId ??= createRequestId();
+    if (e.username || e.status !== 'pending') return;
+    e.status = 'failed';
+    e.lastError = '無法確認建立此異動的帳號，請確認內容後重試或捨棄';
+  });
+})());
+
+// 目前帳號可見的項目；未記錄帳號的舊項目交由任一登入者確認
+const ownEntries = () => entries.filter(e => !e.username || e.username === currentUser);
+
+const persist = async (entry: OutboxEntry) => {
+  const db = await getDb();
+  if (db) entry.seq = Number(await run(db, 'readwrite', s => s.put(entry)));
+  else if (entry.seq === undefined) entry.seq = ++memorySeq;
+};
+
+const remove = async (entry: OutboxEntry) => {
+  entries = entries.filter(e => e !== entry);
+  const db = await getDb();
+  if (db && entry.seq !== undefined) await run(db, 'readwrite', s => s.delete(entry.seq!));
+};
+
+const getStatus = (): OutboxStatus => {
+  const own = ownEntries();
+  return {
+    pending: own.filter(e => e.status === 'pending').length,
+    failed: own.filter(e => e.status === 'failed').length,
+    conflict: own.filter(e => e.status === 'conflict').length,
+    others: entries.length - own.length,
+    unauthorized,
+    entries: own,
+    lastFlushAt,
+    lastCommitAt
+  };
+};
+
+const notify = () => {
+  const status = getStatus();
+  listeners.forEach(l => l(status));
+};
+
+const send = (entry: OutboxEntry): Promise<WriteResult> => {
+  const backend = getBackend();
+  switch (entry.action) {
+    case 'insert': return backend.save(entry.payload, entry.requestId);
+    case 'update': return backend.update(entry.payload, entry.baseVersion, entry.requestId);
+    case 'delete': return backend.delete(entry.recordId, entry.type as TransactionType, entry.payload.operator, entry.baseVersion, entry.requestId);
+    case 'batch_insert': return backend.batchSave(entry.payload, entry.requestId);
+  }
+};
+
+const scheduleRetry = (attempts: number) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay = Math.min(BASE_DELAY * 2 ** Math.max(0, attempts - 1), MAX_DELAY);
+  retryTimer = setTimeout(() => { retryTimer = null; outboxService.flush(); }, delay);
+};
+
+const newEntry = (next: NewEntry): OutboxEntry =>
+  ({ ...next, requestId: createRequestId(), username: currentUser || '', createdAt: new Date().toISOString(), attempts: 0, status: 'pending' });
+
+/**
+ * 同一筆紀錄尚未送出的異動合併為一筆，保留最早的 baseVersion 以便後端偵測衝突；
+ * 已送出過的項目可能已寫入伺服器 (只是沒收到回應)，必須以原 requestId 原樣重送，不再合併
+ */
+const enqueue = async (entry: OutboxEntry) => {
+  const prev = entry.action === 'batch_insert' || entry.attempts > 0
+    ? undefined
+    : entries.find(e => e.status === 'pending' && e.attempts === 0 && e.username === currentUser && e.action !== 'batch_insert' && e.recordId === entry.recordId && e.type === entry.type);
+
+  if (prev && prev.action === 'insert' && entry.action === 'delete') {
+    await remove(prev);
+    return;
+  }
+  if (prev && prev.action !== 'delete') {
+    prev.payload = entry.payload;
+    if (entry.action === 'delete') prev.action = 'delete';
+    await persist(prev);
+    return;
+  }
+  await persist(entry);
+  entries.push(entry);
+};
+
+const isReplayable = (e: OutboxEntry) => e.status === 'pending' && !!currentUser && e.username === currentUser;
+
+export const outboxService = {
+  /**
+   * 登入、登出或切換帳號時設定目前帳號；佇列項目保留於本機，但只重送並顯示該帳號自己的異動
+   */
+  async setUser(username: string | null): Promise<void> {
+    await ensureLoaded();
+    if (username === currentUser) return;
+    currentUser = username;
+    unauthorized = false;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    notify();
+  },
+
+  subscribe(listener: (status: OutboxStatus) => void): () => void {
+    listeners.add(listener);
+    ensureLoaded().then(() => listener(getStatus()));
+    return () => { listeners.delete(listener); };
+  },
+
+  /**
+   * 送出寫入：連線正常且佇列為空時直接寫入並回傳伺服器結果；
+   * 離線、暫時性錯誤或前面仍有排隊中的異動時，存入佇列並回傳 queued。
+   * 權杖失效不屬於離線，直接回傳 unauthorized 由畫面要求重新登入
+   */
+  async submit(next: NewEntry): Promise<WriteResult> {
+    await ensureLoaded();
+    if (!currentUser) return { ok: false, unauthorized: true, message: '尚未登入，請重新登入' };
+    const entry = newEntry(next);
+    const hasBacklog = entries.some(isReplayable);
+    if (!hasBacklog && navigator.onLine) {
+      const res = await send(entry);
+      if (res.ok || !res.retryable) return res;
+      entry.attempts = 1;
+      entry.lastError = res.message;
+    }
+    await enqueue(entry);
+    notify();
+    if (navigator.onLine) scheduleRetry(1);
+    return { ok: true, queued: true, message: '目前無法連線，異動已存入離線佇列，恢復連線後將自動同步' };
+  },
+
+  /**
+   * 依序重送目前帳號的佇列；遇到網路錯誤即停止並以指數退避排程下次重試，
+   * 權杖失效時停止並保留項目，待同一帳號重新登入後再送；
+   * 衝突或伺服器拒絕的項目標記後保留供使用者處理
+   */
+  async flush(): Promise<void> {
+    await ensureLoaded();
+    if (flushing || !currentUser) return;
+    flushing = true;
+    let committed = 0;
+    unauthorized = false;
+    try {
+      for (const entry of entries.filter(isReplayable)) {
+        const res = await send(entry);
+        if (res.ok) {
+          await remove(entry);
+          committed++;
+          continue;
+        }
+        entry.lastError = res.message;
+        if (res.unauthorized) {
+          unauthorized = true;
+          await persist(entry);
+          break;
+        }
+        entry.attempts++;
+        if (res.retryable) {
+          await persist(entry);
+          scheduleRetry(entry.attempts);
+          break;
+        }
+        entry.status = res.conflict ? 'conflict' : 'failed';
+        await persist(entry);
+      }
+    } finally {
+      flushing = false;
+      lastFlushAt = new Date().toISOString();
+      if (committed > 0) lastCommitAt = lastFlushAt;
+      notify();
+    }
+  },
+
+  /**
+   * 重試失敗項目；衝突項目須先比對伺服器版本，再由 keepMine 明確選擇保留本機內容
+   */
+  async retry(seq: number): Promise<void> {
+    const entry = ownEntries().find(e => e.seq === seq);
+    if (!entry || entry.status === 'conflict') return;
+    // 未記錄帳號的舊項目經目前使用者確認後，改以其身分送出
+    entry.username = currentUser || '';
+    entry.status = 'pending';
+    entry.lastError = undefined;
+    await persist(entry);
+    notify();
+    await this.flush();
+  },
+
+  /**
+   * 取得衝突項目在伺服器上的目前內容供使用者比對；紀錄已被清除或改為其他類別時回傳 null
+   */
+  async fetchServerCopy(seq: number): Promise<Transaction | null> {
+    const entry = ownEntries().find(e => e.seq === seq);
+    if (!entry || entry.status !== 'conflict') return null;
+    const records = await getBackend().fetchAll();
+    if (records.length === 0) throw new Error('無法取得伺服器資料，請確認連線後再試');
+    return records.find(t => t.id === entry.recordId && t.type === entry.type) || null;
+  },
+
+  /**
+   * 使用者比對後選擇保留本機內容：以剛取得的伺服器版本作為新的 baseVersion 重送，
+   * 比對之後伺服器若又有變更，仍會再次回報衝突
+   */
+  async keepMine(seq: number, serverVersion: number): Promise<void> {
+    const entry = ownEntries().find(e => e.seq === seq);
+    if (!entry || entry.status !== 'conflict') return;
+    entry.baseVersion = serverVersion;
+    entry.status = 'pending';
+    entry.lastError = undefined;
+    await persist(entry);
+    notify();
+    await this.flush();
+  },
+
+  async discard(seq: number): Promise<void> {
+    const entry = ownEntries().find(e => e.seq === seq);
+    if (!entry) return;
+    await remove(entry);
+    notify();
+  },
+
+  /**
+   * 將尚未送出的異動套用到伺服器資料上，避免重新整理後本機修改暫時消失
+   */
+  async applyPending(transactions: Transaction[]): Promise<Transaction[]> {
+    await ensureLoaded();
+    let list = [...transactions];
+    entries.filter(isReplayable).forEach(e => {
+      if (e.action === 'batch_insert') {
+        list = [...(e.payload as Transaction[]).filter(t => !list.some(x => x.id === t.id)), ...list];
+      } else if (e.action === 'delete') {
+        list = list.filter(t => !(t.id === e.recordId && t.type === e.type));
+      } else if (list.some(t => t.id === e.recordId && t.type === e.type)) {
+        list = list.map(t => t.id === e.recordId && t.type === e.type ? e.payload : t);
+      } else {
+        list = [e.payload, ...list];
+      }
+    });
+    return list;
+  }
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => outboxService.flush());
+}
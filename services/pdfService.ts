@@ -0,0 +1,144 @@
+
+import { jsPDF } from 'jspdf';
+
+/**
+ * 瀏覽器端 PDF 產生器 (jsPDF)：A4 直式，只支援文字、線條與填色方塊
+ * 中文使用 Noto Sans TC 的一般與粗體字重，只內嵌文件用到的字形 (subset)，
+ * 任何閱讀器或印表機都能正確顯示；字型沒有的字元 (例如 emoji) 不會印出
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfColor = [number, number, number];   // RGB，0 ~ 1
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+  color?: PdfColor;
+}
+
+export interface PdfDocument {
+  addPage: () => void;
+  setPage: (index: number) => void;
+  pageCount: () => number;
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, width?: number, color?: PdfColor) => void;
+  rect: (x: number, y: number, w: number, h: number, fill: PdfColor) => void;
+  fitText: (value: string, size: number, maxWidth: number, bold?: boolean) => string;
+  toBlob: () => Blob;
+}
+
+const FONT_NAME = 'NotoSansTC';
+const BLACK: PdfColor = [0, 0, 0];
+
+// 字型檔各約 7 MB，不打包進應用程式；第一次匯出時從 CDN 下載並存入瀏覽器快取，之後沿用
+const DEFAULT_FONT_BASE_URL = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/noto-sans-tc@0.4.3';
+const REGULAR_FONT_FILE = '400Regular/NotoSansTC_400Regular.ttf';
+const BOLD_FONT_FILE = '700Bold/NotoSansTC_700Bold.ttf';
+const FONT_CACHE = 'wms-pdf-fonts';
+
+let fontFiles: Promise<[string, string]> | null = null;
+
+// 內網或離線環境可改用自行架設的字型位置 (目錄結構同上)
+const getFontBaseUrl = () =>
+  (localStorage.getItem('wms_pdf_font_url') || process.env.PDF_FONT_URL || DEFAULT_FONT_BASE_URL).trim().replace(/\/+$/, '');
+
+// Cache API 只在 https 或 localhost 可用，無法使用時每次重新整理頁面後重新下載
+const openFontCache = async () => {
+  if (typeof caches === 'undefined') return null;
+  return caches.open(FONT_CACHE).catch(() => null);
+};
+
+const fetchFontBytes = async (url: string) => {
+  const cache = await openFontCache();
+  const cached = await cache?.match(url);
+  if (cached) return cached.arrayBuffer();
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`字型下載失敗 (HTTP ${response.status})`);
+  await cache?.put(url, response.clone()).catch(() => undefined);
+  return response.arrayBuffer();
+};
+
+// jsPDF 的虛擬檔案系統只接受 base64 字串
+const fetchFont = async (url: string) => {
+  const bytes = new Uint8Array(await fetchFontBytes(url));
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const loadFontFiles = () => (fontFiles ??= Promise.all([
+  fetchFont(`${getFontBaseUrl()}/${REGULAR_FONT_FILE}`),
+  fetchFont(`${getFontBaseUrl()}/${BOLD_FONT_FILE}`)
+]).catch(e => {
+  fontFiles = null;
+  throw e;
+}));
+
+const to255 = ([r, g, b]: PdfColor): [number, number, number] => [r * 255, g * 255, b * 255];
+
+/**
+ * 建立 PDF 文件並載入中文字型；座標以頁面左上角為原點、單位為 pt，y 為文字基線
+ */
+export const createPdfDocument = async (): Promise<PdfDocument> => {
+  const [regular, bold] = await loadFontFiles();
+  const pdf = new jsPDF({ unit: 'pt', format: [PAGE_WIDTH, PAGE_HEIGHT], compress: true });
+  pdf.addFileToVFS(`${FONT_NAME}-Regular.ttf`, regular);
+  pdf.addFont(`${FONT_NAME}-Regular.ttf`, FONT_NAME, 'normal');
+  pdf.addFileToVFS(`${FONT_NAME}-Bold.ttf`, bold);
+  pdf.addFont(`${FONT_NAME}-Bold.ttf`, FONT_NAME, 'bold');
+
+  // jsPDF 建立時已含第一頁，第一次 addPage 直接使用該頁
+  let pages = 0;
+  const useFont = (size: number, isBold: boolean) => {
+    pdf.setFont(FONT_NAME, isBold ? 'bold' : 'normal');
+    pdf.setFontSize(size);
+  };
+
+  return {
+    addPage: () => {
+      if (pages > 0) pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      pages++;
+    },
+    setPage: (index) => {
+      pdf.setPage(index + 1);
+    },
+    pageCount: () => pages,
+    text: (x, y, value, { size = 10, bold: isBold = false, align, color: fill = BLACK } = {}) => {
+      if (!value) return;
+      useFont(size, isBold);
+      pdf.setTextColor(...to255(fill));
+      pdf.text(value, x, y, { align, baseline: 'alphabetic' });
+    },
+    line: (x1, y1, x2, y2, width = 0.5, stroke = BLACK) => {
+      pdf.setDrawColor(...to255(stroke));
+      pdf.setLineWidth(width);
+      pdf.line(x1, y1, x2, y2);
+    },
+    rect: (x, y, w, h, fill) => {
+      pdf.setFillColor(...to255(fill));
+      pdf.rect(x, y, w, h, 'F');
+    },
+    // 超過寬度時截斷並加上「…」，寬度依實際字型計算
+    fitText: (value, size, maxWidth, isBold = false) => {
+      useFont(size, isBold);
+      const measure = (s: string) => pdf.getTextWidth(s);
+      if (measure(value) <= maxWidth) return value;
+      const chars = Array.from(value);
+      while (chars.length > 0 && measure(chars.join('') + '…') > maxWidth) chars.pop();
+      return chars.join('') + '…';
+    },
+    toBlob: () => pdf.output('blob')
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
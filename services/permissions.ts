@@ -0,0 +1,48 @@
+
+import { UserRole } from '../types';
+
+// 角色由低至高，需與後端 ROLES / ACTION_ROLES 一致；後端仍會再次檢查
+const ROLE_ORDER: UserRole[] = ['viewer', 'clerk', 'approver', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '檢視者',
+  clerk: '經辦',
+  approver: '核准者',
+  admin: '管理員'
+};
+
+export type Permission = 'edit' | 'batch' | 'restore' | 'closePeriod' | 'purge' | 'manageUsers' | 'manageVendors' | 'markPayment' | 'manageMaterials' | 'manageMachines' | 'manageBudgets' | 'requisition' | 'approveRequisition' | 'manageReports';
+
+const PERMISSION_ROLES: Record<Permission, UserRole> = {
+  edit: 'clerk',
+  batch: 'clerk',
+  restore: 'clerk',
+  closePeriod: 'approver',
+  purge: 'admin',
+  manageUsers: 'admin',
+  manageVendors: 'clerk',
+  markPayment: 'approver',
+  manageMaterials: 'admin',
+  manageMachines: 'clerk',
+  manageBudgets: 'approver',
+  requisition: 'clerk',
+  approveRequisition: 'approver',
+  manageReports: 'clerk'
+};
+
+export const hasRole = (role: UserRole | null, required: UserRole): boolean =>
+  !!role && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required);
+
+export const can = (role: UserRole | null, permission: Permission): boolean =>
+  hasRole(role, PERMISSION_ROLES[permission]);
+
+// 各分頁最低角色；未列出者所有角色皆可檢視
+const TAB_ROLES: Record<string, UserRole> = {
+  batch: 'clerk',
+  recycle: 'clerk',
+  users: 'admin',
+  materials: 'admin'
+};
+
+export const canViewTab = (role: UserRole | null, tab: string): boolean =>
+  !!role && (!TAB_ROLES[tab] || hasRole(role, TAB_ROLES[tab]));
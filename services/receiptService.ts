@@ -0,0 +1,59 @@
+
+import { Transaction, TransactionType, Receipt, ReceiptStatus } from '../types';
+
+export const RECEIPT_STATUS_BADGES: Record<ReceiptStatus, string> = {
+  '未到貨': 'bg-amber-100 text-amber-600',
+  '部分到貨': 'bg-sky-100 text-sky-600',
+  '已到貨': 'bg-emerald-100 text-emerald-600'
+};
+
+export interface ReceiptProgress {
+  ordered: number;
+  received: number;
+  outstanding: number;
+  status: ReceiptStatus;
+  receipts: Receipt[];     // 依收貨日期排序
+}
+
+/**
+ * 依進貨紀錄 id 分組收貨明細，組內依收貨日期排序
+ */
+export const groupReceipts = (receipts: Receipt[]): Map<string, Receipt[]> => {
+  const map = new Map<string, Receipt[]>();
+  receipts.forEach(r => {
+    const list = map.get(r.recordId) || [];
+    list.push(r);
+    map.set(r.recordId, list);
+  });
+  map.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id)));
+  return map;
+};
+
+/**
+ * 進貨到貨進度：累計收貨數量與未到貨數量
+ * 以收貨明細累計為準；isReceived 只用於沒有任何明細的舊資料 (已標記視為全數到貨)。
+ */
+export const getReceiptProgress = (t: Transaction, receipts: Receipt[] = []): ReceiptProgress => {
+  const ordered = Number(t.quantity) || 0;
+  const sum = receipts.reduce((acc, r) => acc + r.quantity, 0);
+  const received = receipts.length === 0 ? (t.isReceived === true ? ordered : 0) : Math.min(sum, ordered);
+  const outstanding = Math.max(ordered - received, 0);
+  const status: ReceiptStatus = outstanding === 0 ? '已到貨' : received > 0 ? '部分到貨' : '未到貨';
+  return { ordered, received, outstanding, status, receipts };
+};
+
+/**
+ * 建立 進貨 id → 到貨進度 的對照表；非進貨紀錄不列入
+ */
+export const buildReceiptIndex = (transactions: Transaction[], receipts: Receipt[]): Map<string, ReceiptProgress> => {
+  const grouped = groupReceipts(receipts);
+  const index = new Map<string, ReceiptProgress>();
+  transactions.forEach(t => {
+    if (t.type === TransactionType.INBOUND) index.set(t.id, getReceiptProgress(t, grouped.get(t.id)));
+  });
+  return index;
+};
+
+// 報表與列表使用的簡短說明，例如「部分到貨 (待到 3/10)」
+export const formatReceiptProgress = (p: ReceiptProgress) =>
+  p.status === '已到貨' ? '已到貨' : `${p.status} (待到 ${p.outstanding}/${p.ordered})`;
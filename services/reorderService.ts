@@ -0,0 +1,93 @@
+
+import { Transaction, Material, Receipt } from '../types';
+import { computeStockLedger, isOutbound } from './inventoryService';
+import { pnKey } from './materialService';
+
+// 近期耗用的計算區間 (天)
+export const USAGE_LOOKBACK_DAYS = 90;
+
+export interface ReorderAlert {
+  material: Material;
+  onHand: number;
+  onOrder: number;
+  monthlyUsage: number;     // 近期平均每 30 天的用料 + 建置數量
+  daysOfCover: number | null; // 目前結存可支應的天數 (近期無耗用時為 null)
+  target: number;           // 補貨目標庫存
+  suggestedQty: number;     // 建議訂購量 (已扣除在途)
+}
+
+const getTaipeiToday = () => new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+
+const daysBefore = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) - days * 86400000).toISOString().slice(0, 10);
+
+/**
+ * 各料號近期出庫總量 (用料 + 建置)，鍵為不分大小寫的料號
+ */
+const recentConsumption = (transactions: Transaction[], today: string): Map<string, number> => {
+  const since = daysBefore(today, USAGE_LOOKBACK_DAYS);
+  const totals = new Map<string, number>();
+  transactions.forEach(t => {
+    const key = pnKey(t.materialNumber);
+    if (!key || !isOutbound(t.type) || t.date <= since || t.date > today) return;
+    totals.set(key, (totals.get(key) || 0) + (Number(t.quantity) || 0));
+  });
+  return totals;
+};
+
+/**
+ * 低庫存警示：啟用中且設有最低庫存的料件，結存 (已到貨進貨 - 用料 - 建置) 低於最低庫存者
+ * 補貨目標為最高庫存；未設最高庫存時為最低庫存加上近 30 天耗用量。建議訂購量 = 目標 - 結存 - 在途。
+ */
+export const buildReorderAlerts = (
+  transactions: Transaction[],
+  receipts: Receipt[],
+  materials: Material[],
+  today = getTaipeiToday()
+): ReorderAlert[] => {
+  const tracked = materials.filter(m => m.active && m.minStock > 0);
+  if (tracked.length === 0) return [];
+
+  const balances = new Map<string, { onHand: number; onOrder: number }>();
+  computeStockLedger(transactions, receipts).forEach(b => {
+    const key = pnKey(b.materialNumber);
+    const current = balances.get(key) || { onHand: 0, onOrder: 0 };
+    balances.set(key, { onHand: current.onHand + b.onHand, onOrder: current.onOrder + b.onOrder });
+  });
+  const consumption = recentConsumption(transactions, today);
+
+  return tracked
+    .map(material => {
+      const key = pnKey(material.pn);
+      const { onHand, onOrder } = balances.get(key) || { onHand: 0, onOrder: 0 };
+      const used = consumption.get(key) || 0;
+      const monthlyUsage = used / (USAGE_LOOKBACK_DAYS / 30);
+      const target = material.maxStock > material.minStock ? material.maxStock : material.minStock + Math.ceil(monthlyUsage);
+      return {
+        material,
+        onHand,
+        onOrder,
+        monthlyUsage,
+        daysOfCover: used > 0 ? Math.max(onHand, 0) / (used / USAGE_LOOKBACK_DAYS) : null,
+        target,
+        suggestedQty: Math.max(Math.ceil(target - onHand - onOrder), 0)
+      };
+    })
+    .filter(a => a.onHand < a.material.minStock)
+    .sort((a, b) => a.onHand / a.material.minStock - b.onHand / b.material.minStock || a.material.pn.localeCompare(b.material.pn));
+};
+
+/**
+ * 將選取的警示轉為批次新增用的進貨列 (數量為建議訂購量，單價取主檔預設單價)
+ */
+export const reorderRows = (alerts: ReorderAlert[]): Record<string, any>[] =>
+  alerts
+    .filter(a => a.suggestedQty > 0)
+    .map(a => ({
+      materialName: a.material.name,
+      materialNumber: a.material.pn,
+      machineCategory: a.material.machineCategory,
+      quantity: a.suggestedQty,
+      unitPrice: a.material.defaultPrice,
+      note: `低庫存補貨 (結存 ${a.onHand} / 最低 ${a.material.minStock})`
+    }));
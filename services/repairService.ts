@@ -0,0 +1,117 @@
+
+import { Transaction, TransactionType, RepairStatus } from '../types';
+
+/**
+ * 維修狀態機：待送修 → 送修中 → 已完修 → 已上機，任一未結束狀態皆可轉為報廢。
+ * 需與後端 REPAIR_TRANSITIONS 一致。
+ */
+export const REPAIR_TRANSITIONS: Record<RepairStatus, RepairStatus[]> = {
+  [RepairStatus.PENDING]: [RepairStatus.SENT, RepairStatus.SCRAPPED],
+  [RepairStatus.SENT]: [RepairStatus.REPAIRED, RepairStatus.SCRAPPED],
+  [RepairStatus.REPAIRED]: [RepairStatus.INSTALLED, RepairStatus.SCRAPPED],
+  [RepairStatus.INSTALLED]: [],
+  [RepairStatus.SCRAPPED]: []
+};
+
+// 新增維修單時可選的起始狀態
+export const INITIAL_REPAIR_STATUSES = [RepairStatus.PENDING, RepairStatus.SENT];
+
+const STATUS_VALUES = Object.values(RepairStatus) as string[];
+
+/**
+ * 取得維修狀態；舊資料沒有狀態欄位時依報廢標記與日期欄位推導
+ */
+export const getRepairStatus = (t: Partial<Transaction>): RepairStatus => {
+  if (t.repairStatus && STATUS_VALUES.includes(t.repairStatus)) return t.repairStatus;
+  if (t.isScrapped) return RepairStatus.SCRAPPED;
+  if (t.installDate) return RepairStatus.INSTALLED;
+  if (t.repairDate) return RepairStatus.REPAIRED;
+  if (t.sentDate) return RepairStatus.SENT;
+  return RepairStatus.PENDING;
+};
+
+export const isRepairOpen = (t: Transaction) =>
+  t.type === TransactionType.REPAIR && [RepairStatus.PENDING, RepairStatus.SENT].includes(getRepairStatus(t));
+
+export const canTransition = (from: RepairStatus, to: RepairStatus) =>
+  from === to || REPAIR_TRANSITIONS[from].includes(to);
+
+/**
+ * 目前狀態可選的下一步 (含維持原狀態)
+ */
+export const getAllowedStatuses = (current: RepairStatus | null): RepairStatus[] =>
+  current === null ? INITIAL_REPAIR_STATUSES : [current, ...REPAIR_TRANSITIONS[current]];
+
+export type TurnaroundGroupBy = 'part' | 'vendor' | 'machineCategory';
+
+export interface DurationStats {
+  count: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  max: number;
+}
+
+export interface TurnaroundRow {
+  key: string;
+  repairs: number;
+  sentToRepaired: DurationStats;      // 送修 → 完修 (天)
+  repairedToInstalled: DurationStats; // 完修 → 上機 (天)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from?: string, to?: string): number | null => {
+  if (!from || !to) return null;
+  const diff = (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+  return isNaN(diff) || diff < 0 ? null : diff;
+};
+
+/**
+ * 線性內插百分位數 (values 需已排序)
+ */
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+const summarize = (values: number[]): DurationStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.length ? sorted.reduce((s, v) => s + v, 0) / sorted.length : 0,
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    max: sorted.length ? sorted[sorted.length - 1] : 0
+  };
+};
+
+const groupKey = (t: Transaction, groupBy: TurnaroundGroupBy): string => {
+  if (groupBy === 'vendor') return (t.vendor || '').trim() || '未指定廠商';
+  if (groupBy === 'machineCategory') return t.machineCategory || '未分類';
+  return t.materialNumber ? `${t.materialName} (${t.materialNumber})` : t.materialName;
+};
+
+/**
+ * 維修週期報表：依零件、廠商或機台種類分組，計算送修→完修、完修→上機的平均與百分位天數
+ */
+export const computeTurnaroundReport = (transactions: Transaction[], groupBy: TurnaroundGroupBy): TurnaroundRow[] => {
+  const groups = new Map<string, { repairs: number; sent: number[]; install: number[] }>();
+  transactions.forEach(t => {
+    if (t.type !== TransactionType.REPAIR) return;
+    const key = groupKey(t, groupBy);
+    const g = groups.get(key) || { repairs: 0, sent: [], install: [] };
+    g.repairs++;
+    const sentToRepaired = daysBetween(t.sentDate, t.repairDate);
+    const repairedToInstalled = daysBetween(t.repairDate, t.installDate);
+    if (sentToRepaired !== null) g.sent.push(sentToRepaired);
+    if (repairedToInstalled !== null) g.install.push(repairedToInstalled);
+    groups.set(key, g);
+  });
+  return Array.from(groups.entries())
+    .map(([key, g]) => ({ key, repairs: g.repairs, sentToRepaired: summarize(g.sent), repairedToInstalled: summarize(g.install) }))
+    .sort((a, b) => b.sentToRepaired.mean - a.sentToRepaired.mean || b.repairs - a.repairs);
+};
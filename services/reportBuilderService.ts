@@ -0,0 +1,207 @@
+
+import * as XLSX from 'xlsx';
+import { Transaction, TransactionType, ReportDefinition, ReportDimension, ReportAggregate, ReportAggregateFn, ReportMeasure, ReportFilters } from '../types';
+import { getRepairStatus } from './repairService';
+import { downloadBlob } from './pdfService';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  width: number;           // 匯出 Excel 的欄寬 (字元數)
+  numeric?: boolean;
+  value: (t: Transaction) => string | number;
+}
+
+/**
+ * 報表可選的明細欄位；匯出欄寬取自此處，不再逐表寫死
+ */
+export const REPORT_COLUMNS: ReportColumn[] = [
+  { key: 'id', label: 'ID (編號)', width: 15, value: t => t.id },
+  { key: 'date', label: '日期', width: 12, value: t => t.date },
+  { key: 'month', label: '月份', width: 10, value: t => t.date.slice(0, 7) },
+  { key: 'type', label: '類別', width: 8, value: t => t.type },
+  { key: 'materialName', label: '料件名稱', width: 30, value: t => t.materialName },
+  { key: 'materialNumber', label: '料件編號(PN)', width: 20, value: t => t.materialNumber },
+  { key: 'machineCategory', label: '機台種類', width: 12, value: t => t.machineCategory || '' },
+  { key: 'machineNumber', label: '機台編號', width: 15, value: t => t.machineNumber },
+  { key: 'accountCategory', label: '帳目', width: 8, value: t => t.accountCategory || '' },
+  { key: 'vendor', label: '廠商', width: 20, value: t => t.vendor || '' },
+  { key: 'quantity', label: '數量', width: 10, numeric: true, value: t => Number(t.quantity) || 0 },
+  { key: 'unitPrice', label: '單價', width: 12, numeric: true, value: t => Number(t.unitPrice) || 0 },
+  { key: 'total', label: '總額', width: 15, numeric: true, value: t => Number(t.total) || 0 },
+  { key: 'operator', label: '操作人', width: 12, value: t => t.operator || '系統' },
+  { key: 'sn', label: '設備序號(SN)', width: 18, value: t => t.sn || '' },
+  { key: 'faultReason', label: '故障原因', width: 20, value: t => t.faultReason || '' },
+  { key: 'repairStatus', label: '維修狀態', width: 10, value: t => t.type === TransactionType.REPAIR ? getRepairStatus(t) : '' },
+  { key: 'note', label: '備註', width: 40, value: t => t.note || '' }
+];
+
+export const DIMENSION_LABELS: Record<ReportDimension, string> = {
+  type: '類別',
+  accountCategory: '帳目',
+  machineCategory: '機台種類',
+  machineNumber: '機台編號',
+  operator: '操作人',
+  month: '月份'
+};
+
+export const AGGREGATE_FN_LABELS: Record<ReportAggregateFn, string> = {
+  count: '筆數',
+  sum: '合計',
+  avg: '平均',
+  min: '最小',
+  max: '最大'
+};
+
+export const MEASURE_LABELS: Record<ReportMeasure, string> = {
+  quantity: '數量',
+  unitPrice: '單價',
+  total: '總額'
+};
+
+export const aggregateLabel = (a: ReportAggregate) =>
+  a.fn === 'count' ? AGGREGATE_FN_LABELS.count : `${MEASURE_LABELS[a.field]}${AGGREGATE_FN_LABELS[a.fn]}`;
+
+export const EMPTY_REPORT_FILTERS: ReportFilters = {
+  types: [],
+  dateFrom: '',
+  dateTo: '',
+  machineCategory: '',
+  accountCategory: '',
+  vendor: '',
+  keyword: ''
+};
+
+export const createReportDefinition = (): ReportDefinition => ({
+  name: '',
+  description: '',
+  filters: EMPTY_REPORT_FILTERS,
+  columns: ['date', 'type', 'materialName', 'materialNumber', 'machineNumber', 'quantity', 'unitPrice', 'total'],
+  groupBy: [],
+  aggregates: [{ fn: 'count', field: 'total' }, { fn: 'sum', field: 'total' }],
+  createdBy: '',
+  updatedBy: '',
+  updatedAt: ''
+});
+
+const dimensionValue = (t: Transaction, dimension: ReportDimension) => {
+  if (dimension === 'month') return t.date.slice(0, 7);
+  if (dimension === 'operator') return t.operator || '系統';
+  return String(t[dimension] || '') || '(未填)';
+};
+
+export const applyReportFilters = (transactions: Transaction[], filters: ReportFilters) => {
+  const keyword = filters.keyword.trim().toLowerCase();
+  const vendor = filters.vendor.trim().toLowerCase();
+  return transactions.filter(t =>
+    (filters.types.length === 0 || filters.types.includes(t.type)) &&
+    (!filters.dateFrom || t.date >= filters.dateFrom) &&
+    (!filters.dateTo || t.date <= filters.dateTo) &&
+    (!filters.machineCategory || t.machineCategory === filters.machineCategory) &&
+    (!filters.accountCategory || t.accountCategory === filters.accountCategory) &&
+    (!vendor || (t.vendor || '').toLowerCase().includes(vendor)) &&
+    (!keyword || [t.materialName, t.materialNumber, t.machineNumber, t.note].some(v => (v || '').toLowerCase().includes(keyword)))
+  );
+};
+
+const computeAggregate = (items: Transaction[], a: ReportAggregate): number => {
+  if (a.fn === 'count') return items.length;
+  const values = items.map(t => Number(t[a.field]) || 0);
+  if (values.length === 0) return 0;
+  if (a.fn === 'sum') return values.reduce((acc, v) => acc + v, 0);
+  if (a.fn === 'avg') return Math.round((values.reduce((acc, v) => acc + v, 0) / values.length) * 100) / 100;
+  return a.fn === 'min' ? Math.min(...values) : Math.max(...values);
+};
+
+export interface ReportTableHeader {
+  label: string;
+  width: number;
+  numeric: boolean;
+}
+
+export interface ReportTable {
+  headers: ReportTableHeader[];
+  rows: (string | number)[][];
+  totals: (string | number)[] | null;      // 分組時的合計列
+  summary: { label: string; value: number }[];   // 全部紀錄的彙總值
+  recordCount: number;
+}
+
+/**
+ * 依報表定義產生表格：有分組時每組一列 (分組欄 + 彙總欄)，依分組值排序；
+ * 否則逐筆列出選定欄位，依日期排序
+ */
+export const buildReportTable = (transactions: Transaction[], def: ReportDefinition): ReportTable => {
+  const items = applyReportFilters(transactions, def.filters);
+  const summary = def.aggregates.map(a => ({ label: aggregateLabel(a), value: computeAggregate(items, a) }));
+
+  if (def.groupBy.length > 0) {
+    const groups = new Map<string, { keys: string[]; items: Transaction[] }>();
+    items.forEach(t => {
+      const keys = def.groupBy.map(d => dimensionValue(t, d));
+      const id = JSON.stringify(keys);
+      const group = groups.get(id) || { keys, items: [] };
+      group.items.push(t);
+      groups.set(id, group);
+    });
+    const rows = Array.from(groups.values())
+      .sort((a, b) => a.keys.join('\u0000').localeCompare(b.keys.join('\u0000')))
+      .map(g => [...g.keys, ...def.aggregates.map(a => computeAggregate(g.items, a))]);
+    return {
+      headers: [
+        ...def.groupBy.map(d => ({ label: DIMENSION_LABELS[d], width: 15, numeric: false })),
+        ...def.aggregates.map(a => ({ label: aggregateLabel(a), width: 15, numeric: true }))
+      ],
+      rows,
+      totals: def.aggregates.length > 0 ? ['★ 合計', ...def.groupBy.slice(1).map(() => ''), ...summary.map(s => s.value)] : null,
+      summary,
+      recordCount: items.length
+    };
+  }
+
+  const columns = def.columns
+    .map(key => REPORT_COLUMNS.find(c => c.key === key))
+    .filter((c): c is ReportColumn => !!c);
+  const sorted = [...items].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  return {
+    headers: columns.map(c => ({ label: c.label, width: c.width, numeric: !!c.numeric })),
+    rows: sorted.map(t => columns.map(c => c.value(t))),
+    totals: null,
+    summary,
+    recordCount: items.length
+  };
+};
+
+const toSheetRows = (table: ReportTable) => [
+  table.headers.map(h => h.label),
+  ...table.rows,
+  ...(table.totals ? [table.totals] : [])
+];
+
+/**
+ * 匯出報表：XLSX 含凍結表頭與欄寬，明細模式另附「彙總」分頁；CSV 加上 BOM 讓 Excel 正確辨識中文
+ */
+export const exportReport = (table: ReportTable, name: string, format: 'xlsx' | 'csv') => {
+  if (table.rows.length === 0) {
+    alert(`⚠️ 目前沒有符合條件的紀錄可供匯出`);
+    return;
+  }
+  const filename = `${name || '自訂報表'}_${new Date().toISOString().split('T')[0]}`;
+  const ws = XLSX.utils.aoa_to_sheet(toSheetRows(table));
+
+  if (format === 'csv') {
+    downloadBlob(new Blob(['\uFEFF' + XLSX.utils.sheet_to_csv(ws)], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    return;
+  }
+
+  ws['!cols'] = table.headers.map(h => ({ wch: h.width }));
+  ws['!views'] = [{ state: 'frozen', ySplit: 1 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, '報表');
+  if (!table.totals && table.summary.length > 0) {
+    const summaryWs = XLSX.utils.aoa_to_sheet([['彙總', '數值'], ['資料筆數', table.recordCount], ...table.summary.map(s => [s.label, s.value])]);
+    summaryWs['!cols'] = [{ wch: 20 }, { wch: 18 }];
+    XLSX.utils.book_append_sheet(wb, summaryWs, '彙總');
+  }
+  XLSX.writeFile(wb, `${filename}.xlsx`);
+};
@@ -1,18 +1,23 @@
 
 import * as XLSX from 'xlsx';
-import { Transaction, TransactionType } from '../types';
+import { getRepairStatus } from './repairService';
+import { Transaction, TransactionType, Vendor, VendorPayment, PaymentStatus, Receipt } from '../types';
+import { groupReceipts, getReceiptProgress, formatReceiptProgress } from './receiptService';
+import { MONTHLY_STATS_KEYS, sumByType } from './settlementService';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfColor, PdfDocument, createPdfDocument, downloadBlob } from './pdfService';
 
 /**
  * 匯出 Excel 專業報表
- * 包含：數據總結頁、凍結視窗、自動欄寬與財務統計
+ * 包含：數據總結頁、凍結視窗、自動欄寬與財務統計；進貨依收貨明細標示到貨進度
  */
-export const exportToExcel = (data: Transaction[], filename: string) => {
+export const exportToExcel = (data: Transaction[], filename: string, receipts: Receipt[] = []) => {
   if (!data || data.length === 0) {
     alert(`⚠️ 目前沒有符合條件的紀錄可供匯出`);
     return;
   }
 
   const wb = XLSX.utils.book_new();
+  const receiptsByRecord = groupReceipts(receipts);
 
   // 1. 建立「數據總結」分頁
   const prepareSummarySheet = () => {
@@ -65,6 +70,8 @@ export const exportToExcel = (data: Transaction[], filename: string) => {
         '機台編號': t.machineNumber,
         '設備序號(SN)': t.sn || '',
         '故障原因': t.faultReason || '',
+        '維修狀態': getRepairStatus(t),
+        '維修廠商': t.vendor || '',
         '數量': Number(t.quantity) || 0,
         '維修單價': Number(t.unitPrice) || 0,
         '維修總額': Number(t.total) || 0,
@@ -103,7 +110,8 @@ export const exportToExcel = (data: Transaction[], filename: string) => {
         };
         // 只有進貨類別才加上收貨狀態
         if (type === TransactionType.INBOUND) {
-          rowObj['收貨狀態'] = t.isReceived ? '已收到' : '待收貨';
+          rowObj['收貨狀態'] = formatReceiptProgress(getReceiptProgress(t, receiptsByRecord.get(t.id)));
+          rowObj['廠商'] = t.vendor || '';
         }
         return rowObj;
       });
@@ -161,3 +169,342 @@ export const exportToExcel = (data: Transaction[], filename: string) => {
   const finalFilename = `${filename}_${new Date().toISOString().split('T')[0]}.xlsx`;
   XLSX.writeFile(wb, finalFilename);
 };
+
+// 營業稅率：紀錄金額皆為未稅，對帳單另計稅額
+export const VAT_RATE = 0.05;
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: '未付款',
+  paid: '已付款'
+};
+
+export interface VendorStatement {
+  vendor: string;
+  info?: Vendor;               // 廠商主檔資料 (舊紀錄的自由輸入廠商可能不在主檔中)
+  period: string;              // YYYY-MM
+  inboundLines: Transaction[];
+  repairLines: Transaction[];
+  inboundSubtotal: number;
+  repairSubtotal: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+  paymentStatus: PaymentStatus;
+  paidAt?: string;
+}
+
+const sumTotal = (items: Transaction[]) => items.reduce((sum, t) => sum + (Number(t.total) || 0), 0);
+
+/**
+ * 彙整指定月份各廠商的進貨與維修明細，計算小計、稅額與付款狀態
+ */
+export const buildVendorStatements = (
+  transactions: Transaction[],
+  vendors: Vendor[],
+  payments: VendorPayment[],
+  period: string
+): VendorStatement[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    const vendor = (t.vendor || '').trim();
+    if (!vendor || t.isDeleted || !t.date.startsWith(period)) return;
+    if (t.type !== TransactionType.INBOUND && t.type !== TransactionType.REPAIR) return;
+    groups.set(vendor, [...(groups.get(vendor) || []), t]);
+  });
+
+  return Array.from(groups.entries()).map(([vendor, items]) => {
+    const byDate = [...items].sort((a, b) => a.date.localeCompare(b.date));
+    const inboundLines = byDate.filter(t => t.type === TransactionType.INBOUND);
+    const repairLines = byDate.filter(t => t.type === TransactionType.REPAIR);
+    const inboundSubtotal = sumTotal(inboundLines);
+    const repairSubtotal = sumTotal(repairLines);
+    const subtotal = inboundSubtotal + repairSubtotal;
+    const tax = Math.round(subtotal * VAT_RATE);
+    const payment = payments.find(p => p.vendor === vendor && p.period === period);
+    return {
+      vendor,
+      info: vendors.find(v => v.name === vendor),
+      period,
+      inboundLines,
+      repairLines,
+      inboundSubtotal,
+      repairSubtotal,
+      subtotal,
+      tax,
+      total: subtotal + tax,
+      paymentStatus: payment?.status || 'unpaid',
+      paidAt: payment?.paidAt
+    };
+  }).sort((a, b) => b.total - a.total);
+};
+
+// 工作表名稱不可含 \ / ? * [ ] :，且最長 31 字元
+const toSheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[\\/?*[\]:]/g, '_').slice(0, 28) || '廠商';
+  let sheetName = base;
+  for (let i = 2; used.has(sheetName); i++) sheetName = `${base}_${i}`;
+  used.add(sheetName);
+  return sheetName;
+};
+
+/**
+ * 匯出廠商月對帳單：總覽分頁 + 每家廠商一個明細分頁
+ */
+export const exportVendorStatements = (statements: VendorStatement[], period: string) => {
+  if (statements.length === 0) {
+    alert(`⚠️ ${period} 沒有任何廠商交易可供對帳`);
+    return;
+  }
+
+  const wb = XLSX.utils.book_new();
+  const overview: (string | number)[][] = [
+    [`廠商月對帳單 - ${period}`],
+    ['生成時間', new Date().toLocaleString('zh-TW')],
+    [''],
+    ['廠商', '統一編號', '付款條件', '進貨小計', '維修小計', '未稅合計', `營業稅 (${VAT_RATE * 100}%)`, '含稅總額', '付款狀態']
+  ];
+  statements.forEach(s => overview.push([
+    s.vendor, s.info?.taxId || '', s.info?.paymentTerms || '',
+    s.inboundSubtotal, s.repairSubtotal, s.subtotal, s.tax, s.total, PAYMENT_STATUS_LABELS[s.paymentStatus]
+  ]));
+  overview.push(['']);
+  overview.push([
+    '★ 總計', '', '',
+    statements.reduce((sum, s) => sum + s.inboundSubtotal, 0),
+    statements.reduce((sum, s) => sum + s.repairSubtotal, 0),
+    statements.reduce((sum, s) => sum + s.subtotal, 0),
+    statements.reduce((sum, s) => sum + s.tax, 0),
+    statements.reduce((sum, s) => sum + s.total, 0),
+    ''
+  ]);
+  const overviewWs = XLSX.utils.aoa_to_sheet(overview);
+  overviewWs['!cols'] = [{ wch: 24 }, { wch: 12 }, { wch: 16 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 10 }];
+  XLSX.utils.book_append_sheet(wb, overviewWs, '📊 對帳總覽');
+
+  const used = new Set<string>();
+  statements.forEach(s => {
+    const rows: (string | number)[][] = [
+      [`${s.vendor} ${period} 對帳單`],
+      ['統一編號', s.info?.taxId || '', '聯絡資訊', s.info?.contact || ''],
+      ['付款條件', s.info?.paymentTerms || '', '付款狀態', `${PAYMENT_STATUS_LABELS[s.paymentStatus]}${s.paidAt ? ` (${s.paidAt.slice(0, 10)})` : ''}`],
+      [''],
+      ['類別', '日期', 'ID (編號)', '料件名稱', '料件編號(PN)', '機台編號', '數量', '單價', '金額', '備註']
+    ];
+    const pushLines = (label: string, lines: Transaction[], subtotal: number) => {
+      if (lines.length === 0) return;
+      lines.forEach(t => rows.push([
+        t.type, t.date, t.id, t.materialName, t.materialNumber, t.machineNumber,
+        Number(t.quantity) || 0, Number(t.unitPrice) || 0, Number(t.total) || 0, t.note || ''
+      ]));
+      rows.push(['', '', '', `${label}小計 (${lines.length} 筆)`, '', '', '', '', subtotal, '']);
+    };
+    pushLines('進貨', s.inboundLines, s.inboundSubtotal);
+    pushLines('維修', s.repairLines, s.repairSubtotal);
+    rows.push(['']);
+    rows.push(['', '', '', '未稅合計', '', '', '', '', s.subtotal, '']);
+    rows.push(['', '', '', `營業稅 (${VAT_RATE * 100}%)`, '', '', '', '', s.tax, '']);
+    rows.push(['', '', '', '★ 含稅總額', '', '', '', '', s.total, '']);
+
+    const ws = XLSX.utils.aoa_to_sheet(rows);
+    ws['!cols'] = [{ wch: 8 }, { wch: 12 }, { wch: 15 }, { wch: 30 }, { wch: 20 }, { wch: 15 }, { wch: 8 }, { wch: 12 }, { wch: 14 }, { wch: 30 }];
+    XLSX.utils.book_append_sheet(wb, ws, toSheetName(s.vendor, used));
+  });
+
+  XLSX.writeFile(wb, `廠商對帳單_${period}.xlsx`);
+};
+
+export interface SettlementPdfOptions {
+  title: string;           // 例如「2025 年 03 月」或「當前篩選結果」
+  preparedBy: string;      // 製表人 (預填於簽核頁)
+  filename: string;
+}
+
+interface PdfColumn {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = 70;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 60;
+const ROW_HEIGHT = 16;
+const GRAY: PdfColor = [0.45, 0.45, 0.5];
+const HEADER_FILL: PdfColor = [0.92, 0.93, 0.96];
+const TOTAL_FILL: PdfColor = [0.97, 0.97, 0.98];
+const SETTLEMENT_TYPES = [TransactionType.INBOUND, TransactionType.USAGE, TransactionType.CONSTRUCTION, TransactionType.REPAIR];
+
+const money = (n: number) => `NT$ ${Math.round(n).toLocaleString()}`;
+const percent = (part: number, total: number) => total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '0%';
+
+/**
+ * 匯出月結 PDF：封面 (各類別總額)、類別彙總表、維修明細、簽核頁 (製表 / 審核 / 核准)；
+ * 每頁含頁首與「第 n / N 頁」頁尾
+ */
+export const exportSettlementPdf = async (data: Transaction[], { title, preparedBy, filename }: SettlementPdfOptions) => {
+  if (!data || data.length === 0) {
+    alert(`⚠️ 目前沒有符合條件的紀錄可供匯出`);
+    return;
+  }
+
+  let doc: PdfDocument;
+  try {
+    doc = await createPdfDocument();
+  } catch (e: any) {
+    console.error("PDF font load error:", e);
+    alert(`❌ 無法載入 PDF 中文字型，請確認網路連線後再試：${e.message}`);
+    return;
+  }
+  const generatedAt = new Date().toLocaleString('zh-TW');
+  const stats = sumByType(data);
+  let y = CONTENT_TOP;
+
+  const newPage = () => {
+    doc.addPage();
+    y = CONTENT_TOP;
+  };
+  const heading = (text: string) => {
+    if (y + 60 > CONTENT_BOTTOM) newPage();
+    doc.text(MARGIN, y + 14, text, { size: 14, bold: true });
+    y += 28;
+  };
+
+  // 表格：換頁時重印表頭；rows 的最後一列可標示為合計列
+  const table = (columns: PdfColumn[], rows: string[][], { size = 9, totalRow = false } = {}) => {
+    const drawRow = (cells: string[], fill?: PdfColor, bold = false) => {
+      if (fill) doc.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, fill);
+      let x = MARGIN;
+      columns.forEach((col, i) => {
+        const value = doc.fitText(cells[i] || '', size, col.width - 8, bold);
+        const right = col.align === 'right';
+        doc.text(right ? x + col.width - 4 : x + 4, y + ROW_HEIGHT - 4.5, value, { size, bold, align: right ? 'right' : 'left' });
+        x += col.width;
+      });
+      doc.line(MARGIN, y + ROW_HEIGHT, MARGIN + CONTENT_WIDTH, y + ROW_HEIGHT, 0.3, [0.8, 0.8, 0.85]);
+      y += ROW_HEIGHT;
+    };
+    const header = () => drawRow(columns.map(c => c.label), HEADER_FILL, true);
+
+    if (y + ROW_HEIGHT * 2 > CONTENT_BOTTOM) newPage();
+    header();
+    rows.forEach((cells, i) => {
+      if (y + ROW_HEIGHT > CONTENT_BOTTOM) {
+        newPage();
+        header();
+      }
+      const isTotal = totalRow && i === rows.length - 1;
+      drawRow(cells, isTotal ? TOTAL_FILL : undefined, isTotal);
+    });
+    y += 18;
+  };
+
+  // 1. 封面：各類別件數、金額與佔比
+  newPage();
+  doc.text(PAGE_WIDTH / 2, 160, '倉儲月結核銷報表', { size: 26, bold: true, align: 'center' });
+  doc.text(PAGE_WIDTH / 2, 195, title, { size: 16, align: 'center', color: GRAY });
+  doc.line(PAGE_WIDTH / 2 - 120, 215, PAGE_WIDTH / 2 + 120, 215, 1);
+  doc.text(PAGE_WIDTH / 2, 240, `資料總數 ${data.length} 筆 · 生成時間 ${generatedAt} · 製表 ${preparedBy}`, { size: 9, align: 'center', color: GRAY });
+  y = 290;
+  heading('類別摘要統計');
+  table(
+    [{ label: '類別', width: 155 }, { label: '件數', width: 90, align: 'right' }, { label: '總額', width: 160, align: 'right' }, { label: '百分比', width: CONTENT_WIDTH - 405, align: 'right' }],
+    [
+      ...SETTLEMENT_TYPES.map(type => [
+        type,
+        String(data.filter(t => t.type === type).length),
+        money(stats[MONTHLY_STATS_KEYS[type]]),
+        percent(stats[MONTHLY_STATS_KEYS[type]], stats.grandTotal)
+      ]),
+      ['★ 全案總計', String(data.length), money(stats.grandTotal), '100%']
+    ],
+    { size: 11, totalRow: true }
+  );
+
+  // 2. 類別彙總：進貨依廠商、其他類別依機台種類
+  newPage();
+  SETTLEMENT_TYPES.forEach(type => {
+    const items = data.filter(t => t.type === type);
+    if (items.length === 0) return;
+    const byVendor = type === TransactionType.INBOUND;
+    const groups = new Map<string, Transaction[]>();
+    items.forEach(t => {
+      const key = (byVendor ? t.vendor : t.machineCategory) || (byVendor ? '未指定廠商' : '未分類');
+      groups.set(key, [...(groups.get(key) || []), t]);
+    });
+    const typeTotal = stats[MONTHLY_STATS_KEYS[type]];
+    const rows = Array.from(groups.entries())
+      .map(([key, group]) => ({ key, count: group.length, quantity: group.reduce((sum, t) => sum + (Number(t.quantity) || 0), 0), amount: sumTotal(group) }))
+      .sort((a, b) => b.amount - a.amount)
+      .map(r => [r.key, String(r.count), String(r.quantity), money(r.amount), percent(r.amount, typeTotal)]);
+    heading(`${type} · 依${byVendor ? '廠商' : '機台種類'}`);
+    table(
+      [{ label: byVendor ? '廠商' : '機台種類', width: 175 }, { label: '筆數', width: 70, align: 'right' }, { label: '數量', width: 80, align: 'right' }, { label: '金額', width: 120, align: 'right' }, { label: '佔比', width: CONTENT_WIDTH - 445, align: 'right' }],
+      [...rows, ['小計', String(items.length), String(items.reduce((sum, t) => sum + (Number(t.quantity) || 0), 0)), money(typeTotal), '100%']],
+      { totalRow: true }
+    );
+  });
+
+  // 3. 維修明細
+  const repairs = data.filter(t => t.type === TransactionType.REPAIR).sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  if (repairs.length > 0) {
+    newPage();
+    heading(`維修明細 (${repairs.length} 筆)`);
+    table(
+      [
+        { label: '日期', width: 52 }, { label: '機台', width: 50 }, { label: '料件名稱', width: 88 }, { label: 'PN', width: 60 },
+        { label: 'SN', width: 55 }, { label: '故障原因', width: 65 }, { label: '狀態', width: 40 }, { label: '廠商', width: 50 },
+        { label: '金額', width: CONTENT_WIDTH - 460, align: 'right' }
+      ],
+      [
+        ...repairs.map(t => [
+          t.date, t.machineNumber, t.materialName, t.materialNumber, t.sn || '', t.faultReason || '',
+          getRepairStatus(t), t.vendor || '', money(Number(t.total) || 0)
+        ]),
+        ['★ 總計', '', `共 ${repairs.length} 筆`, '', '', '', '', '', money(stats.repairTotal)]
+      ],
+      { size: 8, totalRow: true }
+    );
+  }
+
+  // 4. 簽核頁
+  newPage();
+  heading('簽核');
+  [
+    ['報表範圍', title],
+    ['資料總數', `${data.length} 筆`],
+    ['全案總計', money(stats.grandTotal)]
+  ].forEach(([label, value]) => {
+    doc.text(MARGIN, y + 12, label, { size: 11, color: GRAY });
+    doc.text(MARGIN + 90, y + 12, value, { size: 11, bold: true });
+    y += 22;
+  });
+  doc.text(MARGIN, y + 24, '上列金額經核對與系統紀錄相符，謹請核示。', { size: 11 });
+  y += 60;
+  const boxWidth = (CONTENT_WIDTH - 30) / 3;
+  ['製表人', '審核人', '核准人'].forEach((role, i) => {
+    const x = MARGIN + i * (boxWidth + 15);
+    doc.rect(x, y, boxWidth, 24, HEADER_FILL);
+    doc.text(x + boxWidth / 2, y + 16, role, { size: 11, bold: true, align: 'center' });
+    [[x, y, x + boxWidth, y], [x, y + 150, x + boxWidth, y + 150], [x, y, x, y + 150], [x + boxWidth, y, x + boxWidth, y + 150]]
+      .forEach(([x1, y1, x2, y2]) => doc.line(x1, y1, x2, y2, 0.8));
+    if (i === 0) doc.text(x + 10, y + 48, preparedBy, { size: 10, color: GRAY });
+    doc.text(x + 10, y + 110, '簽名', { size: 9, color: GRAY });
+    doc.line(x + 38, y + 110, x + boxWidth - 10, y + 110, 0.5);
+    doc.text(x + 10, y + 136, '日期', { size: 9, color: GRAY });
+    doc.line(x + 38, y + 136, x + boxWidth - 10, y + 136, 0.5);
+  });
+
+  // 頁首與頁尾 (總頁數確定後補上)
+  const total = doc.pageCount();
+  for (let i = 0; i < total; i++) {
+    doc.setPage(i);
+    doc.text(MARGIN, 36, `倉儲月結核銷報表 · ${title}`, { size: 9, color: GRAY });
+    doc.text(PAGE_WIDTH - MARGIN, 36, `生成時間 ${generatedAt}`, { size: 9, color: GRAY, align: 'right' });
+    doc.line(MARGIN, 44, PAGE_WIDTH - MARGIN, 44, 0.5, GRAY);
+    doc.line(MARGIN, PAGE_HEIGHT - 44, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 44, 0.5, GRAY);
+    doc.text(PAGE_WIDTH / 2, PAGE_HEIGHT - 28, `第 ${i + 1} / ${total} 頁`, { size: 9, color: GRAY, align: 'center' });
+  }
+
+  downloadBlob(doc.toBlob(), `${filename}_${new Date().toISOString().split('T')[0]}.pdf`);
+};
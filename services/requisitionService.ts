@@ -0,0 +1,40 @@
+
+import { Requisition, RequisitionLine, RequisitionStatus, Transaction, UserRole } from '../types';
+import { can } from './permissions';
+
+export const REQUISITION_STATUS_LABELS: Record<RequisitionStatus, string> = {
+  draft: '草稿',
+  submitted: '待審核',
+  approved: '已核准',
+  rejected: '已退回',
+  ordered: '已轉進貨'
+};
+
+export const REQUISITION_STATUS_BADGES: Record<RequisitionStatus, string> = {
+  draft: 'bg-slate-100 text-slate-500',
+  submitted: 'bg-amber-50 text-amber-600',
+  approved: 'bg-emerald-50 text-emerald-600',
+  rejected: 'bg-rose-50 text-rose-600',
+  ordered: 'bg-indigo-50 text-indigo-600'
+};
+
+export const lineTotal = (line: RequisitionLine) => (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0);
+
+export const requisitionTotal = (req: Pick<Requisition, 'lines'>) => req.lines.reduce((sum, line) => sum + lineTotal(line), 0);
+
+// 與後端規則一致：僅請購人可修改草稿或被退回的請購單
+export const canEditRequisition = (req: Requisition, user: string) =>
+  req.requester === user && (req.status === 'draft' || req.status === 'rejected');
+
+// 核准者不可審核自己提出的請購單
+export const canDecideRequisition = (req: Requisition, user: string, role: UserRole | null) =>
+  req.status === 'submitted' && req.requester !== user && can(role, 'approveRequisition');
+
+export const canOrderRequisition = (req: Requisition, role: UserRole | null) =>
+  req.status === 'approved' && can(role, 'requisition');
+
+/**
+ * 由請購單轉出的進貨紀錄 (依後端回寫的單號，或紀錄上的 requisitionId)
+ */
+export const findRequisitionRecords = (req: Requisition, transactions: Transaction[]): Transaction[] =>
+  transactions.filter(t => t.requisitionId === req.id || req.transactionIds.includes(t.id));
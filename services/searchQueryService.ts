@@ -0,0 +1,285 @@
+
+import { Transaction, TransactionType } from '../types';
+import { isRepairOpen } from './repairService';
+
+export type QueryStatus = 'pending_inbound' | 'scrapped' | 'repairing';
+
+/**
+ * 自然語言搜尋解析後的篩選條件；空字串 / null / 空陣列代表不限
+ */
+export interface RecordQuery {
+  types: TransactionType[];
+  dateFrom: string;            // YYYY-MM-DD (含)
+  dateTo: string;              // YYYY-MM-DD (含)
+  minTotal: number | null;     // 金額下限 (含)
+  maxTotal: number | null;     // 金額上限 (含)
+  machineCategory: string;
+  machineNumber: string;
+  vendor: string;
+  status: QueryStatus | '';
+  keyword: string;             // 以空白分隔，每個詞都需出現在品名、PN、SN、機台編號或備註中
+}
+
+// 解析時可參照的既有名稱 (機台種類、機台編號、廠商)
+export interface QueryVocabulary {
+  machineCategories: string[];
+  machineNumbers: string[];
+  vendors: string[];
+}
+
+export type QueryField = 'types' | 'date' | 'total' | 'machineCategory' | 'machineNumber' | 'vendor' | 'status' | 'keyword';
+
+export const EMPTY_QUERY: RecordQuery = {
+  types: [], dateFrom: '', dateTo: '', minTotal: null, maxTotal: null,
+  machineCategory: '', machineNumber: '', vendor: '', status: '', keyword: ''
+};
+
+export const QUERY_STATUS_LABELS: Record<QueryStatus, string> = {
+  pending_inbound: '未到貨 / 部分到貨',
+  scrapped: '報廢',
+  repairing: '維修中'
+};
+
+export const QUERY_FIELD_LABELS: Record<QueryField, string> = {
+  types: '類別',
+  date: '日期',
+  total: '金額',
+  machineCategory: '機台種類',
+  machineNumber: '機台編號',
+  vendor: '廠商',
+  status: '狀態',
+  keyword: '關鍵字'
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TYPE_VALUES = Object.values(TransactionType) as string[];
+
+/**
+ * 將模型或使用者編輯後的任意物件整理為合法的 RecordQuery，不合法的欄位一律視為不限
+ */
+export const normalizeRecordQuery = (raw: any): RecordQuery => {
+  const text = (v: any) => (typeof v === 'string' ? v.trim() : '');
+  const amount = (v: any) => (v === null || v === undefined || v === '' || !isFinite(Number(v)) ? null : Number(v));
+  const types = Array.isArray(raw?.types) ? raw.types.filter((t: any) => TYPE_VALUES.includes(t)) : [];
+  const dateFrom = DATE_RE.test(text(raw?.dateFrom)) ? text(raw.dateFrom) : '';
+  const dateTo = DATE_RE.test(text(raw?.dateTo)) ? text(raw.dateTo) : '';
+  return {
+    types: Array.from(new Set<TransactionType>(types)),
+    dateFrom,
+    dateTo,
+    minTotal: amount(raw?.minTotal),
+    maxTotal: amount(raw?.maxTotal),
+    machineCategory: text(raw?.machineCategory),
+    machineNumber: text(raw?.machineNumber),
+    vendor: text(raw?.vendor),
+    status: raw?.status in QUERY_STATUS_LABELS ? raw.status : '',
+    keyword: text(raw?.keyword)
+  };
+};
+
+export const isEmptyQuery = (q: RecordQuery) => listQueryFields(q).length === 0;
+
+// 目前有設定的欄位 (依 chips 顯示順序)
+export const listQueryFields = (q: RecordQuery): QueryField[] => {
+  const fields: QueryField[] = [];
+  if (q.types.length > 0) fields.push('types');
+  if (q.dateFrom || q.dateTo) fields.push('date');
+  if (q.minTotal !== null || q.maxTotal !== null) fields.push('total');
+  if (q.machineCategory) fields.push('machineCategory');
+  if (q.machineNumber) fields.push('machineNumber');
+  if (q.vendor) fields.push('vendor');
+  if (q.status) fields.push('status');
+  if (q.keyword) fields.push('keyword');
+  return fields;
+};
+
+export const clearQueryField = (q: RecordQuery, field: QueryField): RecordQuery => {
+  switch (field) {
+    case 'date': return { ...q, dateFrom: '', dateTo: '' };
+    case 'total': return { ...q, minTotal: null, maxTotal: null };
+    case 'types': return { ...q, types: [] };
+    default: return { ...q, [field]: '' };
+  }
+};
+
+export const formatQueryField = (q: RecordQuery, field: QueryField): string => {
+  switch (field) {
+    case 'types': return q.types.join('、');
+    case 'date':
+      if (q.dateFrom && q.dateFrom === q.dateTo) return q.dateFrom;
+      return q.dateFrom && q.dateTo ? `${q.dateFrom} 至 ${q.dateTo}` : q.dateFrom ? `${q.dateFrom} 起` : `至 ${q.dateTo}`;
+    case 'total':
+      if (q.minTotal !== null && q.maxTotal !== null) return `NT$ ${q.minTotal.toLocaleString()} ~ ${q.maxTotal.toLocaleString()}`;
+      return q.minTotal !== null ? `≥ NT$ ${q.minTotal.toLocaleString()}` : `≤ NT$ ${q.maxTotal!.toLocaleString()}`;
+    case 'status': return q.status ? QUERY_STATUS_LABELS[q.status] : '';
+    default: return q[field];
+  }
+};
+
+const includesText = (value: string | undefined, needle: string) => !!value && value.toLowerCase().includes(needle);
+
+/**
+ * 紀錄是否符合篩選條件；outstanding 回傳進貨的未到貨數量 (未到貨狀態判斷用)
+ */
+export const matchesRecordQuery = (t: Transaction, q: RecordQuery, outstanding: (t: Transaction) => number): boolean => {
+  if (q.types.length > 0 && !q.types.includes(t.type)) return false;
+  if (q.dateFrom && t.date.slice(0, 10) < q.dateFrom) return false;
+  if (q.dateTo && t.date.slice(0, 10) > q.dateTo) return false;
+  const total = Number(t.total) || 0;
+  if (q.minTotal !== null && total < q.minTotal) return false;
+  if (q.maxTotal !== null && total > q.maxTotal) return false;
+  if (q.machineCategory && (t.machineCategory || '').toLowerCase() !== q.machineCategory.toLowerCase()) return false;
+  if (q.machineNumber && !includesText(t.machineNumber, q.machineNumber.toLowerCase())) return false;
+  if (q.vendor && !includesText(t.vendor, q.vendor.toLowerCase())) return false;
+  if (q.status === 'pending_inbound' && !(t.type === TransactionType.INBOUND && outstanding(t) > 0)) return false;
+  if (q.status === 'scrapped' && t.isScrapped !== true) return false;
+  if (q.status === 'repairing' && !isRepairOpen(t)) return false;
+  return q.keyword.toLowerCase().split(/\s+/).filter(Boolean).every(k =>
+    [t.materialName, t.materialNumber, t.sn, t.machineNumber, t.note].some(v => includesText(v, k))
+  );
+};
+
+// ---- 規則式解析 (無 API Key 或模型失敗時使用) ----
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDate = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
+const lastDayOf = (y: number, m: number) => new Date(Date.UTC(y, m, 0)).getUTCDate();
+const monthRange = (y: number, m: number): [string, string] => [toDate(y, m, 1), toDate(y, m, lastDayOf(y, m))];
+const shiftDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+const shiftMonth = (y: number, m: number, delta: number) => {
+  const idx = y * 12 + (m - 1) + delta;
+  return { y: Math.floor(idx / 12), m: (idx % 12) + 1 };
+};
+
+const CN_DIGITS: Record<string, number> = { 一: 1, 二: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+// 阿拉伯數字或十以內 / 十幾 / 幾十的中文數字
+const parseCount = (s: string) => {
+  if (/^\d+$/.test(s)) return Number(s);
+  if (s === '十') return 10;
+  const tens = s.match(/^([一二兩三四五六七八九])?十([一二三四五六七八九])?$/);
+  if (tens) return (tens[1] ? CN_DIGITS[tens[1]] : 1) * 10 + (tens[2] ? CN_DIGITS[tens[2]] : 0);
+  return CN_DIGITS[s] || 0;
+};
+
+const parseAmount = (num: string, unit = '') => {
+  const value = Number(num.replace(/,/g, ''));
+  const scale = unit === '萬' ? 10000 : unit === '千' || unit.toLowerCase() === 'k' ? 1000 : 1;
+  return isFinite(value) ? value * scale : null;
+};
+
+const TYPE_WORDS: [RegExp, TransactionType][] = [
+  [/進貨|採購|入庫/, TransactionType.INBOUND],
+  [/用料|領料|領用/, TransactionType.USAGE],
+  [/建置/, TransactionType.CONSTRUCTION],
+  [/維修|送修|修理|報廢/, TransactionType.REPAIR]
+];
+
+const STATUS_WORDS: [RegExp, QueryStatus][] = [
+  [/未到貨|部分到貨|待到貨|在途/, 'pending_inbound'],
+  [/報廢/, 'scrapped'],
+  [/維修中|送修中|未完修/, 'repairing']
+];
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+// 英數名稱需完整比對 (避免 BA 誤中 BAR)，中文名稱直接比對
+const nameRe = (name: string) => new RegExp(`(?<![A-Za-z0-9])${escapeRe(name)}(?![A-Za-z0-9])`, 'i');
+
+const STOP_WORDS = /的|紀錄|記錄|資料|清單|明細|查詢|搜尋|找出|列出|所有|全部|顯示|給我|相關|有關|費用|金額|機台|機器|廠商|元|筆|[，,。、？?！!]/g;
+
+/**
+ * 規則式解析：辨識相對 / 絕對日期、金額門檻、類別、狀態、機台與廠商名稱，其餘文字當作關鍵字
+ */
+export const parseQueryLocally = (text: string, vocabulary: QueryVocabulary, today: string): RecordQuery => {
+  const q: RecordQuery = { ...EMPTY_QUERY, types: [] };
+  let rest = ` ${text} `;
+  const take = (re: RegExp, handle: (m: RegExpMatchArray) => void) => {
+    const m = rest.match(re);
+    if (!m) return false;
+    handle(m);
+    rest = rest.replace(m[0], ' ');
+    return true;
+  };
+  const setRange = ([from, to]: [string, string]) => { q.dateFrom = from; q.dateTo = to; };
+  const [ty, tm] = today.split('-').map(Number);
+
+  // 日期：完整日期 → 年月 → 年 → 相對區間 → 單獨月份
+  const fullDate = /(\d{4})\s*[-/年]\s*(\d{1,2})\s*[-/月]\s*(\d{1,2})\s*日?/;
+  const dates: string[] = [];
+  while (take(fullDate, m => dates.push(toDate(Number(m[1]), Number(m[2]), Number(m[3]))))) { /* 逐一取出 */ }
+  if (dates.length >= 2) {
+    dates.sort();
+    setRange([dates[0], dates[dates.length - 1]]);
+  } else if (dates.length === 1) {
+    if (take(/^\s*(之後|以後|起)/, () => {})) q.dateFrom = dates[0];
+    else if (take(/^\s*(之前|以前|前)/, () => {})) q.dateTo = dates[0];
+    else setRange([dates[0], dates[0]]);
+  }
+  if (!q.dateFrom && !q.dateTo) {
+    take(/(\d{4})\s*(?:年\s*(\d{1,2})\s*月份?|[-/](\d{1,2})(?![\d-]))/, m => {
+      const month = Number(m[2] || m[3]);
+      if (month >= 1 && month <= 12) setRange(monthRange(Number(m[1]), month));
+    }) ||
+    take(/(\d{4})\s*年度?/, m => setRange([`${m[1]}-01-01`, `${m[1]}-12-31`])) ||
+    take(/今天|今日/, () => setRange([today, today])) ||
+    take(/昨天|昨日/, () => setRange([shiftDays(today, -1), shiftDays(today, -1)])) ||
+    take(/(?:最近|近|過去)\s*([\d一二兩三四五六七八九十]+)\s*(天|日|週|周|星期|個月|月|年)/, m => {
+      const n = parseCount(m[1]);
+      if (m[2] === '年' || m[2] === '個月' || m[2] === '月') {
+        const back = shiftMonth(ty, tm, -(m[2] === '年' ? n * 12 : n));
+        setRange([toDate(back.y, back.m, Math.min(Number(today.slice(8)), lastDayOf(back.y, back.m))), today]);
+      } else {
+        setRange([shiftDays(today, -(n * (m[2] === '天' || m[2] === '日' ? 1 : 7)) + 1), today]);
+      }
+    }) ||
+    take(/本週|這週|這星期|本星期/, () => {
+      const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+      setRange([shiftDays(today, -weekday), today]);
+    }) ||
+    take(/上週|上星期/, () => {
+      const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+      setRange([shiftDays(today, -weekday - 7), shiftDays(today, -weekday - 1)]);
+    }) ||
+    take(/上上個月/, () => { const p = shiftMonth(ty, tm, -2); setRange(monthRange(p.y, p.m)); }) ||
+    take(/上個?月/, () => { const p = shiftMonth(ty, tm, -1); setRange(monthRange(p.y, p.m)); }) ||
+    take(/本月|這個?月|當月/, () => setRange(monthRange(ty, tm))) ||
+    take(/今年|本年度?/, () => setRange([`${ty}-01-01`, `${ty}-12-31`])) ||
+    take(/去年/, () => setRange([`${ty - 1}-01-01`, `${ty - 1}-12-31`])) ||
+    take(/(?<![\d.])(\d{1,2})\s*月份?/, m => {
+      const month = Number(m[1]);
+      // 尚未到的月份視為去年
+      if (month >= 1 && month <= 12) setRange(monthRange(month > tm ? ty - 1 : ty, month));
+    });
+  }
+
+  // 金額門檻
+  const num = '(?:NT\\$|\\$)?\\s*([\\d,]+(?:\\.\\d+)?)\\s*(萬|千|[kK])?\\s*(?:元|塊)?';
+  take(new RegExp(`(?:介於|在)\\s*${num}\\s*(?:到|至|~|-)\\s*${num}\\s*(?:之間)?`), m => {
+    q.minTotal = parseAmount(m[1], m[2]);
+    q.maxTotal = parseAmount(m[3], m[4]);
+  });
+  take(new RegExp(`(?:超過|大於|高於|多於|至少|不少於|>=?)\\s*${num}`), m => { q.minTotal = parseAmount(m[1], m[2]); });
+  take(new RegExp(`(?:低於|小於|少於|不到|不超過|至多|<=?)\\s*${num}`), m => { q.maxTotal = parseAmount(m[1], m[2]); });
+  take(new RegExp(`${num}\\s*(?:以上|起跳)`), m => { q.minTotal = parseAmount(m[1], m[2]); });
+  take(new RegExp(`${num}\\s*(?:以下|以內)`), m => { q.maxTotal = parseAmount(m[1], m[2]); });
+
+  // 狀態與類別 (狀態詞先比對，避免「維修中」只被當成類別)
+  STATUS_WORDS.forEach(([re, status]) => {
+    if (!q.status && re.test(rest)) q.status = status;
+  });
+  TYPE_WORDS.forEach(([re, type]) => {
+    if (re.test(rest)) q.types.push(type);
+  });
+  [...STATUS_WORDS.map(([re]) => re), ...TYPE_WORDS.map(([re]) => re)].forEach(re => {
+    rest = rest.replace(new RegExp(re.source, 'g'), ' ');
+  });
+
+  // 名稱：機台編號 → 機台種類 → 廠商，較長的名稱優先
+  const byLength = (list: string[]) => Array.from(new Set(list.filter(Boolean))).sort((a, b) => b.length - a.length);
+  byLength(vocabulary.machineNumbers).some(name => take(nameRe(name), () => { q.machineNumber = name; }));
+  byLength(vocabulary.machineCategories).some(name => take(nameRe(name), () => { q.machineCategory = name; }));
+  byLength(vocabulary.vendors).some(name => take(nameRe(name), () => { q.vendor = name; }));
+
+  q.keyword = rest.replace(STOP_WORDS, ' ').replace(/\s+/g, ' ').trim();
+  return q;
+};
@@ -0,0 +1,97 @@
+
+import { Transaction, TransactionType, RepairStatus } from '../types';
+import { getRepairStatus } from './repairService';
+
+export const snKey = (sn: string | undefined) => String(sn || '').trim().toUpperCase();
+
+export interface SerialInstallation {
+  machineNumber: string;
+  installedAt: string;
+  recordId: string;
+}
+
+export interface SerialGenealogy {
+  sn: string;
+  materialName: string;
+  materialNumber: string;
+  lines: Transaction[];                 // 該序號所有紀錄，依開始日期由舊至新
+  visits: Transaction[];                // 維修紀錄 (每筆為一次送修)
+  installations: SerialInstallation[];  // 曾安裝的機台，依時間排序
+  totalRepairSpend: number;
+  currentState: string;                 // 目前狀態文字，例如「已上機 @ A-01」
+  currentMachine: string;               // 目前所在機台 (不在機台上時為空字串)
+  installedIn: string[];                // 仍標記為已上機的機台；超過一台即為資料衝突
+}
+
+// 每筆紀錄的開始日：維修以送修日為準，其餘以單據日期為準
+const startDate = (t: Transaction) => (t.type === TransactionType.REPAIR && t.sentDate) || t.date;
+
+// 安裝日：維修需狀態為已上機，其他類別 (用料 / 建置) 視為單據日期即裝入機台
+const installDate = (t: Transaction): string => {
+  if (!t.machineNumber) return '';
+  if (t.type !== TransactionType.REPAIR) return t.date;
+  return getRepairStatus(t) === RepairStatus.INSTALLED ? (t.installDate || t.date) : '';
+};
+
+const describeState = (t: Transaction): string => {
+  if (t.type !== TransactionType.REPAIR) return t.machineNumber ? `${t.type} @ ${t.machineNumber}` : t.type;
+  const status = getRepairStatus(t);
+  if (status === RepairStatus.INSTALLED) return `${status} @ ${t.machineNumber || '未指定機台'}`;
+  if (status === RepairStatus.SENT) return t.vendor ? `${status} (${t.vendor})` : status;
+  if (status === RepairStatus.REPAIRED) return `${status}，待上機`;
+  return status;
+};
+
+const stitch = (records: Transaction[]): SerialGenealogy => {
+  const lines = [...records].sort((a, b) => startDate(a).localeCompare(startDate(b)) || a.date.localeCompare(b.date));
+  const visits = lines.filter(t => t.type === TransactionType.REPAIR);
+  const installations = lines
+    .filter(t => installDate(t))
+    .map(t => ({ machineNumber: t.machineNumber.trim(), installedAt: installDate(t), recordId: t.id }))
+    .sort((a, b) => a.installedAt.localeCompare(b.installedAt));
+
+  const stillInstalled = installations.filter(inst =>
+    !lines.some(t => t.id !== inst.recordId && startDate(t) >= inst.installedAt)
+  );
+
+  const latest = lines[lines.length - 1];
+  const named = [...lines].reverse().find(t => t.materialName) || latest;
+  return {
+    sn: String(latest.sn).trim(),
+    materialName: named.materialName,
+    materialNumber: named.materialNumber,
+    lines,
+    visits,
+    installations,
+    totalRepairSpend: visits.reduce((sum, t) => sum + t.total, 0),
+    currentState: describeState(latest),
+    currentMachine: installDate(latest) ? latest.machineNumber.trim() : '',
+    installedIn: Array.from(new Set(stillInstalled.map(i => i.machineNumber)))
+  };
+};
+
+/**
+ * 將同一序號的所有紀錄串成完整履歷：安裝過的機台、每次送修、累計維修費用與目前狀態。
+ * 之後任一筆紀錄的開始日不早於某次安裝日時，視為零件已自該機台拆下；
+ * 未被拆下的安裝紀錄即「仍標記為已上機」，同時出現在兩台以上機台代表資料衝突。
+ */
+export const buildSerialGenealogy = (transactions: Transaction[], sn: string): SerialGenealogy | null => {
+  const key = snKey(sn);
+  const records = key ? transactions.filter(t => snKey(t.sn) === key) : [];
+  return records.length > 0 ? stitch(records) : null;
+};
+
+/**
+ * 找出同時標記安裝於兩台以上機台的序號
+ */
+export const findSerialConflicts = (transactions: Transaction[]): SerialGenealogy[] => {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    const key = snKey(t.sn);
+    if (key) groups.set(key, [...(groups.get(key) || []), t]);
+  });
+  return Array.from(groups.values())
+    .map(stitch)
+    .filter(g => g.installedIn.length > 1)
+    .sort((a, b) => a.sn.localeCompare(b.sn));
+};
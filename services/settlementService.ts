@@ -0,0 +1,38 @@
+
+import { Transaction, TransactionType, MonthlyStats, PeriodClose } from '../types';
+
+export const toPeriod = (date: string | undefined): string => (date || '').slice(0, 7);
+
+export const MONTHLY_STATS_KEYS: Record<TransactionType, keyof MonthlyStats> = {
+  [TransactionType.INBOUND]: 'inboundTotal',
+  [TransactionType.USAGE]: 'usageTotal',
+  [TransactionType.CONSTRUCTION]: 'constructionTotal',
+  [TransactionType.REPAIR]: 'repairTotal'
+};
+
+/**
+ * 依類別加總金額 (不限月份)
+ */
+export const sumByType = (transactions: Transaction[]): MonthlyStats => {
+  const stats: MonthlyStats = { inboundTotal: 0, usageTotal: 0, constructionTotal: 0, repairTotal: 0, grandTotal: 0 };
+  transactions.forEach(t => {
+    const amount = Number(t.total) || 0;
+    stats[MONTHLY_STATS_KEYS[t.type]] += amount;
+    stats.grandTotal += amount;
+  });
+  return stats;
+};
+
+export const computeMonthlyStats = (transactions: Transaction[], period: string): MonthlyStats =>
+  sumByType(transactions.filter(t => toPeriod(t.date) === period));
+
+export const getLockedPeriods = (periods: PeriodClose[]): Set<string> =>
+  new Set(periods.filter(p => p.status === 'closed').map(p => p.period));
+
+/**
+ * 判斷紀錄日期是否落在已關帳月份 (與後端 assertPeriodOpen 規則一致)
+ */
+export const isDateLocked = (lockedPeriods: Set<string>, date: string | undefined): boolean => {
+  const period = toPeriod(date);
+  return !!period && lockedPeriods.has(period);
+};
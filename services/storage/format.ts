@@ -0,0 +1,264 @@
+
+import { Transaction, TransactionType, PeriodClose, PeriodLogEntry, AuditEntry, UserAccount, UserRole, RepairStatus, Vendor, VendorPayment, Material, Machine, MachineStatus, Budget, Requisition, RequisitionLine, RequisitionStatus, Receipt, ReportDefinition, ReportDimension, ReportAggregateFn, ReportMeasure } from "../../types";
+
+export const toTaipeiISO = (dateStr: string | undefined) => {
+  if (!dateStr) return "";
+  try {
+    const d = new Date(dateStr);
+    if (isNaN(d.getTime())) return "";
+    return d.toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+  } catch {
+    return "";
+  }
+};
+
+export const parseBool = (val: any): boolean => {
+  if (val === true || val === 1 || val === "true") return true;
+  if (typeof val === 'string') {
+    const s = val.trim().toUpperCase();
+    return s === 'TRUE' || s === '1' || s === 'YES' || s === '是';
+  }
+  return false;
+};
+
+/**
+ * 將後端回傳的原始列 (中英文欄位混用) 正規化為 Transaction
+ */
+export const normalizeRecord = (item: any, index: number): Transaction => {
+  const type = (item.type || item.類別 || TransactionType.INBOUND) as TransactionType;
+  const unitPrice = Number(item.unitPrice || item.單價 || item['維修單價'] || item['費用'] || 0);
+  const quantity = Number(item.quantity || item.數量 || 1);
+  const total = Number(item.total || item.總額 || item['維修總額'] || item['小計'] || item['結算總額'] || (unitPrice * quantity));
+
+  return {
+    id: String(item.id || item.ID || item['編號'] || `row-${index + 1}`).trim(),
+    date: toTaipeiISO(item.date || item.日期),
+    type: type,
+    accountCategory: String(item.帳目類別 || item.accountCategory || 'A'),
+    materialName: String(item.materialName || item.料件名稱 || item['維修零件/主體'] || '未命名'),
+    materialNumber: String(item.materialNumber || item.料件編號 || item['料件編號(PN)'] || ''),
+    machineCategory: String(item.機台種類 || item.machineCategory || 'BA'),
+    machineNumber: String(item.機台編號 || item.machineNumber || item['機台 ID'] || ''),
+    sn: String(item.sn || item.序號 || item['設備序號(SN)'] || ''),
+    quantity: quantity,
+    unitPrice: unitPrice,
+    total: total,
+    note: String(item.note || item.備註 || ''),
+    operator: String(item.操作人員 || item.operator || '系統'),
+    faultReason: String(item.故障原因 || item.faultReason || ''),
+    isScrapped: parseBool(item.isScrapped || item['是否報廢']),
+    isReceived: parseBool(item.isReceived || item['是否收貨']),
+    requisitionId: String(item.requisitionId || item['請購單號'] || '').replace(/^'/, ''),
+    sentDate: toTaipeiISO(item.送修日期 || item.sentDate),
+    repairDate: toTaipeiISO(item.完修日期 || item.repairDate),
+    installDate: toTaipeiISO(item.上機日期 || item.installDate),
+    repairStatus: (item.repairStatus || item['維修狀態'] || undefined) as RepairStatus | undefined,
+    vendor: String(item.vendor || item['廠商'] || item['維修廠商'] || ''),
+    version: Number(item.version || item['版本'] || 0),
+    ...(parseBool(item.isDeleted || item['已刪除']) ? {
+      isDeleted: true,
+      deletedBy: String(item.deletedBy || item['刪除人員'] || ''),
+      deletedAt: String(item.deletedAt || item['刪除時間'] || '')
+    } : {})
+  };
+};
+
+/**
+ * 寫入前統一日期欄位為台北時區 YYYY-MM-DD
+ */
+export const serializeDates = (transaction: any) => ({
+  ...transaction,
+  date: toTaipeiISO(transaction.date),
+  sentDate: toTaipeiISO(transaction.sentDate),
+  repairDate: toTaipeiISO(transaction.repairDate),
+  installDate: toTaipeiISO(transaction.installDate)
+});
+
+const toPeriodKey = (val: any): string => {
+  const s = String(val || '').trim();
+  if (/^\d{4}-\d{2}$/.test(s)) return s;
+  return toTaipeiISO(s).slice(0, 7);
+};
+
+export const normalizePeriod = (item: any): PeriodClose => ({
+  period: toPeriodKey(item.period),
+  status: item.status === 'closed' ? 'closed' : 'open',
+  inboundTotal: Number(item.inboundTotal || 0),
+  usageTotal: Number(item.usageTotal || 0),
+  constructionTotal: Number(item.constructionTotal || 0),
+  repairTotal: Number(item.repairTotal || 0),
+  grandTotal: Number(item.grandTotal || 0),
+  closedBy: String(item.closedBy || ''),
+  closedAt: String(item.closedAt || ''),
+  reopenedBy: String(item.reopenedBy || ''),
+  reopenedAt: String(item.reopenedAt || ''),
+  reopenReason: String(item.reopenReason || '')
+});
+
+export const normalizePeriodLog = (item: any): PeriodLogEntry => ({
+  timestamp: String(item.timestamp || ''),
+  period: toPeriodKey(item.period),
+  action: item.action === 'reopen' ? 'reopen' : 'close',
+  operator: String(item.operator || ''),
+  reason: String(item.reason || '')
+});
+
+const AUDIT_ACTIONS: AuditEntry['action'][] = ['insert', 'update', 'delete', 'restore', 'purge', 'receive'];
+
+export const normalizeAudit = (item: any): AuditEntry => ({
+  timestamp: String(item.timestamp || ''),
+  action: AUDIT_ACTIONS.includes(item.action) ? item.action : 'insert',
+  id: String(item.id || '').trim(),
+  type: String(item.type || ''),
+  operator: String(item.operator || ''),
+  changes: Array.isArray(item.changes) ? item.changes.map((c: any) => ({
+    field: String(c.field || ''),
+    before: String(c.before ?? ''),
+    after: String(c.after ?? '')
+  })) : []
+});
+
+const USER_ROLES: UserRole[] = ['viewer', 'clerk', 'approver', 'admin'];
+
+export const normalizeUser = (item: any): UserAccount => ({
+  username: String(item.username || '').trim(),
+  emoji: String(item.emoji || '👤'),
+  role: USER_ROLES.includes(item.role) ? item.role : 'viewer',
+  active: parseBool(item.active ?? true)
+});
+
+export const normalizeVendor = (item: any): Vendor => ({
+  name: String(item.name || '').trim(),
+  taxId: String(item.taxId || '').replace(/^'/, '').trim(),
+  contact: String(item.contact || ''),
+  paymentTerms: String(item.paymentTerms || ''),
+  active: parseBool(item.active ?? true),
+  updatedBy: String(item.updatedBy || ''),
+  updatedAt: String(item.updatedAt || '')
+});
+
+export const normalizeVendorPayment = (item: any): VendorPayment => ({
+  period: toPeriodKey(item.period),
+  vendor: String(item.vendor || '').trim(),
+  status: item.status === 'paid' ? 'paid' : 'unpaid',
+  paidAt: String(item.paidAt || ''),
+  updatedBy: String(item.updatedBy || ''),
+  updatedAt: String(item.updatedAt || '')
+});
+
+export const normalizeMaterial = (item: any): Material => ({
+  pn: String(item.pn || '').replace(/^'/, '').trim(),
+  name: String(item.name || '').trim(),
+  unit: String(item.unit || ''),
+  defaultPrice: Number(item.defaultPrice || 0),
+  machineCategory: String(item.machineCategory || ''),
+  minStock: Number(item.minStock || 0),
+  maxStock: Number(item.maxStock || 0),
+  active: parseBool(item.active ?? true),
+  updatedBy: String(item.updatedBy || ''),
+  updatedAt: String(item.updatedAt || '')
+});
+
+const MACHINE_STATUSES: MachineStatus[] = ['active', 'maintenance', 'idle', 'retired'];
+
+export const normalizeMachine = (item: any): Machine => ({
+  id: String(item.id || '').replace(/^'/, '').trim(),
+  category: String(item.category || ''),
+  location: String(item.location || ''),
+  commissionedAt: item.commissionedAt ? toTaipeiISO(String(item.commissionedAt).replace(/^'/, '')) : '',
+  status: MACHINE_STATUSES.includes(item.status) ? item.status : 'active',
+  updatedBy: String(item.updatedBy || ''),
+  updatedAt: String(item.updatedAt || '')
+});
+
+// 年度預算的期間為 YYYY；試算表可能將其讀回為數字
+export const normalizeBudget = (item: any): Budget => {
+  const period = String(item.period ?? '').replace(/^'/, '').trim();
+  return {
+    dimension: item.dimension === 'machine' ? 'machine' : 'account',
+    category: String(item.category || '').trim(),
+    period: /^\d{4}$/.test(period) ? period : toPeriodKey(period),
+    amount: Number(item.amount || 0),
+    updatedBy: String(item.updatedBy || ''),
+    updatedAt: String(item.updatedAt || '')
+  };
+};
+
+const REPORT_DIMENSIONS: ReportDimension[] = ['type', 'accountCategory', 'machineCategory', 'machineNumber', 'operator', 'month'];
+const REPORT_AGGREGATE_FNS: ReportAggregateFn[] = ['count', 'sum', 'avg', 'min', 'max'];
+const REPORT_MEASURES: ReportMeasure[] = ['quantity', 'unitPrice', 'total'];
+const TRANSACTION_TYPES = Object.values(TransactionType);
+
+// 試算表後端將篩選、欄位、分組與彙總以 JSON 存於 definition 欄並於讀取時展開；未知的維度與彙總方式略過
+export const normalizeReportDefinition = (item: any): ReportDefinition => {
+  const filters = item.filters && typeof item.filters === 'object' ? item.filters : {};
+  const list = (value: any): any[] => Array.isArray(value) ? value : [];
+  return {
+    name: String(item.name || '').replace(/^'/, '').trim(),
+    description: String(item.description || ''),
+    filters: {
+      types: list(filters.types).filter((t: any) => TRANSACTION_TYPES.includes(t)),
+      dateFrom: String(filters.dateFrom || ''),
+      dateTo: String(filters.dateTo || ''),
+      machineCategory: String(filters.machineCategory || ''),
+      accountCategory: String(filters.accountCategory || ''),
+      vendor: String(filters.vendor || ''),
+      keyword: String(filters.keyword || '')
+    },
+    columns: list(item.columns).map(String),
+    groupBy: list(item.groupBy).filter((d: any) => REPORT_DIMENSIONS.includes(d)),
+    aggregates: list(item.aggregates)
+      .filter((a: any) => REPORT_AGGREGATE_FNS.includes(a?.fn))
+      .map((a: any) => ({ fn: a.fn, field: REPORT_MEASURES.includes(a.field) ? a.field : 'total' })),
+    createdBy: String(item.createdBy || ''),
+    updatedBy: String(item.updatedBy || ''),
+    updatedAt: String(item.updatedAt || '')
+  };
+};
+
+const REQUISITION_STATUSES: RequisitionStatus[] = ['draft', 'submitted', 'approved', 'rejected', 'ordered'];
+
+const normalizeRequisitionLine = (line: any): RequisitionLine => ({
+  materialName: String(line?.materialName || ''),
+  materialNumber: String(line?.materialNumber || ''),
+  machineCategory: String(line?.machineCategory || ''),
+  accountCategory: String(line?.accountCategory || ''),
+  vendor: String(line?.vendor || ''),
+  quantity: Number(line?.quantity || 0),
+  unitPrice: Number(line?.unitPrice || 0),
+  note: String(line?.note || '')
+});
+
+// 試算表後端以 JSON 文字儲存品項、以逗號分隔進貨單號；本機後端則直接回傳陣列
+export const normalizeRequisition = (item: any): Requisition => {
+  let lines = item.lines;
+  if (typeof lines === 'string') {
+    try { lines = JSON.parse(lines || '[]'); } catch { lines = []; }
+  }
+  const ids = Array.isArray(item.transactionIds) ? item.transactionIds : String(item.transactionIds || '').split(',');
+  return {
+    id: String(item.id || '').replace(/^'/, '').trim(),
+    requester: String(item.requester || ''),
+    justification: String(item.justification || ''),
+    lines: Array.isArray(lines) ? lines.map(normalizeRequisitionLine) : [],
+    status: REQUISITION_STATUSES.includes(item.status) ? item.status : 'draft',
+    approver: String(item.approver || ''),
+    decidedAt: String(item.decidedAt || ''),
+    decisionNote: String(item.decisionNote || ''),
+    orderedBy: String(item.orderedBy || ''),
+    orderedAt: String(item.orderedAt || ''),
+    transactionIds: ids.map((id: any) => String(id).trim()).filter(Boolean),
+    createdAt: String(item.createdAt || ''),
+    updatedAt: String(item.updatedAt || '')
+  };
+};
+
+export const normalizeReceipt = (item: any): Receipt => ({
+  id: String(item.id || '').replace(/^'/, '').trim(),
+  recordId: String(item.recordId || '').replace(/^'/, '').trim(),
+  date: toTaipeiISO(String(item.date || '').replace(/^'/, '')),
+  quantity: Number(item.quantity || 0),
+  receiver: String(item.receiver || ''),
+  note: String(item.note || ''),
+  createdAt: String(item.createdAt || '')
+});
@@ -0,0 +1,323 @@
+
+import { Transaction, TransactionType, AuditEntry, UserAccount, Vendor, PaymentStatus, Material, Machine, Budget, Requisition, Receipt, ReportDefinition } from "../../types";
+import { StorageBackend, BackendKind, LoginResult, MutationResult, WriteResult, PeriodState, UserInput, VendorState, RequisitionDraft, ReceiptDraft } from "./types";
+import { normalizeRecord, normalizePeriod, normalizePeriodLog, normalizeAudit, normalizeUser, normalizeVendor, normalizeVendorPayment, normalizeMaterial, normalizeMachine, normalizeBudget, normalizeReportDefinition, normalizeRequisition, normalizeReceipt, serializeDates } from "./format";
+import { getToken, notifyUnauthorized } from "./session";
+
+/**
+ * HTTP 腳本後端
+ * 同時適用於 Google Apps Script (/exec) 與 server/localServer.js，兩者使用相同的請求格式。
+ */
+export const createHttpBackend = (kind: BackendKind, url: string, label: string): StorageBackend => {
+  const post = async (payload: any): Promise<Response> => {
+    // 解決 Failed to fetch 的核心方案：
+    // 1. 使用 text/plain 避免引發 OPTIONS 預檢請求。
+    // 2. redirect: 'follow' 處理 GAS 的重新導向。
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+      body: JSON.stringify({ token: getToken(), ...payload }),
+      redirect: 'follow'
+    });
+  };
+
+  const get = async (action: string, signal?: AbortSignal, query: Record<string, string> = {}): Promise<any> => {
+    const separator = url.includes('?') ? '&' : '?';
+    const extra = Object.entries(query).map(([k, v]) => `&${k}=${encodeURIComponent(v)}`).join('');
+    const token = encodeURIComponent(getToken());
+    const response = await fetch(`${url}${separator}action=${action}${extra}&token=${token}&_=${Date.now()}`, {
+      method: 'GET',
+      mode: 'cors',
+      redirect: 'follow',
+      signal,
+      cache: 'no-cache'
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    if (data?.result === 'unauthorized') {
+      notifyUnauthorized(data.message);
+      throw new Error(data.message);
+    }
+    return data;
+  };
+
+  // 所有寫入皆讀取伺服器的 {result} 回覆，fetch 成功不代表寫入成功
+  const request = async (payload: any): Promise<WriteResult> => {
+    if (!url) return { ok: false, message: '尚未設定後端網址' };
+    try {
+      const response = await post(payload);
+      if (!response.ok) return { ok: false, retryable: response.status >= 500, message: `HTTP 伺服器回傳狀態: ${response.status}` };
+      const res = await response.json();
+      if (res.result === 'ok') return { ok: true, version: res.version };
+      if (res.result === 'conflict') return { ok: false, conflict: true, message: res.message };
+      // 試算表後端忙碌 (等不到指令碼鎖) 屬暫時性錯誤，交由離線佇列稍後重送
+      if (res.result === 'busy') return { ok: false, retryable: true, message: res.message };
+      if (res.result === 'unauthorized') {
+        // 權杖失效需重新登入，不當作連線異常交由離線佇列重試
+        notifyUnauthorized(res.message);
+        return { ok: false, unauthorized: true, message: res.message };
+      }
+      return { ok: false, message: res.message || '伺服器拒絕此操作', fieldErrors: res.fieldErrors, rowErrors: res.rowErrors };
+    } catch (e: any) {
+      console.error("Cloud post error:", e);
+      return { ok: false, retryable: true, message: `系統連線異常: ${e.message}` };
+    }
+  };
+
+  const postToCloud = async (action: string, id: string, type: string, data: any, baseVersion?: number, requestId?: string): Promise<WriteResult> =>
+    request({ action, id: String(id).trim(), type, baseVersion, requestId, data });
+
+  return {
+    kind,
+    label,
+
+    async verifyLogin(username: string, password: string, newPassword?: string): Promise<LoginResult> {
+      try {
+        const response = await post({ action: 'login', data: { username, password, newPassword } });
+        if (!response.ok) {
+          throw new Error(`HTTP 伺服器回傳狀態: ${response.status}`);
+        }
+        const res = await response.json();
+        return { authorized: res.authorized === true, mustChangePassword: res.mustChangePassword === true, role: res.role, token: res.token, message: res.message };
+      } catch (e: any) {
+        console.error("Login verification network error:", e);
+        if (e.message === 'Failed to fetch') {
+          return {
+            authorized: false,
+            message: kind === 'sheets'
+              ? "連線失敗：請確認 Google 腳本已部署為『任何人 (Anyone)』且權限正確。"
+              : `連線失敗：請確認本機伺服器 (${url}) 已啟動。`
+          };
+        }
+        return { authorized: false, message: `系統連線異常: ${e.message}` };
+      }
+    },
+
+    async logout(token: string): Promise<MutationResult> {
+      try {
+        const response = await post({ action: 'logout', token });
+        const res = await response.json();
+        return res.result === 'ok' ? { ok: true } : { ok: false, message: res.message };
+      } catch (e: any) {
+        console.error("Logout error:", e);
+        return { ok: false, message: `系統連線異常: ${e.message}` };
+      }
+    },
+
+    async fetchUsers(): Promise<UserAccount[]> {
+      try {
+        const data = await get('users');
+        return Array.isArray(data) ? data.map(normalizeUser) : [];
+      } catch (e) {
+        console.error("Fetch users error:", e);
+        return [];
+      }
+    },
+
+    async saveUser(user: UserInput): Promise<MutationResult> {
+      return request({ action: 'save_user', data: user });
+    },
+
+    async changePassword(username: string, oldPassword: string, newPassword: string): Promise<MutationResult> {
+      return request({ action: 'change_password', data: { username, oldPassword, newPassword } });
+    },
+
+    async fetchAll(signal?: AbortSignal, retries = 1): Promise<Transaction[]> {
+      const fetchWithRetry = async (attempt: number): Promise<Transaction[]> => {
+        try {
+          const data = await get('fetch', signal);
+          if (!Array.isArray(data)) return [];
+          return data.map(normalizeRecord);
+        } catch (error: any) {
+          if (error.name === 'AbortError') throw error;
+          if (attempt < retries) return fetchWithRetry(attempt + 1);
+          throw error;
+        }
+      };
+      return fetchWithRetry(0).catch(() => []);
+    },
+
+    async save(transaction: Transaction, requestId?: string): Promise<WriteResult> {
+      return postToCloud('insert', transaction.id, transaction.type, serializeDates(transaction), undefined, requestId);
+    },
+
+    async update(transaction: Transaction, baseVersion?: number, requestId?: string): Promise<WriteResult> {
+      return postToCloud('update', transaction.id, transaction.type, serializeDates(transaction), baseVersion, requestId);
+    },
+
+    async delete(id: string, type: TransactionType, operator: string, baseVersion?: number, requestId?: string): Promise<WriteResult> {
+      return postToCloud('delete', id, type, { operator }, baseVersion, requestId);
+    },
+
+    async fetchDeleted(): Promise<Transaction[]> {
+      try {
+        const data = await get('deleted');
+        return Array.isArray(data) ? data.map(normalizeRecord) : [];
+      } catch (e) {
+        console.error("Fetch deleted error:", e);
+        return [];
+      }
+    },
+
+    async restore(id: string, type: TransactionType, operator: string): Promise<MutationResult> {
+      return request({ action: 'restore', id: String(id).trim(), type, data: { operator } });
+    },
+
+    async purge(id: string, type: TransactionType, operator: string): Promise<MutationResult> {
+      return request({ action: 'purge', id: String(id).trim(), type, data: { operator } });
+    },
+
+    async fetchAudit(id: string): Promise<AuditEntry[]> {
+      try {
+        const data = await get('audit', undefined, { id });
+        return Array.isArray(data) ? data.map(normalizeAudit) : [];
+      } catch (e) {
+        console.error("Fetch audit error:", e);
+        return [];
+      }
+    },
+
+    async fetchPeriods(): Promise<PeriodState> {
+      try {
+        const data = await get('periods');
+        return {
+          periods: Array.isArray(data?.periods) ? data.periods.map(normalizePeriod) : [],
+          log: Array.isArray(data?.log) ? data.log.map(normalizePeriodLog) : []
+        };
+      } catch (e) {
+        console.error("Fetch periods error:", e);
+        return { periods: [], log: [] };
+      }
+    },
+
+    async closePeriod(period: string, operator: string): Promise<MutationResult> {
+      return request({ action: 'close_period', data: { period, operator } });
+    },
+
+    async reopenPeriod(period: string, operator: string, reason: string): Promise<MutationResult> {
+      return request({ action: 'reopen_period', data: { period, operator, reason } });
+    },
+
+    async fetchVendors(): Promise<VendorState> {
+      try {
+        const data = await get('vendors');
+        return {
+          vendors: Array.isArray(data?.vendors) ? data.vendors.map(normalizeVendor).filter((v: Vendor) => v.name) : [],
+          payments: Array.isArray(data?.payments) ? data.payments.map(normalizeVendorPayment) : []
+        };
+      } catch (e) {
+        console.error("Fetch vendors error:", e);
+        return { vendors: [], payments: [] };
+      }
+    },
+
+    async saveVendor(vendor: Vendor): Promise<MutationResult> {
+      return request({ action: 'save_vendor', data: vendor });
+    },
+
+    async setVendorPayment(vendor: string, period: string, status: PaymentStatus): Promise<MutationResult> {
+      return request({ action: 'set_vendor_payment', data: { vendor, period, status } });
+    },
+
+    async fetchMaterials(): Promise<Material[]> {
+      try {
+        const data = await get('materials');
+        return Array.isArray(data) ? data.map(normalizeMaterial).filter((m: Material) => m.pn) : [];
+      } catch (e) {
+        console.error("Fetch materials error:", e);
+        return [];
+      }
+    },
+
+    async saveMaterials(materials: Material[]): Promise<MutationResult> {
+      return request({ action: 'save_materials', data: materials });
+    },
+
+    async fetchMachines(): Promise<Machine[]> {
+      try {
+        const data = await get('machines');
+        return Array.isArray(data) ? data.map(normalizeMachine).filter((m: Machine) => m.id) : [];
+      } catch (e) {
+        console.error("Fetch machines error:", e);
+        return [];
+      }
+    },
+
+    async saveMachine(machine: Machine): Promise<MutationResult> {
+      return request({ action: 'save_machine', data: machine });
+    },
+
+    async fetchBudgets(): Promise<Budget[]> {
+      try {
+        const data = await get('budgets');
+        return Array.isArray(data) ? data.map(normalizeBudget).filter((b: Budget) => b.category && b.period) : [];
+      } catch (e) {
+        console.error("Fetch budgets error:", e);
+        return [];
+      }
+    },
+
+    async saveBudget(budget: Budget): Promise<MutationResult> {
+      return request({ action: 'save_budget', data: budget });
+    },
+
+    async fetchReports(): Promise<ReportDefinition[]> {
+      try {
+        const data = await get('reports');
+        return Array.isArray(data) ? data.map(normalizeReportDefinition).filter((r: ReportDefinition) => r.name) : [];
+      } catch (e) {
+        console.error("Fetch reports error:", e);
+        return [];
+      }
+    },
+
+    async saveReport(report: ReportDefinition): Promise<MutationResult> {
+      return request({ action: 'save_report', data: report });
+    },
+
+    async deleteReport(name: string): Promise<MutationResult> {
+      return request({ action: 'delete_report', data: { name } });
+    },
+
+    async fetchRequisitions(): Promise<Requisition[]> {
+      try {
+        const data = await get('requisitions');
+        return Array.isArray(data) ? data.map(normalizeRequisition).filter((r: Requisition) => r.id) : [];
+      } catch (e) {
+        console.error("Fetch requisitions error:", e);
+        return [];
+      }
+    },
+
+    async saveRequisition(draft: RequisitionDraft): Promise<MutationResult> {
+      return request({ action: 'save_requisition', data: draft });
+    },
+
+    async decideRequisition(id: string, decision: 'approved' | 'rejected', note: string): Promise<MutationResult> {
+      return request({ action: 'decide_requisition', data: { id, decision, note } });
+    },
+
+    async orderRequisition(id: string, date: string): Promise<WriteResult> {
+      return request({ action: 'order_requisition', data: { id, date } });
+    },
+
+    async fetchReceipts(): Promise<Receipt[]> {
+      try {
+        const data = await get('receipts');
+        return Array.isArray(data) ? data.map(normalizeReceipt).filter((r: Receipt) => r.recordId) : [];
+      } catch (e) {
+        console.error("Fetch receipts error:", e);
+        return [];
+      }
+    },
+
+    async recordReceipt(draft: ReceiptDraft): Promise<WriteResult> {
+      return request({ action: 'record_receipt', data: draft });
+    },
+
+    async batchSave(transactions: Transaction[], requestId?: string): Promise<WriteResult> {
+      if (transactions.length === 0) return { ok: false, message: '沒有可同步的紀錄' };
+      return request({ action: 'batch_insert', requestId, data: transactions.map(serializeDates) });
+    }
+  };
+};
@@ -0,0 +1,46 @@
+
+import { StorageBackend, BackendKind } from "./types";
+import { createHttpBackend } from "./httpBackend";
+import { createIndexedDbBackend } from "./indexedDbBackend";
+
+export type { StorageBackend, BackendKind, LoginResult, MutationResult, WriteResult, FieldErrors, RowFieldErrors, PeriodState, UserInput, VendorState, RequisitionDraft, ReceiptDraft } from "./types";
+export { setToken, getToken, onUnauthorized } from "./session";
+
+// 使用者提供的最新穩定網址
+export const DEFAULT_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbyJ1JWbmU350jW9LXs9yMJaF31pDqWI0sAethLLL160kuu4ZjHLzDNVa5crLQpchTWW/exec";
+const DEFAULT_SERVER_URL = "http://127.0.0.1:8787";
+
+const BACKEND_KINDS: BackendKind[] = ['sheets', 'server', 'local'];
+
+export const getScriptUrl = () => {
+  const saved = localStorage.getItem('google_sheet_script_url');
+  if (!saved || !saved.includes('/exec')) return DEFAULT_SCRIPT_URL;
+  return saved.trim();
+};
+
+/**
+ * 後端選擇順序：localStorage 覆寫 → 建置時的 STORAGE_BACKEND → 預設 Google 試算表
+ */
+export const getBackendKind = (): BackendKind => {
+  const candidates = [localStorage.getItem('wms_storage_backend'), process.env.STORAGE_BACKEND];
+  const found = candidates.find(k => !!k && BACKEND_KINDS.includes(k as BackendKind));
+  return (found as BackendKind) || 'sheets';
+};
+
+const getServerUrl = () =>
+  (localStorage.getItem('wms_local_server_url') || process.env.LOCAL_SERVER_URL || DEFAULT_SERVER_URL).trim();
+
+let cached: { key: string; backend: StorageBackend } | null = null;
+
+export const getBackend = (): StorageBackend => {
+  const kind = getBackendKind();
+  const url = kind === 'sheets' ? getScriptUrl() : kind === 'server' ? getServerUrl() : '';
+  const key = `${kind}|${url}`;
+  if (cached?.key === key) return cached.backend;
+
+  const backend = kind === 'local'
+    ? createIndexedDbBackend()
+    : createHttpBackend(kind, url, kind === 'sheets' ? 'Google 試算表' : '本機伺服器');
+  cached = { key, backend };
+  return backend;
+};
@@ -0,0 +1,317 @@
+
+import { Transaction, TransactionType, AuditEntry, UserAccount, Vendor, PaymentStatus, Material, Machine, Budget, Requisition, Receipt, ReportDefinition } from "../../types";
+import { StorageBackend, LoginResult, MutationResult, WriteResult, PeriodState, UserInput, VendorState, RequisitionDraft, ReceiptDraft } from "./types";
+import { normalizeRecord, normalizePeriod, normalizePeriodLog, normalizeAudit, normalizeUser, normalizeVendor, normalizeVendorPayment, normalizeMaterial, normalizeMachine, normalizeBudget, normalizeReportDefinition, normalizeRequisition, normalizeReceipt, serializeDates } from "./format";
+import { getToken, notifyUnauthorized } from "./session";
+import { createEmptyState, handleGet, handlePost } from "../../server/engine.js";
+
+const DB_NAME = 'wms_local_backend';
+const STORE_NAME = 'state';
+const STATE_KEY = 'main';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME);
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const readState = async (db: IDBDatabase): Promise<any> => new Promise((resolve, reject) => {
+  const req = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(STATE_KEY);
+  req.onsuccess = () => resolve({ ...createEmptyState(), ...(req.result || {}) });
+  req.onerror = () => reject(req.error);
+});
+
+/**
+ * 讀取、執行與寫回在同一個 readwrite 交易內完成；handlePost 為同步函式，交易不會中途結束。
+ * IndexedDB 依序執行範圍重疊的 readwrite 交易，同時進行的寫入 (含其他分頁) 不會互相覆蓋
+ */
+const updateState = async <T>(db: IDBDatabase, fn: (state: any) => T): Promise<T> => new Promise((resolve, reject) => {
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  let result: T;
+  let failure: unknown;
+  const req = store.get(STATE_KEY);
+  req.onsuccess = () => {
+    const state = { ...createEmptyState(), ...(req.result || {}) };
+    try {
+      result = fn(state);
+    } catch (e) {
+      failure = e;
+      tx.abort();
+      return;
+    }
+    store.put(state, STATE_KEY);
+  };
+  tx.oncomplete = () => resolve(result);
+  tx.onabort = () => reject(failure ?? tx.error);
+});
+
+/**
+ * 瀏覽器本機後端 (IndexedDB)
+ * 與 Node 本機伺服器共用 server/engine.js，行為與雲端腳本一致，可完全離線運作。
+ */
+export const createIndexedDbBackend = (): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDb());
+
+  const send = async (params: any): Promise<any> =>
+    updateState(await getDb(), state => handlePost(state, { token: getToken(), ...params }));
+
+  const query = async (params: any): Promise<any> => {
+    const data: any = handleGet(await readState(await getDb()), { ...params, token: getToken() });
+    if (data?.result === 'unauthorized') {
+      notifyUnauthorized(data.message);
+      throw new Error(data.message);
+    }
+    return data;
+  };
+
+  const request = async (params: any): Promise<WriteResult> => {
+    try {
+      const reply = await send(params);
+      if (reply.result === 'ok') return { ok: true, version: reply.version };
+      if (reply.result === 'conflict') return { ok: false, conflict: true, message: reply.message };
+      if (reply.result === 'unauthorized') {
+        // 權杖失效需重新登入，不當作連線異常交由離線佇列重試
+        notifyUnauthorized(reply.message);
+        return { ok: false, unauthorized: true, message: reply.message };
+      }
+      return { ok: false, message: reply.message, fieldErrors: reply.fieldErrors, rowErrors: reply.rowErrors };
+    } catch (e: any) {
+      console.error("Local backend write error:", e);
+      return { ok: false, message: `本機資料庫異常: ${e.message}` };
+    }
+  };
+
+  return {
+    kind: 'local',
+    label: '本機 IndexedDB',
+
+    async verifyLogin(username: string, password: string, newPassword?: string): Promise<LoginResult> {
+      try {
+        const res = await send({ action: 'login', data: { username, password, newPassword } });
+        return { authorized: res.authorized === true, mustChangePassword: res.mustChangePassword === true, role: res.role, token: res.token, message: res.message };
+      } catch (e: any) {
+        return { authorized: false, message: `本機資料庫異常: ${e.message}` };
+      }
+    },
+
+    async logout(token: string): Promise<MutationResult> {
+      try {
+        const res = await send({ action: 'logout', token });
+        return res.result === 'ok' ? { ok: true } : { ok: false, message: res.message };
+      } catch (e: any) {
+        return { ok: false, message: `本機資料庫異常: ${e.message}` };
+      }
+    },
+
+    async fetchUsers(): Promise<UserAccount[]> {
+      try {
+        const data = await query({ action: 'users' });
+        return Array.isArray(data) ? data.map(normalizeUser) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async saveUser(user: UserInput): Promise<MutationResult> {
+      return request({ action: 'save_user', data: user });
+    },
+
+    async changePassword(username: string, oldPassword: string, newPassword: string): Promise<MutationResult> {
+      return request({ action: 'change_password', data: { username, oldPassword, newPassword } });
+    },
+
+    async fetchAll(): Promise<Transaction[]> {
+      try {
+        const data = await query({ action: 'fetch' });
+        return Array.isArray(data) ? data.map(normalizeRecord) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async save(transaction: Transaction, requestId?: string): Promise<WriteResult> {
+      return request({ action: 'insert', id: transaction.id, type: transaction.type, requestId, data: serializeDates(transaction) });
+    },
+
+    async update(transaction: Transaction, baseVersion?: number, requestId?: string): Promise<WriteResult> {
+      return request({ action: 'update', id: transaction.id, type: transaction.type, baseVersion, requestId, data: serializeDates(transaction) });
+    },
+
+    async delete(id: string, type: TransactionType, operator: string, baseVersion?: number, requestId?: string): Promise<WriteResult> {
+      return request({ action: 'delete', id, type, baseVersion, requestId, data: { operator } });
+    },
+
+    async fetchDeleted(): Promise<Transaction[]> {
+      try {
+        const data = await query({ action: 'deleted' });
+        return Array.isArray(data) ? data.map(normalizeRecord) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async restore(id: string, type: TransactionType, operator: string): Promise<MutationResult> {
+      return request({ action: 'restore', id, type, data: { operator } });
+    },
+
+    async purge(id: string, type: TransactionType, operator: string): Promise<MutationResult> {
+      return request({ action: 'purge', id, type, data: { operator } });
+    },
+
+    async fetchAudit(id: string): Promise<AuditEntry[]> {
+      try {
+        const data = await query({ action: 'audit', id });
+        return Array.isArray(data) ? data.map(normalizeAudit) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async fetchPeriods(): Promise<PeriodState> {
+      try {
+        const data = await query({ action: 'periods' });
+        return { periods: data.periods.map(normalizePeriod), log: data.log.map(normalizePeriodLog) };
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return { periods: [], log: [] };
+      }
+    },
+
+    async closePeriod(period: string, operator: string): Promise<MutationResult> {
+      return request({ action: 'close_period', data: { period, operator } });
+    },
+
+    async reopenPeriod(period: string, operator: string, reason: string): Promise<MutationResult> {
+      return request({ action: 'reopen_period', data: { period, operator, reason } });
+    },
+
+    async fetchVendors(): Promise<VendorState> {
+      try {
+        const data = await query({ action: 'vendors' });
+        return {
+          vendors: Array.isArray(data?.vendors) ? data.vendors.map(normalizeVendor).filter((v: Vendor) => v.name) : [],
+          payments: Array.isArray(data?.payments) ? data.payments.map(normalizeVendorPayment) : []
+        };
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return { vendors: [], payments: [] };
+      }
+    },
+
+    async saveVendor(vendor: Vendor): Promise<MutationResult> {
+      return request({ action: 'save_vendor', data: vendor });
+    },
+
+    async setVendorPayment(vendor: string, period: string, status: PaymentStatus): Promise<MutationResult> {
+      return request({ action: 'set_vendor_payment', data: { vendor, period, status } });
+    },
+
+    async fetchMaterials(): Promise<Material[]> {
+      try {
+        const data = await query({ action: 'materials' });
+        return Array.isArray(data) ? data.map(normalizeMaterial).filter((m: Material) => m.pn) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async saveMaterials(materials: Material[]): Promise<MutationResult> {
+      return request({ action: 'save_materials', data: materials });
+    },
+
+    async fetchMachines(): Promise<Machine[]> {
+      try {
+        const data = await query({ action: 'machines' });
+        return Array.isArray(data) ? data.map(normalizeMachine).filter((m: Machine) => m.id) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async saveMachine(machine: Machine): Promise<MutationResult> {
+      return request({ action: 'save_machine', data: machine });
+    },
+
+    async fetchBudgets(): Promise<Budget[]> {
+      try {
+        const data = await query({ action: 'budgets' });
+        return Array.isArray(data) ? data.map(normalizeBudget).filter((b: Budget) => b.category && b.period) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async saveBudget(budget: Budget): Promise<MutationResult> {
+      return request({ action: 'save_budget', data: budget });
+    },
+
+    async fetchReports(): Promise<ReportDefinition[]> {
+      try {
+        const data = await query({ action: 'reports' });
+        return Array.isArray(data) ? data.map(normalizeReportDefinition).filter((r: ReportDefinition) => r.name) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async saveReport(report: ReportDefinition): Promise<MutationResult> {
+      return request({ action: 'save_report', data: report });
+    },
+
+    async deleteReport(name: string): Promise<MutationResult> {
+      return request({ action: 'delete_report', data: { name } });
+    },
+
+    async fetchRequisitions(): Promise<Requisition[]> {
+      try {
+        const data = await query({ action: 'requisitions' });
+        return Array.isArray(data) ? data.map(normalizeRequisition).filter((r: Requisition) => r.id) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async saveRequisition(draft: RequisitionDraft): Promise<MutationResult> {
+      return request({ action: 'save_requisition', data: draft });
+    },
+
+    async decideRequisition(id: string, decision: 'approved' | 'rejected', note: string): Promise<MutationResult> {
+      return request({ action: 'decide_requisition', data: { id, decision, note } });
+    },
+
+    async orderRequisition(id: string, date: string): Promise<WriteResult> {
+      return request({ action: 'order_requisition', data: { id, date } });
+    },
+
+    async fetchReceipts(): Promise<Receipt[]> {
+      try {
+        const data = await query({ action: 'receipts' });
+        return Array.isArray(data) ? data.map(normalizeReceipt).filter((r: Receipt) => r.recordId) : [];
+      } catch (e) {
+        console.error("Local backend read error:", e);
+        return [];
+      }
+    },
+
+    async recordReceipt(draft: ReceiptDraft): Promise<WriteResult> {
+      return request({ action: 'record_receipt', data: draft });
+    },
+
+    async batchSave(transactions: Transaction[], requestId?: string): Promise<WriteResult> {
+      if (transactions.length === 0) return { ok: false, message: '沒有可同步的紀錄' };
+      return request({ action: 'batch_insert', requestId, data: transactions.map(serializeDates) });
+    }
+  };
+};
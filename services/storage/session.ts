@@ -0,0 +1,26 @@
+/**
+ * 工作階段權杖：登入後由後端簽發，附加於每一筆讀寫請求；
+ * 保存於 sessionStorage，關閉分頁即失效
+ */
+const TOKEN_KEY = 'wms_session_token';
+
+let token = sessionStorage.getItem(TOKEN_KEY) || '';
+let unauthorizedHandler: ((message: string) => void) | null = null;
+
+export const setToken = (value: string | null) => {
+  token = value || '';
+  if (token) sessionStorage.setItem(TOKEN_KEY, token);
+  else sessionStorage.removeItem(TOKEN_KEY);
+};
+
+export const getToken = () => token;
+
+export const onUnauthorized = (handler: ((message: string) => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+// 後端回覆 unauthorized (權杖缺少、逾時或已撤銷) 時通知畫面登出；已登出後的回覆不再重複通知
+export const notifyUnauthorized = (message?: string) => {
+  if (!token) return;
+  unauthorizedHandler?.(message || '登入已逾時，請重新登入');
+};
@@ -0,0 +1,121 @@
+
+import { Transaction, TransactionType, PeriodClose, PeriodLogEntry, AuditEntry, UserAccount, UserRole, Vendor, VendorPayment, PaymentStatus, Material, Machine, Budget, Requisition, RequisitionLine, Receipt, ReportDefinition } from "../../types";
+
+export type BackendKind = 'sheets' | 'server' | 'local';
+
+export interface LoginResult {
+  authorized: boolean;
+  mustChangePassword?: boolean;   // 使用預設或管理員設定的初始密碼，須附上新密碼重新登入
+  role?: UserRole;
+  token?: string;
+  message?: string;
+}
+
+export interface UserInput {
+  username: string;
+  emoji: string;
+  role: UserRole;
+  active: boolean;
+  password?: string;        // 新增帳號或重設密碼時才需提供
+}
+
+export interface MutationResult {
+  ok: boolean;
+  message?: string;
+}
+
+// 欄位驗證錯誤：欄位名稱 → 錯誤訊息
+export type FieldErrors = Record<string, string>;
+
+export interface RowFieldErrors {
+  index: number;            // 批次寫入時在送出清單中的位置
+  id: string;
+  fieldErrors: FieldErrors;
+}
+
+/**
+ * 寫入結果：retryable 表示網路或伺服器暫時性錯誤，可交由離線佇列重送；
+ * unauthorized 表示權杖缺少、逾時或已撤銷，需重新登入，不視為離線；
+ * queued 表示已存入離線佇列，待連線恢復後自動送出；
+ * fieldErrors / rowErrors 為後端欄位驗證未通過時的逐欄訊息
+ */
+export interface WriteResult extends MutationResult {
+  conflict?: boolean;
+  retryable?: boolean;
+  unauthorized?: boolean;
+  queued?: boolean;
+  version?: number;
+  fieldErrors?: FieldErrors;
+  rowErrors?: RowFieldErrors[];
+}
+
+export interface PeriodState {
+  periods: PeriodClose[];
+  log: PeriodLogEntry[];
+}
+
+export interface VendorState {
+  vendors: Vendor[];
+  payments: VendorPayment[];
+}
+
+// 請購人儲存或送審請購單時送出的內容；狀態與審核欄位由後端決定
+export interface RequisitionDraft {
+  id: string;
+  justification: string;
+  lines: RequisitionLine[];
+  submit: boolean;
+}
+
+// 登記一次收貨；收貨人由後端取自登入身分
+export interface ReceiptDraft {
+  recordId: string;
+  date: string;
+  quantity: number;
+  note: string;
+}
+
+/**
+ * 儲存後端介面
+ * dbService 僅依賴此介面，實際資料來源 (Google 試算表 / 本機伺服器 / IndexedDB) 由設定決定。
+ * 紀錄寫入可附帶 requestId：後端對同一帳號重複送出的相同 requestId 只執行一次，供離線佇列安全重送
+ */
+export interface StorageBackend {
+  readonly kind: BackendKind;
+  readonly label: string;
+  fetchAll(signal?: AbortSignal): Promise<Transaction[]>;
+  save(transaction: Transaction, requestId?: string): Promise<WriteResult>;
+  update(transaction: Transaction, baseVersion?: number, requestId?: string): Promise<WriteResult>;
+  delete(id: string, type: TransactionType, operator: string, baseVersion?: number, requestId?: string): Promise<WriteResult>;
+  batchSave(transactions: Transaction[], requestId?: string): Promise<WriteResult>;
+  verifyLogin(username: string, password: string, newPassword?: string): Promise<LoginResult>;
+  logout(token: string): Promise<MutationResult>;
+  fetchUsers(): Promise<UserAccount[]>;
+  saveUser(user: UserInput): Promise<MutationResult>;
+  changePassword(username: string, oldPassword: string, newPassword: string): Promise<MutationResult>;
+  fetchDeleted(): Promise<Transaction[]>;
+  restore(id: string, type: TransactionType, operator: string): Promise<MutationResult>;
+  purge(id: string, type: TransactionType, operator: string): Promise<MutationResult>;
+  fetchAudit(id: string): Promise<AuditEntry[]>;
+  fetchPeriods(): Promise<PeriodState>;
+  closePeriod(period: string, operator: string): Promise<MutationResult>;
+  reopenPeriod(period: string, operator: string, reason: string): Promise<MutationResult>;
+  fetchVendors(): Promise<VendorState>;
+  saveVendor(vendor: Vendor): Promise<MutationResult>;
+  setVendorPayment(vendor: string, period: string, status: PaymentStatus): Promise<MutationResult>;
+  fetchMaterials(): Promise<Material[]>;
+  saveMaterials(materials: Material[]): Promise<MutationResult>;
+  fetchMachines(): Promise<Machine[]>;
+  saveMachine(machine: Machine): Promise<MutationResult>;
+  fetchBudgets(): Promise<Budget[]>;
+  saveBudget(budget: Budget): Promise<MutationResult>;
+  fetchReports(): Promise<ReportDefinition[]>;
+  saveReport(report: ReportDefinition): Promise<MutationResult>;
+  deleteReport(name: string): Promise<MutationResult>;
+  fetchRequisitions(): Promise<Requisition[]>;
+  saveRequisition(draft: RequisitionDraft): Promise<MutationResult>;
+  decideRequisition(id: string, decision: 'approved' | 'rejected', note: string): Promise<MutationResult>;
+  orderRequisition(id: string, date: string): Promise<WriteResult>;
+  fetchReceipts(): Promise<Receipt[]>;
+  recordReceipt(draft: ReceiptDraft): Promise<WriteResult>;
+}
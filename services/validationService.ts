@@ -0,0 +1,11 @@
+
+import { Transaction } from '../types';
+import { FieldErrors } from './storage';
+import { validateTransaction as validateRecord } from '../server/schema.js';
+
+/**
+ * 前端表單送出前的欄位檢查，規則與後端寫入前相同 (定義於 server/schema.js)
+ */
+export const validateTransaction = (t: Partial<Transaction>): FieldErrors => validateRecord(t) as FieldErrors;
+
+export const hasErrors = (errors: FieldErrors | undefined): boolean => !!errors && Object.keys(errors).length > 0;
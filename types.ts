@@ -6,6 +6,14 @@ export enum TransactionType {
   REPAIR = '維修'
 }
 
+export enum RepairStatus {
+  PENDING = '待送修',
+  SENT = '送修中',
+  REPAIRED = '已完修',
+  INSTALLED = '已上機',
+  SCRAPPED = '報廢'
+}
+
 export interface Transaction {
   id: string;
   date: string;
@@ -23,11 +31,19 @@ export interface Transaction {
   operator: string; // 操作人員
   faultReason?: string; // 故障原因
   isScrapped?: boolean; // 是否報廢
-  isReceived?: boolean; // 是否已拿到料件 (進貨專用)
+  isReceived?: boolean; // 是否已全數到貨 (進貨專用；分批到貨見 Receipt)
+  requisitionId?: string; // 來源請購單號 (由請購單轉出的進貨)
   // 維修專用欄位
   sentDate?: string;    // 送修日期
   repairDate?: string;  // 完修日期
   installDate?: string; // 上機日期
+  repairStatus?: RepairStatus; // 維修狀態 (舊資料由日期欄位推導)
+  vendor?: string;      // 廠商名稱 (進貨供應商 / 維修廠商，對應廠商主檔)
+  // 軟刪除欄位 (回收桶)
+  isDeleted?: boolean;
+  deletedBy?: string;
+  deletedAt?: string;
+  version?: number;     // 後端版本號，每次寫入遞增 (衝突偵測用)
 }
 
 export interface MonthlyStats {
@@ -37,3 +53,176 @@ export interface MonthlyStats {
   repairTotal: number;
   grandTotal: number;
 }
+
+export interface PeriodClose extends MonthlyStats {
+  period: string;           // YYYY-MM
+  status: 'closed' | 'open';
+  closedBy: string;
+  closedAt: string;
+  reopenedBy?: string;
+  reopenedAt?: string;
+  reopenReason?: string;    // 重新開帳原因 (必填)
+}
+
+export interface PeriodLogEntry {
+  timestamp: string;
+  period: string;
+  action: 'close' | 'reopen';
+  operator: string;
+  reason?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  action: 'insert' | 'update' | 'delete' | 'restore' | 'purge' | 'receive';
+  id: string;
+  type: string;
+  operator: string;
+  changes: FieldChange[];
+}
+
+export type UserRole = 'viewer' | 'clerk' | 'approver' | 'admin';
+
+export interface UserAccount {
+  username: string;
+  emoji: string;
+  role: UserRole;
+  active: boolean;
+}
+
+export interface Vendor {
+  name: string;            // 廠商名稱 (唯一鍵，紀錄中以名稱對應)
+  taxId: string;           // 統一編號
+  contact: string;         // 聯絡人 / 電話
+  paymentTerms: string;    // 付款條件，例如「月結 30 天」
+  active: boolean;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type PaymentStatus = 'unpaid' | 'paid';
+
+export interface VendorPayment {
+  period: string;          // YYYY-MM
+  vendor: string;
+  status: PaymentStatus;
+  paidAt?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface Material {
+  pn: string;              // 料號 (唯一鍵)
+  name: string;            // 標準品名
+  unit: string;            // 單位
+  defaultPrice: number;    // 預設單價
+  machineCategory: string; // 適用機台種類
+  minStock: number;        // 最低庫存 (再訂購點)，0 表示未設定
+  maxStock: number;        // 最高庫存 (補貨目標)，0 表示未設定
+  active: boolean;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type MachineStatus = 'active' | 'maintenance' | 'idle' | 'retired';
+
+export interface Machine {
+  id: string;              // 機台編號 (唯一鍵，對應紀錄的 machineNumber)
+  category: string;        // 機台種類
+  location: string;        // 樓層位置
+  commissionedAt: string;  // 啟用日期 YYYY-MM-DD
+  status: MachineStatus;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type BudgetDimension = 'account' | 'machine';
+
+export interface Budget {
+  dimension: BudgetDimension; // account：帳目類別；machine：機台種類
+  category: string;           // 帳目類別 (A/B/C) 或機台種類
+  period: string;             // YYYY-MM 為月預算，YYYY 為年度預算
+  amount: number;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// 報表產生器：分組維度、彙總方式與可彙總的數值欄位
+export type ReportDimension = 'type' | 'accountCategory' | 'machineCategory' | 'machineNumber' | 'operator' | 'month';
+export type ReportAggregateFn = 'count' | 'sum' | 'avg' | 'min' | 'max';
+export type ReportMeasure = 'quantity' | 'unitPrice' | 'total';
+
+export interface ReportAggregate {
+  fn: ReportAggregateFn;
+  field: ReportMeasure;       // count 時忽略
+}
+
+export interface ReportFilters {
+  types: TransactionType[];   // 空陣列表示全部類別
+  dateFrom: string;           // YYYY-MM-DD，空白表示不限
+  dateTo: string;
+  machineCategory: string;
+  accountCategory: string;
+  vendor: string;
+  keyword: string;            // 比對品名、料號、機台編號與備註
+}
+
+export interface ReportDefinition {
+  name: string;               // 報表名稱 (唯一鍵)
+  description: string;
+  filters: ReportFilters;
+  columns: string[];          // 明細欄位，依顯示順序；有分組時改顯示分組與彙總欄
+  groupBy: ReportDimension[];
+  aggregates: ReportAggregate[];
+  createdBy: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export type RequisitionStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'ordered';
+
+export interface RequisitionLine {
+  materialName: string;
+  materialNumber: string;
+  machineCategory: string;
+  accountCategory: string;
+  vendor: string;
+  quantity: number;
+  unitPrice: number;
+  note: string;
+}
+
+export interface Requisition {
+  id: string;
+  requester: string;         // 請購人 (建立者)
+  justification: string;     // 請購理由
+  lines: RequisitionLine[];
+  status: RequisitionStatus;
+  approver: string;          // 核准或退回的人員
+  decidedAt: string;
+  decisionNote: string;      // 核准備註 / 退回原因
+  orderedBy: string;
+  orderedAt: string;
+  transactionIds: string[];  // 轉出的進貨紀錄編號
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReceiptStatus = '未到貨' | '部分到貨' | '已到貨';
+
+// 進貨的一次收貨事件；同一筆進貨可分多次到貨
+export interface Receipt {
+  id: string;
+  recordId: string;          // 對應的進貨紀錄 id
+  date: string;              // 收貨日期 YYYY-MM-DD
+  quantity: number;
+  receiver: string;          // 收貨人 (登記者)
+  note: string;
+  createdAt: string;
+}